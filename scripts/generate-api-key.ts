@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+
+/**
+ * @fileoverview Generates an API key for the `apikey` auth mode and prints the
+ * key once, with the hashed entry to add to the key file or Supabase table.
+ * @module scripts/generate-api-key
+ *   Only the hash is stored by the server, so the printed key cannot be
+ *   recovered later. To rotate a key, generate a new one for the same client,
+ *   deploy it to the caller, then revoke or remove the old entry.
+ *
+ * @example
+ * // Generate a key for an internal service, valid until the end of 2027:
+ * // npm run auth:generate-key -- --client=ingest-service --scopes=trials:read --expires=2027-12-31T23:59:59Z
+ */
+
+import {
+  generateApiKey,
+  hashApiKey,
+} from "../src/mcp-server/transports/auth/lib/apiKeyStore.js";
+
+const args = process.argv.slice(2);
+if (args.includes("--help") || args.length === 0) {
+  console.log(`
+Generate API Key - Create an API key for the 'apikey' auth mode
+
+Usage:
+  ts-node --esm scripts/generate-api-key.ts --client=<clientId> --scopes=<scope,...>
+                                            [--id=<keyId>] [--expires=<ISO 8601>] [--help]
+
+Options:
+  --client=<clientId>  The client ID the key authenticates as
+  --scopes=<list>      Comma-separated scopes the key grants
+  --id=<keyId>         A unique, non-secret name for the key (default: <clientId>-<date>)
+  --expires=<date>     When the key stops being accepted (e.g., 2027-12-31T23:59:59Z)
+  --help               Show this help message
+`);
+  process.exit(args.includes("--help") ? 0 : 1);
+}
+
+/**
+ * Reads the value of a `--name=value` option.
+ */
+const option = (name: string): string | undefined =>
+  args
+    .find((arg) => arg.startsWith(`--${name}=`))
+    ?.slice(name.length + 3)
+    .trim() || undefined;
+
+const clientId = option("client");
+const scopes = (option("scopes") ?? "")
+  .split(",")
+  .map((scope) => scope.trim())
+  .filter(Boolean);
+const expires = option("expires");
+
+if (!clientId || scopes.length === 0) {
+  console.error("Provide --client and at least one scope with --scopes.");
+  process.exit(1);
+}
+if (expires && isNaN(Date.parse(expires))) {
+  console.error(`Invalid --expires value: "${expires}". Use an ISO 8601 date.`);
+  process.exit(1);
+}
+
+const key = generateApiKey();
+const entry = {
+  id:
+    option("id") ??
+    `${clientId}-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}`,
+  clientId,
+  hash: hashApiKey(key),
+  scopes,
+  ...(expires && { expiresAt: new Date(expires).toISOString() }),
+};
+
+const sqlList = (values: string[]) =>
+  values.map((value) => `'${value.replace(/'/g, "''")}'`).join(", ");
+
+console.log(`API key (shown once; give it to the caller):
+
+  ${key}
+
+Entry for the "keys" array of the MCP_API_KEYS_PATH file:
+
+${JSON.stringify(entry, null, 2)}
+
+Or, for MCP_API_KEY_SOURCE=supabase:
+
+  insert into public.api_keys (id, client_id, key_hash, scopes, expires_at)
+  values (${sqlList([entry.id, entry.clientId, entry.hash])}, array[${sqlList(entry.scopes)}], ${
+    entry.expiresAt ? `'${entry.expiresAt}'` : "null"
+  });
+`);
@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+
+/**
+ * @fileoverview Fills the local study warehouse used when a tool's `source` is
+ * "local", from a bulk JSON export or from the live ClinicalTrials.gov API.
+ * @module scripts/ingest-warehouse
+ *   Re-ingesting a study replaces the stored copy, so the command can be re-run
+ *   to refresh the warehouse. The database is the file configured by
+ *   WAREHOUSE_SQLITE_PATH (default: data/warehouse.sqlite).
+ *   Requires Node.js 22.5 or later for the built-in `node:sqlite` module.
+ *
+ * @example
+ * // Ingest the unzipped ClinicalTrials.gov JSON download:
+ * // npm run warehouse:ingest -- --file=./ctg-studies
+ *
+ * @example
+ * // Ingest the recruiting studies of a condition from the API:
+ * // npm run warehouse:ingest -- --cond="heart failure" --status=RECRUITING
+ */
+
+import { config } from "../src/config/index.js";
+import { StudyWarehouse } from "../src/services/warehouse/index.js";
+import {
+  logger,
+  requestContextService,
+  type McpLogLevel,
+} from "../src/utils/index.js";
+
+const args = process.argv.slice(2);
+if (args.includes("--help") || args.length === 0) {
+  console.log(`
+Ingest Warehouse - Fill the local study warehouse for offline search and analysis
+
+Usage:
+  ts-node --esm scripts/ingest-warehouse.ts [--file=<path>] [--cond=<terms>] [--term=<terms>]
+                                            [--status=<STATUS,...>] [--max=<number>] [--stats] [--help]
+
+Options:
+  --file=<path>      Ingest a bulk export: a JSON file (a study, an array of studies, or an API page),
+                     a .jsonl/.ndjson file with one study per line, or a directory of JSON files
+  --cond=<terms>     Ingest the studies of a condition search from the live API
+  --term=<terms>     Ingest the studies of a general search from the live API
+  --status=<list>    Limit an API ingest to these overall statuses (e.g., RECRUITING,COMPLETED)
+  --max=<number>     Stop after this many studies (default: unlimited)
+  --stats            Print the warehouse row counts and exit
+  --help             Show this help message
+
+Database: ${config.warehouse.sqlitePath} (set WAREHOUSE_SQLITE_PATH to change)
+`);
+  process.exit(args.includes("--help") ? 0 : 1);
+}
+
+/**
+ * Reads the value of a `--name=value` option.
+ */
+const option = (name: string): string | undefined =>
+  args
+    .find((arg) => arg.startsWith(`--${name}=`))
+    ?.slice(name.length + 3)
+    .trim() || undefined;
+
+const file = option("file");
+const cond = option("cond");
+const term = option("term");
+const status = option("status");
+const max = option("max");
+const maxStudies = max === undefined ? undefined : parseInt(max, 10);
+
+if (maxStudies !== undefined && (isNaN(maxStudies) || maxStudies < 1)) {
+  console.error(`Invalid --max value: "${max}". Use a positive number.`);
+  process.exit(1);
+}
+if (!args.includes("--stats") && !file && !cond && !term) {
+  console.error("Provide --file, --cond, or --term, or use --stats.");
+  process.exit(1);
+}
+
+const main = async () => {
+  await logger.initialize(config.logLevel as McpLogLevel);
+  const context = requestContextService.createRequestContext({
+    operation: "IngestWarehouse",
+  });
+  const warehouse = await StudyWarehouse.open(config.warehouse.sqlitePath);
+  try {
+    await warehouse.migrate(context);
+    if (file || cond || term) {
+      const onProgress = (ingested: number) => {
+        console.log(`Ingested ${ingested} studies...`);
+      };
+      const result = file
+        ? await warehouse.ingestFromFile(file, context, {
+            maxStudies,
+            onProgress,
+          })
+        : await warehouse.ingestFromApi(
+            {
+              query: { cond, term },
+              ...(status && { filter: { overallStatus: status.split(",") } }),
+            },
+            context,
+            { maxStudies, onProgress },
+          );
+      console.log(
+        `Ingested ${result.ingested} studies (${result.skipped} skipped) from ${result.source}.`,
+      );
+    }
+    console.log(JSON.stringify(await warehouse.getStats(), null, 2));
+  } finally {
+    await warehouse.close();
+  }
+};
+
+main().catch((error) => {
+  console.error(
+    `Ingest failed: ${error instanceof Error ? error.message : String(error)}`,
+  );
+  process.exit(1);
+});
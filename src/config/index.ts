@@ -123,6 +123,8 @@ const EnvSchema = z.object({
     .default(1_800_000),
   /** Optional. Comma-separated allowed origins for CORS (HTTP transport). */
   MCP_ALLOWED_ORIGINS: z.string().optional(),
+  /** Optional. Comma-separated addresses or CIDR ranges of reverse proxies whose `X-Forwarded-For` and `X-Real-IP` headers are trusted (http transport). */
+  MCP_TRUSTED_PROXIES: z.string().optional(),
   /** Optional. Secret key (min 32 chars) for auth tokens (HTTP transport). CRITICAL for production. */
   MCP_AUTH_SECRET_KEY: z
     .string()
@@ -131,8 +133,12 @@ const EnvSchema = z.object({
       "MCP_AUTH_SECRET_KEY must be at least 32 characters long for security reasons.",
     )
     .optional(),
-  /** The authentication mode to use. 'jwt' for internal simple JWTs, 'oauth' for OAuth 2.1, or 'none'. Default: 'none'. */
-  MCP_AUTH_MODE: z.enum(["jwt", "oauth", "none"]).default("none"),
+  /** The authentication mode to use. 'jwt' for internal simple JWTs, 'oauth' for OAuth 2.1, 'apikey' for static API keys, or 'none'. Default: 'none'. */
+  MCP_AUTH_MODE: z.enum(["jwt", "oauth", "apikey", "none"]).default("none"),
+  /** Where API keys are loaded from in 'apikey' mode: a JSON 'file' or the Supabase 'api_keys' table. Default: 'file'. */
+  MCP_API_KEY_SOURCE: z.enum(["file", "supabase"]).default("file"),
+  /** Optional. Path to the JSON file of hashed API keys. Required for the 'file' source. */
+  MCP_API_KEYS_PATH: z.string().optional(),
   /** The expected issuer URL for OAuth 2.1 access tokens. CRITICAL for validation. */
   OAUTH_ISSUER_URL: z.string().url().optional(),
   /** The JWKS (JSON Web Key Set) URI for the OAuth 2.1 provider. If not provided, it's often discoverable from the issuer URL. */
@@ -144,6 +150,12 @@ const EnvSchema = z.object({
   DEV_MCP_CLIENT_ID: z.string().optional(),
   /** Optional. Comma-separated scopes for development mode JWT strategy. Default: "dev-scope". */
   DEV_MCP_SCOPES: z.string().optional(),
+  /** Optional. Inline JSON scope policy mapping tools and resources to required scopes. Takes precedence over `MCP_SCOPE_POLICY_PATH`. */
+  MCP_SCOPE_POLICY: z.string().optional(),
+  /** Optional. Path to a JSON scope policy file. */
+  MCP_SCOPE_POLICY_PATH: z.string().optional(),
+  /** The token scope required for the `/admin` HTTP API. Default: 'admin'. */
+  MCP_ADMIN_SCOPE: z.string().min(1).default("admin"),
 
   /** Optional. Application URL for OpenRouter integration. */
   OPENROUTER_APP_URL: z
@@ -205,8 +217,135 @@ const EnvSchema = z.object({
   SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
   /** Directory for caching ClinicalTrials.gov API data. Defaults to "data" in project root. */
   CLINICALTRIALS_DATA_PATH: z.string().default(path.join(projectRoot, "data")),
-  /** Maximum number of studies to fetch for analysis. Default: 5000. */
-  MAX_STUDIES_FOR_ANALYSIS: z.coerce.number().int().positive().default(5000),
+  /** Maximum number of studies aggregated in a single analysis. Default: 50000. */
+  MAX_STUDIES_FOR_ANALYSIS: z.coerce.number().int().positive().default(50000),
+  /** API response cache mode ('off', 'readthrough', 'offline'). Default: 'readthrough'. */
+  CLINICALTRIALS_CACHE_MODE: z
+    .enum(["off", "readthrough", "offline"])
+    .default("readthrough"),
+  /** Maximum number of API responses held in the in-memory LRU cache. Default: 500. */
+  CLINICALTRIALS_CACHE_MAX_ENTRIES: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(500),
+  /** TTL in ms for cached single-study responses. Default: 3600000 (1 hour). */
+  CLINICALTRIALS_CACHE_TTL_STUDY_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(3_600_000),
+  /** TTL in ms for cached study search responses. Default: 900000 (15 minutes). */
+  CLINICALTRIALS_CACHE_TTL_SEARCH_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(900_000),
+  /** TTL in ms for cached study metadata responses. Default: 86400000 (24 hours). */
+  CLINICALTRIALS_CACHE_TTL_METADATA_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(86_400_000),
+  /** TTL in ms for cached statistics responses. Default: 3600000 (1 hour). */
+  CLINICALTRIALS_CACHE_TTL_STATS_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(3_600_000),
+  /** Total attempts (including the first) for idempotent ClinicalTrials.gov requests. Default: 4. */
+  CLINICALTRIALS_RETRY_MAX_ATTEMPTS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(4),
+  /** Base delay in ms for jittered exponential backoff between retries. Default: 500. */
+  CLINICALTRIALS_RETRY_BASE_DELAY_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(500),
+  /** Maximum delay in ms for a single retry, including `Retry-After` values. Default: 30000. */
+  CLINICALTRIALS_RETRY_MAX_DELAY_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(30_000),
+  /** Consecutive failed requests that open the ClinicalTrials.gov circuit breaker. Default: 5. */
+  CLINICALTRIALS_CIRCUIT_FAILURE_THRESHOLD: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(5),
+  /** Time in ms the circuit stays open before a trial request is allowed. Default: 30000. */
+  CLINICALTRIALS_CIRCUIT_RESET_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(30_000),
+  /** Total delivery attempts (including the first) for each webhook event. Default: 5. */
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  /** Base delay in ms for jittered exponential backoff between webhook retries. Default: 1000. */
+  WEBHOOK_RETRY_BASE_DELAY_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(1_000),
+  /** Maximum delay in ms for a single webhook retry, including `Retry-After` values. Default: 60000. */
+  WEBHOOK_RETRY_MAX_DELAY_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(60_000),
+  /** Timeout in ms for a single webhook delivery attempt. Default: 10000. */
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+  /** Optional. Comma-separated hosts that webhooks may target. When set, only these hosts are allowed and they may resolve to private addresses; otherwise any host resolving to public addresses is allowed. */
+  WEBHOOK_ALLOWED_HOSTS: z.string().optional(),
+  /** Minimum time in minutes between two scheduled re-runs of a saved search. Default: 15. */
+  SAVED_SEARCH_MIN_INTERVAL_MINUTES: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(15),
+  /** Maximum number of saved searches per owner. Default: 20. */
+  SAVED_SEARCH_MAX_PER_OWNER: z.coerce.number().int().positive().default(20),
+  /** Storage backend for saved searches, annotations, and analysis results ("memory", "sqlite", or "supabase"). Default: "memory". */
+  STORAGE_BACKEND: z.enum(["memory", "sqlite", "supabase"]).default("memory"),
+  /** Optional. SQLite database file for the "sqlite" storage backend. Defaults to "persistence.sqlite" in the data directory. */
+  STORAGE_SQLITE_PATH: z.string().optional(),
+  /** Optional. SQLite database file of the local study warehouse. Defaults to "warehouse.sqlite" in the data directory. */
+  WAREHOUSE_SQLITE_PATH: z.string().optional(),
+  /** Whether the HTTP transport serves Prometheus metrics at `/metrics` and tool calls are instrumented ("true" or "false"). With authentication enabled, `/metrics` requires the admin scope. Default: "false". */
+  METRICS_ENABLED: z.enum(["true", "false"]).default("false"),
+  /** Where HTTP rate limit counters are kept ("memory", or "supabase" to share them across replicas). Default: "memory". */
+  RATE_LIMIT_STORE: z.enum(["memory", "supabase"]).default("memory"),
+  /** Length in ms of the per-identity rate limit window. Default: 60000. */
+  RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
+  /** Total request cost each identity may spend per window. Default: 100. */
+  RATE_LIMIT_WINDOW_LIMIT: z.coerce.number().int().positive().default(100),
+  /** Failed authentication attempts each IP address may make per window, when authentication is enabled. 0 disables the limit. Default: 30. */
+  RATE_LIMIT_IP_WINDOW_LIMIT: z.coerce.number().int().nonnegative().default(30),
+  /** Total request cost each identity may spend per UTC day. 0 disables the quota. Default: 0. */
+  RATE_LIMIT_DAILY_QUOTA: z.coerce.number().int().nonnegative().default(0),
+  /** Optional. JSON object of per-tool call costs (e.g. {"clinicaltrials_analyze_trends":25}), merged over the defaults. */
+  RATE_LIMIT_TOOL_COSTS: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return {};
+      try {
+        return z
+          .record(z.number().int().nonnegative())
+          .parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            "RATE_LIMIT_TOOL_COSTS must be a JSON object of tool names to non-negative integer costs.",
+        });
+        return z.NEVER;
+      }
+    }),
 });
 
 const parsedEnv = EnvSchema.safeParse(process.env);
@@ -391,10 +530,20 @@ export const config = {
   mcpAllowedOrigins: env.MCP_ALLOWED_ORIGINS?.split(",")
     .map((origin) => origin.trim())
     .filter(Boolean),
+  /** Trusted reverse proxies (http transport). From `MCP_TRUSTED_PROXIES` (comma-separated). */
+  mcpTrustedProxies: env.MCP_TRUSTED_PROXIES?.split(",")
+    .map((proxy) => proxy.trim())
+    .filter(Boolean),
   /** Auth secret key (JWTs, http transport). From `MCP_AUTH_SECRET_KEY`. CRITICAL. */
   mcpAuthSecretKey: env.MCP_AUTH_SECRET_KEY,
-  /** The authentication mode ('jwt' or 'oauth'). From `MCP_AUTH_MODE`. */
+  /** The authentication mode ('jwt', 'oauth', 'apikey', or 'none'). From `MCP_AUTH_MODE`. */
   mcpAuthMode: env.MCP_AUTH_MODE,
+  /** Where API keys are loaded from. From `MCP_API_KEY_SOURCE`. */
+  mcpApiKeySource: env.MCP_API_KEY_SOURCE,
+  /** Resolved path of the API key file. From `MCP_API_KEYS_PATH`. */
+  mcpApiKeysPath: env.MCP_API_KEYS_PATH
+    ? path.resolve(env.MCP_API_KEYS_PATH)
+    : undefined,
   /** OAuth 2.1 Issuer URL. From `OAUTH_ISSUER_URL`. */
   oauthIssuerUrl: env.OAUTH_ISSUER_URL,
   /** OAuth 2.1 JWKS URI. From `OAUTH_JWKS_URI`. */
@@ -405,6 +554,14 @@ export const config = {
   devMcpClientId: env.DEV_MCP_CLIENT_ID,
   /** Development mode scopes. From `DEV_MCP_SCOPES`. */
   devMcpScopes: env.DEV_MCP_SCOPES?.split(",").map((s) => s.trim()),
+  /** Inline JSON scope policy. From `MCP_SCOPE_POLICY`. */
+  mcpScopePolicy: env.MCP_SCOPE_POLICY,
+  /** Resolved path of the scope policy file. From `MCP_SCOPE_POLICY_PATH`. */
+  mcpScopePolicyPath: env.MCP_SCOPE_POLICY_PATH
+    ? path.resolve(env.MCP_SCOPE_POLICY_PATH)
+    : undefined,
+  /** The token scope required for the admin API. From `MCP_ADMIN_SCOPE`. Default: "admin". */
+  mcpAdminScope: env.MCP_ADMIN_SCOPE,
   /** OpenRouter App URL. From `OPENROUTER_APP_URL`. Default: "http://localhost:3000". */
   openrouterAppUrl: env.OPENROUTER_APP_URL || "http://localhost:3000",
   /** OpenRouter App Name. From `OPENROUTER_APP_NAME`. Defaults to `mcpServerName`. */
@@ -457,8 +614,80 @@ export const config = {
 
   /** Absolute path to the ClinicalTrials.gov data directory. From `CLINICALTRIALS_DATA_PATH` env var. */
   clinicalTrialsDataPath: validatedDataPath,
-  /** Maximum number of studies to fetch for analysis. From `MAX_STUDIES_FOR_ANALYSIS` env var. */
+  /** Maximum number of studies aggregated in a single analysis. From `MAX_STUDIES_FOR_ANALYSIS` env var. */
   maxStudiesForAnalysis: env.MAX_STUDIES_FOR_ANALYSIS,
+  /** ClinicalTrials.gov API response cache settings. From `CLINICALTRIALS_CACHE_*` env vars. */
+  clinicalTrialsCache: {
+    /** Cache mode. 'offline' serves only previously captured responses. */
+    mode: env.CLINICALTRIALS_CACHE_MODE,
+    /** Maximum number of entries in the in-memory LRU. */
+    maxEntries: env.CLINICALTRIALS_CACHE_MAX_ENTRIES,
+    /** Per-endpoint time-to-live values in milliseconds. */
+    ttlMs: {
+      study: env.CLINICALTRIALS_CACHE_TTL_STUDY_MS,
+      search: env.CLINICALTRIALS_CACHE_TTL_SEARCH_MS,
+      metadata: env.CLINICALTRIALS_CACHE_TTL_METADATA_MS,
+      stats: env.CLINICALTRIALS_CACHE_TTL_STATS_MS,
+    },
+  },
+  /** Retry policy for idempotent ClinicalTrials.gov requests. From `CLINICALTRIALS_RETRY_*` env vars. */
+  clinicalTrialsRetry: {
+    maxAttempts: env.CLINICALTRIALS_RETRY_MAX_ATTEMPTS,
+    baseDelayMs: env.CLINICALTRIALS_RETRY_BASE_DELAY_MS,
+    maxDelayMs: env.CLINICALTRIALS_RETRY_MAX_DELAY_MS,
+  },
+  /** Circuit breaker for the ClinicalTrials.gov API. From `CLINICALTRIALS_CIRCUIT_*` env vars. */
+  clinicalTrialsCircuitBreaker: {
+    failureThreshold: env.CLINICALTRIALS_CIRCUIT_FAILURE_THRESHOLD,
+    resetTimeoutMs: env.CLINICALTRIALS_CIRCUIT_RESET_MS,
+  },
+  /** Delivery policy for saved search webhooks. From `WEBHOOK_*` env vars. */
+  webhooks: {
+    maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+    baseDelayMs: env.WEBHOOK_RETRY_BASE_DELAY_MS,
+    maxDelayMs: env.WEBHOOK_RETRY_MAX_DELAY_MS,
+    timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+    allowedHosts: env.WEBHOOK_ALLOWED_HOSTS?.split(",")
+      .map((host) => host.trim())
+      .filter(Boolean),
+  },
+  /** Limits on saved searches. From `SAVED_SEARCH_*` env vars. */
+  savedSearches: {
+    minIntervalMinutes: env.SAVED_SEARCH_MIN_INTERVAL_MINUTES,
+    maxPerOwner: env.SAVED_SEARCH_MAX_PER_OWNER,
+  },
+  /** Storage for saved searches, annotations, and analysis results. From `STORAGE_*` env vars. */
+  storage: {
+    backend: env.STORAGE_BACKEND,
+    sqlitePath: path.resolve(
+      env.STORAGE_SQLITE_PATH ??
+        path.join(
+          validatedDataPath ?? path.join(projectRoot, "data"),
+          "persistence.sqlite",
+        ),
+    ),
+  },
+  /** Per-identity rate limits and quotas on the HTTP transport. From `RATE_LIMIT_*` env vars. */
+  rateLimit: {
+    store: env.RATE_LIMIT_STORE,
+    windowMs: env.RATE_LIMIT_WINDOW_MS,
+    windowLimit: env.RATE_LIMIT_WINDOW_LIMIT,
+    ipWindowLimit: env.RATE_LIMIT_IP_WINDOW_LIMIT,
+    dailyQuota: env.RATE_LIMIT_DAILY_QUOTA,
+    toolCosts: env.RATE_LIMIT_TOOL_COSTS,
+  },
+  /** Whether `/metrics` is served and tool calls are instrumented. From `METRICS_ENABLED`. Default: false. */
+  metricsEnabled: env.METRICS_ENABLED === "true",
+  /** The local study warehouse searched when a tool's `source` is "local". From `WAREHOUSE_*` env vars. */
+  warehouse: {
+    sqlitePath: path.resolve(
+      env.WAREHOUSE_SQLITE_PATH ??
+        path.join(
+          validatedDataPath ?? path.join(projectRoot, "data"),
+          "warehouse.sqlite",
+        ),
+    ),
+  },
 };
 
 /**
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `compare_interventions` prompt.
+ * @module src/mcp-server/prompts/compareInterventions/index
+ */
+export { registerCompareInterventionsPrompt } from "./registration.js";
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Defines the arguments and message template for the `compare_interventions` prompt.
+ * @module src/mcp-server/prompts/compareInterventions/logic
+ */
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+/**
+ * Zod schema for the arguments of the `compare_interventions` prompt.
+ * Prompt arguments are always strings.
+ */
+export const CompareInterventionsArgsSchema = z.object({
+  condition: z
+    .string()
+    .min(1)
+    .describe("The condition or disease to compare interventions for."),
+  interventions: z
+    .string()
+    .min(1)
+    .describe(
+      "A comma-separated list of two or more interventions (e.g., 'semaglutide, tirzepatide').",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the arguments schema.
+ */
+export type CompareInterventionsArgs = z.infer<
+  typeof CompareInterventionsArgsSchema
+>;
+
+/**
+ * Builds the `compare_interventions` prompt messages.
+ * @param args - The validated prompt arguments.
+ * @returns The prompt result with a single user message.
+ */
+export function buildCompareInterventionsPrompt(
+  args: CompareInterventionsArgs,
+): GetPromptResult {
+  const interventions = args.interventions
+    .split(",")
+    .map((i) => i.trim())
+    .filter(Boolean);
+  const interventionList = interventions.map((i) => `- ${i}`).join("\n");
+
+  const text = `Compare the clinical trial evidence for the following interventions in ${args.condition}:
+${interventionList}
+
+Steps, for each intervention:
+1. Call \`clinicaltrials_analyze_trends\` with \`query.cond\` set to "${args.condition}", \`query.intr\` set to the intervention, and \`analysisType\` set to ["countByPhase", "countByStatus", "countBySponsorType"].
+2. Call \`clinicaltrials_search_studies\` with the same \`query\`, \`filter.advanced\` set to "AREA[Phase](PHASE3 OR PHASE4)", and \`pageSize\` of 10 to find the most mature trials. If there are none, drop the filter.
+
+Then respond with:
+- A markdown table with one row per intervention and the columns: Total trials, Phase 3/4 trials, Recruiting, Completed, Terminated or withdrawn, and Industry share.
+- The key late-stage trials for each intervention (NCT ID, title, status, enrollment).
+- Any head-to-head trials that study more than one of the interventions.
+- A short, neutral summary of how the development programs differ. Describe the trial landscape only; do not draw conclusions about efficacy or safety.`;
+
+  return {
+    description: `Compare ${interventions.join(" vs. ")} in ${args.condition}`,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Handles registration of the `compare_interventions` prompt.
+ * @module src/mcp-server/prompts/compareInterventions/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "../../../utils/index.js";
+import {
+  buildCompareInterventionsPrompt,
+  CompareInterventionsArgsSchema,
+} from "./logic.js";
+
+/**
+ * Registers the 'compare_interventions' prompt with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerCompareInterventionsPrompt = async (
+  server: McpServer,
+): Promise<void> => {
+  const promptName = "compare_interventions";
+
+  server.registerPrompt(
+    promptName,
+    {
+      title: "Compare Interventions for a Condition",
+      description:
+        "Compares the trial landscape (phases, statuses, sponsors, key trials) of several interventions for one condition.",
+      argsSchema: CompareInterventionsArgsSchema.shape,
+    },
+    (args) => buildCompareInterventionsPrompt(args),
+  );
+  logger.info(`Prompt '${promptName}' registered successfully.`);
+};
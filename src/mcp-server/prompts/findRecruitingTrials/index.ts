@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `find_recruiting_trials` prompt.
+ * @module src/mcp-server/prompts/findRecruitingTrials/index
+ */
+export { registerFindRecruitingTrialsPrompt } from "./registration.js";
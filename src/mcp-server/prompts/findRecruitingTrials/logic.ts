@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Defines the arguments and message template for the `find_recruiting_trials` prompt.
+ * @module src/mcp-server/prompts/findRecruitingTrials/logic
+ */
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+/**
+ * Zod schema for the arguments of the `find_recruiting_trials` prompt.
+ * Prompt arguments are always strings.
+ */
+export const FindRecruitingTrialsArgsSchema = z.object({
+  condition: z
+    .string()
+    .min(1)
+    .describe("The patient's condition or disease (e.g., 'type 2 diabetes')."),
+  age: z
+    .string()
+    .optional()
+    .describe("The patient's age in years (e.g., '54')."),
+  sex: z.string().optional().describe("The patient's sex: 'female' or 'male'."),
+  location: z
+    .string()
+    .optional()
+    .describe(
+      "Where the patient can travel to (e.g., 'Boston, MA' or 'Germany').",
+    ),
+  profile: z
+    .string()
+    .optional()
+    .describe(
+      "Other relevant details, such as prior treatments, biomarkers, or comorbidities.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the arguments schema.
+ */
+export type FindRecruitingTrialsArgs = z.infer<
+  typeof FindRecruitingTrialsArgsSchema
+>;
+
+/**
+ * Builds the `find_recruiting_trials` prompt messages.
+ * @param args - The validated prompt arguments.
+ * @returns The prompt result with a single user message.
+ */
+export function buildFindRecruitingTrialsPrompt(
+  args: FindRecruitingTrialsArgs,
+): GetPromptResult {
+  const advancedFilters: string[] = [];
+  const sex = args.sex?.trim().toUpperCase();
+  if (sex === "FEMALE" || sex === "MALE") {
+    advancedFilters.push(`AREA[Sex](${sex} OR ALL)`);
+  }
+  const age = Number.parseInt(args.age ?? "", 10);
+  if (Number.isFinite(age)) {
+    advancedFilters.push(
+      `AREA[MinimumAge]RANGE[MIN, ${age} years] AND AREA[MaximumAge]RANGE[${age} years, MAX]`,
+    );
+  }
+
+  const profileLines = [
+    `- Condition: ${args.condition}`,
+    args.age && `- Age: ${args.age}`,
+    args.sex && `- Sex: ${args.sex}`,
+    args.location && `- Location: ${args.location}`,
+    args.profile && `- Other details: ${args.profile}`,
+  ].filter(Boolean);
+
+  const searchArgs = [
+    `\`query.cond\` set to "${args.condition}"`,
+    args.location && `\`query.locn\` set to "${args.location}"`,
+    '`filter.overallStatus` set to ["RECRUITING", "NOT_YET_RECRUITING"]',
+    advancedFilters.length > 0 &&
+      `\`filter.advanced\` set to "${advancedFilters.join(" AND ")}"`,
+    "`pageSize` of 25",
+  ].filter(Boolean);
+
+  const text = `Find clinical trials that are currently recruiting and that this patient may be eligible for.
+
+Patient profile:
+${profileLines.join("\n")}
+
+Steps:
+1. Call \`clinicaltrials_search_studies\` with ${searchArgs.join(", ")}. If there are fewer than 5 results, retry without \`filter.advanced\`, then with a broader condition term.
+2. For the most relevant candidates (up to 10), call \`clinicaltrials_get_study\` with their NCT IDs and read the eligibility criteria in \`protocolSection.eligibilityModule\`.
+3. Compare each study's inclusion and exclusion criteria against the patient profile. Do not assume facts that are not in the profile; list them as open questions instead.
+
+Respond with a markdown table with the columns: NCT ID, Title, Phase, Nearest site, Likely eligible (Yes / No / Unclear), and Reason. Follow it with the open questions a clinician should confirm with the patient. This is decision support for a clinician, not medical advice.`;
+
+  return {
+    description: `Recruiting trials for ${args.condition}`,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
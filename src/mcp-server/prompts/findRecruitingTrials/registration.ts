@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Handles registration of the `find_recruiting_trials` prompt.
+ * @module src/mcp-server/prompts/findRecruitingTrials/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "../../../utils/index.js";
+import {
+  buildFindRecruitingTrialsPrompt,
+  FindRecruitingTrialsArgsSchema,
+} from "./logic.js";
+
+/**
+ * Registers the 'find_recruiting_trials' prompt with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerFindRecruitingTrialsPrompt = async (
+  server: McpServer,
+): Promise<void> => {
+  const promptName = "find_recruiting_trials";
+
+  server.registerPrompt(
+    promptName,
+    {
+      title: "Find Recruiting Trials for a Patient",
+      description:
+        "Searches for recruiting trials matching a patient profile and screens their eligibility criteria.",
+      argsSchema: FindRecruitingTrialsArgsSchema.shape,
+    },
+    (args) => buildFindRecruitingTrialsPrompt(args),
+  );
+  logger.info(`Prompt '${promptName}' registered successfully.`);
+};
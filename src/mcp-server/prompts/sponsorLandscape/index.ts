@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `sponsor_landscape` prompt.
+ * @module src/mcp-server/prompts/sponsorLandscape/index
+ */
+export { registerSponsorLandscapePrompt } from "./registration.js";
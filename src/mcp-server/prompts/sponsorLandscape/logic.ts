@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Defines the arguments and message template for the `sponsor_landscape` prompt.
+ * @module src/mcp-server/prompts/sponsorLandscape/logic
+ */
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+/**
+ * Zod schema for the arguments of the `sponsor_landscape` prompt.
+ * Prompt arguments are always strings.
+ */
+export const SponsorLandscapeArgsSchema = z.object({
+  sponsor: z
+    .string()
+    .min(1)
+    .describe("The sponsor or collaborator name (e.g., 'Pfizer')."),
+  condition: z
+    .string()
+    .optional()
+    .describe("An optional condition to narrow the landscape to."),
+});
+
+/**
+ * TypeScript type inferred from the arguments schema.
+ */
+export type SponsorLandscapeArgs = z.infer<typeof SponsorLandscapeArgsSchema>;
+
+/**
+ * Builds the `sponsor_landscape` prompt messages.
+ * @param args - The validated prompt arguments.
+ * @returns The prompt result with a single user message.
+ */
+export function buildSponsorLandscapePrompt(
+  args: SponsorLandscapeArgs,
+): GetPromptResult {
+  const scope = args.condition
+    ? `${args.sponsor} in ${args.condition}`
+    : args.sponsor;
+  const query = args.condition
+    ? `\`query.spons\` set to "${args.sponsor}" and \`query.cond\` set to "${args.condition}"`
+    : `\`query.spons\` set to "${args.sponsor}"`;
+
+  const text = `Summarize the clinical trial landscape for ${scope}.
+
+Steps:
+1. Call \`clinicaltrials_analyze_trends\` with ${query} and \`analysisType\` set to ["countByStatus", "countByPhase", "countByCountry"].
+2. Call \`clinicaltrials_search_studies\` with the same \`query\`, \`filter.overallStatus\` set to ["RECRUITING", "ACTIVE_NOT_RECRUITING", "NOT_YET_RECRUITING"], \`sort\` set to ["LastUpdatePostDate:desc"], and \`pageSize\` of 20 to find the active portfolio.
+
+Then respond with:
+- Portfolio size and the breakdown by status and phase, as markdown tables.
+- The top 5 countries by number of trials.
+- The active trials grouped by condition or therapeutic area, with NCT ID, title, phase, and status.
+- Notable patterns, such as a concentration in one phase or a high share of terminated or withdrawn trials.`;
+
+  return {
+    description: `Trial landscape for ${scope}`,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Handles registration of the `sponsor_landscape` prompt.
+ * @module src/mcp-server/prompts/sponsorLandscape/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "../../../utils/index.js";
+import {
+  buildSponsorLandscapePrompt,
+  SponsorLandscapeArgsSchema,
+} from "./logic.js";
+
+/**
+ * Registers the 'sponsor_landscape' prompt with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerSponsorLandscapePrompt = async (
+  server: McpServer,
+): Promise<void> => {
+  const promptName = "sponsor_landscape";
+
+  server.registerPrompt(
+    promptName,
+    {
+      title: "Summarize a Sponsor's Trial Landscape",
+      description:
+        "Summarizes a sponsor's clinical trial portfolio by status, phase, and country, and lists its active trials.",
+      argsSchema: SponsorLandscapeArgsSchema.shape,
+    },
+    (args) => buildSponsorLandscapePrompt(args),
+  );
+  logger.info(`Prompt '${promptName}' registered successfully.`);
+};
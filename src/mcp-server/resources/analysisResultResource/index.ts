@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials://analysis/{resultId}` resource.
+ * @module src/mcp-server/resources/analysisResultResource/index
+ */
+export { buildAnalysisResultUri } from "./logic.js";
+export { registerAnalysisResultResources } from "./registration.js";
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Defines the core logic for the `clinicaltrials://analysis/{resultId}` resource.
+ * @module src/mcp-server/resources/analysisResultResource/logic
+ */
+import { getPersistence } from "../../../services/persistence/index.js";
+import type { AnalysisResultRecord } from "../../../services/persistence/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * The maximum number of stored results listed by the resource template.
+ */
+export const MAX_LISTED_ANALYSIS_RESULTS = 50;
+
+/**
+ * Builds the resource URI of a stored analysis result.
+ * @param resultId - The ID of the stored result.
+ * @returns The resource URI.
+ */
+export function buildAnalysisResultUri(resultId: string): string {
+  return `clinicaltrials://analysis/${resultId}`;
+}
+
+/**
+ * Reads a stored analysis result.
+ *
+ * @param resultId - The result ID from the resource URI.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the stored result, with the parameters it was run with.
+ * @throws {McpError} If the result does not exist.
+ */
+export async function readAnalysisResultLogic(
+  resultId: string,
+  context: RequestContext,
+): Promise<AnalysisResultRecord> {
+  logger.debug(`Reading stored analysis result ${resultId}`, context);
+
+  const record = await getPersistence().analysisResults.get(resultId);
+  if (!record) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Analysis result '${resultId}' was not found.`,
+      { resultId },
+    );
+  }
+  return record;
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Handles registration of the `clinicaltrials://analysis/{resultId}`
+ * resource template, which serves the analysis results stored by
+ * `clinicaltrials_analyze_trends` with `saveResult`.
+ * @module src/mcp-server/resources/analysisResultResource/registration
+ */
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getPersistence } from "../../../services/persistence/index.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  buildAnalysisResultUri,
+  MAX_LISTED_ANALYSIS_RESULTS,
+  readAnalysisResultLogic,
+} from "./logic.js";
+
+const RESOURCE_NAME = "clinicaltrials-analysis-result";
+
+/**
+ * Registers the stored analysis result resource template with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerAnalysisResultResources = async (
+  server: McpServer,
+): Promise<void> => {
+  const template = new ResourceTemplate(buildAnalysisResultUri("{resultId}"), {
+    list: async () => {
+      const records = await getPersistence().analysisResults.list({
+        limit: MAX_LISTED_ANALYSIS_RESULTS,
+      });
+      return {
+        resources: records.map((record) => ({
+          uri: buildAnalysisResultUri(record.id),
+          name: `${record.analysisType} (${record.createdAt})`,
+          mimeType: "application/json",
+        })),
+      };
+    },
+  });
+
+  server.registerResource(
+    RESOURCE_NAME,
+    template,
+    {
+      title: "Stored Analysis Result",
+      description:
+        "An analysis result stored by 'clinicaltrials_analyze_trends' with 'saveResult', together with the parameters it was run with.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        resourceName: RESOURCE_NAME,
+        resourceUri: uri.href,
+        parentContext: callContext,
+      });
+
+      try {
+        const record = await readAnalysisResultLogic(
+          String(variables.resultId),
+          handlerContext,
+        );
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "application/json",
+              text: JSON.stringify(record, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error reading resource ${uri.href}`, {
+          error,
+          ...handlerContext,
+        });
+        throw ErrorHandler.handleError(error, {
+          operation: RESOURCE_NAME,
+          context: handlerContext,
+          input: { uri: uri.href },
+        }) as McpError;
+      }
+    },
+  );
+
+  logger.info(`Resource '${RESOURCE_NAME}' registered successfully.`);
+};
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials://saved-search/{searchId}/changes` resource.
+ * @module src/mcp-server/resources/savedSearchResource/index
+ */
+export { buildSavedSearchChangesUri } from "./logic.js";
+export { registerSavedSearchResources } from "./registration.js";
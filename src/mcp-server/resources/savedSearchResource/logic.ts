@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Defines the core logic for the `clinicaltrials://saved-search/{searchId}/changes` resource.
+ * @module src/mcp-server/resources/savedSearchResource/logic
+ */
+import { SavedSearchService } from "../../../services/savedSearches/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * The maximum number of changes included when reading the resource.
+ */
+export const MAX_RESOURCE_CHANGES = 100;
+
+/**
+ * Builds the change feed resource URI of a saved search.
+ * @param searchId - The ID of the saved search.
+ * @returns The resource URI.
+ */
+export function buildSavedSearchChangesUri(searchId: string): string {
+  return `clinicaltrials://saved-search/${searchId}/changes`;
+}
+
+/**
+ * Reads a saved search and its most recent changes.
+ *
+ * @param searchId - The saved search ID from the resource URI.
+ * @param context - The request context for logging and tracing.
+ * @returns The saved search and its changes, most recent first.
+ * @throws {McpError} If the saved search does not exist.
+ */
+export function readSavedSearchChangesLogic(
+  searchId: string,
+  context: RequestContext,
+): Record<string, unknown> {
+  logger.debug(`Reading change feed of saved search ${searchId}`, context);
+
+  const service = SavedSearchService.getInstance();
+  const owner = getCurrentAuthor();
+  const search = service.get(searchId, owner);
+  if (!search || search.id !== searchId) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Saved search '${searchId}' was not found.`,
+      { searchId },
+    );
+  }
+
+  return {
+    search,
+    changes: service.getChanges({
+      ...(owner && { owner }),
+      searchId,
+      limit: MAX_RESOURCE_CHANGES,
+    }),
+  };
+}
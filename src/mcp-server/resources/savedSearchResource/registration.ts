@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Handles registration of the `clinicaltrials://saved-search/{searchId}/changes`
+ * resource template, and sends `notifications/resources/updated` to subscribed
+ * clients whenever a scheduled re-run of the saved search detects changes.
+ * @module src/mcp-server/resources/savedSearchResource/registration
+ */
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SavedSearchService } from "../../../services/savedSearches/index.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+import { isSubscribed } from "../subscriptions.js";
+import {
+  buildSavedSearchChangesUri,
+  readSavedSearchChangesLogic,
+} from "./logic.js";
+
+const RESOURCE_NAME = "clinicaltrials-saved-search-changes";
+
+/**
+ * Registers the saved search change feed resource template with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerSavedSearchResources = async (
+  server: McpServer,
+): Promise<void> => {
+  const service = SavedSearchService.getInstance();
+
+  const template = new ResourceTemplate(
+    buildSavedSearchChangesUri("{searchId}"),
+    {
+      list: async () => ({
+        resources: service.list(getCurrentAuthor()).map((search) => ({
+          uri: buildSavedSearchChangesUri(search.id),
+          name: `${search.name} changes`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        searchId: (value) =>
+          service
+            .list(getCurrentAuthor())
+            .map((search) => search.id)
+            .filter((id) => id.startsWith(value)),
+      },
+    },
+  );
+
+  server.registerResource(
+    RESOURCE_NAME,
+    template,
+    {
+      title: "Saved Search Changes",
+      description:
+        "The new, removed, and status-changed studies detected by the scheduled re-runs of a saved search. Subscribe to be notified when changes are detected.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        resourceName: RESOURCE_NAME,
+        resourceUri: uri.href,
+        parentContext: callContext,
+      });
+
+      try {
+        const data = readSavedSearchChangesLogic(
+          String(variables.searchId),
+          handlerContext,
+        );
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "application/json",
+              text: JSON.stringify(data, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error reading resource ${uri.href}`, {
+          error,
+          ...handlerContext,
+        });
+        throw ErrorHandler.handleError(error, {
+          operation: RESOURCE_NAME,
+          context: handlerContext,
+          input: { uri: uri.href },
+        }) as McpError;
+      }
+    },
+  );
+
+  // Sessions are only notified of changes to their owner's searches. Called
+  // when the server instance is created, within the session's auth context.
+  const sessionOwner = getCurrentAuthor();
+  const removeListener = service.onChange(async (search) => {
+    if (search.owner !== sessionOwner) return;
+    const uri = buildSavedSearchChangesUri(search.id);
+    if (isSubscribed(server, uri)) {
+      await server.server.sendResourceUpdated({ uri });
+    }
+  });
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    previousOnClose?.();
+  };
+
+  logger.info(`Resource '${RESOURCE_NAME}' registered successfully.`);
+};
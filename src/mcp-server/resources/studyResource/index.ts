@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials://study/{nctId}` resources.
+ * @module src/mcp-server/resources/studyResource/index
+ */
+export { registerStudyResources } from "./registration.js";
+export { getTrackedStudyIds, trackStudyIds } from "./studyIdTracker.js";
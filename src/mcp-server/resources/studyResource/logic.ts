@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Defines the core logic and views for the `clinicaltrials://study/{nctId}` resources.
+ * @module src/mcp-server/resources/studyResource/logic
+ */
+import { z } from "zod";
+import { ClinicalTrialsGovService } from "../../../services/clinical-trials-gov/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * The views of a study that are exposed as resources.
+ * - `full`: The complete study record.
+ * - `eligibility`: The eligibility criteria, sex, and age limits.
+ * - `locations`: The study sites and central contacts.
+ * - `results`: The posted results section.
+ */
+export const StudyResourceViewSchema = z.enum([
+  "full",
+  "eligibility",
+  "locations",
+  "results",
+]);
+
+/**
+ * A view of a study exposed as a resource.
+ */
+export type StudyResourceView = z.infer<typeof StudyResourceViewSchema>;
+
+/**
+ * Builds the resource URI for a study view.
+ * @param nctId - The NCT ID of the study.
+ * @param view - The study view.
+ * @returns The resource URI.
+ */
+export function buildStudyResourceUri(
+  nctId: string,
+  view: StudyResourceView = "full",
+): string {
+  const base = `clinicaltrials://study/${nctId}`;
+  return view === "full" ? base : `${base}/${view}`;
+}
+
+/**
+ * Fetches a study and extracts the requested view.
+ *
+ * @param nctId - The NCT ID from the resource URI.
+ * @param view - The study view to return.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the JSON-serializable view data.
+ * @throws {McpError} If the NCT ID is invalid, the study is not found, or the view has no data.
+ */
+export async function readStudyResourceLogic(
+  nctId: string,
+  view: StudyResourceView,
+  context: RequestContext,
+): Promise<Record<string, unknown>> {
+  if (!/^NCT\d{8}$/i.test(nctId)) {
+    throw new McpError(
+      BaseErrorCode.INVALID_INPUT,
+      `Invalid NCT ID '${nctId}'. Expected 'NCT' followed by 8 digits.`,
+      { nctId },
+    );
+  }
+  const normalizedId = nctId.toUpperCase();
+
+  logger.debug(`Reading study resource ${normalizedId} (${view})`, context);
+
+  const service = ClinicalTrialsGovService.getInstance();
+  const study = await service.fetchStudy(normalizedId, context, {
+    markupFormat: "markdown",
+  });
+
+  const protocol = study.protocolSection;
+  const header = {
+    nctId: normalizedId,
+    briefTitle: protocol?.identificationModule?.briefTitle,
+  };
+
+  switch (view) {
+    case "full":
+      return study;
+    case "eligibility":
+      return { ...header, eligibility: protocol?.eligibilityModule ?? null };
+    case "locations":
+      return {
+        ...header,
+        locations: protocol?.contactsLocationsModule ?? null,
+      };
+    case "results":
+      if (!study.hasResults || !study.resultsSection) {
+        throw new McpError(
+          BaseErrorCode.NOT_FOUND,
+          `Study ${normalizedId} has no posted results.`,
+          { nctId: normalizedId },
+        );
+      }
+      return { ...header, results: study.resultsSection };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Handles registration of the `clinicaltrials://study/{nctId}` resource
+ * templates, including listing and NCT ID completion for studies seen in the session.
+ * @module src/mcp-server/resources/studyResource/registration
+ */
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  buildStudyResourceUri,
+  readStudyResourceLogic,
+  StudyResourceView,
+} from "./logic.js";
+import { getTrackedStudyIds, trackStudyIds } from "./studyIdTracker.js";
+
+/**
+ * Registration details for each study view.
+ * @private
+ */
+const STUDY_RESOURCE_VIEWS: {
+  view: StudyResourceView;
+  name: string;
+  title: string;
+  description: string;
+}[] = [
+  {
+    view: "full",
+    name: "clinicaltrials-study",
+    title: "Clinical Study",
+    description: "The complete ClinicalTrials.gov record for a study.",
+  },
+  {
+    view: "eligibility",
+    name: "clinicaltrials-study-eligibility",
+    title: "Clinical Study Eligibility",
+    description: "The eligibility criteria, sex, and age limits of a study.",
+  },
+  {
+    view: "locations",
+    name: "clinicaltrials-study-locations",
+    title: "Clinical Study Locations",
+    description: "The sites and central contacts of a study.",
+  },
+  {
+    view: "results",
+    name: "clinicaltrials-study-results",
+    title: "Clinical Study Results",
+    description:
+      "The posted results of a study (participant flow, baseline, outcome measures, and adverse events).",
+  },
+];
+
+/**
+ * Registers the study resource templates with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerStudyResources = async (
+  server: McpServer,
+): Promise<void> => {
+  const completeNctId = (value: string) => {
+    const prefix = value.toUpperCase();
+    return getTrackedStudyIds(server).filter((id) => id.startsWith(prefix));
+  };
+
+  for (const { view, name, title, description } of STUDY_RESOURCE_VIEWS) {
+    const template = new ResourceTemplate(
+      buildStudyResourceUri("{nctId}", view),
+      {
+        list: async () => ({
+          resources: getTrackedStudyIds(server).map((nctId) => ({
+            uri: buildStudyResourceUri(nctId, view),
+            name: `${nctId}${view === "full" ? "" : ` ${view}`}`,
+            mimeType: "application/json",
+          })),
+        }),
+        complete: { nctId: completeNctId },
+      },
+    );
+
+    server.registerResource(
+      name,
+      template,
+      { title, description, mimeType: "application/json" },
+      async (uri, variables, callContext) => {
+        const handlerContext = requestContextService.createRequestContext({
+          resourceName: name,
+          resourceUri: uri.href,
+          parentContext: callContext,
+        });
+        const nctId = String(variables.nctId);
+
+        try {
+          const data = await readStudyResourceLogic(
+            nctId,
+            view,
+            handlerContext,
+          );
+          trackStudyIds(server, [nctId]);
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                mimeType: "application/json",
+                text: JSON.stringify(data, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error(`Error reading resource ${uri.href}`, {
+            error,
+            ...handlerContext,
+          });
+          throw ErrorHandler.handleError(error, {
+            operation: name,
+            context: handlerContext,
+            input: { uri: uri.href },
+          }) as McpError;
+        }
+      },
+    );
+    logger.info(`Resource '${name}' registered successfully.`);
+  }
+};
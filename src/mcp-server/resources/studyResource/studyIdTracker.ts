@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Tracks the NCT IDs seen by each MCP server instance, so study
+ * resources can be listed and their URIs completed. Every HTTP session and the
+ * stdio transport get their own server instance, so the IDs are session-scoped.
+ * @module src/mcp-server/resources/studyResource/studyIdTracker
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * The maximum number of NCT IDs remembered per server instance.
+ */
+export const MAX_TRACKED_STUDY_IDS = 200;
+
+/**
+ * Seen NCT IDs per server, in insertion order (oldest first).
+ * @private
+ */
+const trackedIds = new WeakMap<McpServer, Set<string>>();
+
+/**
+ * Records NCT IDs seen by a server instance and notifies the client that the
+ * resource list changed if any of them are new.
+ * @param server - The server instance the IDs were seen in.
+ * @param nctIds - The NCT IDs to record. Invalid or empty values are ignored.
+ * @returns `true` if at least one new ID was recorded.
+ */
+export function trackStudyIds(
+  server: McpServer,
+  nctIds: (string | undefined)[],
+): boolean {
+  let ids = trackedIds.get(server);
+  if (!ids) {
+    ids = new Set();
+    trackedIds.set(server, ids);
+  }
+
+  let added = false;
+  for (const rawId of nctIds) {
+    if (!rawId || !/^NCT\d{8}$/i.test(rawId)) {
+      continue;
+    }
+    const nctId = rawId.toUpperCase();
+    if (!ids.has(nctId)) {
+      added = true;
+    }
+    // Re-insert to move the ID to the most recent position.
+    ids.delete(nctId);
+    ids.add(nctId);
+  }
+
+  while (ids.size > MAX_TRACKED_STUDY_IDS) {
+    ids.delete(ids.values().next().value as string);
+  }
+
+  if (added) {
+    server.sendResourceListChanged();
+  }
+  return added;
+}
+
+/**
+ * Returns the NCT IDs seen by a server instance, most recent first.
+ * @param server - The server instance.
+ * @returns The tracked NCT IDs.
+ */
+export function getTrackedStudyIds(server: McpServer): string[] {
+  return [...(trackedIds.get(server) ?? [])].reverse();
+}
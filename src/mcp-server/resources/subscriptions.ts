@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Handles `resources/subscribe` and `resources/unsubscribe` requests
+ * and tracks the subscribed URIs of each MCP server instance, so resources can
+ * send `notifications/resources/updated` only to the sessions that asked for them.
+ * @module src/mcp-server/resources/subscriptions
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { logger, requestContextService } from "../../utils/index.js";
+
+/**
+ * Subscribed resource URIs per server.
+ * @private
+ */
+const subscriptions = new WeakMap<McpServer, Set<string>>();
+
+/**
+ * Registers the resource subscription handlers with the MCP server. The server
+ * must declare the `resources.subscribe` capability.
+ * @param server - The MCP server instance.
+ */
+export function registerResourceSubscriptions(server: McpServer): void {
+  const uris = new Set<string>();
+  subscriptions.set(server, uris);
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    uris.add(request.params.uri);
+    logger.debug(
+      `Subscribed to resource ${request.params.uri}`,
+      requestContextService.createRequestContext({
+        operation: "resources/subscribe",
+        resourceUri: request.params.uri,
+      }),
+    );
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    uris.delete(request.params.uri);
+    logger.debug(
+      `Unsubscribed from resource ${request.params.uri}`,
+      requestContextService.createRequestContext({
+        operation: "resources/unsubscribe",
+        resourceUri: request.params.uri,
+      }),
+    );
+    return {};
+  });
+}
+
+/**
+ * Checks whether the client of a server instance is subscribed to a resource.
+ * @param server - The server instance.
+ * @param uri - The resource URI.
+ * @returns `true` if the client subscribed to the URI.
+ */
+export function isSubscribed(server: McpServer, uri: string): boolean {
+  return subscriptions.get(server)?.has(uri) ?? false;
+}
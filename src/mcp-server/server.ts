@@ -2,10 +2,11 @@
  * @fileoverview Main entry point for the MCP (Model Context Protocol) server.
  * This file orchestrates the server's lifecycle:
  * 1. Initializes the core `McpServer` instance (from `@modelcontextprotocol/sdk`) with its identity and capabilities.
- * 2. Registers available resources and tools, making them discoverable and usable by clients.
- * 3. Selects and starts the appropriate communication transport (stdio or Streamable HTTP)
+ * 2. Registers available resources, tools, and prompts, making them discoverable and usable by clients.
+ * 3. Opens the configured storage backend and restores the saved searches.
+ * 4. Selects and starts the appropriate communication transport (stdio or Streamable HTTP)
  *    based on configuration.
- * 4. Handles top-level error management during startup.
+ * 5. Handles top-level error management during startup.
  *
  * MCP Specification References:
  * - Lifecycle: https://github.com/modelcontextprotocol/modelcontextprotocol/blob/main/docs/specification/2025-03-26/basic/lifecycle.mdx
@@ -17,11 +18,37 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import http from "http";
 import { config, environment } from "../config/index.js";
+import { initializePersistence } from "../services/persistence/index.js";
+import { SavedSearchService } from "../services/savedSearches/index.js";
 import { ErrorHandler, logger, requestContextService } from "../utils/index.js";
+import { registerCompareInterventionsPrompt } from "./prompts/compareInterventions/index.js";
+import { registerFindRecruitingTrialsPrompt } from "./prompts/findRecruitingTrials/index.js";
+import { registerSponsorLandscapePrompt } from "./prompts/sponsorLandscape/index.js";
+import { registerAnalysisResultResources } from "./resources/analysisResultResource/index.js";
+import { registerSavedSearchResources } from "./resources/savedSearchResource/index.js";
+import { registerStudyResources } from "./resources/studyResource/index.js";
+import { registerResourceSubscriptions } from "./resources/subscriptions.js";
 import { registerGetStudyTool } from "./tools/getStudy/index.js";
 import { registerSearchStudiesTool } from "./tools/searchStudies/index.js";
 import { registerAnalyzeTrendsTool } from "./tools/analyzeTrends/index.js";
 import { registerCreateLinkTool } from "./tools/createLink/registration.js";
+import { registerGetFieldStatsTool } from "./tools/getFieldStats/index.js";
+import { registerListFieldsTool } from "./tools/listFields/index.js";
+import { registerMatchPatientTool } from "./tools/matchPatient/index.js";
+import { registerCompareStudiesTool } from "./tools/compareStudies/index.js";
+import { registerGetResultsTool } from "./tools/getResults/index.js";
+import { registerGetStudyHistoryTool } from "./tools/getStudyHistory/index.js";
+import { registerDiffStudyVersionsTool } from "./tools/diffStudyVersions/index.js";
+import { registerSaveSearchTool } from "./tools/saveSearch/index.js";
+import { registerGetSearchChangesTool } from "./tools/getSearchChanges/index.js";
+import { registerDeleteSavedSearchTool } from "./tools/deleteSavedSearch/index.js";
+import { registerAnnotateStudyTool } from "./tools/annotateStudy/index.js";
+import { registerGetAnnotationsTool } from "./tools/getAnnotations/index.js";
+import { registerCreateWebhookTool } from "./tools/createWebhook/index.js";
+import { registerListWebhooksTool } from "./tools/listWebhooks/index.js";
+import { registerDeleteWebhookTool } from "./tools/deleteWebhook/index.js";
+import { instrumentToolCalls } from "./tools/toolMetrics.js";
+import { applyScopePolicy, loadScopePolicy } from "./transports/auth/index.js";
 import { startHttpTransport } from "./transports/http/index.js";
 import { startStdioTransport } from "./transports/stdio/index.js";
 
@@ -29,7 +56,7 @@ import { startStdioTransport } from "./transports/stdio/index.js";
  * Creates and configures a new instance of the `McpServer`.
  *
  * @returns A promise resolving with the configured `McpServer` instance.
- * @throws {McpError} If any resource or tool registration fails.
+ * @throws {McpError} If any resource, tool, or prompt registration fails.
  * @private
  */
 async function createMcpServerInstance(): Promise<McpServer> {
@@ -49,21 +76,55 @@ async function createMcpServerInstance(): Promise<McpServer> {
     {
       capabilities: {
         logging: {},
-        resources: { listChanged: true },
+        prompts: { listChanged: true },
+        resources: { listChanged: true, subscribe: true },
         tools: { listChanged: true },
       },
     }
   );
 
   try {
-    logger.debug("Registering resources and tools...", context);
+    // Before the scope policy, whose wrapper then sits inside the metrics
+    // wrapper, so that calls it rejects are counted.
+    if (config.metricsEnabled) {
+      instrumentToolCalls(server);
+    }
+    // Must precede registration so tools and resources outside the session's
+    // scopes are hidden as they are registered.
+    applyScopePolicy(server, context);
+    logger.debug("Registering resources, tools, and prompts...", context);
+    registerResourceSubscriptions(server);
+    await registerStudyResources(server);
+    await registerSavedSearchResources(server);
+    await registerAnalysisResultResources(server);
     await registerGetStudyTool(server);
     await registerSearchStudiesTool(server);
     await registerAnalyzeTrendsTool(server);
     await registerCreateLinkTool(server);
-    logger.info("Resources and tools registered successfully", context);
+    await registerListFieldsTool(server);
+    await registerGetFieldStatsTool(server);
+    await registerMatchPatientTool(server);
+    await registerCompareStudiesTool(server);
+    await registerGetResultsTool(server);
+    await registerGetStudyHistoryTool(server);
+    await registerDiffStudyVersionsTool(server);
+    await registerSaveSearchTool(server);
+    await registerGetSearchChangesTool(server);
+    await registerDeleteSavedSearchTool(server);
+    await registerCreateWebhookTool(server);
+    await registerListWebhooksTool(server);
+    await registerDeleteWebhookTool(server);
+    await registerAnnotateStudyTool(server);
+    await registerGetAnnotationsTool(server);
+    await registerFindRecruitingTrialsPrompt(server);
+    await registerCompareInterventionsPrompt(server);
+    await registerSponsorLandscapePrompt(server);
+    logger.info(
+      "Resources, tools, and prompts registered successfully",
+      context
+    );
   } catch (err) {
-    logger.error("Failed to register resources/tools", {
+    logger.error("Failed to register resources/tools/prompts", {
       ...context,
       error: err instanceof Error ? err.message : String(err),
       stack: err instanceof Error ? err.stack : undefined,
@@ -123,6 +184,9 @@ export async function initializeAndStartServer(): Promise<
   });
   logger.info("MCP Server initialization sequence started.", context);
   try {
+    loadScopePolicy(context);
+    await initializePersistence(context);
+    await SavedSearchService.getInstance().restore(context);
     const result = await startTransport();
     logger.info(
       "MCP Server initialization sequence completed successfully.",
@@ -0,0 +1,591 @@
+/**
+ * @fileoverview Incremental aggregators for the `clinicaltrials_analyze_trends` tool.
+ * Each analysis type is computed by an aggregator that consumes studies one at a
+ * time, so pages can be discarded as soon as they are processed.
+ * @module src/mcp-server/tools/analyzeTrends/aggregators
+ */
+import type { Study } from "../../../services/clinical-trials-gov/index.js";
+import {
+  dateParser,
+  type PartialDate,
+  type RequestContext,
+} from "../../../utils/index.js";
+import type {
+  AdverseEventSummary,
+  AnalysisDimension,
+  AnalysisResult,
+  AnalysisType,
+  CrossTab,
+  TimeInterval,
+} from "./logic.js";
+
+/**
+ * The label used for studies without a value for a dimension or date.
+ */
+export const UNKNOWN_KEY = "Unknown";
+
+/**
+ * Separator used to join the values of multiple row dimensions into a row key.
+ */
+const ROW_KEY_SEPARATOR = " / ";
+
+/**
+ * Extracts the values of each dimension from a study. A study can have several
+ * values for a dimension (e.g., one per location or phase).
+ */
+const DIMENSION_EXTRACTORS: Record<
+  AnalysisDimension,
+  (study: Study) => string[]
+> = {
+  status: (study) => [
+    study.protocolSection?.statusModule?.overallStatus ?? UNKNOWN_KEY,
+  ],
+  country: (study) =>
+    study.protocolSection?.contactsLocationsModule?.locations?.map(
+      (loc) => loc.country ?? UNKNOWN_KEY,
+    ) ?? [],
+  sponsorType: (study) => [
+    study.protocolSection?.sponsorCollaboratorsModule?.leadSponsor?.class ??
+      UNKNOWN_KEY,
+  ],
+  phase: (study) =>
+    (study.protocolSection?.designModule?.phases ?? [UNKNOWN_KEY]).map(
+      (phase: string) => phase ?? UNKNOWN_KEY,
+    ),
+};
+
+/**
+ * The API field paths read by each dimension's extractor.
+ */
+const DIMENSION_FIELDS: Record<AnalysisDimension, string[]> = {
+  status: ["protocolSection.statusModule.overallStatus"],
+  country: ["protocolSection.contactsLocationsModule.locations.country"],
+  sponsorType: ["protocolSection.sponsorCollaboratorsModule.leadSponsor.class"],
+  phase: ["protocolSection.designModule.phases"],
+};
+
+/**
+ * Maps the flat count analysis types to the dimension they count.
+ */
+const COUNT_ANALYSIS_DIMENSIONS: Partial<
+  Record<AnalysisType, AnalysisDimension>
+> = {
+  countByStatus: "status",
+  countByCountry: "country",
+  countBySponsorType: "sponsorType",
+  countByPhase: "phase",
+};
+
+/**
+ * Extracts the raw date string used by each date-based analysis type.
+ */
+const DATE_EXTRACTORS: Partial<
+  Record<AnalysisType, (study: Study) => string | undefined>
+> = {
+  countByStartDate: (study) =>
+    study.protocolSection?.statusModule?.startDateStruct?.date,
+  countByPrimaryCompletionDate: (study) =>
+    study.protocolSection?.statusModule?.primaryCompletionDateStruct?.date,
+  countByCompletionDate: (study) =>
+    study.protocolSection?.statusModule?.completionDateStruct?.date,
+};
+
+/**
+ * The API field paths read by each date-based analysis type's extractor.
+ */
+const DATE_FIELDS: Partial<Record<AnalysisType, string[]>> = {
+  countByStartDate: ["protocolSection.statusModule.startDateStruct"],
+  countByPrimaryCompletionDate: [
+    "protocolSection.statusModule.primaryCompletionDateStruct",
+  ],
+  countByCompletionDate: ["protocolSection.statusModule.completionDateStruct"],
+};
+
+/**
+ * Converts a date into its time bucket key: "2023", "2023-Q2", or "2023-05".
+ * @param date - The parsed date.
+ * @param interval - The time bucket size.
+ * @returns The bucket key, or `undefined` if the date lacks the required precision.
+ */
+export function toPeriodKey(
+  date: PartialDate,
+  interval: TimeInterval,
+): string | undefined {
+  if (interval === "year") {
+    return String(date.year);
+  }
+  if (date.month === undefined) {
+    return undefined;
+  }
+  if (interval === "quarter") {
+    return `${date.year}-Q${Math.ceil(date.month / 3)}`;
+  }
+  return `${date.year}-${String(date.month).padStart(2, "0")}`;
+}
+
+/**
+ * Parses a bucket key back into an ordinal so buckets can be sorted and gaps filled.
+ * @private
+ */
+function periodOrdinal(key: string, interval: TimeInterval): number {
+  const year = Number(key.slice(0, 4));
+  if (interval === "year") return year;
+  if (interval === "quarter") return year * 4 + Number(key.slice(6)) - 1;
+  return year * 12 + Number(key.slice(5)) - 1;
+}
+
+/**
+ * Converts an ordinal produced by `periodOrdinal` back into a bucket key.
+ * @private
+ */
+function ordinalToPeriodKey(ordinal: number, interval: TimeInterval): string {
+  if (interval === "year") return String(ordinal);
+  if (interval === "quarter") {
+    return `${Math.floor(ordinal / 4)}-Q${(ordinal % 4) + 1}`;
+  }
+  return `${Math.floor(ordinal / 12)}-${String((ordinal % 12) + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Lists every bucket key between the earliest and latest observed buckets,
+ * in chronological order, so that empty periods appear with a count of zero.
+ * @private
+ */
+function buildTimeline(keys: string[], interval: TimeInterval): string[] {
+  if (keys.length === 0) return [];
+  const ordinals = keys.map((key) => periodOrdinal(key, interval));
+  const timeline: string[] = [];
+  for (let o = Math.min(...ordinals); o <= Math.max(...ordinals); o++) {
+    timeline.push(ordinalToPeriodKey(o, interval));
+  }
+  return timeline;
+}
+
+/**
+ * Returns the distinct values of a dimension for a study, using "Unknown" when
+ * the study has none so that every study appears in a cross-tabulation.
+ * @private
+ */
+function distinctDimensionValues(
+  study: Study,
+  dimension: AnalysisDimension,
+): string[] {
+  const values = [...new Set(DIMENSION_EXTRACTORS[dimension](study))];
+  return values.length > 0 ? values : [UNKNOWN_KEY];
+}
+
+/**
+ * Sorts the keys of a count map by descending count, then alphabetically.
+ * @private
+ */
+function sortKeysByCount(counts: Map<string, number>): string[] {
+  return [...counts.keys()].sort(
+    (a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b),
+  );
+}
+
+/**
+ * Incrementally builds a cross-tabulation of studies across two or more dimensions.
+ * The last dimension forms the columns; the others are combined into row keys.
+ */
+export class CrossTabBuilder {
+  private readonly rowDimensions: AnalysisDimension[];
+  private readonly columnDimension: AnalysisDimension;
+  private readonly cells = new Map<string, Map<string, number>>();
+  private readonly rowTotals = new Map<string, number>();
+  private readonly columnTotals = new Map<string, number>();
+
+  /**
+   * @param dimensions - The dimensions to pivot on (at least two).
+   */
+  constructor(dimensions: AnalysisDimension[]) {
+    this.rowDimensions = dimensions.slice(0, -1);
+    this.columnDimension = dimensions[dimensions.length - 1];
+  }
+
+  /**
+   * Adds a study to the cross-tabulation.
+   * @param study - The study to add.
+   */
+  public add(study: Study): void {
+    let rowKeys = [""];
+    for (const dimension of this.rowDimensions) {
+      const values = distinctDimensionValues(study, dimension);
+      rowKeys = rowKeys.flatMap((prefix) =>
+        values.map((value) =>
+          prefix ? `${prefix}${ROW_KEY_SEPARATOR}${value}` : value,
+        ),
+      );
+    }
+    const columnKeys = distinctDimensionValues(study, this.columnDimension);
+
+    for (const rowKey of rowKeys) {
+      this.rowTotals.set(rowKey, (this.rowTotals.get(rowKey) ?? 0) + 1);
+      const row = this.cells.get(rowKey) ?? new Map<string, number>();
+      this.cells.set(rowKey, row);
+      for (const columnKey of columnKeys) {
+        row.set(columnKey, (row.get(columnKey) ?? 0) + 1);
+      }
+    }
+    for (const columnKey of columnKeys) {
+      this.columnTotals.set(
+        columnKey,
+        (this.columnTotals.get(columnKey) ?? 0) + 1,
+      );
+    }
+  }
+
+  /**
+   * Builds the cross-tabulation, with rows and columns sorted by total.
+   * @param grandTotal - The number of studies added.
+   * @returns The cross-tabulation.
+   */
+  public build(grandTotal: number): CrossTab {
+    const rows = sortKeysByCount(this.rowTotals);
+    const columns = sortKeysByCount(this.columnTotals);
+    return {
+      rowDimensions: this.rowDimensions,
+      columnDimension: this.columnDimension,
+      rows,
+      columns,
+      matrix: rows.map((row) =>
+        columns.map((column) => this.cells.get(row)?.get(column) ?? 0),
+      ),
+      rowTotals: rows.map((row) => this.rowTotals.get(row) ?? 0),
+      columnTotals: columns.map((column) => this.columnTotals.get(column) ?? 0),
+      grandTotal,
+    };
+  }
+}
+
+/**
+ * Builds a cross-tabulation of studies across two or more dimensions.
+ * @param studies - The studies to tabulate.
+ * @param dimensions - The dimensions to pivot on.
+ * @returns The cross-tabulation, with rows and columns sorted by total.
+ */
+export function buildCrossTab(
+  studies: Study[],
+  dimensions: AnalysisDimension[],
+): CrossTab {
+  const builder = new CrossTabBuilder(dimensions);
+  studies.forEach((study) => builder.add(study));
+  return builder.build(studies.length);
+}
+
+/**
+ * Computes one analysis type incrementally, one study at a time.
+ */
+export interface StudyAggregator {
+  /** The API field paths this aggregator reads from each study. */
+  readonly fields: string[];
+  /** Adds a study to the aggregate. */
+  add(study: Study): void | Promise<void>;
+  /** Produces the analysis result once all studies have been added. */
+  finish(totalStudies: number): AnalysisResult;
+}
+
+/**
+ * Options shared by the aggregators of a single analysis run.
+ */
+export interface AggregatorOptions {
+  interval: TimeInterval;
+  groupBy?: AnalysisDimension;
+  dimensions?: AnalysisDimension[];
+  context: RequestContext;
+}
+
+/**
+ * Creates an aggregator that counts studies by the values of a single dimension.
+ * @private
+ */
+function createCountAggregator(
+  type: AnalysisType,
+  dimension: AnalysisDimension,
+): StudyAggregator {
+  const results: Record<string, number> = {};
+  return {
+    fields: DIMENSION_FIELDS[dimension],
+    add(study) {
+      for (const key of DIMENSION_EXTRACTORS[dimension](study)) {
+        results[key] = (results[key] || 0) + 1;
+      }
+    },
+    finish: (totalStudies) => ({ analysisType: type, totalStudies, results }),
+  };
+}
+
+/**
+ * Creates an aggregator that builds a time series of study counts, optionally
+ * broken down by another dimension. Studies without a date, or whose date lacks
+ * the precision required by the interval, are counted under "Unknown".
+ * @private
+ */
+function createPeriodAggregator(
+  type: AnalysisType,
+  { interval, groupBy, context }: AggregatorOptions,
+): StudyAggregator {
+  const extractDate = DATE_EXTRACTORS[type]!;
+  const periodCounts: Record<string, number> = {};
+  const series: Record<string, Record<string, number>> = {};
+
+  return {
+    fields: [
+      ...DATE_FIELDS[type]!,
+      ...(groupBy ? DIMENSION_FIELDS[groupBy] : []),
+    ],
+    async add(study) {
+      const rawDate = extractDate(study);
+      const date = rawDate
+        ? await dateParser.parsePartial(rawDate, context)
+        : null;
+      const period = (date && toPeriodKey(date, interval)) ?? UNKNOWN_KEY;
+      periodCounts[period] = (periodCounts[period] || 0) + 1;
+
+      if (groupBy) {
+        const bucket = (series[period] ??= {});
+        for (const value of new Set(DIMENSION_EXTRACTORS[groupBy](study))) {
+          bucket[value] = (bucket[value] || 0) + 1;
+        }
+      }
+    },
+    finish(totalStudies) {
+      const known = Object.keys(periodCounts).filter((k) => k !== UNKNOWN_KEY);
+      const ordered = buildTimeline(known, interval);
+      if (periodCounts[UNKNOWN_KEY]) ordered.push(UNKNOWN_KEY);
+
+      const results: Record<string, number> = {};
+      const orderedSeries: Record<string, Record<string, number>> = {};
+      for (const period of ordered) {
+        results[period] = periodCounts[period] ?? 0;
+        if (groupBy) orderedSeries[period] = series[period] ?? {};
+      }
+
+      return {
+        analysisType: type,
+        totalStudies,
+        interval,
+        ...(groupBy && { groupBy, series: orderedSeries }),
+        results,
+      };
+    },
+  };
+}
+
+/**
+ * Creates an aggregator that builds a cross-tabulation, reporting row totals as results.
+ * @private
+ */
+function createCrossTabAggregator(
+  dimensions: AnalysisDimension[],
+): StudyAggregator {
+  const builder = new CrossTabBuilder(dimensions);
+  return {
+    fields: dimensions.flatMap((dimension) => DIMENSION_FIELDS[dimension]),
+    add: (study) => builder.add(study),
+    finish(totalStudies) {
+      const crossTab = builder.build(totalStudies);
+      return {
+        analysisType: "crossTab",
+        totalStudies,
+        results: Object.fromEntries(
+          crossTab.rows.map((row, i) => [row, crossTab.rowTotals[i]]),
+        ),
+        crossTab,
+      };
+    },
+  };
+}
+
+/**
+ * The number of event terms reported by the `adverseEvents` analysis.
+ */
+const MAX_ADVERSE_EVENT_TERMS = 50;
+
+/**
+ * Normalizes an adverse event term or organ system for matching, ignoring
+ * case, punctuation, and spacing (e.g., "Nausea " and "nausea." match).
+ * @param value - The term as reported.
+ * @returns The matching key.
+ */
+export function normalizeEventTerm(value: string): string {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Running totals for one organ system or event term.
+ * @private
+ */
+interface AdverseEventTally {
+  label: string;
+  organSystem: string;
+  studies: number;
+  serious: number;
+  other: number;
+}
+
+/**
+ * Adds the participants affected by an event to a tally, counting each study once.
+ * @private
+ */
+function tallyEvent(
+  tallies: Map<string, AdverseEventTally>,
+  seen: Set<string>,
+  key: string,
+  label: string,
+  organSystem: string,
+  kind: "serious" | "other",
+  affected: number,
+): void {
+  let tally = tallies.get(key);
+  if (!tally) {
+    tally = { label, organSystem, studies: 0, serious: 0, other: 0 };
+    tallies.set(key, tally);
+  }
+  if (!seen.has(key)) {
+    seen.add(key);
+    tally.studies++;
+  }
+  tally[kind] += affected;
+}
+
+/**
+ * Creates an aggregator that pools the serious and other adverse events of
+ * studies with posted results, by organ system and by normalized event term.
+ * Rates use the participants at risk across all pooled studies as denominators.
+ * @private
+ */
+function createAdverseEventAggregator(): StudyAggregator {
+  const organSystems = new Map<string, AdverseEventTally>();
+  const terms = new Map<string, AdverseEventTally>();
+  const atRisk = { serious: 0, other: 0 };
+  let studiesWithResults = 0;
+
+  const frequency = (affected: number, denominator: number) => ({
+    affected,
+    atRisk: denominator,
+    rate:
+      denominator > 0
+        ? Math.round((affected / denominator) * 10000) / 10000
+        : 0,
+  });
+  const byTotal = (a: AdverseEventTally, b: AdverseEventTally) =>
+    b.serious + b.other - (a.serious + a.other) ||
+    a.label.localeCompare(b.label);
+
+  return {
+    fields: ["resultsSection.adverseEventsModule"],
+    add(study) {
+      const module = study.resultsSection?.adverseEventsModule;
+      if (!module?.eventGroups?.length) return;
+      studiesWithResults++;
+      for (const group of module.eventGroups) {
+        atRisk.serious += group.seriousNumAtRisk ?? 0;
+        atRisk.other += group.otherNumAtRisk ?? 0;
+      }
+
+      const seenSystems = new Set<string>();
+      const seenTerms = new Set<string>();
+      const events = [
+        ...(module.seriousEvents ?? []).map((event) => ({
+          event,
+          kind: "serious" as const,
+        })),
+        ...(module.otherEvents ?? []).map((event) => ({
+          event,
+          kind: "other" as const,
+        })),
+      ];
+      for (const { event, kind } of events) {
+        const affected = (event.stats ?? []).reduce(
+          (sum, s) => sum + (s.numAffected ?? 0),
+          0,
+        );
+        const system = event.organSystem?.trim() || UNKNOWN_KEY;
+        const systemKey = normalizeEventTerm(system);
+        const termKey = normalizeEventTerm(event.term);
+        if (!termKey) continue;
+        tallyEvent(
+          organSystems,
+          seenSystems,
+          systemKey,
+          system,
+          system,
+          kind,
+          affected,
+        );
+        tallyEvent(
+          terms,
+          seenTerms,
+          `${systemKey}|${termKey}`,
+          event.term.trim(),
+          system,
+          kind,
+          affected,
+        );
+      }
+    },
+    finish(totalStudies) {
+      const systems = [...organSystems.values()].sort(byTotal);
+      const adverseEvents: AdverseEventSummary = {
+        studiesWithResults,
+        participantsAtRisk: atRisk,
+        organSystems: systems.map((t) => ({
+          organSystem: t.label,
+          studies: t.studies,
+          serious: frequency(t.serious, atRisk.serious),
+          other: frequency(t.other, atRisk.other),
+        })),
+        terms: [...terms.values()]
+          .sort(byTotal)
+          .slice(0, MAX_ADVERSE_EVENT_TERMS)
+          .map((t) => ({
+            term: t.label,
+            organSystem: t.organSystem,
+            studies: t.studies,
+            serious: frequency(t.serious, atRisk.serious),
+            other: frequency(t.other, atRisk.other),
+          })),
+      };
+      return {
+        analysisType: "adverseEvents",
+        totalStudies,
+        results: Object.fromEntries(
+          systems.map((t) => [t.label, t.serious + t.other]),
+        ),
+        adverseEvents,
+      };
+    },
+  };
+}
+
+/**
+ * Creates the aggregator for an analysis type.
+ * @param type - The analysis type.
+ * @param options - Options shared by the aggregators of the run.
+ * @returns The aggregator.
+ * @throws {Error} If a `crossTab` aggregator is requested without dimensions.
+ */
+export function createAggregator(
+  type: AnalysisType,
+  options: AggregatorOptions,
+): StudyAggregator {
+  if (type === "crossTab") {
+    if (!options.dimensions) {
+      throw new Error("The 'crossTab' analysis requires dimensions.");
+    }
+    return createCrossTabAggregator(options.dimensions);
+  }
+  if (type === "adverseEvents") {
+    return createAdverseEventAggregator();
+  }
+  const dimension = COUNT_ANALYSIS_DIMENSIONS[type];
+  if (dimension) {
+    return createCountAggregator(type, dimension);
+  }
+  return createPeriodAggregator(type, options);
+}
@@ -3,35 +3,115 @@
  * @module src/mcp-server/tools/analyzeTrends/logic
  */
 import { z } from "zod";
+import { config } from "../../../config/index.js";
+import { ClinicalTrialsGovService } from "../../../services/clinical-trials-gov/index.js";
+import { getPersistence } from "../../../services/persistence/index.js";
+import { getStudyWarehouse } from "../../../services/warehouse/index.js";
+import type { StudyLister } from "../../../services/warehouse/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
-  ClinicalTrialsGovService,
-  Study,
-} from "../../../services/clinical-trials-gov/index.js";
-import { logger, type RequestContext } from "../../../utils/index.js";
+  generateUUID,
+  logger,
+  type RequestContext,
+} from "../../../utils/index.js";
+import { buildAnalysisResultUri } from "../../resources/analysisResultResource/index.js";
 import { SearchStudiesInputSchema } from "../searchStudies/logic.js";
+import { createAggregator, type StudyAggregator } from "./aggregators.js";
 
 /**
  * Defines the types of analysis that can be performed.
+ * The `countBy*Date` types produce a time series bucketed by `interval`,
+ * `crossTab` produces a pivot table across the given `dimensions`, and
+ * `adverseEvents` pools the adverse events posted in study results.
  */
 export const AnalysisTypeSchema = z.enum([
   "countByStatus",
   "countByCountry",
   "countBySponsorType",
   "countByPhase",
+  "countByStartDate",
+  "countByPrimaryCompletionDate",
+  "countByCompletionDate",
+  "crossTab",
+  "adverseEvents",
 ]);
 
+/**
+ * TypeScript type inferred from the analysis type schema.
+ */
+export type AnalysisType = z.infer<typeof AnalysisTypeSchema>;
+
+/**
+ * The time buckets available for date-based analysis types.
+ */
+export const TimeIntervalSchema = z.enum(["year", "quarter", "month"]);
+
+/**
+ * TypeScript type inferred from the time interval schema.
+ */
+export type TimeInterval = z.infer<typeof TimeIntervalSchema>;
+
+/**
+ * The study dimensions that a time series can be broken down by, or that a
+ * cross-tabulation can pivot on.
+ */
+export const AnalysisDimensionSchema = z.enum([
+  "status",
+  "country",
+  "sponsorType",
+  "phase",
+]);
+
+/**
+ * TypeScript type inferred from the analysis dimension schema.
+ */
+export type AnalysisDimension = z.infer<typeof AnalysisDimensionSchema>;
+
 /**
  * Zod schema for the `clinicaltrials_analyze_trends` tool input.
  */
 export const AnalyzeTrendsInputSchema = SearchStudiesInputSchema.pick({
   query: true,
   filter: true,
+  source: true,
 }).extend({
   analysisType: z
     .union([AnalysisTypeSchema, z.array(AnalysisTypeSchema).min(1)])
     .describe(
       "A single analysis type or an array of types to perform on the study set."
     ),
+  interval: TimeIntervalSchema.default("year")
+    .optional()
+    .describe(
+      "The time bucket for date-based analysis types (e.g., 'countByStartDate'). Defaults to 'year'."
+    ),
+  groupBy: AnalysisDimensionSchema.optional().describe(
+    "Breaks each time bucket of a date-based analysis down by another dimension (e.g., 'phase' to see phases by start year). Ignored by other analysis types."
+  ),
+  dimensions: z
+    .array(AnalysisDimensionSchema)
+    .min(2)
+    .max(3)
+    .optional()
+    .describe(
+      "Required for 'crossTab'. Two or three dimensions to pivot on (e.g., ['phase', 'status']). The last dimension forms the columns; the others form the rows."
+    ),
+  sampleSize: z
+    .number()
+    .int()
+    .min(100)
+    .max(config.maxStudiesForAnalysis)
+    .optional()
+    .describe(
+      `Enables sampling mode for very large result sets. If the query matches more studies than this, a random sample of roughly this many studies is analyzed instead, and the results report the sample size and an approximate margin of error. Counts are for the sample and are not scaled up. Required when the query matches more than ${config.maxStudiesForAnalysis} studies. Ignored when 'source' is 'local', which analyzes every matching study.`
+    ),
+  saveResult: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, stores the result so it can be read again later from its 'resultUri' without re-running the analysis."
+    ),
 });
 
 /**
@@ -39,6 +119,87 @@ export const AnalyzeTrendsInputSchema = SearchStudiesInputSchema.pick({
  */
 export type AnalyzeTrendsInput = z.infer<typeof AnalyzeTrendsInputSchema>;
 
+/**
+ * Zod schema for a cross-tabulation. `matrix[i][j]` is the number of studies in
+ * row `rows[i]` and column `columns[j]`. Totals count distinct studies, so for
+ * multi-valued dimensions (country, phase) the cells of a row or column can sum
+ * to more than its total.
+ */
+export const CrossTabSchema = z.object({
+  rowDimensions: z.array(AnalysisDimensionSchema),
+  columnDimension: AnalysisDimensionSchema,
+  rows: z
+    .array(z.string())
+    .describe(
+      "Row keys. Keys for multiple row dimensions are joined by ' / '."
+    ),
+  columns: z.array(z.string()),
+  matrix: z.array(z.array(z.number().int())),
+  rowTotals: z.array(z.number().int()),
+  columnTotals: z.array(z.number().int()),
+  grandTotal: z.number().int(),
+});
+
+/**
+ * Defines the structure for a cross-tabulation.
+ */
+export type CrossTab = z.infer<typeof CrossTabSchema>;
+
+/**
+ * Zod schema for the participants affected by adverse events of one kind, with
+ * the denominator they are a fraction of.
+ */
+const AdverseEventFrequencySchema = z.object({
+  affected: z.number().int(),
+  atRisk: z.number().int(),
+  rate: z.number().describe("`affected / atRisk`, rounded to 4 decimals."),
+});
+
+/**
+ * Zod schema for adverse events pooled across studies with posted results.
+ * Counts are summed over the reported event terms, so a participant with
+ * several events in the same organ system may be counted more than once.
+ * Studies only report other (non-serious) events above their frequency
+ * threshold, typically 5%, so other-event rates are lower bounds.
+ */
+export const AdverseEventSummarySchema = z.object({
+  studiesWithResults: z
+    .number()
+    .int()
+    .describe("The number of studies that posted adverse event data."),
+  participantsAtRisk: z
+    .object({ serious: z.number().int(), other: z.number().int() })
+    .describe(
+      "The participants at risk across those studies, the denominator of each rate."
+    ),
+  organSystems: z.array(
+    z.object({
+      organSystem: z.string(),
+      studies: z.number().int(),
+      serious: AdverseEventFrequencySchema,
+      other: AdverseEventFrequencySchema,
+    })
+  ),
+  terms: z
+    .array(
+      z.object({
+        term: z.string(),
+        organSystem: z.string(),
+        studies: z.number().int(),
+        serious: AdverseEventFrequencySchema,
+        other: AdverseEventFrequencySchema,
+      })
+    )
+    .describe(
+      "The most frequent event terms. Terms are matched ignoring case, punctuation, and spacing."
+    ),
+});
+
+/**
+ * Defines the structure for pooled adverse events.
+ */
+export type AdverseEventSummary = z.infer<typeof AdverseEventSummarySchema>;
+
 /**
  * Zod schema for the analysis result.
  */
@@ -47,6 +208,16 @@ export const AnalysisResultSchema = z
     analysisType: AnalysisTypeSchema,
     totalStudies: z.number().int(),
     results: z.record(z.number()),
+    interval: TimeIntervalSchema.optional(),
+    groupBy: AnalysisDimensionSchema.optional(),
+    series: z
+      .record(z.record(z.number()))
+      .optional()
+      .describe(
+        "For date-based analyses with `groupBy`, the counts per dimension value within each time bucket."
+      ),
+    crossTab: CrossTabSchema.optional(),
+    adverseEvents: AdverseEventSummarySchema.optional(),
   })
   .passthrough();
 
@@ -55,11 +226,64 @@ export const AnalysisResultSchema = z
  */
 export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
 
+/**
+ * Zod schema describing how a sampled analysis was drawn. Studies are sampled
+ * in clusters by NCT ID block, so every matching study has the same chance of
+ * inclusion and proportions in the sample estimate those of the full result set.
+ * Studies in one block were registered around the same time and tend to be
+ * alike, so the margin of error is based on the number of blocks sampled
+ * rather than the number of studies.
+ */
+export const SamplingInfoSchema = z.object({
+  method: z.literal("nctIdCluster"),
+  totalMatched: z
+    .number()
+    .int()
+    .describe("The number of studies matching the query."),
+  sampledStudies: z
+    .number()
+    .int()
+    .describe("The number of studies in the sample that was analyzed."),
+  sampledBlocks: z
+    .number()
+    .int()
+    .describe(
+      "The number of NCT ID blocks (clusters) the analyzed studies came from."
+    ),
+  samplingFraction: z
+    .number()
+    .describe(
+      "The probability of each matching study being sampled. Divide counts by this to estimate totals."
+    ),
+  confidenceLevel: z.number(),
+  marginOfError: z
+    .number()
+    .describe(
+      "An approximate, worst-case margin of error for a proportion estimated from the sample, at the confidence level. It allows for the design effect of cluster sampling by counting each sampled NCT ID block as one observation."
+    ),
+});
+
+/**
+ * Defines the structure for the sampling details of an analysis.
+ */
+export type SamplingInfo = z.infer<typeof SamplingInfoSchema>;
+
 /**
  * Zod schema for the output of the `clinicaltrials_analyze_trends` tool.
  */
 export const AnalyzeTrendsOutputSchema = z.object({
   analysis: z.array(AnalysisResultSchema),
+  sampling: SamplingInfoSchema.optional().describe(
+    "Present when the analysis was computed on a sample rather than every matching study."
+  ),
+  resultId: z
+    .string()
+    .optional()
+    .describe("The ID of the stored result, when 'saveResult' was set."),
+  resultUri: z
+    .string()
+    .optional()
+    .describe("The resource URI of the stored result."),
 });
 
 /**
@@ -68,140 +292,394 @@ export const AnalyzeTrendsOutputSchema = z.object({
 export type AnalyzeTrendsOutput = z.infer<typeof AnalyzeTrendsOutputSchema>;
 
 /**
- * Fetches all studies for a given query, handling pagination.
- * @param params - The query and filter parameters.
- * @param context - The request context.
- * @returns A promise that resolves with an array of all matching studies.
+ * Options for observing and cancelling a long-running analysis.
  */
-import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+export interface AnalysisRunOptions {
+  /** Stops pagination between pages once aborted, e.g. when the client cancels the request. */
+  signal?: AbortSignal;
+  /** Called after each page of studies is processed. */
+  onProgress?: (fetched: number, total: number) => void | Promise<void>;
+}
+
+type AnalysisQuery = Pick<AnalyzeTrendsInput, "query" | "filter">;
 
-const MAX_STUDIES_FOR_ANALYSIS = 5000;
 const API_CALL_DELAY_MS = 250;
+const PAGE_SIZE = 1000;
 
 /**
- * A simple promise-based delay function.
+ * Requested for every analysis, in addition to the fields declared by its
+ * aggregators, so that each returned study can be identified.
+ */
+const BASE_FIELDS = ["protocolSection.identificationModule.nctId"];
+
+/**
+ * The number of NCT ID blocks used for cluster sampling. Block `b` holds the
+ * 10,000 IDs whose first seven characters are `NCT` followed by `b` as four
+ * digits (e.g., block 123 is `NCT0123*`). See {@link nctIdBlockPrefix}.
+ */
+const NCT_ID_BLOCK_COUNT = 1000;
+const NCT_ID_BLOCK_PREFIX_LENGTH = 7;
+const SAMPLING_CONFIDENCE_LEVEL = 0.95;
+const SAMPLING_Z_SCORE = 1.96;
+/**
+ * Samples target this fraction of the study limit, because the size of a
+ * cluster sample varies from draw to draw. A sample that still exceeds the
+ * limit is redrawn smaller, up to {@link MAX_SAMPLE_DRAWS} times.
+ */
+const SAMPLE_LIMIT_HEADROOM = 0.8;
+const MAX_SAMPLE_DRAWS = 5;
+
+/**
+ * A simple promise-based delay function that resolves early if the signal is aborted.
  * @param ms - The number of milliseconds to delay.
+ * @param signal - An optional signal that ends the delay early.
  * @returns A promise that resolves after the specified delay.
  */
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-async function fetchAllStudies(
-  params: Omit<AnalyzeTrendsInput, "analysisType">,
-  context: RequestContext
-): Promise<Study[]> {
-  const service = ClinicalTrialsGovService.getInstance();
-  let allStudies: Study[] = [];
-  let pageToken: string | undefined = undefined;
-  let hasMore = true;
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
 
-  logger.debug("Fetching all studies for analysis...", { ...context });
+/**
+ * Throws a `CANCELLED` error if the signal has been aborted.
+ * @private
+ */
+function throwIfCancelled(
+  signal: AbortSignal | undefined,
+  context: RequestContext,
+  fetched: number,
+  total: number
+): void {
+  if (signal?.aborted) {
+    logger.info(
+      `Analysis cancelled after fetching ${fetched} of ${total} studies.`,
+      { ...context, fetched, total }
+    );
+    throw new McpError(
+      BaseErrorCode.CANCELLED,
+      "The analysis was cancelled before all studies were fetched.",
+      { fetched, total }
+    );
+  }
+}
 
-  // First, make one call to check the total number of studies
-  const initialResponse = await service.listStudies(
+/**
+ * Counts the studies matching a query without fetching them.
+ * @private
+ */
+async function countStudies(
+  service: StudyLister,
+  params: AnalysisQuery,
+  context: RequestContext
+): Promise<number> {
+  const response = await service.listStudies(
     { ...params, pageSize: 1, countTotal: true },
     context
   );
-  const totalStudies = initialResponse.totalCount ?? 0;
+  return response.totalCount ?? 0;
+}
 
-  if (totalStudies > MAX_STUDIES_FOR_ANALYSIS) {
-    throw new McpError(
-      BaseErrorCode.INVALID_INPUT,
-      `The query returned ${totalStudies} studies, which exceeds the limit of ${MAX_STUDIES_FOR_ANALYSIS} for analysis. Please provide a more specific query.`,
-      { totalStudies, limit: MAX_STUDIES_FOR_ANALYSIS }
-    );
-  }
+/**
+ * Pages through the studies matching a query, adding each study to every
+ * aggregator and discarding each page once processed, so memory use does not
+ * grow with the size of the result set. Only the fields the aggregators declare
+ * are requested. Reports progress after each page and stops early if the
+ * signal is aborted.
+ * @param service - The API service or the local warehouse.
+ * @param params - The query and filter parameters.
+ * @param aggregators - The aggregators to feed.
+ * @param totalStudies - The number of matching studies, used to report progress.
+ * @param context - The request context.
+ * @param options - Optional progress callback and cancellation signal.
+ * @param pageDelayMs - The delay between pages, to respect the API's rate limit.
+ * @returns A promise that resolves with the number of studies processed.
+ * @throws {McpError} If the run is cancelled.
+ */
+async function aggregateStudies(
+  service: StudyLister,
+  params: AnalysisQuery,
+  aggregators: Pick<StudyAggregator, "fields" | "add">[],
+  totalStudies: number,
+  context: RequestContext,
+  options: AnalysisRunOptions,
+  pageDelayMs: number
+): Promise<number> {
+  const { signal, onProgress } = options;
+  const fields = [
+    ...new Set([...BASE_FIELDS, ...aggregators.flatMap((a) => a.fields)]),
+  ];
+  let processed = 0;
+  let pageToken: string | undefined = undefined;
+  let hasMore = totalStudies > 0;
 
-  if (totalStudies === 0) {
-    return [];
-  }
+  logger.debug("Streaming studies for analysis...", { ...context, fields });
 
-  // If within limits, proceed to fetch all studies
   while (hasMore) {
+    throwIfCancelled(signal, context, processed, totalStudies);
     const pagedStudies = await service.listStudies(
-      { ...params, pageToken, pageSize: 1000 },
+      { ...params, fields, pageToken, pageSize: PAGE_SIZE },
       context
     );
-    if (pagedStudies.studies) {
-      allStudies = allStudies.concat(pagedStudies.studies);
+    for (const study of pagedStudies.studies ?? []) {
+      for (const aggregator of aggregators) {
+        await aggregator.add(study);
+      }
+      processed++;
     }
     pageToken = pagedStudies.nextPageToken;
     // Stop if we have all studies or if there's no next page token
-    hasMore = !!pageToken && allStudies.length < totalStudies;
+    hasMore = !!pageToken && processed < totalStudies;
 
-    if (hasMore) {
-      await delay(API_CALL_DELAY_MS);
+    await onProgress?.(processed, totalStudies);
+
+    if (hasMore && pageDelayMs > 0) {
+      await delay(pageDelayMs, signal);
     }
   }
 
-  logger.info(`Fetched a total of ${allStudies.length} studies for analysis.`, {
+  logger.info(`Aggregated a total of ${processed} studies for analysis.`, {
     ...context,
   });
-  return allStudies;
+  return processed;
+}
+
+/**
+ * Returns the ID prefix shared by the studies of an NCT ID block, given either
+ * the block number or the NCT ID of a study in the block. Sampling and the
+ * count of sampled blocks both use it, so that they agree on what a block is.
+ * @private
+ */
+function nctIdBlockPrefix(blockOrNctId: number | string): string {
+  return typeof blockOrNctId === "number"
+    ? `NCT${String(blockOrNctId).padStart(NCT_ID_BLOCK_PREFIX_LENGTH - 3, "0")}`
+    : blockOrNctId.slice(0, NCT_ID_BLOCK_PREFIX_LENGTH);
+}
+
+/**
+ * A random cluster sample of the NCT ID space, expressed as an Essie filter.
+ */
+export interface NctIdSample {
+  /** An Essie expression that matches only studies in the sampled blocks. */
+  expression: string;
+  /** The fraction of blocks sampled, i.e. each study's probability of inclusion. */
+  samplingFraction: number;
+}
+
+/**
+ * Draws a random sample of NCT ID blocks. Because every study belongs to
+ * exactly one block and every block is equally likely to be drawn, each study
+ * has the same probability of being sampled.
+ * @param fraction - The desired fraction of studies to sample, between 0 and 1.
+ * @param random - The source of randomness, returning values in [0, 1).
+ * @returns The sampled blocks as an Essie expression, and the actual sampling fraction.
+ */
+export function drawNctIdSample(
+  fraction: number,
+  random: () => number = Math.random
+): NctIdSample {
+  const blockCount = Math.min(
+    NCT_ID_BLOCK_COUNT - 1,
+    Math.max(1, Math.ceil(fraction * NCT_ID_BLOCK_COUNT))
+  );
+  const blocks = Array.from({ length: NCT_ID_BLOCK_COUNT }, (_, i) => i);
+  for (let i = 0; i < blockCount; i++) {
+    const j = i + Math.floor(random() * (NCT_ID_BLOCK_COUNT - i));
+    [blocks[i], blocks[j]] = [blocks[j], blocks[i]];
+  }
+
+  // Name whichever side of the split is smaller to keep the URL short.
+  const exclude = blockCount > NCT_ID_BLOCK_COUNT / 2;
+  const named = exclude
+    ? blocks.slice(blockCount)
+    : blocks.slice(0, blockCount);
+  const prefixes = named
+    .sort((a, b) => a - b)
+    .map((block) => `${nctIdBlockPrefix(block)}*`)
+    .join(" OR ");
+  const expression = `AREA[NCTId](${prefixes})`;
+
+  return {
+    expression: exclude ? `NOT ${expression}` : expression,
+    samplingFraction: blockCount / NCT_ID_BLOCK_COUNT,
+  };
+}
+
+/**
+ * Collects the NCT ID blocks of the studies it is given.
+ * @private
+ */
+function createBlockCounter(): Pick<StudyAggregator, "fields" | "add"> & {
+  blocks: Set<string>;
+} {
+  const blocks = new Set<string>();
+  return {
+    fields: BASE_FIELDS,
+    blocks,
+    add(study) {
+      const nctId = study.protocolSection?.identificationModule?.nctId;
+      if (nctId) blocks.add(nctIdBlockPrefix(nctId));
+    },
+  };
+}
+
+/**
+ * Computes an approximate worst-case margin of error for a proportion
+ * estimated from a cluster sample of `blocks` NCT ID blocks. Treating each
+ * block as a single observation bounds the design effect of cluster sampling,
+ * which is at most the average number of studies per block.
+ * @private
+ */
+function marginOfError(blocks: number, samplingFraction: number): number {
+  if (blocks === 0) return 1;
+  const correction = Math.sqrt(Math.max(0, 1 - samplingFraction));
+  const margin = SAMPLING_Z_SCORE * Math.sqrt(0.25 / blocks) * correction;
+  return Math.round(margin * 10000) / 10000;
 }
 
 /**
  * Performs a statistical analysis on a set of clinical trials matching the given criteria.
- * It fetches all studies (up to a limit) and aggregates data based on the specified analysis type.
+ * Studies are aggregated page by page as they are fetched, so the full result
+ * set is never held in memory. If `sampleSize` is given and the query matches
+ * more studies than that, a random sample is analyzed instead. When `source`
+ * is "local", the studies are read from the local warehouse, where neither the
+ * study limit nor sampling applies.
+ * Date-based analysis types produce a chronological time series with empty periods filled in.
  *
  * @param params - The validated input parameters for the tool.
  * @param context - The request context for logging and tracing.
+ * @param options - Optional progress callback and cancellation signal.
  * @returns A promise that resolves with the structured analysis results.
- * @throws {McpError} If the query returns more studies than the analysis limit.
+ * @throws {McpError} If the studies to analyze exceed the configured limit, or the run is cancelled.
  */
 export async function analyzeTrendsLogic(
   params: AnalyzeTrendsInput,
-  context: RequestContext
+  context: RequestContext,
+  options: AnalysisRunOptions = {}
 ): Promise<AnalyzeTrendsOutput> {
-  const { analysisType, ...searchParams } = params;
-  const allStudies = await fetchAllStudies(searchParams, context);
+  const {
+    analysisType,
+    interval = "year",
+    groupBy,
+    dimensions,
+    sampleSize,
+    saveResult,
+    source = "api",
+    ...searchParams
+  } = params;
   const analysisTypes = Array.isArray(analysisType)
     ? analysisType
     : [analysisType];
+  const isLocal = source === "local";
+  const limit = isLocal ? Infinity : config.maxStudiesForAnalysis;
+  const service: StudyLister = isLocal
+    ? await getStudyWarehouse(context)
+    : ClinicalTrialsGovService.getInstance();
 
-  const finalResults: AnalysisResult[] = [];
-
-  for (const type of analysisTypes) {
-    const results: Record<string, number> = {};
-    for (const study of allStudies) {
-      let key: string | undefined;
-      switch (type) {
-        case "countByStatus":
-          key = study.protocolSection?.statusModule?.overallStatus ?? "Unknown";
-          break;
-        case "countByCountry":
-          study.protocolSection?.contactsLocationsModule?.locations?.forEach(
-            (loc) => {
-              const country = loc.country ?? "Unknown";
-              results[country] = (results[country] || 0) + 1;
-            }
-          );
-          continue;
-        case "countBySponsorType":
-          key =
-            study.protocolSection?.sponsorCollaboratorsModule?.leadSponsor
-              ?.class ?? "Unknown";
-          break;
-        case "countByPhase": {
-          const phases = study.protocolSection?.designModule?.phases ?? [
-            "Unknown",
-          ];
-          phases.forEach((phase: string) => {
-            const phaseKey = phase ?? "Unknown";
-            results[phaseKey] = (results[phaseKey] || 0) + 1;
-          });
-          continue;
-        }
-      }
-      if (key) {
-        results[key] = (results[key] || 0) + 1;
-      }
+  if (analysisTypes.includes("crossTab") && !dimensions) {
+    throw new McpError(
+      BaseErrorCode.INVALID_INPUT,
+      "The 'crossTab' analysis requires 'dimensions' with two or three dimensions to pivot on (e.g., ['phase', 'status'])."
+    );
+  }
+
+  // First, make one call to check the total number of studies
+  const totalMatched = await countStudies(service, searchParams, context);
+  let query: AnalysisQuery = searchParams;
+  let totalStudies = totalMatched;
+  let sample: NctIdSample | undefined;
+
+  if (!isLocal && sampleSize !== undefined && totalMatched > sampleSize) {
+    let target = Math.min(sampleSize, limit * SAMPLE_LIMIT_HEADROOM);
+    for (let draw = 1; ; draw++) {
+      sample = drawNctIdSample(target / totalMatched);
+      const advanced = [searchParams.filter?.advanced, sample.expression]
+        .filter(Boolean)
+        .map((expression) => `(${expression})`)
+        .join(" AND ");
+      query = { ...searchParams, filter: { ...searchParams.filter, advanced } };
+      totalStudies = await countStudies(service, query, context);
+      if (totalStudies <= limit || draw === MAX_SAMPLE_DRAWS) break;
+      logger.debug(
+        `The sample drawn contains ${totalStudies} studies, over the limit of ${limit}; drawing a smaller one.`,
+        { ...context, draw }
+      );
+      target = (target * limit * SAMPLE_LIMIT_HEADROOM) / totalStudies;
     }
-    finalResults.push({
-      analysisType: type,
-      totalStudies: allStudies.length,
-      results,
-    });
+    logger.info(
+      `Sampling ${totalStudies} of ${totalMatched} studies for analysis.`,
+      { ...context, samplingFraction: sample.samplingFraction }
+    );
   }
 
-  return { analysis: finalResults };
+  if (totalStudies > limit) {
+    throw new McpError(
+      BaseErrorCode.INVALID_INPUT,
+      sample
+        ? `The sample drawn contains ${totalStudies} studies, which exceeds the limit of ${limit} for analysis, after ${MAX_SAMPLE_DRAWS} draws. Please use a smaller 'sampleSize' or a more specific query.`
+        : `The query returned ${totalStudies} studies, which exceeds the limit of ${limit} for analysis. Please provide a more specific query, or set 'sampleSize' to analyze a random sample.`,
+      { totalStudies, limit }
+    );
+  }
+
+  const aggregators: StudyAggregator[] = analysisTypes.map((type) =>
+    createAggregator(type, { interval, groupBy, dimensions, context })
+  );
+  const blockCounter = createBlockCounter();
+  const processed = await aggregateStudies(
+    service,
+    query,
+    sample ? [...aggregators, blockCounter] : aggregators,
+    totalStudies,
+    context,
+    options,
+    isLocal ? 0 : API_CALL_DELAY_MS
+  );
+
+  const output: AnalyzeTrendsOutput = {
+    analysis: aggregators.map((aggregator) => aggregator.finish(processed)),
+    ...(sample && {
+      sampling: {
+        method: "nctIdCluster" as const,
+        totalMatched,
+        sampledStudies: processed,
+        sampledBlocks: blockCounter.blocks.size,
+        samplingFraction: sample.samplingFraction,
+        confidenceLevel: SAMPLING_CONFIDENCE_LEVEL,
+        marginOfError: marginOfError(
+          blockCounter.blocks.size,
+          sample.samplingFraction
+        ),
+      },
+    }),
+  };
+
+  if (saveResult) {
+    const { saveResult: _saveResult, ...analysisParams } = params;
+    const resultId = generateUUID();
+    await getPersistence().analysisResults.insert({
+      id: resultId,
+      analysisType: analysisTypes.join(","),
+      params: analysisParams,
+      result: output,
+      createdAt: new Date().toISOString(),
+    });
+    logger.info(`Stored analysis result ${resultId}.`, {
+      ...context,
+      resultId,
+    });
+    return {
+      ...output,
+      resultId,
+      resultUri: buildAnalysisResultUri(resultId),
+    };
+  }
+  return output;
 }
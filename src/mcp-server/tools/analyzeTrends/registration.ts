@@ -3,19 +3,122 @@
  * @module src/mcp-server/tools/analyzeTrends/registration
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { config } from "../../../config/index.js";
 import { McpError } from "../../../types-global/errors.js";
 import {
   ErrorHandler,
+  formatMarkdownTable,
   logger,
   requestContextService,
 } from "../../../utils/index.js";
 import {
+  AdverseEventSummary,
+  AnalysisResult,
   AnalyzeTrendsInput,
+  CrossTab,
   AnalyzeTrendsInputSchema,
   analyzeTrendsLogic,
   AnalyzeTrendsOutputSchema,
 } from "./logic.js";
 
+/**
+ * Renders a time series analysis as a markdown table, with one column per
+ * `groupBy` value when the series is broken down by another dimension.
+ * @param analysisResult - A date-based analysis result.
+ * @returns The markdown table.
+ * @private
+ */
+function formatTimeSeriesTable(analysisResult: AnalysisResult): string {
+  const periods = Object.keys(analysisResult.results);
+  const series = analysisResult.series;
+  if (!series) {
+    return formatMarkdownTable(
+      ["Period", "Studies"],
+      periods.map((period) => [period, analysisResult.results[period]]),
+      { align: ["left", "right"] }
+    );
+  }
+
+  const groups = [
+    ...new Set(Object.values(series).flatMap((bucket) => Object.keys(bucket))),
+  ].sort();
+  return formatMarkdownTable(
+    ["Period", "Total", ...groups],
+    periods.map((period) => [
+      period,
+      analysisResult.results[period],
+      ...groups.map((group) => series[period]?.[group] ?? 0),
+    ]),
+    { align: ["left", ...Array(groups.length + 1).fill("right")] }
+  );
+}
+
+/**
+ * Renders a cross-tabulation as a markdown table with a total column and a total row.
+ * @param crossTab - The cross-tabulation.
+ * @returns The markdown table.
+ * @private
+ */
+function formatCrossTabTable(crossTab: CrossTab): string {
+  const corner = `${crossTab.rowDimensions.join(" / ")} × ${crossTab.columnDimension}`;
+  const rows = crossTab.rows.map((row, i) => [
+    row,
+    ...crossTab.matrix[i],
+    crossTab.rowTotals[i],
+  ]);
+  rows.push(["**Total**", ...crossTab.columnTotals, crossTab.grandTotal]);
+  return formatMarkdownTable([corner, ...crossTab.columns, "Total"], rows, {
+    align: ["left", ...Array(crossTab.columns.length + 1).fill("right")],
+  });
+}
+
+/**
+ * Renders pooled adverse events as two markdown tables: one per organ system
+ * and one for the most frequent event terms.
+ * @param summary - The pooled adverse events.
+ * @returns The markdown tables.
+ * @private
+ */
+function formatAdverseEventTables(summary: AdverseEventSummary): string {
+  const { studiesWithResults, participantsAtRisk } = summary;
+  if (studiesWithResults === 0) {
+    return "No adverse event data was posted for these studies.";
+  }
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+  const headers = ["Serious", "Serious %", "Other", "Other %", "Studies"];
+  const align: ("left" | "right")[] = Array(headers.length).fill("right");
+
+  return [
+    `Pooled from ${studiesWithResults} studies with posted adverse events (${participantsAtRisk.serious} participants at risk of serious events, ${participantsAtRisk.other} of other events).`,
+    formatMarkdownTable(
+      ["Organ system", ...headers],
+      summary.organSystems.map((s) => [
+        s.organSystem,
+        s.serious.affected,
+        percent(s.serious.rate),
+        s.other.affected,
+        percent(s.other.rate),
+        s.studies,
+      ]),
+      { align: ["left", ...align] }
+    ),
+    `Most frequent terms:`,
+    formatMarkdownTable(
+      ["Term", "Organ system", ...headers],
+      summary.terms.map((t) => [
+        t.term,
+        t.organSystem,
+        t.serious.affected,
+        percent(t.serious.rate),
+        t.other.affected,
+        percent(t.other.rate),
+        t.studies,
+      ]),
+      { align: ["left", "left", ...align] }
+    ),
+  ].join("\n\n");
+}
+
 /**
  * Registers the 'clinicaltrials_analyze_trends' tool with the MCP server.
  * @param server - The MCP server instance.
@@ -24,8 +127,7 @@ export const registerAnalyzeTrendsTool = async (
   server: McpServer
 ): Promise<void> => {
   const toolName = "clinicaltrials_analyze_trends";
-  const toolDescription =
-    "Performs a statistical analysis on a set of clinical trials, aggregating data by status, country, sponsor, or phase. Use specific query parameters to refine the analysis and filter the studies included in the analysis. The tool can handle up to 5000 studies per analysis.";
+  const toolDescription = `Performs a statistical analysis on a set of clinical trials, aggregating data by status, country, sponsor, or phase, or over time by start, primary completion, or completion date (by year, quarter, or month, optionally broken down by another dimension). The 'crossTab' analysis pivots two or three dimensions (e.g., phase × status) into a matrix with totals. The 'adverseEvents' analysis pools the serious and other adverse events posted in study results, with normalized event terms and frequencies per organ system against the participants at risk; combine it with a filter such as 'AREA[HasResults]true' to skip studies without results. Use specific query parameters to refine the analysis and filter the studies included in the analysis. The tool can handle up to ${config.maxStudiesForAnalysis} studies per analysis; for larger result sets, set 'sampleSize' to analyze a random sample, with an approximate margin of error reported alongside the results. Set 'source' to 'local' to analyze the offline study warehouse instead, with no study limit.`;
 
   server.registerTool(
     toolName,
@@ -42,20 +144,68 @@ export const registerAnalyzeTrendsTool = async (
         parentContext: callContext,
       });
 
+      const progressToken = callContext._meta?.progressToken;
+      const onProgress =
+        progressToken === undefined
+          ? undefined
+          : async (fetched: number, total: number) => {
+              try {
+                await callContext.sendNotification({
+                  method: "notifications/progress",
+                  params: {
+                    progressToken,
+                    progress: fetched,
+                    total,
+                    message: `Fetched ${fetched} of ${total} studies`,
+                  },
+                });
+              } catch (error) {
+                logger.debug("Failed to send progress notification", {
+                  ...handlerContext,
+                  error,
+                });
+              }
+            };
+
       try {
-        const result = await analyzeTrendsLogic(params, handlerContext);
+        const result = await analyzeTrendsLogic(params, handlerContext, {
+          signal: callContext.signal,
+          onProgress,
+        });
         const summaryLines: string[] = [];
 
         result.analysis.forEach((analysisResult) => {
-          const resultsSummary = Object.entries(analysisResult.results)
-            .map(([key, value]) => `  - ${key}: ${value}`)
-            .join("\n");
+          const resultsSummary = analysisResult.crossTab
+            ? formatCrossTabTable(analysisResult.crossTab)
+            : analysisResult.adverseEvents
+              ? formatAdverseEventTables(analysisResult.adverseEvents)
+              : analysisResult.interval
+                ? formatTimeSeriesTable(analysisResult)
+                : Object.entries(analysisResult.results)
+                    .map(([key, value]) => `  - ${key}: ${value}`)
+                    .join("\n");
           summaryLines.push(
             `Successfully analyzed ${analysisResult.totalStudies} studies for trend '${analysisResult.analysisType}'.\n\n` +
               `Analysis Results:\n${resultsSummary}`
           );
         });
 
+        if (result.sampling) {
+          const {
+            sampledStudies,
+            sampledBlocks,
+            totalMatched,
+            confidenceLevel,
+          } = result.sampling;
+          const margin = (result.sampling.marginOfError * 100).toFixed(1);
+          summaryLines.unshift(
+            `Sampled ${sampledStudies} of ${totalMatched} matching studies (${(result.sampling.samplingFraction * 100).toFixed(1)}%) from ${sampledBlocks} NCT ID blocks. Counts are for the sample; proportions have an approximate margin of error of ±${margin} percentage points at ${confidenceLevel * 100}% confidence.`
+          );
+        }
+        if (result.resultUri) {
+          summaryLines.push(`Stored this result as ${result.resultUri}.`);
+        }
+
         const summaryText = summaryLines.join("\n\n---\n\n");
 
         return {
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_annotate_study` tool.
+ * @module src/mcp-server/tools/annotateStudy/index
+ */
+export { registerAnnotateStudyTool } from "./registration.js";
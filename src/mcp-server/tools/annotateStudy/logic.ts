@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_annotate_study` tool.
+ * @module src/mcp-server/tools/annotateStudy/logic
+ */
+import { z } from "zod";
+import { getPersistence } from "../../../services/persistence/index.js";
+import {
+  StudyAnnotation,
+  StudyAnnotationSchema,
+} from "../../../services/persistence/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  generateUUID,
+  logger,
+  type RequestContext,
+} from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_annotate_study` tool.
+ */
+export const AnnotateStudyInputSchema = z.object({
+  nctId: z
+    .string()
+    .regex(/^[Nn][Cc][Tt]\d{8}$/)
+    .describe("The NCT ID of the study to annotate (e.g., 'NCT04280705')."),
+  note: z.string().min(1).max(10_000).describe("The text of the note."),
+  tags: z
+    .array(z.string().min(1).max(50))
+    .max(20)
+    .optional()
+    .describe(
+      "Tags for finding the note later, e.g. ['shortlist', 'exclusion-risk'].",
+    ),
+  id: z
+    .string()
+    .optional()
+    .describe(
+      "The ID of an existing annotation to replace. Omit to add a new annotation.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type AnnotateStudyInput = z.infer<typeof AnnotateStudyInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_annotate_study` tool.
+ */
+export const AnnotateStudyOutputSchema = z.object({
+  annotation: StudyAnnotationSchema,
+  created: z
+    .boolean()
+    .describe("True if a new annotation was added, false if one was replaced."),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type AnnotateStudyOutput = z.infer<typeof AnnotateStudyOutputSchema>;
+
+/**
+ * Adds or replaces a note on a study. Notes are attributed to the
+ * authenticated caller; a note can only be replaced by its author.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the stored annotation.
+ * @throws {McpError} If the annotation to replace does not exist or belongs to someone else.
+ */
+export async function annotateStudyLogic(
+  params: AnnotateStudyInput,
+  context: RequestContext,
+): Promise<AnnotateStudyOutput> {
+  logger.debug("Executing annotateStudyLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const repository = getPersistence().annotations;
+  const author = getCurrentAuthor();
+  const now = new Date().toISOString();
+
+  const existing = params.id ? await repository.get(params.id) : undefined;
+  if (params.id && !existing) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Annotation '${params.id}' was not found.`,
+      { id: params.id },
+    );
+  }
+  if (existing?.author && existing.author !== author) {
+    throw new McpError(
+      BaseErrorCode.FORBIDDEN,
+      `Annotation '${existing.id}' belongs to another author.`,
+      { id: existing.id },
+    );
+  }
+
+  const annotation: StudyAnnotation = {
+    id: existing?.id ?? generateUUID(),
+    nctId: params.nctId.toUpperCase(),
+    note: params.note,
+    tags: [...new Set(params.tags ?? [])],
+    ...(author && { author }),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await repository.upsert(annotation);
+
+  logger.info(
+    `${existing ? "Updated" : "Added"} annotation ${annotation.id} on ${annotation.nctId}.`,
+    { ...context, annotationId: annotation.id },
+  );
+  return { annotation, created: !existing };
+}
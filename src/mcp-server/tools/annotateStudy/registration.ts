@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_annotate_study` tool.
+ * @module src/mcp-server/tools/annotateStudy/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  AnnotateStudyInput,
+  AnnotateStudyInputSchema,
+  annotateStudyLogic,
+  AnnotateStudyOutput,
+  AnnotateStudyOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders the stored annotation as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatAnnotateStudyMarkdown(result: AnnotateStudyOutput): string {
+  const { annotation } = result;
+  const tags = annotation.tags.length
+    ? ` Tags: ${annotation.tags.join(", ")}.`
+    : "";
+  return `${result.created ? "Added" : "Updated"} annotation \`${annotation.id}\` on ${annotation.nctId}.${tags}`;
+}
+
+/**
+ * Registers the 'clinicaltrials_annotate_study' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerAnnotateStudyTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_annotate_study";
+  const toolDescription =
+    "Adds a note, with optional tags, to a study, or replaces an existing note when its 'id' is given. Notes are attributed to the authenticated caller, persist across restarts when a storage backend is configured, and can be listed with 'clinicaltrials_get_annotations'. Use this to keep shortlists, screening decisions, or review comments alongside the registry data.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Annotate Study",
+      description: toolDescription,
+      inputSchema: AnnotateStudyInputSchema.shape,
+      outputSchema: AnnotateStudyOutputSchema.shape,
+      annotations: { readOnlyHint: false },
+    },
+    async (params: AnnotateStudyInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await annotateStudyLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [
+            { type: "text", text: formatAnnotateStudyMarkdown(result) },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_compare_studies` tool.
+ * @module src/mcp-server/tools/compareStudies/index
+ */
+export { registerCompareStudiesTool } from "./registration.js";
@@ -0,0 +1,391 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_compare_studies` tool.
+ * @module src/mcp-server/tools/compareStudies/logic
+ */
+import { z } from "zod";
+import {
+  ClinicalTrialsGovService,
+  Study,
+} from "../../../services/clinical-trials-gov/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { parseEligibilityCriteria } from "../../../utils/clinicaltrials/eligibilityParser.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * The sections that studies are compared across.
+ */
+export const ComparisonSectionSchema = z.enum([
+  "overview",
+  "design",
+  "enrollment",
+  "arms",
+  "eligibility",
+  "outcomes",
+  "sponsors",
+  "dates",
+]);
+
+/**
+ * TypeScript type inferred from the comparison section schema.
+ */
+export type ComparisonSection = z.infer<typeof ComparisonSectionSchema>;
+
+/**
+ * Zod schema for the input of the `clinicaltrials_compare_studies` tool.
+ */
+export const CompareStudiesInputSchema = z.object({
+  nctIds: z
+    .array(z.string().regex(/^[Nn][Cc][Tt]\d{8}$/))
+    .min(2)
+    .max(10)
+    .describe(
+      "The NCT IDs of 2 to 10 studies to compare (e.g., ['NCT04280705', 'NCT04368728']).",
+    ),
+  sections: z
+    .array(ComparisonSectionSchema)
+    .min(1)
+    .optional()
+    .describe("The sections to compare. Defaults to all sections."),
+  onlyDifferences: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe("If true, omits fields on which all studies agree."),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type CompareStudiesInput = z.infer<typeof CompareStudiesInputSchema>;
+
+/**
+ * Zod schema for a single compared field. `values[i]` belongs to `nctIds[i]`
+ * of the output, and is `null` when the study does not report the field.
+ */
+export const ComparisonRowSchema = z.object({
+  section: ComparisonSectionSchema,
+  field: z.string(),
+  values: z.array(z.string().nullable()),
+  differs: z
+    .boolean()
+    .describe("True if the studies do not all have the same value."),
+});
+
+/**
+ * TypeScript type inferred from the comparison row schema.
+ */
+export type ComparisonRow = z.infer<typeof ComparisonRowSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_compare_studies` tool.
+ */
+export const CompareStudiesOutputSchema = z.object({
+  nctIds: z
+    .array(z.string())
+    .describe("The compared studies, in the order of each row's values."),
+  rows: z.array(ComparisonRowSchema),
+  differences: z
+    .array(z.string())
+    .describe("The fields that differ, as 'section.field'."),
+  errors: z
+    .array(z.object({ nctId: z.string(), error: z.string() }))
+    .optional(),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type CompareStudiesOutput = z.infer<typeof CompareStudiesOutputSchema>;
+
+/**
+ * Extracts the value of a compared field from a study.
+ */
+type FieldExtractor = (study: Study) => string | undefined;
+
+/**
+ * Joins the non-empty values of a list, sorted so that order does not count
+ * as a difference.
+ * @private
+ */
+function joinSorted(
+  values: (string | undefined)[] | undefined,
+): string | undefined {
+  const present = (values ?? []).filter((v): v is string => !!v);
+  return present.length > 0 ? [...present].sort().join("; ") : undefined;
+}
+
+/**
+ * Formats a date struct as "2024-01 (ACTUAL)".
+ * @private
+ */
+function formatDate(
+  struct: { date?: string; type?: string } | undefined,
+): string | undefined {
+  if (!struct?.date) return undefined;
+  return struct.type ? `${struct.date} (${struct.type})` : struct.date;
+}
+
+/**
+ * Counts the parsed criteria of one eligibility section.
+ * @private
+ */
+function countCriteria(
+  study: Study,
+  section: "inclusion" | "exclusion",
+): string | undefined {
+  const text = study.protocolSection?.eligibilityModule?.eligibilityCriteria;
+  return text
+    ? String(parseEligibilityCriteria(text)[section].length)
+    : undefined;
+}
+
+/**
+ * The fields compared in each section, in display order.
+ */
+const COMPARISON_FIELDS: Record<ComparisonSection, [string, FieldExtractor][]> =
+  {
+    overview: [
+      ["Title", (s) => s.protocolSection?.identificationModule?.briefTitle],
+      ["Status", (s) => s.protocolSection?.statusModule?.overallStatus],
+      ["Study type", (s) => s.protocolSection?.designModule?.studyType],
+      [
+        "Conditions",
+        (s) => joinSorted(s.protocolSection?.conditionsModule?.conditions),
+      ],
+    ],
+    design: [
+      ["Phase", (s) => joinSorted(s.protocolSection?.designModule?.phases)],
+      [
+        "Allocation",
+        (s) => s.protocolSection?.designModule?.designInfo?.allocation,
+      ],
+      [
+        "Intervention model",
+        (s) => s.protocolSection?.designModule?.designInfo?.interventionModel,
+      ],
+      [
+        "Masking",
+        (s) =>
+          s.protocolSection?.designModule?.designInfo?.maskingInfo?.masking,
+      ],
+      [
+        "Primary purpose",
+        (s) => s.protocolSection?.designModule?.designInfo?.primaryPurpose,
+      ],
+    ],
+    enrollment: [
+      [
+        "Enrollment",
+        (s) => {
+          const info = s.protocolSection?.designModule?.enrollmentInfo;
+          if (info?.count === undefined) return undefined;
+          return info.type
+            ? `${info.count} (${info.type})`
+            : String(info.count);
+        },
+      ],
+    ],
+    arms: [
+      [
+        "Arms",
+        (s) =>
+          joinSorted(
+            s.protocolSection?.armsInterventionsModule?.arms?.map((arm) =>
+              arm.type ? `${arm.name} (${arm.type})` : arm.name,
+            ),
+          ),
+      ],
+      [
+        "Interventions",
+        (s) =>
+          joinSorted(
+            s.protocolSection?.armsInterventionsModule?.interventions?.map(
+              (i) => (i.type ? `${i.type}: ${i.name}` : i.name),
+            ),
+          ),
+      ],
+    ],
+    eligibility: [
+      ["Sex", (s) => s.protocolSection?.eligibilityModule?.sex],
+      [
+        "Age range",
+        (s) => {
+          const module = s.protocolSection?.eligibilityModule;
+          if (!module?.minimumAge && !module?.maximumAge) return undefined;
+          return `${module.minimumAge ?? "any"} to ${module.maximumAge ?? "any"}`;
+        },
+      ],
+      [
+        "Healthy volunteers",
+        (s) => {
+          const accepts =
+            s.protocolSection?.eligibilityModule?.healthyVolunteers;
+          return accepts === undefined ? undefined : accepts ? "Yes" : "No";
+        },
+      ],
+      ["Inclusion criteria", (s) => countCriteria(s, "inclusion")],
+      ["Exclusion criteria", (s) => countCriteria(s, "exclusion")],
+    ],
+    outcomes: [
+      [
+        "Primary outcomes",
+        (s) =>
+          joinSorted(
+            s.protocolSection?.outcomesModule?.primaryOutcomes?.map((o) =>
+              o.timeFrame ? `${o.measure} [${o.timeFrame}]` : o.measure,
+            ),
+          ),
+      ],
+      [
+        "Secondary outcomes",
+        (s) => {
+          const count =
+            s.protocolSection?.outcomesModule?.secondaryOutcomes?.length;
+          return count ? String(count) : undefined;
+        },
+      ],
+    ],
+    sponsors: [
+      [
+        "Lead sponsor",
+        (s) => {
+          const sponsor =
+            s.protocolSection?.sponsorCollaboratorsModule?.leadSponsor;
+          if (!sponsor?.name) return undefined;
+          return sponsor.class
+            ? `${sponsor.name} (${sponsor.class})`
+            : sponsor.name;
+        },
+      ],
+      [
+        "Collaborators",
+        (s) =>
+          joinSorted(
+            s.protocolSection?.sponsorCollaboratorsModule?.collaborators?.map(
+              (c) => c.name,
+            ),
+          ),
+      ],
+    ],
+    dates: [
+      [
+        "Start",
+        (s) => formatDate(s.protocolSection?.statusModule?.startDateStruct),
+      ],
+      [
+        "Primary completion",
+        (s) =>
+          formatDate(
+            s.protocolSection?.statusModule?.primaryCompletionDateStruct,
+          ),
+      ],
+      [
+        "Completion",
+        (s) =>
+          formatDate(s.protocolSection?.statusModule?.completionDateStruct),
+      ],
+    ],
+  };
+
+/**
+ * Normalizes a value so that differences in case and whitespace are ignored.
+ * @private
+ */
+function normalize(value: string | null): string {
+  return (value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Aligns studies field by field across the requested sections.
+ * @param studies - The studies to compare, in output order.
+ * @param sections - The sections to include. Defaults to all sections.
+ * @returns One row per field, flagged when the studies differ.
+ */
+export function buildComparisonRows(
+  studies: Study[],
+  sections: ComparisonSection[] = ComparisonSectionSchema.options,
+): ComparisonRow[] {
+  return sections.flatMap((section) =>
+    COMPARISON_FIELDS[section].map(([field, extract]) => {
+      const values = studies.map((study) => extract(study) ?? null);
+      const differs = new Set(values.map(normalize)).size > 1;
+      return { section, field, values, differs };
+    }),
+  );
+}
+
+/**
+ * Fetches 2 to 10 studies and aligns them across design, phase, enrollment,
+ * arms and interventions, eligibility, outcomes, sponsors, and dates.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the aligned rows and the fields that differ.
+ * @throws {McpError} If fewer than two of the studies could be fetched.
+ */
+export async function compareStudiesLogic(
+  params: CompareStudiesInput,
+  context: RequestContext,
+): Promise<CompareStudiesOutput> {
+  logger.debug("Executing compareStudiesLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const nctIds = [...new Set(params.nctIds.map((id) => id.toUpperCase()))];
+  const service = ClinicalTrialsGovService.getInstance();
+  const errors: { nctId: string; error: string }[] = [];
+
+  const fetched = await Promise.all(
+    nctIds.map(async (nctId) => {
+      try {
+        return await service.fetchStudy(nctId, context);
+      } catch (error) {
+        const message =
+          error instanceof McpError
+            ? error.message
+            : "An unexpected error occurred";
+        logger.warning(`Failed to fetch study ${nctId}: ${message}`, {
+          ...context,
+          nctId,
+          error,
+        });
+        errors.push({ nctId, error: message });
+        return undefined;
+      }
+    }),
+  );
+
+  const studies = fetched.filter(
+    (study): study is Study => study !== undefined,
+  );
+  const compared = nctIds.filter((_, i) => fetched[i] !== undefined);
+  if (studies.length < 2) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      "At least two studies must be available to compare.",
+      { errors },
+    );
+  }
+
+  const allRows = buildComparisonRows(studies, params.sections);
+  const rows = params.onlyDifferences
+    ? allRows.filter((row) => row.differs)
+    : allRows;
+
+  logger.info(
+    `Compared ${studies.length} studies across ${allRows.length} fields.`,
+    {
+      ...context,
+    },
+  );
+
+  return {
+    nctIds: compared,
+    rows,
+    differences: allRows
+      .filter((row) => row.differs)
+      .map((row) => `${row.section}.${row.field}`),
+    ...(errors.length > 0 && { errors }),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_compare_studies` tool.
+ * @module src/mcp-server/tools/compareStudies/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  type MarkdownCell,
+  requestContextService,
+} from "../../../utils/index.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
+import {
+  CompareStudiesInput,
+  CompareStudiesInputSchema,
+  compareStudiesLogic,
+  CompareStudiesOutput,
+  CompareStudiesOutputSchema,
+} from "./logic.js";
+
+/**
+ * The maximum length of a rendered table cell. Long values such as outcome
+ * lists are truncated in the markdown only; `structuredContent` keeps them whole.
+ */
+const MAX_CELL_LENGTH = 200;
+
+/**
+ * Truncates a cell value to {@link MAX_CELL_LENGTH} characters.
+ * @private
+ */
+function truncateCell(value: string | null): string {
+  if (value === null) return "—";
+  return value.length > MAX_CELL_LENGTH
+    ? `${value.slice(0, MAX_CELL_LENGTH - 1)}…`
+    : value;
+}
+
+/**
+ * Renders the comparison as a markdown table with one column per study.
+ * Each section starts with a heading row, and fields that differ are bolded.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatComparisonMarkdown(result: CompareStudiesOutput): string {
+  const lines = [
+    `Compared ${result.nctIds.length} studies; ${result.differences.length} fields differ (shown in **bold**).`,
+  ];
+  if (result.errors?.length) {
+    lines.push(
+      `Could not fetch: ${result.errors.map((e) => `${e.nctId} (${e.error})`).join(", ")}`,
+    );
+  }
+
+  if (result.rows.length === 0) {
+    lines.push("The studies agree on every compared field.");
+    return lines.join("\n\n");
+  }
+
+  const rows: MarkdownCell[][] = [];
+  let section: string | undefined;
+  for (const row of result.rows) {
+    if (row.section !== section) {
+      section = row.section;
+      rows.push([`*${section[0].toUpperCase()}${section.slice(1)}*`]);
+    }
+    rows.push([
+      row.differs ? `**${row.field}**` : row.field,
+      ...row.values.map(truncateCell),
+    ]);
+  }
+  lines.push(formatMarkdownTable(["Field", ...result.nctIds], rows));
+  return lines.join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_compare_studies' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerCompareStudiesTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_compare_studies";
+  const toolDescription =
+    "Compares 2 to 10 clinical studies side by side by NCT ID. Aligns design (allocation, intervention model, masking, primary purpose), phase, enrollment, arms and interventions, eligibility, outcomes, sponsors, and key dates, and flags the fields on which the studies differ. Returns a markdown comparison table and a structured list of differences. Use 'sections' to narrow the comparison and 'onlyDifferences' to hide fields the studies share.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Compare Clinical Studies",
+      description: toolDescription,
+      inputSchema: CompareStudiesInputSchema.shape,
+      outputSchema: CompareStudiesOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: CompareStudiesInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await compareStudiesLogic(params, handlerContext);
+        trackStudyIds(server, result.nctIds);
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatComparisonMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_create_webhook` tool.
+ * @module src/mcp-server/tools/createWebhook/index
+ */
+export { registerCreateWebhookTool } from "./registration.js";
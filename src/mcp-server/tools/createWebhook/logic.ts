@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_create_webhook` tool.
+ * @module src/mcp-server/tools/createWebhook/logic
+ */
+import { z } from "zod";
+import { SavedSearchService } from "../../../services/savedSearches/index.js";
+import { StudyChangeTypeSchema } from "../../../services/savedSearches/types.js";
+import { WebhookService } from "../../../services/webhooks/index.js";
+import { WebhookSubscriptionSchema } from "../../../services/webhooks/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  logger,
+  sanitizeInputForLogging,
+  type RequestContext,
+} from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_create_webhook` tool.
+ */
+export const CreateWebhookInputSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .describe(
+      "The http(s) URL that change events are POSTed to. It must resolve to a public address unless the server allows its host.",
+    ),
+  secret: z
+    .string()
+    .min(16)
+    .optional()
+    .describe(
+      "The secret used to sign deliveries (at least 16 characters). A random secret is generated if omitted.",
+    ),
+  description: z.string().max(200).optional(),
+  events: z
+    .array(StudyChangeTypeSchema)
+    .min(1)
+    .optional()
+    .describe(
+      "The change types to deliver ('new', 'removed', 'statusChanged'). Defaults to all.",
+    ),
+  searches: z
+    .array(z.string())
+    .min(1)
+    .optional()
+    .describe(
+      "The IDs or names of your saved searches to deliver changes for. Defaults to all of them, including ones saved later.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type CreateWebhookInput = z.infer<typeof CreateWebhookInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_create_webhook` tool.
+ */
+export const CreateWebhookOutputSchema = z.object({
+  webhook: WebhookSubscriptionSchema,
+  secret: z
+    .string()
+    .describe(
+      "The signing secret. It is only returned once, so store it to verify deliveries.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type CreateWebhookOutput = z.infer<typeof CreateWebhookOutputSchema>;
+
+/**
+ * Creates a webhook subscription for saved search changes.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the subscription and its signing secret.
+ * @throws {McpError} If the URL is invalid or not allowed, or a saved search
+ * does not exist.
+ */
+export async function createWebhookLogic(
+  params: CreateWebhookInput,
+  context: RequestContext,
+): Promise<CreateWebhookOutput> {
+  logger.debug("Executing createWebhookLogic", {
+    ...context,
+    toolInput: sanitizeInputForLogging(params),
+  });
+
+  const owner = getCurrentAuthor();
+  const searchIds = params.searches?.map((idOrName) => {
+    const search = SavedSearchService.getInstance().get(idOrName, owner);
+    if (!search) {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        `Saved search '${idOrName}' was not found.`,
+        { search: idOrName },
+      );
+    }
+    return search.id;
+  });
+
+  return WebhookService.getInstance().create(
+    {
+      url: params.url,
+      ...(params.secret && { secret: params.secret }),
+      ...(params.description && { description: params.description }),
+      ...(params.events && { events: params.events }),
+      ...(searchIds && { searchIds }),
+    },
+    context,
+    owner,
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_create_webhook` tool.
+ * @module src/mcp-server/tools/createWebhook/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  CreateWebhookInput,
+  CreateWebhookInputSchema,
+  createWebhookLogic,
+  CreateWebhookOutput,
+  CreateWebhookOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders the created webhook and its secret as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatCreateWebhookMarkdown(result: CreateWebhookOutput): string {
+  const { webhook } = result;
+  const filters = [
+    `change types: ${webhook.events?.join(", ") ?? "all"}`,
+    `saved searches: ${webhook.searchIds?.join(", ") ?? "all"}`,
+  ];
+  return [
+    `Created webhook \`${webhook.id}\` for ${webhook.url} (${filters.join("; ")}).`,
+    `Signing secret: \`${result.secret}\`. Store it now; it will not be shown again.`,
+  ].join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_create_webhook' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerCreateWebhookTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_create_webhook";
+  const toolDescription =
+    "Registers a webhook that receives the changes detected by saved searches (see 'clinicaltrials_save_search') as signed JSON POST requests, so downstream systems are notified without polling. Deliveries carry 'X-Webhook-Id', 'X-Webhook-Timestamp', and 'X-Webhook-Signature' headers; the signature is 'sha256=' followed by the hex HMAC-SHA256 of '<timestamp>.<body>' with the webhook's secret. Failed deliveries are retried with exponential backoff and, if they still fail, recorded as dead letters (see 'clinicaltrials_list_webhooks'). The webhook URL must resolve to a public address unless the server allows its host, and redirects are not followed. The secret is returned only once.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Create Saved Search Webhook",
+      description: toolDescription,
+      inputSchema: CreateWebhookInputSchema.shape,
+      outputSchema: CreateWebhookOutputSchema.shape,
+      annotations: { readOnlyHint: false },
+    },
+    async (params: CreateWebhookInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await createWebhookLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [
+            { type: "text", text: formatCreateWebhookMarkdown(result) },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
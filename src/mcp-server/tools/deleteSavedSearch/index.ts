@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_delete_saved_search` tool.
+ * @module src/mcp-server/tools/deleteSavedSearch/index
+ */
+export { registerDeleteSavedSearchTool } from "./registration.js";
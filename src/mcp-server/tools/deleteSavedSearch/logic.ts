@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_delete_saved_search` tool.
+ * @module src/mcp-server/tools/deleteSavedSearch/logic
+ */
+import { z } from "zod";
+import { SavedSearchService } from "../../../services/savedSearches/index.js";
+import { SavedSearchSchema } from "../../../services/savedSearches/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_delete_saved_search` tool.
+ */
+export const DeleteSavedSearchInputSchema = z.object({
+  search: z.string().describe("The ID or name of the saved search to delete."),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type DeleteSavedSearchInput = z.infer<
+  typeof DeleteSavedSearchInputSchema
+>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_delete_saved_search` tool.
+ */
+export const DeleteSavedSearchOutputSchema = z.object({
+  deleted: SavedSearchSchema,
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type DeleteSavedSearchOutput = z.infer<
+  typeof DeleteSavedSearchOutputSchema
+>;
+
+/**
+ * Deletes a saved search, stopping its schedule and discarding its change feed.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the deleted search.
+ * @throws {McpError} If the saved search does not exist.
+ */
+export async function deleteSavedSearchLogic(
+  params: DeleteSavedSearchInput,
+  context: RequestContext,
+): Promise<DeleteSavedSearchOutput> {
+  logger.debug("Executing deleteSavedSearchLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const service = SavedSearchService.getInstance();
+  const owner = getCurrentAuthor();
+  const search = service.get(params.search, owner);
+  if (!search) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Saved search '${params.search}' was not found.`,
+      { search: params.search },
+    );
+  }
+  await service.delete(search.id, context, owner);
+  return { deleted: search };
+}
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_delete_saved_search` tool.
+ * @module src/mcp-server/tools/deleteSavedSearch/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  DeleteSavedSearchInput,
+  DeleteSavedSearchInputSchema,
+  deleteSavedSearchLogic,
+  DeleteSavedSearchOutput,
+  DeleteSavedSearchOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders a confirmation of the deletion as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatDeleteSavedSearchMarkdown(
+  result: DeleteSavedSearchOutput,
+): string {
+  return `Deleted saved search **${result.deleted.name}** (ID \`${result.deleted.id}\`).`;
+}
+
+/**
+ * Registers the 'clinicaltrials_delete_saved_search' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerDeleteSavedSearchTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_delete_saved_search";
+  const toolDescription =
+    "Deletes a saved search by ID or name, stopping its scheduled re-runs and discarding its detected changes.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Delete Saved Search",
+      description: toolDescription,
+      inputSchema: DeleteSavedSearchInputSchema.shape,
+      outputSchema: DeleteSavedSearchOutputSchema.shape,
+      annotations: { readOnlyHint: false, destructiveHint: true },
+    },
+    async (params: DeleteSavedSearchInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await deleteSavedSearchLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [
+            { type: "text", text: formatDeleteSavedSearchMarkdown(result) },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_delete_webhook` tool.
+ * @module src/mcp-server/tools/deleteWebhook/index
+ */
+export { registerDeleteWebhookTool } from "./registration.js";
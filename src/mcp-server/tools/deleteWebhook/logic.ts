@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_delete_webhook` tool.
+ * @module src/mcp-server/tools/deleteWebhook/logic
+ */
+import { z } from "zod";
+import { WebhookService } from "../../../services/webhooks/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_delete_webhook` tool.
+ */
+export const DeleteWebhookInputSchema = z.object({
+  id: z.string().describe("The ID of the webhook to delete."),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type DeleteWebhookInput = z.infer<typeof DeleteWebhookInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_delete_webhook` tool.
+ */
+export const DeleteWebhookOutputSchema = z.object({
+  id: z.string(),
+  deleted: z.boolean(),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type DeleteWebhookOutput = z.infer<typeof DeleteWebhookOutputSchema>;
+
+/**
+ * Deletes a webhook subscription of the current client.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the deleted webhook's ID.
+ * @throws {McpError} If the webhook does not exist.
+ */
+export async function deleteWebhookLogic(
+  params: DeleteWebhookInput,
+  context: RequestContext,
+): Promise<DeleteWebhookOutput> {
+  logger.debug("Executing deleteWebhookLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  if (
+    !WebhookService.getInstance().delete(params.id, context, getCurrentAuthor())
+  ) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Webhook '${params.id}' was not found.`,
+      { id: params.id },
+    );
+  }
+  return { id: params.id, deleted: true };
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_delete_webhook` tool.
+ * @module src/mcp-server/tools/deleteWebhook/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  DeleteWebhookInput,
+  DeleteWebhookInputSchema,
+  deleteWebhookLogic,
+  DeleteWebhookOutput,
+  DeleteWebhookOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders a confirmation of the deletion as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatDeleteWebhookMarkdown(result: DeleteWebhookOutput): string {
+  return `Deleted webhook \`${result.id}\`.`;
+}
+
+/**
+ * Registers the 'clinicaltrials_delete_webhook' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerDeleteWebhookTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_delete_webhook";
+  const toolDescription =
+    "Deletes a webhook by ID. Deliveries already in progress are completed.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Delete Saved Search Webhook",
+      description: toolDescription,
+      inputSchema: DeleteWebhookInputSchema.shape,
+      outputSchema: DeleteWebhookOutputSchema.shape,
+      annotations: { readOnlyHint: false, destructiveHint: true },
+    },
+    async (params: DeleteWebhookInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await deleteWebhookLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [
+            { type: "text", text: formatDeleteWebhookMarkdown(result) },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
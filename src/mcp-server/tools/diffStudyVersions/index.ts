@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_diff_study_versions` tool.
+ * @module src/mcp-server/tools/diffStudyVersions/index
+ */
+export { registerDiffStudyVersionsTool } from "./registration.js";
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_diff_study_versions` tool.
+ * @module src/mcp-server/tools/diffStudyVersions/logic
+ */
+import { z } from "zod";
+import {
+  ClinicalTrialsGovService,
+  StudyVersion,
+} from "../../../services/clinical-trials-gov/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { diffStudies } from "../../../utils/clinicaltrials/studyDiff.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_diff_study_versions` tool.
+ */
+export const DiffStudyVersionsInputSchema = z.object({
+  nctId: z
+    .string()
+    .regex(/^[Nn][Cc][Tt]\d{8}$/)
+    .describe("The NCT ID of the study (e.g., 'NCT04280705')."),
+  fromVersion: z
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .optional()
+    .describe(
+      "The earlier version to compare. Defaults to 0, the initial registration.",
+    ),
+  toVersion: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("The later version to compare. Defaults to the latest version."),
+  maxChanges: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .default(200)
+    .optional()
+    .describe(
+      "The maximum number of changed fields to return. Defaults to 200.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type DiffStudyVersionsInput = z.infer<
+  typeof DiffStudyVersionsInputSchema
+>;
+
+/**
+ * Zod schema for a leaf value in a diff.
+ */
+const FieldValueSchema = z
+  .union([z.string(), z.number(), z.boolean()])
+  .nullable();
+
+/**
+ * Zod schema for the outcome measures added and removed between versions.
+ */
+const OutcomeMeasureChangesSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+});
+
+/**
+ * Zod schema for a compared version.
+ */
+const ComparedVersionSchema = z.object({
+  version: z.number().int(),
+  date: z.string().optional(),
+});
+
+/**
+ * Zod schema for the output of the `clinicaltrials_diff_study_versions` tool.
+ */
+export const DiffStudyVersionsOutputSchema = z.object({
+  nctId: z.string(),
+  from: ComparedVersionSchema,
+  to: ComparedVersionSchema,
+  totalChanges: z.number().int(),
+  changedModules: z
+    .record(z.number().int())
+    .describe("The number of changed fields per module."),
+  changes: z
+    .array(
+      z.object({
+        path: z.string(),
+        module: z.string(),
+        before: FieldValueSchema,
+        after: FieldValueSchema,
+      }),
+    )
+    .describe("The changed fields, in path order, up to `maxChanges`."),
+  outcomes: z
+    .object({
+      primary: OutcomeMeasureChangesSchema,
+      secondary: OutcomeMeasureChangesSchema,
+    })
+    .describe("Outcome measures added or removed, matched by title."),
+  primaryOutcomesChanged: z
+    .boolean()
+    .describe(
+      "True if any primary outcome was added, removed, or edited, a possible sign of outcome switching.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type DiffStudyVersionsOutput = z.infer<
+  typeof DiffStudyVersionsOutputSchema
+>;
+
+/**
+ * Finds a version in the history, throwing if it does not exist.
+ * @private
+ */
+function requireVersion(
+  versions: StudyVersion[],
+  version: number,
+  nctId: string,
+): StudyVersion {
+  const found = versions.find((v) => v.version === version);
+  if (!found) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Study ${nctId} has no version ${version}. Available versions are 0 to ${versions.length - 1}.`,
+      { nctId, version, versions: versions.length },
+    );
+  }
+  return found;
+}
+
+/**
+ * Compares two versions of a study field by field, and reports the outcome
+ * measures added, removed, or edited between them.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the field-level diff.
+ * @throws {McpError} If the versions are not in order, or either does not exist.
+ */
+export async function diffStudyVersionsLogic(
+  params: DiffStudyVersionsInput,
+  context: RequestContext,
+): Promise<DiffStudyVersionsOutput> {
+  logger.debug("Executing diffStudyVersionsLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const nctId = params.nctId.toUpperCase();
+  const service = ClinicalTrialsGovService.getInstance();
+  const history = await service.fetchStudyHistory(nctId, context);
+  const versions = history.changes ?? [];
+  const latest = Math.max(-1, ...versions.map((v) => v.version));
+
+  const fromVersion = params.fromVersion ?? 0;
+  const toVersion = params.toVersion ?? latest;
+  if (fromVersion >= toVersion) {
+    throw new McpError(
+      BaseErrorCode.INVALID_INPUT,
+      latest <= 0
+        ? `Study ${nctId} has only one version, so there is nothing to compare.`
+        : `'fromVersion' (${fromVersion}) must be earlier than 'toVersion' (${toVersion}).`,
+      { nctId, fromVersion, toVersion },
+    );
+  }
+  const from = requireVersion(versions, fromVersion, nctId);
+  const to = requireVersion(versions, toVersion, nctId);
+
+  const [before, after] = await Promise.all([
+    service.fetchStudyVersion(nctId, fromVersion, context),
+    service.fetchStudyVersion(nctId, toVersion, context),
+  ]);
+  const { changes, outcomes } = diffStudies(before, after);
+
+  const changedModules: Record<string, number> = {};
+  for (const change of changes) {
+    changedModules[change.module] = (changedModules[change.module] ?? 0) + 1;
+  }
+  const primaryOutcomesChanged =
+    outcomes.primary.added.length > 0 ||
+    outcomes.primary.removed.length > 0 ||
+    changes.some((c) =>
+      c.path.startsWith("protocolSection.outcomesModule.primaryOutcomes"),
+    );
+
+  logger.info(
+    `Found ${changes.length} changed fields between versions ${fromVersion} and ${toVersion} of study ${nctId}.`,
+    { ...context },
+  );
+
+  return {
+    nctId,
+    from: { version: fromVersion, ...(from.date && { date: from.date }) },
+    to: { version: toVersion, ...(to.date && { date: to.date }) },
+    totalChanges: changes.length,
+    changedModules,
+    changes: changes.slice(0, params.maxChanges ?? 200),
+    outcomes,
+    primaryOutcomesChanged,
+  };
+}
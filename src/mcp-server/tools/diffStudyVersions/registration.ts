@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_diff_study_versions` tool.
+ * @module src/mcp-server/tools/diffStudyVersions/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
+import {
+  DiffStudyVersionsInput,
+  DiffStudyVersionsInputSchema,
+  diffStudyVersionsLogic,
+  DiffStudyVersionsOutput,
+  DiffStudyVersionsOutputSchema,
+} from "./logic.js";
+
+/**
+ * The maximum length of a rendered value. Long values such as descriptions are
+ * truncated in the markdown only; `structuredContent` keeps them whole.
+ */
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Renders a diff value, truncated to {@link MAX_VALUE_LENGTH} characters.
+ * @private
+ */
+function formatValue(value: string | number | boolean | null): string {
+  if (value === null) return "—";
+  const text = String(value);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Renders the diff as markdown, leading with any outcome measure changes.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatDiffMarkdown(result: DiffStudyVersionsOutput): string {
+  const describe = (v: { version: number; date?: string }) =>
+    `version ${v.version}${v.date ? ` (${v.date})` : ""}`;
+  const lines = [
+    `${result.totalChanges} fields of ${result.nctId} changed between ${describe(result.from)} and ${describe(result.to)}.`,
+  ];
+
+  const { primary, secondary } = result.outcomes;
+  if (result.primaryOutcomesChanged) {
+    lines.push("**The primary outcomes changed between these versions.**");
+  }
+  const outcomeLines = [
+    ...primary.added.map((t) => `- Primary outcome added: ${t}`),
+    ...primary.removed.map((t) => `- Primary outcome removed: ${t}`),
+    ...secondary.added.map((t) => `- Secondary outcome added: ${t}`),
+    ...secondary.removed.map((t) => `- Secondary outcome removed: ${t}`),
+  ];
+  if (outcomeLines.length > 0) lines.push(outcomeLines.join("\n"));
+
+  if (result.changes.length > 0) {
+    lines.push(
+      formatMarkdownTable(
+        ["Field", "Before", "After"],
+        result.changes.map((c) => [
+          c.path,
+          formatValue(c.before),
+          formatValue(c.after),
+        ]),
+      ),
+    );
+  }
+  if (result.changes.length < result.totalChanges) {
+    lines.push(
+      `Showing ${result.changes.length} of ${result.totalChanges} changed fields. Changes per module: ${Object.entries(
+        result.changedModules,
+      )
+        .map(([module, count]) => `${module} (${count})`)
+        .join(", ")}.`,
+    );
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_diff_study_versions' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerDiffStudyVersionsTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_diff_study_versions";
+  const toolDescription =
+    "Compares two versions of a clinical study field by field, e.g. to find status, enrollment, or date changes, or to detect outcome switching. By default compares the initial registration with the latest version. Returns every changed field with its before and after values, and lists the primary and secondary outcome measures added or removed, flagging any change to the primary outcomes.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Diff Study Versions",
+      description: toolDescription,
+      inputSchema: DiffStudyVersionsInputSchema.shape,
+      outputSchema: DiffStudyVersionsOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: DiffStudyVersionsInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await diffStudyVersionsLogic(params, handlerContext);
+        trackStudyIds(server, [result.nctId]);
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatDiffMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_get_annotations` tool.
+ * @module src/mcp-server/tools/getAnnotations/index
+ */
+export { registerGetAnnotationsTool } from "./registration.js";
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_get_annotations` tool.
+ * @module src/mcp-server/tools/getAnnotations/logic
+ */
+import { z } from "zod";
+import { getPersistence } from "../../../services/persistence/index.js";
+import { StudyAnnotationSchema } from "../../../services/persistence/types.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_get_annotations` tool.
+ */
+export const GetAnnotationsInputSchema = z.object({
+  nctId: z
+    .string()
+    .regex(/^[Nn][Cc][Tt]\d{8}$/)
+    .optional()
+    .describe("Only return notes on this study."),
+  tag: z.string().optional().describe("Only return notes with this tag."),
+  mine: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, only returns notes written by the authenticated caller.",
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .optional()
+    .describe("The maximum number of notes to return. Defaults to 50."),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type GetAnnotationsInput = z.infer<typeof GetAnnotationsInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_get_annotations` tool.
+ */
+export const GetAnnotationsOutputSchema = z.object({
+  annotations: z
+    .array(StudyAnnotationSchema)
+    .describe("The matching notes, most recently updated first."),
+  totalCount: z.number().int().describe("The number of matching notes."),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type GetAnnotationsOutput = z.infer<typeof GetAnnotationsOutputSchema>;
+
+/**
+ * Lists the notes on studies, optionally filtered by study, tag, and author.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the matching annotations.
+ */
+export async function getAnnotationsLogic(
+  params: GetAnnotationsInput,
+  context: RequestContext,
+): Promise<GetAnnotationsOutput> {
+  logger.debug("Executing getAnnotationsLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const author = params.mine ? getCurrentAuthor() : undefined;
+  const annotations = await getPersistence().annotations.list({
+    ...(params.nctId && { nctId: params.nctId.toUpperCase() }),
+    ...(params.tag && { tag: params.tag }),
+    ...(author && { author }),
+  });
+
+  return {
+    annotations: annotations.slice(0, params.limit ?? 50),
+    totalCount: annotations.length,
+  };
+}
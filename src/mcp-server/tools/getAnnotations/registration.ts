@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_get_annotations` tool.
+ * @module src/mcp-server/tools/getAnnotations/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  GetAnnotationsInput,
+  GetAnnotationsInputSchema,
+  getAnnotationsLogic,
+  GetAnnotationsOutput,
+  GetAnnotationsOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders the annotations as a markdown table.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatGetAnnotationsMarkdown(result: GetAnnotationsOutput): string {
+  if (result.annotations.length === 0) {
+    return "No annotations found. Use clinicaltrials_annotate_study to add one.";
+  }
+  const table = formatMarkdownTable(
+    ["Study", "Note", "Tags", "Author", "Updated", "ID"],
+    result.annotations.map((a) => [
+      a.nctId,
+      a.note,
+      a.tags.join(", "),
+      a.author ?? "",
+      a.updatedAt,
+      a.id,
+    ]),
+  );
+  return `Showing ${result.annotations.length} of ${result.totalCount} annotations.\n\n${table}`;
+}
+
+/**
+ * Registers the 'clinicaltrials_get_annotations' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerGetAnnotationsTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_get_annotations";
+  const toolDescription =
+    "Lists the notes added to studies with 'clinicaltrials_annotate_study', most recently updated first. Filter by study ('nctId'), by tag, or to your own notes ('mine').";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Get Study Annotations",
+      description: toolDescription,
+      inputSchema: GetAnnotationsInputSchema.shape,
+      outputSchema: GetAnnotationsOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: GetAnnotationsInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await getAnnotationsLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [
+            { type: "text", text: formatGetAnnotationsMarkdown(result) },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_get_field_stats` tool.
+ * @module src/mcp-server/tools/getFieldStats/index
+ */
+export { registerGetFieldStatsTool } from "./registration.js";
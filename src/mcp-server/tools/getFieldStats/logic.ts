@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_get_field_stats` tool.
+ * @module src/mcp-server/tools/getFieldStats/logic
+ */
+import { z } from "zod";
+import {
+  ClinicalTrialsGovService,
+  FieldValueStats,
+} from "../../../services/clinical-trials-gov/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * The field types supported by the `/stats/field/values` endpoint.
+ */
+export const FieldTypeSchema = z.enum([
+  "ENUM",
+  "STRING",
+  "DATE",
+  "INTEGER",
+  "NUMBER",
+  "BOOLEAN",
+]);
+
+/**
+ * Zod schema for the input of the `clinicaltrials_get_field_stats` tool.
+ */
+export const GetFieldStatsInputSchema = z.object({
+  fields: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(20)
+    .describe(
+      "Field piece names (e.g., 'Phase', 'OverallStatus') or full field paths (e.g., 'protocolSection.designModule.phases') to get value statistics for. Use `clinicaltrials_list_fields` to discover them.",
+    ),
+  types: z
+    .array(FieldTypeSchema)
+    .optional()
+    .describe(
+      "Restricts the statistics to fields of these types. If omitted, all types are included.",
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(25)
+    .optional()
+    .describe(
+      "The maximum number of most common values to return per field. Defaults to 25.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type GetFieldStatsInput = z.infer<typeof GetFieldStatsInputSchema>;
+
+/**
+ * Zod schema for the value statistics of a single field.
+ */
+export const FieldStatsSchema = z
+  .object({
+    field: z.string(),
+    piece: z.string(),
+    type: z.string(),
+    missingStudiesCount: z.number().int().optional(),
+    uniqueValuesCount: z.number().int().optional(),
+    topValues: z
+      .array(z.object({ value: z.string(), studiesCount: z.number().int() }))
+      .optional(),
+    truncated: z
+      .boolean()
+      .optional()
+      .describe("True if more distinct values exist than were returned."),
+  })
+  .passthrough();
+
+/**
+ * TypeScript type inferred from the field stats schema.
+ */
+export type FieldStats = z.infer<typeof FieldStatsSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_get_field_stats` tool.
+ */
+export const GetFieldStatsOutputSchema = z.object({
+  fields: z.array(FieldStatsSchema),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type GetFieldStatsOutput = z.infer<typeof GetFieldStatsOutputSchema>;
+
+/**
+ * Fetches the distribution of values for one or more fields across all studies
+ * in ClinicalTrials.gov, sorted by the number of studies per value.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the value statistics for each field.
+ * @throws {McpError} If none of the fields are known or the API request fails.
+ */
+export async function getFieldStatsLogic(
+  params: GetFieldStatsInput,
+  context: RequestContext,
+): Promise<GetFieldStatsOutput> {
+  logger.debug("Executing getFieldStatsLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const service = ClinicalTrialsGovService.getInstance();
+  const response = await service.getApiStats(
+    "fieldValues",
+    { fields: params.fields, types: params.types },
+    context,
+  );
+
+  if (!Array.isArray(response)) {
+    throw new McpError(
+      BaseErrorCode.PARSING_ERROR,
+      "Unexpected response format from the field values endpoint.",
+      { fields: params.fields },
+    );
+  }
+
+  if (response.length === 0) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `No statistics found for fields: ${params.fields.join(", ")}. Use clinicaltrials_list_fields to find valid field names.`,
+      { fields: params.fields },
+    );
+  }
+
+  const limit = params.limit ?? 25;
+  const fields = (response as FieldValueStats[]).map((stats): FieldStats => {
+    if (!stats.topValues) {
+      return { ...stats };
+    }
+    const topValues = [...stats.topValues]
+      .sort((a, b) => b.studiesCount - a.studiesCount)
+      .slice(0, limit);
+    const distinctCount = stats.uniqueValuesCount ?? stats.topValues.length;
+    return {
+      ...stats,
+      topValues,
+      ...(distinctCount > topValues.length && { truncated: true }),
+    };
+  });
+
+  logger.info(`Fetched value statistics for ${fields.length} fields.`, {
+    ...context,
+    fields: fields.map((f) => f.piece),
+  });
+
+  return { fields };
+}
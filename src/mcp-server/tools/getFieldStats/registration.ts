@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_get_field_stats` tool.
+ * @module src/mcp-server/tools/getFieldStats/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  MarkdownCell,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  FieldStats,
+  GetFieldStatsInput,
+  GetFieldStatsInputSchema,
+  getFieldStatsLogic,
+  GetFieldStatsOutput,
+  GetFieldStatsOutputSchema,
+} from "./logic.js";
+
+/**
+ * Keys of a field's statistics that are rendered in its heading rather than its table.
+ * @private
+ */
+const HEADING_KEYS = new Set([
+  "field",
+  "piece",
+  "type",
+  "missingStudiesCount",
+  "uniqueValuesCount",
+  "topValues",
+  "truncated",
+]);
+
+/**
+ * Renders the statistics of a single field as a markdown section.
+ * @param stats - The field statistics.
+ * @returns The markdown section.
+ * @private
+ */
+function formatFieldSection(stats: FieldStats): string {
+  const notes: string[] = [];
+  if (stats.uniqueValuesCount !== undefined) {
+    notes.push(`${stats.uniqueValuesCount} distinct values`);
+  }
+  if (stats.missingStudiesCount !== undefined) {
+    notes.push(`missing in ${stats.missingStudiesCount} studies`);
+  }
+  if (stats.truncated) {
+    notes.push(`showing top ${stats.topValues?.length ?? 0}`);
+  }
+
+  const lines = [`### ${stats.piece} (\`${stats.field}\`) — ${stats.type}`];
+  if (notes.length > 0) {
+    lines.push(`${notes.join(", ")}.`);
+  }
+
+  if (stats.topValues && stats.topValues.length > 0) {
+    lines.push(
+      formatMarkdownTable(
+        ["Value", "Studies"],
+        stats.topValues.map((v) => [v.value, v.studiesCount]),
+        { align: ["left", "right"] },
+      ),
+    );
+  } else {
+    const rows: MarkdownCell[][] = Object.entries(stats)
+      .filter(([key, value]) => !HEADING_KEYS.has(key) && value !== undefined)
+      .map(([key, value]) => [
+        key,
+        typeof value === "object" ? JSON.stringify(value) : String(value),
+      ]);
+    if (rows.length > 0) {
+      lines.push(formatMarkdownTable(["Statistic", "Value"], rows));
+    }
+  }
+
+  return lines.join("\n\n");
+}
+
+/**
+ * Renders the statistics of all fields as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatFieldStatsMarkdown(result: GetFieldStatsOutput): string {
+  return result.fields.map(formatFieldSection).join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_get_field_stats' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerGetFieldStatsTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_get_field_stats";
+  const toolDescription =
+    "Returns the distribution of values for one or more study fields across all of ClinicalTrials.gov (e.g., every `Phase` or `OverallStatus` value with its study count). Use it to find valid filter values before constructing a search.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Get Field Value Statistics",
+      description: toolDescription,
+      inputSchema: GetFieldStatsInputSchema.shape,
+      outputSchema: GetFieldStatsOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: GetFieldStatsInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await getFieldStatsLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatFieldStatsMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_get_results` tool.
+ * @module src/mcp-server/tools/getResults/index
+ */
+export { registerGetResultsTool } from "./registration.js";
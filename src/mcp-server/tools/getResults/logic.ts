@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_get_results` tool.
+ * @module src/mcp-server/tools/getResults/logic
+ */
+import { z } from "zod";
+import {
+  AdverseEvent,
+  ClinicalTrialsGovService,
+  OutcomeMeasure,
+  Study,
+} from "../../../services/clinical-trials-gov/index.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * The outcome measure types reported by ClinicalTrials.gov.
+ */
+export const OutcomeTypeSchema = z.enum([
+  "PRIMARY",
+  "SECONDARY",
+  "OTHER_PRE_SPECIFIED",
+  "POST_HOC",
+]);
+
+/**
+ * Zod schema for the input of the `clinicaltrials_get_results` tool.
+ */
+export const GetResultsInputSchema = z.object({
+  nctId: z
+    .string()
+    .regex(/^[Nn][Cc][Tt]\d{8}$/)
+    .describe(
+      "The NCT ID of a study with posted results (e.g., 'NCT04280705').",
+    ),
+  outcomeTypes: z
+    .array(OutcomeTypeSchema)
+    .min(1)
+    .default(["PRIMARY", "SECONDARY"])
+    .optional()
+    .describe(
+      "The outcome measure types to include. Defaults to PRIMARY and SECONDARY.",
+    ),
+  includeAnalyses: z
+    .boolean()
+    .default(true)
+    .optional()
+    .describe(
+      "If true (default), includes the statistical analyses reported for each outcome.",
+    ),
+  maxAdverseEvents: z
+    .number()
+    .int()
+    .min(0)
+    .max(200)
+    .default(20)
+    .optional()
+    .describe(
+      "The maximum number of serious adverse event terms to return, most frequent first. Defaults to 20; 0 omits them.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type GetResultsInput = z.infer<typeof GetResultsInputSchema>;
+
+/**
+ * Zod schema for a group column of a results table.
+ */
+const ResultGroupSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  participants: z
+    .string()
+    .optional()
+    .describe("The number analyzed or at risk, as reported."),
+});
+
+/**
+ * Zod schema for a summarized outcome measure. Each row's `values[i]`
+ * belongs to `groups[i]`, and is `null` when the group has no value.
+ */
+export const OutcomeSummarySchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  timeFrame: z.string().optional(),
+  unitOfMeasure: z.string().optional(),
+  paramType: z.string().optional(),
+  dispersionType: z.string().optional(),
+  groups: z.array(ResultGroupSummarySchema),
+  rows: z.array(
+    z.object({
+      label: z.string(),
+      values: z.array(z.string().nullable()),
+    }),
+  ),
+  analyses: z
+    .array(
+      z.object({
+        groups: z.array(z.string()),
+        method: z.string().optional(),
+        pValue: z.string().optional(),
+        estimate: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+/**
+ * TypeScript type inferred from the outcome summary schema.
+ */
+export type OutcomeSummary = z.infer<typeof OutcomeSummarySchema>;
+
+/**
+ * Zod schema for the serious adverse event table. Each event's `values[i]`
+ * is "affected/at risk" for `groups[i]`.
+ */
+export const SeriousAdverseEventsSchema = z.object({
+  timeFrame: z.string().optional(),
+  groups: z.array(ResultGroupSummarySchema.extend({ affected: z.string() })),
+  totalTerms: z.number().int(),
+  events: z.array(
+    z.object({
+      term: z.string(),
+      organSystem: z.string().optional(),
+      values: z.array(z.string().nullable()),
+    }),
+  ),
+});
+
+/**
+ * TypeScript type inferred from the serious adverse events schema.
+ */
+export type SeriousAdverseEvents = z.infer<typeof SeriousAdverseEventsSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_get_results` tool.
+ */
+export const GetResultsOutputSchema = z.object({
+  nctId: z.string(),
+  title: z.string().optional(),
+  hasResults: z.boolean(),
+  outcomes: z.array(OutcomeSummarySchema),
+  seriousAdverseEvents: SeriousAdverseEventsSchema.optional(),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type GetResultsOutput = z.infer<typeof GetResultsOutputSchema>;
+
+/**
+ * The fields requested from the API. Only the results section and the title
+ * are needed, which keeps the response small for studies with long protocols.
+ */
+const RESULTS_FIELDS = [
+  "protocolSection.identificationModule",
+  "resultsSection",
+  "hasResults",
+];
+
+/**
+ * Formats a measured value with its spread or limits, e.g. "12.3 (4.5)" or
+ * "0.8 (0.6 to 1.1)".
+ * @private
+ */
+function formatMeasurement(m: {
+  value?: string;
+  spread?: string;
+  lowerLimit?: string;
+  upperLimit?: string;
+  comment?: string;
+}): string | null {
+  if (!m.value) return m.comment ?? null;
+  if (m.lowerLimit || m.upperLimit) {
+    return `${m.value} (${m.lowerLimit ?? "NA"} to ${m.upperLimit ?? "NA"})`;
+  }
+  return m.spread ? `${m.value} (${m.spread})` : m.value;
+}
+
+/**
+ * Formats an analysis estimate, e.g. "Hazard Ratio (HR) 0.72 (95% CI 0.60 to 0.86)".
+ * @private
+ */
+function formatEstimate(analysis: {
+  paramType?: string;
+  paramValue?: string;
+  ciPctValue?: string;
+  ciLowerLimit?: string;
+  ciUpperLimit?: string;
+}): string | undefined {
+  if (!analysis.paramValue) return undefined;
+  const estimate = [analysis.paramType, analysis.paramValue]
+    .filter(Boolean)
+    .join(" ");
+  if (!analysis.ciLowerLimit && !analysis.ciUpperLimit) return estimate;
+  const ci = `${analysis.ciPctValue ?? "95"}% CI ${analysis.ciLowerLimit ?? "NA"} to ${analysis.ciUpperLimit ?? "NA"}`;
+  return `${estimate} (${ci})`;
+}
+
+/**
+ * Summarizes an outcome measure into a table of rows aligned with its groups.
+ * @param measure - The outcome measure, as returned by the API.
+ * @param includeAnalyses - Whether to include its statistical analyses.
+ * @returns The compact outcome summary.
+ */
+export function summarizeOutcome(
+  measure: OutcomeMeasure,
+  includeAnalyses = true,
+): OutcomeSummary {
+  const groups = measure.groups ?? [];
+  const index = new Map(groups.map((g, i) => [g.id, i]));
+  const participants = new Map(
+    (measure.denoms?.[0]?.counts ?? []).map((c) => [c.groupId, c.value]),
+  );
+
+  const rows: OutcomeSummary["rows"] = [];
+  for (const cls of measure.classes ?? []) {
+    for (const category of cls.categories ?? []) {
+      const values: (string | null)[] = groups.map(() => null);
+      for (const m of category.measurements ?? []) {
+        const i = index.get(m.groupId);
+        if (i !== undefined) values[i] = formatMeasurement(m);
+      }
+      const label = [cls.title, category.title].filter(Boolean).join(" — ");
+      rows.push({ label, values });
+    }
+  }
+
+  const titleOf = (id: string) => groups[index.get(id) ?? -1]?.title ?? id;
+
+  return {
+    type: measure.type ?? "UNKNOWN",
+    title: measure.title ?? "Untitled outcome",
+    ...(measure.timeFrame && { timeFrame: measure.timeFrame }),
+    ...(measure.unitOfMeasure && { unitOfMeasure: measure.unitOfMeasure }),
+    ...(measure.paramType && { paramType: measure.paramType }),
+    ...(measure.dispersionType && { dispersionType: measure.dispersionType }),
+    groups: groups.map((g) => ({
+      id: g.id,
+      title: g.title ?? g.id,
+      ...(participants.get(g.id) && { participants: participants.get(g.id) }),
+    })),
+    rows,
+    ...(includeAnalyses &&
+      measure.analyses?.length && {
+        analyses: measure.analyses.map((a) => {
+          const estimate = formatEstimate(a);
+          return {
+            groups: (a.groupIds ?? []).map(titleOf),
+            ...(a.statisticalMethod && { method: a.statisticalMethod }),
+            ...(a.pValue && { pValue: a.pValue }),
+            ...(estimate && { estimate }),
+          };
+        }),
+      }),
+  };
+}
+
+/**
+ * Sums the participants affected by an adverse event across groups.
+ * @private
+ */
+function totalAffected(event: AdverseEvent): number {
+  return (event.stats ?? []).reduce((sum, s) => sum + (s.numAffected ?? 0), 0);
+}
+
+/**
+ * Summarizes the serious adverse events of a study, most frequent first.
+ * @param study - The study, including its results section.
+ * @param maxEvents - The maximum number of event terms to return.
+ * @returns The serious adverse event table, or `undefined` if none is reported.
+ */
+export function summarizeSeriousAdverseEvents(
+  study: Study,
+  maxEvents: number,
+): SeriousAdverseEvents | undefined {
+  const module = study.resultsSection?.adverseEventsModule;
+  if (!module?.eventGroups?.length) return undefined;
+
+  const groups = module.eventGroups;
+  const index = new Map(groups.map((g, i) => [g.id, i]));
+  const seriousEvents = module.seriousEvents ?? [];
+
+  const events = [...seriousEvents]
+    .sort((a, b) => totalAffected(b) - totalAffected(a))
+    .slice(0, maxEvents)
+    .map((event) => {
+      const values: (string | null)[] = groups.map(() => null);
+      for (const s of event.stats ?? []) {
+        const i = index.get(s.groupId);
+        if (i !== undefined && s.numAffected !== undefined) {
+          values[i] = `${s.numAffected}/${s.numAtRisk ?? "?"}`;
+        }
+      }
+      return {
+        term: event.term,
+        ...(event.organSystem && { organSystem: event.organSystem }),
+        values,
+      };
+    });
+
+  return {
+    ...(module.timeFrame && { timeFrame: module.timeFrame }),
+    groups: groups.map((g) => ({
+      id: g.id,
+      title: g.title ?? g.id,
+      ...(g.seriousNumAtRisk !== undefined && {
+        participants: String(g.seriousNumAtRisk),
+      }),
+      affected: `${g.seriousNumAffected ?? "?"}/${g.seriousNumAtRisk ?? "?"}`,
+    })),
+    totalTerms: seriousEvents.length,
+    events,
+  };
+}
+
+/**
+ * Fetches the posted results of a study and summarizes its outcome measures,
+ * statistical analyses, and serious adverse events.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the summarized results. `hasResults` is false,
+ * and the lists are empty, if the study has no posted results.
+ * @throws {McpError} If the study cannot be fetched.
+ */
+export async function getResultsLogic(
+  params: GetResultsInput,
+  context: RequestContext,
+): Promise<GetResultsOutput> {
+  logger.debug("Executing getResultsLogic", { ...context, toolInput: params });
+
+  const nctId = params.nctId.toUpperCase();
+  const service = ClinicalTrialsGovService.getInstance();
+  const study = await service.fetchStudy(nctId, context, {
+    fields: RESULTS_FIELDS,
+  });
+  const title = study.protocolSection?.identificationModule?.briefTitle;
+
+  if (!study.resultsSection) {
+    logger.info(`Study ${nctId} has no posted results.`, { ...context });
+    return {
+      nctId,
+      ...(title && { title }),
+      hasResults: false,
+      outcomes: [],
+    };
+  }
+
+  const outcomeTypes = new Set<string>(
+    params.outcomeTypes ?? ["PRIMARY", "SECONDARY"],
+  );
+  const outcomes = (
+    study.resultsSection.outcomeMeasuresModule?.outcomeMeasures ?? []
+  )
+    .filter((measure) => outcomeTypes.has(measure.type ?? ""))
+    .map((measure) =>
+      summarizeOutcome(measure, params.includeAnalyses ?? true),
+    );
+
+  const maxAdverseEvents = params.maxAdverseEvents ?? 20;
+  const seriousAdverseEvents =
+    maxAdverseEvents > 0
+      ? summarizeSeriousAdverseEvents(study, maxAdverseEvents)
+      : undefined;
+
+  logger.info(
+    `Summarized ${outcomes.length} outcome measures for study ${nctId}.`,
+    { ...context },
+  );
+
+  return {
+    nctId,
+    ...(title && { title }),
+    hasResults: true,
+    outcomes,
+    ...(seriousAdverseEvents && { seriousAdverseEvents }),
+  };
+}
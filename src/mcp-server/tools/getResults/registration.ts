@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_get_results` tool.
+ * @module src/mcp-server/tools/getResults/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
+import {
+  GetResultsInput,
+  GetResultsInputSchema,
+  getResultsLogic,
+  GetResultsOutput,
+  GetResultsOutputSchema,
+  OutcomeSummary,
+  SeriousAdverseEvents,
+} from "./logic.js";
+
+/**
+ * Renders a group as a table header, with its participant count if known.
+ * @private
+ */
+function groupHeader(group: { title: string; participants?: string }): string {
+  return group.participants
+    ? `${group.title} (n=${group.participants})`
+    : group.title;
+}
+
+/**
+ * Renders an outcome measure as a markdown section.
+ * @param outcome - The summarized outcome.
+ * @returns The markdown section.
+ * @private
+ */
+function formatOutcomeSection(outcome: OutcomeSummary): string {
+  const details = [
+    outcome.timeFrame && `Time frame: ${outcome.timeFrame}`,
+    outcome.paramType &&
+      `Measure: ${outcome.paramType}${outcome.dispersionType ? ` (${outcome.dispersionType})` : ""}`,
+    outcome.unitOfMeasure && `Unit: ${outcome.unitOfMeasure}`,
+  ].filter(Boolean);
+
+  const lines = [`### ${outcome.type}: ${outcome.title}`];
+  if (details.length > 0) lines.push(details.join(" · "));
+  if (outcome.rows.length > 0) {
+    lines.push(
+      formatMarkdownTable(
+        ["", ...outcome.groups.map(groupHeader)],
+        outcome.rows.map((row) => [row.label, ...row.values]),
+      ),
+    );
+  }
+  for (const analysis of outcome.analyses ?? []) {
+    const parts = [
+      analysis.estimate,
+      analysis.pValue &&
+        `p ${/^[<>=≤≥]/.test(analysis.pValue) ? "" : "= "}${analysis.pValue}`,
+      analysis.method,
+    ].filter(Boolean);
+    lines.push(`- ${analysis.groups.join(" vs ")}: ${parts.join("; ")}`);
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Renders the serious adverse event table as a markdown section.
+ * @param events - The summarized serious adverse events.
+ * @returns The markdown section.
+ * @private
+ */
+function formatAdverseEventSection(events: SeriousAdverseEvents): string {
+  const lines = ["### Serious adverse events"];
+  if (events.timeFrame) lines.push(`Time frame: ${events.timeFrame}`);
+  lines.push(
+    formatMarkdownTable(
+      ["Term", "Organ system", ...events.groups.map((g) => g.title)],
+      [
+        ["**Total**", "", ...events.groups.map((g) => g.affected)],
+        ...events.events.map((e) => [e.term, e.organSystem, ...e.values]),
+      ],
+    ),
+  );
+  if (events.events.length < events.totalTerms) {
+    lines.push(
+      `Showing the ${events.events.length} most frequent of ${events.totalTerms} terms.`,
+    );
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Renders the summarized results as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatResultsMarkdown(result: GetResultsOutput): string {
+  const header = `## ${result.nctId}${result.title ? ` — ${result.title}` : ""}`;
+  if (!result.hasResults) {
+    return `${header}\n\nNo results have been posted for this study.`;
+  }
+  const sections = [header, ...result.outcomes.map(formatOutcomeSection)];
+  if (result.outcomes.length === 0) {
+    sections.push("No outcome measures of the requested types were reported.");
+  }
+  if (result.seriousAdverseEvents) {
+    sections.push(formatAdverseEventSection(result.seriousAdverseEvents));
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_get_results' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerGetResultsTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_get_results";
+  const toolDescription =
+    "Retrieves the posted results of a completed study by NCT ID and summarizes them compactly: primary and secondary outcome measures with their values per arm/group, the reported statistical analyses (estimates, confidence intervals, p-values), and a table of the most frequent serious adverse events. Use 'outcomeTypes' to include other pre-specified or post-hoc outcomes. Returns `hasResults: false` if the study has no posted results.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Get Clinical Trial Results",
+      description: toolDescription,
+      inputSchema: GetResultsInputSchema.shape,
+      outputSchema: GetResultsOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: GetResultsInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await getResultsLogic(params, handlerContext);
+        trackStudyIds(server, [result.nctId]);
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatResultsMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_get_search_changes` tool.
+ * @module src/mcp-server/tools/getSearchChanges/index
+ */
+export { registerGetSearchChangesTool } from "./registration.js";
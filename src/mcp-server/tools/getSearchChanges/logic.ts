@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_get_search_changes` tool.
+ * @module src/mcp-server/tools/getSearchChanges/logic
+ */
+import { z } from "zod";
+import {
+  SavedSearch,
+  SavedSearchService,
+} from "../../../services/savedSearches/index.js";
+import {
+  SavedSearchSchema,
+  StudyChangeEventSchema,
+} from "../../../services/savedSearches/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_get_search_changes` tool.
+ */
+export const GetSearchChangesInputSchema = z.object({
+  search: z
+    .string()
+    .optional()
+    .describe(
+      "The ID or name of a saved search. Defaults to the changes of all saved searches.",
+    ),
+  since: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe(
+      "Only return changes detected after this ISO 8601 timestamp (e.g., the time of your last check).",
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .optional()
+    .describe("The maximum number of changes to return. Defaults to 50."),
+  refresh: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, re-runs the saved searches now instead of waiting for their schedule.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type GetSearchChangesInput = z.infer<typeof GetSearchChangesInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_get_search_changes` tool.
+ */
+export const GetSearchChangesOutputSchema = z.object({
+  searches: z.array(SavedSearchSchema),
+  changes: z
+    .array(StudyChangeEventSchema)
+    .describe("The detected changes, most recent first."),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type GetSearchChangesOutput = z.infer<
+  typeof GetSearchChangesOutputSchema
+>;
+
+/**
+ * Lists saved searches and reads their change feed, optionally re-running
+ * them first. A failed re-run is reported in the search's `lastError`.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the saved searches and their changes.
+ * @throws {McpError} If the requested saved search does not exist.
+ */
+export async function getSearchChangesLogic(
+  params: GetSearchChangesInput,
+  context: RequestContext,
+): Promise<GetSearchChangesOutput> {
+  logger.debug("Executing getSearchChangesLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const service = SavedSearchService.getInstance();
+  const owner = getCurrentAuthor();
+  let searches: SavedSearch[];
+  if (params.search) {
+    const search = service.get(params.search, owner);
+    if (!search) {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        `Saved search '${params.search}' was not found.`,
+        { search: params.search },
+      );
+    }
+    searches = [search];
+  } else {
+    searches = service.list(owner);
+  }
+
+  if (params.refresh) {
+    for (const search of searches) {
+      try {
+        await service.run(search.id, context);
+      } catch (error) {
+        logger.warning(`Failed to re-run saved search '${search.name}'.`, {
+          ...context,
+          searchId: search.id,
+          error,
+        });
+      }
+    }
+    searches = searches.flatMap(
+      (search) => service.get(search.id, owner) ?? [],
+    );
+  }
+
+  const changes = service.getChanges({
+    ...(owner && { owner }),
+    ...(params.search && { searchId: searches[0]?.id }),
+    ...(params.since && { since: params.since }),
+    limit: params.limit ?? 50,
+  });
+
+  logger.info(
+    `Read ${changes.length} changes across ${searches.length} saved searches.`,
+    { ...context },
+  );
+  return { searches, changes };
+}
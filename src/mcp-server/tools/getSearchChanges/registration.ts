@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_get_search_changes` tool.
+ * @module src/mcp-server/tools/getSearchChanges/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
+import {
+  GetSearchChangesInput,
+  GetSearchChangesInputSchema,
+  getSearchChangesLogic,
+  GetSearchChangesOutput,
+  GetSearchChangesOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders the saved searches and their changes as markdown tables.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatGetSearchChangesMarkdown(
+  result: GetSearchChangesOutput,
+): string {
+  if (result.searches.length === 0) {
+    return "There are no saved searches. Use clinicaltrials_save_search to create one.";
+  }
+  const lines = [
+    formatMarkdownTable(
+      ["Saved search", "Schedule", "Studies", "Last run", "Last error"],
+      result.searches.map((s) => [
+        s.name,
+        s.schedule,
+        s.studyCount,
+        s.lastRunAt,
+        s.lastError,
+      ]),
+    ),
+  ];
+  if (result.changes.length === 0) {
+    lines.push("No changes detected.");
+  } else {
+    lines.push(
+      formatMarkdownTable(
+        ["Detected", "Saved search", "Change", "NCT ID", "Title", "Status"],
+        result.changes.map((c) => [
+          c.detectedAt,
+          c.searchName,
+          c.type,
+          c.nctId,
+          c.title,
+          c.type === "statusChanged"
+            ? `${c.previousStatus ?? "?"} → ${c.status ?? "?"}`
+            : c.status,
+        ]),
+      ),
+    );
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_get_search_changes' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerGetSearchChangesTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_get_search_changes";
+  const toolDescription =
+    "Lists the saved searches and the changes detected by their scheduled re-runs: studies that newly match, studies that no longer match, and overall status changes, most recent first. Filter by saved search ID or name and by 'since' to read only what is new. Set 'refresh' to re-run the searches immediately.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Get Saved Search Changes",
+      description: toolDescription,
+      inputSchema: GetSearchChangesInputSchema.shape,
+      outputSchema: GetSearchChangesOutputSchema.shape,
+      annotations: { readOnlyHint: false },
+    },
+    async (params: GetSearchChangesInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await getSearchChangesLogic(params, handlerContext);
+        trackStudyIds(
+          server,
+          result.changes.map((change) => change.nctId),
+        );
+        return {
+          structuredContent: result,
+          content: [
+            { type: "text", text: formatGetSearchChangesMarkdown(result) },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
@@ -9,6 +9,10 @@ import {
   StudySchema,
 } from "../../../services/clinical-trials-gov/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  parseEligibilityCriteria,
+  StructuredEligibilitySchema,
+} from "../../../utils/clinicaltrials/eligibilityParser.js";
 import { logger, type RequestContext } from "../../../utils/index.js";
 
 /**
@@ -51,6 +55,13 @@ export const GetStudyInputSchema = z.object({
     .describe(
       "If true, returns a concise summary of each study. If false (default), returns the complete study data."
     ),
+  includeStructuredEligibility: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, adds a `structuredEligibility` section to each study with the eligibility criteria split into inclusion and exclusion lists, and age, performance status, and lab thresholds extracted as typed constraints."
+    ),
 });
 
 /**
@@ -86,7 +97,13 @@ export type StudySummary = z.infer<typeof StudySummarySchema>;
  * Zod schema for the output of the `clinicaltrials_get_study` tool.
  */
 export const GetStudyOutputSchema = z.object({
-  studies: z.array(z.union([StudySchema, StudySummarySchema])),
+  studies: z.array(
+    z.union([StudySchema, StudySummarySchema]).and(
+      z.object({
+        structuredEligibility: StructuredEligibilitySchema.optional(),
+      })
+    )
+  ),
   errors: z
     .array(
       z.object({
@@ -148,7 +165,7 @@ export async function getStudyLogic(
   });
 
   const service = ClinicalTrialsGovService.getInstance();
-  const studies: (Study | StudySummary)[] = [];
+  const studies: GetStudyOutput["studies"] = [];
   const errors: { nctId: string; error: string }[] = [];
 
   const studyPromises = nctIds.map(async (nctId) => {
@@ -168,11 +185,24 @@ export async function getStudyLogic(
 
       logger.info(`Successfully fetched study ${nctId}`, { ...context });
 
+      const criteria =
+        study.protocolSection?.eligibilityModule?.eligibilityCriteria;
+      const structuredEligibility =
+        params.includeStructuredEligibility && criteria
+          ? parseEligibilityCriteria(criteria)
+          : undefined;
+
       if (params.summaryOnly) {
         logger.debug(`Creating summary for study ${nctId}`, { ...context });
-        studies.push(createStudySummary(study));
+        studies.push({
+          ...createStudySummary(study),
+          ...(structuredEligibility && { structuredEligibility }),
+        });
       } else {
-        studies.push(study);
+        studies.push({
+          ...study,
+          ...(structuredEligibility && { structuredEligibility }),
+        });
       }
     } catch (error) {
       const errorMessage =
@@ -4,6 +4,7 @@
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpError } from "../../../types-global/errors.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
 import {
   ErrorHandler,
   logger,
@@ -44,6 +45,11 @@ export const registerGetStudyTool = async (
 
       try {
         const result = await getStudyLogic(params, handlerContext);
+        const failedIds = new Set(result.errors?.map((e) => e.nctId));
+        trackStudyIds(
+          server,
+          params.nctIds.filter((id) => !failedIds.has(id)),
+        );
         return {
           structuredContent: result,
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
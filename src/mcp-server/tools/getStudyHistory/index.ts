@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_get_study_history` tool.
+ * @module src/mcp-server/tools/getStudyHistory/index
+ */
+export { registerGetStudyHistoryTool } from "./registration.js";
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_get_study_history` tool.
+ * @module src/mcp-server/tools/getStudyHistory/logic
+ */
+import { z } from "zod";
+import { ClinicalTrialsGovService } from "../../../services/clinical-trials-gov/index.js";
+import {
+  StudySchema,
+  StudyVersionSchema,
+} from "../../../services/clinical-trials-gov/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_get_study_history` tool.
+ */
+export const GetStudyHistoryInputSchema = z.object({
+  nctId: z
+    .string()
+    .regex(/^[Nn][Cc][Tt]\d{8}$/)
+    .describe("The NCT ID of the study (e.g., 'NCT04280705')."),
+  version: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      "If given, also returns the study as it was at this version. Version 0 is the initial registration.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type GetStudyHistoryInput = z.infer<typeof GetStudyHistoryInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_get_study_history` tool.
+ */
+export const GetStudyHistoryOutputSchema = z.object({
+  nctId: z.string(),
+  versions: z
+    .array(StudyVersionSchema)
+    .describe("Every version of the study, oldest first."),
+  study: StudySchema.optional().describe(
+    "The study as it was at the requested version.",
+  ),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type GetStudyHistoryOutput = z.infer<typeof GetStudyHistoryOutputSchema>;
+
+/**
+ * Lists the versions of a study and, optionally, fetches one of them.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the version list and the requested version.
+ * @throws {McpError} If the study or the requested version does not exist.
+ */
+export async function getStudyHistoryLogic(
+  params: GetStudyHistoryInput,
+  context: RequestContext,
+): Promise<GetStudyHistoryOutput> {
+  logger.debug("Executing getStudyHistoryLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const nctId = params.nctId.toUpperCase();
+  const service = ClinicalTrialsGovService.getInstance();
+  const history = await service.fetchStudyHistory(nctId, context);
+  const versions = [...(history.changes ?? [])].sort(
+    (a, b) => a.version - b.version,
+  );
+
+  if (params.version === undefined) {
+    logger.info(`Found ${versions.length} versions of study ${nctId}.`, {
+      ...context,
+    });
+    return { nctId, versions };
+  }
+
+  if (!versions.some((v) => v.version === params.version)) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Study ${nctId} has no version ${params.version}. Available versions are 0 to ${versions.length - 1}.`,
+      { nctId, version: params.version, versions: versions.length },
+    );
+  }
+
+  const study = await service.fetchStudyVersion(nctId, params.version, context);
+  return { nctId, versions, study };
+}
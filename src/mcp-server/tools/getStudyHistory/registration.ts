@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_get_study_history` tool.
+ * @module src/mcp-server/tools/getStudyHistory/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
+import {
+  GetStudyHistoryInput,
+  GetStudyHistoryInputSchema,
+  getStudyHistoryLogic,
+  GetStudyHistoryOutput,
+  GetStudyHistoryOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders the version list, and a short note on the fetched version, as markdown.
+ * @param result - The logic result.
+ * @param version - The requested version, if any.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatHistoryMarkdown(
+  result: GetStudyHistoryOutput,
+  version: number | undefined,
+): string {
+  const lines = [
+    `Study ${result.nctId} has ${result.versions.length} versions.`,
+    formatMarkdownTable(
+      ["Version", "Date", "Status", "Changed modules"],
+      result.versions.map((v) => [
+        v.version,
+        v.date,
+        v.status,
+        v.moduleLabels?.join(", "),
+      ]),
+    ),
+  ];
+  if (result.study) {
+    const status = result.study.protocolSection?.statusModule?.overallStatus;
+    lines.push(
+      `The full record at version ${version}${status ? ` (status ${status})` : ""} is included in the structured content.`,
+    );
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_get_study_history' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerGetStudyHistoryTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_get_study_history";
+  const toolDescription =
+    "Lists every version of a clinical study by NCT ID, with the date, overall status, and modules changed in each update. Pass 'version' to also retrieve the full study record as it was at that version (0 is the initial registration). Use 'clinicaltrials_diff_study_versions' to see what changed between two versions.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Get Study Version History",
+      description: toolDescription,
+      inputSchema: GetStudyHistoryInputSchema.shape,
+      outputSchema: GetStudyHistoryOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: GetStudyHistoryInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await getStudyHistoryLogic(params, handlerContext);
+        trackStudyIds(server, [result.nctId]);
+        return {
+          structuredContent: result,
+          content: [
+            {
+              type: "text",
+              text: formatHistoryMarkdown(result, params.version),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
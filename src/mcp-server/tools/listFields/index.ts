@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_list_fields` tool.
+ * @module src/mcp-server/tools/listFields/index
+ */
+export { registerListFieldsTool } from "./registration.js";
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_list_fields` tool.
+ * @module src/mcp-server/tools/listFields/logic
+ */
+import { z } from "zod";
+import {
+  ClinicalTrialsGovService,
+  FieldNode,
+} from "../../../services/clinical-trials-gov/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_list_fields` tool.
+ */
+export const ListFieldsInputSchema = z.object({
+  path: z
+    .string()
+    .optional()
+    .describe(
+      "A dot-separated field path to list the children of (e.g., 'protocolSection.designModule'). If omitted, fields are listed from the root of the study data model.",
+    ),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe(
+      "How many levels below `path` to include. Defaults to 2, or to all levels when `search` is given.",
+    ),
+  search: z
+    .string()
+    .optional()
+    .describe(
+      "A case-insensitive term to filter fields by path, piece name, or title (e.g., 'phase', 'enrollment').",
+    ),
+  includeIndexedOnly: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, includes fields that are only available for searching and not returned in study data.",
+    ),
+  includeHistoricOnly: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, includes fields that are only available in historic study versions.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type ListFieldsInput = z.infer<typeof ListFieldsInputSchema>;
+
+/**
+ * Zod schema for a single flattened field of the study data model.
+ */
+export const FieldInfoSchema = z.object({
+  path: z
+    .string()
+    .describe("The full dot-separated path, usable in `fields` and `sort`."),
+  piece: z
+    .string()
+    .optional()
+    .describe("The short piece name, usable with the field stats tool."),
+  type: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  isEnum: z.boolean().optional(),
+  hasChildren: z.boolean(),
+});
+
+/**
+ * TypeScript type inferred from the field info schema.
+ */
+export type FieldInfo = z.infer<typeof FieldInfoSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_list_fields` tool.
+ */
+export const ListFieldsOutputSchema = z.object({
+  path: z.string().optional(),
+  totalCount: z.number().int(),
+  fields: z.array(FieldInfoSchema),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type ListFieldsOutput = z.infer<typeof ListFieldsOutputSchema>;
+
+/**
+ * Finds the node at the given dot-separated path in the metadata tree.
+ * @param nodes - The root nodes of the metadata tree.
+ * @param path - The dot-separated path to resolve.
+ * @returns The children of the resolved node, or `undefined` if the path does not exist.
+ */
+function resolvePath(
+  nodes: FieldNode[],
+  path: string,
+): FieldNode[] | undefined {
+  let current = nodes;
+  for (const segment of path.split(".").filter(Boolean)) {
+    const next = current.find((node) => node.name === segment);
+    if (!next) {
+      return undefined;
+    }
+    current = next.children ?? [];
+  }
+  return current;
+}
+
+/**
+ * Flattens a metadata subtree into a list of fields with full paths.
+ * @param nodes - The nodes to flatten.
+ * @param prefix - The path of the parent node.
+ * @param depth - The remaining number of levels to descend.
+ * @returns The flattened fields, in depth-first order.
+ */
+function flattenFields(
+  nodes: FieldNode[],
+  prefix: string,
+  depth: number,
+): FieldInfo[] {
+  const fields: FieldInfo[] = [];
+  for (const node of nodes) {
+    const path = prefix ? `${prefix}.${node.name}` : node.name;
+    fields.push({
+      path,
+      piece: node.piece,
+      type: node.type,
+      title: node.title,
+      description: node.description,
+      isEnum: node.isEnum,
+      hasChildren: (node.children?.length ?? 0) > 0,
+    });
+    if (depth > 1 && node.children) {
+      fields.push(...flattenFields(node.children, path, depth - 1));
+    }
+  }
+  return fields;
+}
+
+/**
+ * Lists the fields of the ClinicalTrials.gov study data model so that valid
+ * paths for `fields` and `sort`, and piece names for field statistics, can be discovered.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the flattened list of fields.
+ * @throws {McpError} If the path does not exist or the API request fails.
+ */
+export async function listFieldsLogic(
+  params: ListFieldsInput,
+  context: RequestContext,
+): Promise<ListFieldsOutput> {
+  logger.debug("Executing listFieldsLogic", { ...context, toolInput: params });
+
+  const service = ClinicalTrialsGovService.getInstance();
+  const metadata = await service.getStudyMetadata(
+    {
+      includeIndexedOnly: params.includeIndexedOnly,
+      includeHistoricOnly: params.includeHistoricOnly,
+    },
+    context,
+  );
+
+  const root = params.path ? resolvePath(metadata, params.path) : metadata;
+  if (!root) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Field path '${params.path}' does not exist in the study data model.`,
+      { path: params.path },
+    );
+  }
+
+  const depth = params.depth ?? (params.search ? 10 : 2);
+  let fields = flattenFields(root, params.path ?? "", depth);
+
+  if (params.search) {
+    const term = params.search.toLowerCase();
+    fields = fields.filter((field) =>
+      [field.path, field.piece, field.title].some((value) =>
+        value?.toLowerCase().includes(term),
+      ),
+    );
+  }
+
+  logger.info(`Listed ${fields.length} fields from study metadata.`, {
+    ...context,
+    path: params.path,
+  });
+
+  return {
+    ...(params.path && { path: params.path }),
+    totalCount: fields.length,
+    fields,
+  };
+}
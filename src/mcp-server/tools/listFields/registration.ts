@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_list_fields` tool.
+ * @module src/mcp-server/tools/listFields/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  ListFieldsInput,
+  ListFieldsInputSchema,
+  listFieldsLogic,
+  ListFieldsOutput,
+  ListFieldsOutputSchema,
+} from "./logic.js";
+
+/**
+ * The maximum number of characters of a field description shown in the markdown table.
+ * @private
+ */
+const MAX_DESCRIPTION_LENGTH = 80;
+
+/**
+ * Renders the list of fields as a compact markdown table.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatFieldsMarkdown(result: ListFieldsOutput): string {
+  const heading = `Found ${result.totalCount} fields${result.path ? ` under '${result.path}'` : ""}.`;
+  if (result.totalCount === 0) {
+    return heading;
+  }
+  const rows = result.fields.map((field) => {
+    const description = field.description ?? field.title ?? "";
+    return [
+      `\`${field.path}\``,
+      field.piece,
+      field.isEnum ? `${field.type} (enum)` : field.type,
+      description.length > MAX_DESCRIPTION_LENGTH
+        ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…`
+        : description,
+    ];
+  });
+  return `${heading}\n\n${formatMarkdownTable(["Path", "Piece", "Type", "Description"], rows)}`;
+}
+
+/**
+ * Registers the 'clinicaltrials_list_fields' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerListFieldsTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_list_fields";
+  const toolDescription =
+    "Lists fields of the ClinicalTrials.gov study data model. Use it to discover valid field paths for the `fields` and `sort` parameters of other tools, and piece names for `clinicaltrials_get_field_stats`. Narrow the listing with `path`, `depth`, or `search`.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "List Study Data Fields",
+      description: toolDescription,
+      inputSchema: ListFieldsInputSchema.shape,
+      outputSchema: ListFieldsOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: ListFieldsInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await listFieldsLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatFieldsMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
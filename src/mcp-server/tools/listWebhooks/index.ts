@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_list_webhooks` tool.
+ * @module src/mcp-server/tools/listWebhooks/index
+ */
+export { registerListWebhooksTool } from "./registration.js";
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_list_webhooks` tool.
+ * @module src/mcp-server/tools/listWebhooks/logic
+ */
+import { z } from "zod";
+import { WebhookService } from "../../../services/webhooks/index.js";
+import {
+  DeadLetterSchema,
+  WebhookSubscriptionSchema,
+} from "../../../services/webhooks/types.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_list_webhooks` tool.
+ */
+export const ListWebhooksInputSchema = z.object({
+  deadLetterLimit: z
+    .number()
+    .int()
+    .min(0)
+    .max(100)
+    .default(20)
+    .optional()
+    .describe(
+      "The maximum number of failed deliveries to return, most recent first. Defaults to 20.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type ListWebhooksInput = z.infer<typeof ListWebhooksInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_list_webhooks` tool.
+ */
+export const ListWebhooksOutputSchema = z.object({
+  webhooks: z.array(WebhookSubscriptionSchema),
+  deadLetters: z
+    .array(DeadLetterSchema)
+    .describe("Deliveries that failed after all attempts, most recent first."),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type ListWebhooksOutput = z.infer<typeof ListWebhooksOutputSchema>;
+
+/**
+ * Lists the webhook subscriptions of the current client and their failed
+ * deliveries.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the webhooks and dead letters.
+ */
+export async function listWebhooksLogic(
+  params: ListWebhooksInput,
+  context: RequestContext,
+): Promise<ListWebhooksOutput> {
+  logger.debug("Executing listWebhooksLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const service = WebhookService.getInstance();
+  const owner = getCurrentAuthor();
+  return {
+    webhooks: service.list(owner),
+    deadLetters: service
+      .getDeadLetters(owner)
+      .slice(0, params.deadLetterLimit ?? 20),
+  };
+}
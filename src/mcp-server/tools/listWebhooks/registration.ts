@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_list_webhooks` tool.
+ * @module src/mcp-server/tools/listWebhooks/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  ListWebhooksInput,
+  ListWebhooksInputSchema,
+  listWebhooksLogic,
+  ListWebhooksOutput,
+  ListWebhooksOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders the webhooks and dead letters as markdown tables.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatListWebhooksMarkdown(result: ListWebhooksOutput): string {
+  if (result.webhooks.length === 0 && result.deadLetters.length === 0) {
+    return "There are no webhooks. Use clinicaltrials_create_webhook to create one.";
+  }
+  const lines = [
+    formatMarkdownTable(
+      ["ID", "URL", "Change types", "Saved searches", "Created"],
+      result.webhooks.map((w) => [
+        w.id,
+        w.url,
+        w.events?.join(", ") ?? "all",
+        w.searchIds?.join(", ") ?? "all",
+        w.createdAt,
+      ]),
+    ),
+  ];
+  if (result.deadLetters.length > 0) {
+    lines.push(
+      "**Failed deliveries**",
+      formatMarkdownTable(
+        ["Failed", "Webhook", "Saved search", "Changes", "Attempts", "Error"],
+        result.deadLetters.map((d) => [
+          d.failedAt,
+          d.webhookId,
+          d.payload.search.name,
+          d.payload.changes.length,
+          d.attempts,
+          d.error,
+        ]),
+      ),
+    );
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_list_webhooks' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerListWebhooksTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_list_webhooks";
+  const toolDescription =
+    "Lists the webhooks registered for saved search changes, and the deliveries that failed after all retry attempts (the dead-letter log), most recent first.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "List Saved Search Webhooks",
+      description: toolDescription,
+      inputSchema: ListWebhooksInputSchema.shape,
+      outputSchema: ListWebhooksOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: ListWebhooksInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await listWebhooksLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatListWebhooksMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
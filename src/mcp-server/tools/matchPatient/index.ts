@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_match_patient` tool.
+ * @module src/mcp-server/tools/matchPatient/index
+ */
+export { registerMatchPatientTool } from "./registration.js";
@@ -0,0 +1,544 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_match_patient` tool.
+ * @module src/mcp-server/tools/matchPatient/logic
+ */
+import { z } from "zod";
+import {
+  ClinicalTrialsGovService,
+  Study,
+} from "../../../services/clinical-trials-gov/index.js";
+import { parseEligibilityCriteria } from "../../../utils/clinicaltrials/eligibilityParser.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_match_patient` tool.
+ */
+export const MatchPatientInputSchema = z.object({
+  conditions: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(10)
+    .describe(
+      "The patient's conditions. The first is used to find candidate studies; all are matched against eligibility criteria (e.g., ['non-small cell lung cancer', 'hypertension']).",
+    ),
+  age: z
+    .number()
+    .min(0)
+    .max(120)
+    .optional()
+    .describe("The patient's age in years."),
+  sex: z.enum(["female", "male"]).optional().describe("The patient's sex."),
+  location: z
+    .object({
+      city: z.string().optional(),
+      state: z.string().optional(),
+      country: z.string().optional(),
+    })
+    .optional()
+    .describe(
+      "Where the patient can receive treatment. Studies with no sites in the country are excluded.",
+    ),
+  priorTreatments: z
+    .array(z.string().min(1))
+    .max(20)
+    .optional()
+    .describe(
+      "Treatments the patient has received (e.g., ['pembrolizumab', 'radiation therapy']).",
+    ),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(10)
+    .optional()
+    .describe(
+      "The maximum number of ranked studies to return. Defaults to 10.",
+    ),
+  includeIneligible: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, studies that fail an age, sex, or location check are ranked last instead of being excluded.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type MatchPatientInput = z.infer<typeof MatchPatientInputSchema>;
+
+/**
+ * The outcome of checking a single criterion against the patient profile.
+ */
+export const CriterionResultSchema = z.enum(["pass", "fail", "unknown"]);
+
+/**
+ * TypeScript type inferred from the criterion result schema.
+ */
+export type CriterionResult = z.infer<typeof CriterionResultSchema>;
+
+/**
+ * Zod schema for the evaluation of a single eligibility criterion.
+ */
+export const CriterionEvaluationSchema = z.object({
+  category: z
+    .enum(["age", "sex", "location", "condition", "inclusion", "exclusion"])
+    .describe(
+      "'age', 'sex', and 'location' are checked against structured study fields; 'inclusion' and 'exclusion' are lines of the free-text criteria.",
+    ),
+  criterion: z.string(),
+  result: CriterionResultSchema,
+  explanation: z.string(),
+});
+
+/**
+ * TypeScript type inferred from the criterion evaluation schema.
+ */
+export type CriterionEvaluation = z.infer<typeof CriterionEvaluationSchema>;
+
+/**
+ * Zod schema for a candidate study and its evaluation.
+ */
+export const StudyMatchSchema = z.object({
+  nctId: z.string(),
+  title: z.string().optional(),
+  overallStatus: z.string().optional(),
+  eligible: z
+    .boolean()
+    .describe("False if the study fails an age, sex, or location check."),
+  score: z
+    .number()
+    .describe(
+      "The fraction of evaluated criteria the patient meets, less the fraction they fail, from -1 to 1.",
+    ),
+  summary: z.object({
+    pass: z.number().int(),
+    fail: z.number().int(),
+    unknown: z.number().int(),
+  }),
+  criteria: z.array(CriterionEvaluationSchema),
+});
+
+/**
+ * TypeScript type inferred from the study match schema.
+ */
+export type StudyMatch = z.infer<typeof StudyMatchSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_match_patient` tool.
+ */
+export const MatchPatientOutputSchema = z.object({
+  totalCandidates: z
+    .number()
+    .int()
+    .describe("The number of recruiting studies matching the condition."),
+  evaluated: z.number().int(),
+  excluded: z
+    .number()
+    .int()
+    .describe("The number of evaluated studies excluded as ineligible."),
+  matches: z.array(StudyMatchSchema),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type MatchPatientOutput = z.infer<typeof MatchPatientOutputSchema>;
+
+/**
+ * The number of recruiting studies fetched and evaluated per request.
+ */
+const CANDIDATE_POOL_SIZE = 100;
+
+/**
+ * The fields requested for each candidate study.
+ */
+const CANDIDATE_FIELDS = [
+  "protocolSection.identificationModule",
+  "protocolSection.statusModule.overallStatus",
+  "protocolSection.conditionsModule",
+  "protocolSection.eligibilityModule",
+  "protocolSection.contactsLocationsModule.locations",
+];
+
+/**
+ * Converts an age string from the API (e.g., "18 Years", "6 Months") to years.
+ * @param age - The age string.
+ * @returns The age in years, or `undefined` if it cannot be parsed.
+ * @private
+ */
+function parseAgeInYears(age: string | undefined): number | undefined {
+  const match = age?.match(
+    /^\s*(\d+(?:\.\d+)?)\s*(year|month|week|day|hour|minute)s?\s*$/i,
+  );
+  if (!match) return undefined;
+  const divisors: Record<string, number> = {
+    year: 1,
+    month: 12,
+    week: 52,
+    day: 365,
+    hour: 365 * 24,
+    minute: 365 * 24 * 60,
+  };
+  return Number(match[1]) / divisors[match[2].toLowerCase()];
+}
+
+/**
+ * Checks the patient's age against the study's minimum and maximum ages.
+ * @private
+ */
+function evaluateAge(
+  study: Study,
+  age: number | undefined,
+): CriterionEvaluation | undefined {
+  const eligibility = study.protocolSection?.eligibilityModule;
+  const minimum = eligibility?.minimumAge;
+  const maximum = eligibility?.maximumAge;
+  if (!minimum && !maximum) return undefined;
+
+  const criterion = `Age ${minimum ?? "any"} to ${maximum ?? "any"}`;
+  if (age === undefined) {
+    return {
+      category: "age",
+      criterion,
+      result: "unknown",
+      explanation: "The patient's age was not provided.",
+    };
+  }
+
+  const minYears = parseAgeInYears(minimum);
+  const maxYears = parseAgeInYears(maximum);
+  if (minYears !== undefined && age < minYears) {
+    return {
+      category: "age",
+      criterion,
+      result: "fail",
+      explanation: `The patient (${age}) is younger than the minimum age of ${minimum}.`,
+    };
+  }
+  if (maxYears !== undefined && age > maxYears) {
+    return {
+      category: "age",
+      criterion,
+      result: "fail",
+      explanation: `The patient (${age}) is older than the maximum age of ${maximum}.`,
+    };
+  }
+  return {
+    category: "age",
+    criterion,
+    result: "pass",
+    explanation: `The patient (${age}) is within the age limits.`,
+  };
+}
+
+/**
+ * Checks the patient's sex against the sexes the study enrolls.
+ * @private
+ */
+function evaluateSex(
+  study: Study,
+  sex: MatchPatientInput["sex"],
+): CriterionEvaluation | undefined {
+  const studySex = study.protocolSection?.eligibilityModule?.sex?.toUpperCase();
+  if (!studySex || studySex === "ALL") return undefined;
+
+  const criterion = `Sex: ${studySex.toLowerCase()} only`;
+  if (!sex) {
+    return {
+      category: "sex",
+      criterion,
+      result: "unknown",
+      explanation: "The patient's sex was not provided.",
+    };
+  }
+  const matches = studySex === sex.toUpperCase();
+  return {
+    category: "sex",
+    criterion,
+    result: matches ? "pass" : "fail",
+    explanation: matches
+      ? `The study enrolls ${sex} participants.`
+      : `The study does not enroll ${sex} participants.`,
+  };
+}
+
+/**
+ * Checks whether the study has a site where the patient can be treated.
+ * A study with no sites in the patient's country fails; a study with sites in
+ * the country but not in the city or state still passes, since patients can travel.
+ * @private
+ */
+function evaluateLocation(
+  study: Study,
+  location: MatchPatientInput["location"],
+): CriterionEvaluation | undefined {
+  if (!location || !(location.city || location.state || location.country)) {
+    return undefined;
+  }
+  const sites = study.protocolSection?.contactsLocationsModule?.locations ?? [];
+  const wanted = [location.city, location.state, location.country]
+    .filter(Boolean)
+    .join(", ");
+  const criterion = `Site near ${wanted}`;
+  if (sites.length === 0) {
+    return {
+      category: "location",
+      criterion,
+      result: "unknown",
+      explanation: "The study does not list any sites.",
+    };
+  }
+
+  const same = (a: string | undefined, b: string | undefined) =>
+    !b || a?.toLowerCase() === b.toLowerCase();
+  const inCountry = sites.filter((site) =>
+    same(site.country, location.country),
+  );
+  if (inCountry.length === 0) {
+    return {
+      category: "location",
+      criterion,
+      result: location.country ? "fail" : "unknown",
+      explanation: location.country
+        ? `None of the study's ${sites.length} sites are in ${location.country}.`
+        : `None of the study's ${sites.length} sites are in ${wanted}.`,
+    };
+  }
+
+  const nearby = inCountry.filter(
+    (site) =>
+      same(site.state, location.state) && same(site.city, location.city),
+  );
+  return {
+    category: "location",
+    criterion,
+    result: "pass",
+    explanation:
+      nearby.length > 0
+        ? `${nearby.length} of the study's sites are in ${wanted}.`
+        : `The study has ${inCountry.length} sites in ${location.country}, none in ${wanted}.`,
+  };
+}
+
+/**
+ * Builds a case-insensitive whole-word matcher for a term.
+ * @private
+ */
+function termPattern(term: string): RegExp {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`, "i");
+}
+
+/**
+ * Matches criteria that rule something out, e.g. "No prior chemotherapy".
+ * @private
+ */
+const NEGATION_PATTERN =
+  /^(?:no|not|none|without|never)\b|\b(?:no|not|without|never)\s+(?:prior|previous|history|received|had)\b/i;
+
+/**
+ * Evaluates one free-text criterion line against the patient's conditions and
+ * prior treatments. Criteria that mention neither are reported as unknown.
+ * An exclusion that mentions a condition the study itself targets is also
+ * unknown, since it usually qualifies the condition (e.g., "untreated brain
+ * metastases") rather than excluding it.
+ * @private
+ */
+function evaluateCriterionLine(
+  line: string,
+  category: "inclusion" | "exclusion",
+  patient: Pick<MatchPatientInput, "conditions" | "priorTreatments">,
+  studyConditions: string[],
+): CriterionEvaluation {
+  const negated = NEGATION_PATTERN.test(line);
+  const treatment = patient.priorTreatments?.find((t) =>
+    termPattern(t).test(line),
+  );
+  const condition = patient.conditions.find((c) => termPattern(c).test(line));
+  const base = { category, criterion: line };
+
+  if (treatment) {
+    const excludes = category === "exclusion" ? !negated : negated;
+    return {
+      ...base,
+      result: excludes ? "fail" : "pass",
+      explanation: excludes
+        ? `Mentions ${treatment}, which the patient has received.`
+        : `Requires ${treatment}, which the patient has received.`,
+    };
+  }
+
+  if (condition) {
+    const isTargeted = studyConditions.some(
+      (c) => termPattern(condition).test(c) || termPattern(c).test(condition),
+    );
+    if (category === "exclusion" && !negated && isTargeted) {
+      return {
+        ...base,
+        result: "unknown",
+        explanation: `Qualifies ${condition}, the condition under study; review against the patient's history.`,
+      };
+    }
+    const excludes = category === "exclusion" ? !negated : negated;
+    return {
+      ...base,
+      result: excludes ? "fail" : "pass",
+      explanation: excludes
+        ? `Mentions ${condition}, which the patient has.`
+        : `Requires ${condition}, which the patient has.`,
+    };
+  }
+
+  return {
+    ...base,
+    result: "unknown",
+    explanation: "Not covered by the patient profile.",
+  };
+}
+
+/**
+ * Checks whether any of the patient's conditions is one the study targets.
+ * @private
+ */
+function evaluateCondition(
+  studyConditions: string[],
+  conditions: string[],
+): CriterionEvaluation {
+  const matched = conditions.find((condition) =>
+    studyConditions.some(
+      (c) => termPattern(condition).test(c) || termPattern(c).test(condition),
+    ),
+  );
+  return {
+    category: "condition",
+    criterion: `Condition: ${studyConditions.join(", ") || "not listed"}`,
+    result: matched ? "pass" : "unknown",
+    explanation: matched
+      ? `The study targets ${matched}.`
+      : "None of the patient's conditions appear in the study's condition list.",
+  };
+}
+
+/**
+ * Evaluates a study against the patient profile and scores the result.
+ * @param study - The candidate study.
+ * @param patient - The patient profile.
+ * @returns The evaluated study.
+ */
+export function evaluateStudy(
+  study: Study,
+  patient: MatchPatientInput,
+): StudyMatch {
+  const protocol = study.protocolSection;
+  const studyConditions: string[] =
+    protocol?.conditionsModule?.conditions ?? [];
+
+  const structured = [
+    evaluateAge(study, patient.age),
+    evaluateSex(study, patient.sex),
+    evaluateLocation(study, patient.location),
+  ].filter((c): c is CriterionEvaluation => c !== undefined);
+
+  const { inclusion, exclusion } = parseEligibilityCriteria(
+    protocol?.eligibilityModule?.eligibilityCriteria ?? "",
+  );
+  const criteria = [
+    ...structured,
+    evaluateCondition(studyConditions, patient.conditions),
+    ...inclusion.map(({ text }) =>
+      evaluateCriterionLine(text, "inclusion", patient, studyConditions),
+    ),
+    ...exclusion.map(({ text }) =>
+      evaluateCriterionLine(text, "exclusion", patient, studyConditions),
+    ),
+  ];
+
+  const summary = { pass: 0, fail: 0, unknown: 0 };
+  criteria.forEach((c) => summary[c.result]++);
+
+  return {
+    nctId: protocol?.identificationModule?.nctId ?? "",
+    title: protocol?.identificationModule?.briefTitle,
+    overallStatus: protocol?.statusModule?.overallStatus,
+    eligible: !structured.some((c) => c.result === "fail"),
+    score:
+      Math.round(((summary.pass - summary.fail) / criteria.length) * 1000) /
+      1000,
+    summary,
+    criteria,
+  };
+}
+
+/**
+ * Orders matches so that eligible studies come first, then by fewest failed
+ * criteria, then by highest score.
+ * @private
+ */
+function compareMatches(a: StudyMatch, b: StudyMatch): number {
+  return (
+    Number(b.eligible) - Number(a.eligible) ||
+    a.summary.fail - b.summary.fail ||
+    b.score - a.score ||
+    a.nctId.localeCompare(b.nctId)
+  );
+}
+
+/**
+ * Finds recruiting studies for a patient's primary condition and ranks them by
+ * how well the patient profile meets each study's eligibility criteria.
+ * Age, sex, and location are checked deterministically against structured
+ * fields; free-text criteria are split into lines and checked for mentions of
+ * the patient's conditions and prior treatments.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the ranked matches.
+ * @throws {McpError} If the API request fails.
+ */
+export async function matchPatientLogic(
+  params: MatchPatientInput,
+  context: RequestContext,
+): Promise<MatchPatientOutput> {
+  logger.debug("Executing matchPatientLogic", {
+    ...context,
+    toolInput: params,
+  });
+
+  const { location } = params;
+  const service = ClinicalTrialsGovService.getInstance();
+  const pagedStudies = await service.listStudies(
+    {
+      query: {
+        cond: params.conditions[0],
+        locn: location?.country,
+      },
+      filter: { overallStatus: ["RECRUITING"] },
+      fields: CANDIDATE_FIELDS,
+      pageSize: CANDIDATE_POOL_SIZE,
+      countTotal: true,
+    },
+    context,
+  );
+
+  const studies = pagedStudies.studies ?? [];
+  const evaluated = studies.map((study) => evaluateStudy(study, params));
+  const eligible = evaluated.filter((match) => match.eligible);
+  const ranked = (params.includeIneligible ? evaluated : eligible)
+    .sort(compareMatches)
+    .slice(0, params.maxResults ?? 10);
+
+  logger.info(
+    `Evaluated ${evaluated.length} candidate studies; ${eligible.length} eligible.`,
+    { ...context },
+  );
+
+  return {
+    totalCandidates: pagedStudies.totalCount ?? studies.length,
+    evaluated: evaluated.length,
+    excluded: evaluated.length - eligible.length,
+    matches: ranked,
+  };
+}
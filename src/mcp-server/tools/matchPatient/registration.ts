@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_match_patient` tool.
+ * @module src/mcp-server/tools/matchPatient/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  formatMarkdownTable,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
+import {
+  MatchPatientInput,
+  MatchPatientInputSchema,
+  matchPatientLogic,
+  MatchPatientOutput,
+  MatchPatientOutputSchema,
+  StudyMatch,
+} from "./logic.js";
+
+/**
+ * Renders a ranked study as a markdown section. Criteria the profile does not
+ * cover are counted rather than listed, to keep the summary readable.
+ * @param match - The evaluated study.
+ * @param rank - The 1-based rank of the study.
+ * @returns The markdown section.
+ * @private
+ */
+function formatMatchSection(match: StudyMatch, rank: number): string {
+  const { pass, fail, unknown } = match.summary;
+  const lines = [
+    `### ${rank}. ${match.nctId}${match.title ? ` — ${match.title}` : ""}`,
+    `Score ${match.score} · ${pass} met, ${fail} not met, ${unknown} unknown${match.eligible ? "" : " · **ineligible**"}`,
+  ];
+  const shown = match.criteria.filter(
+    (c) =>
+      c.result !== "unknown" ||
+      !["inclusion", "exclusion"].includes(c.category),
+  );
+  if (shown.length > 0) {
+    lines.push(
+      formatMarkdownTable(
+        ["Result", "Category", "Criterion", "Explanation"],
+        shown.map((c) => [c.result, c.category, c.criterion, c.explanation]),
+      ),
+    );
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Renders the ranked matches as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatMatchesMarkdown(result: MatchPatientOutput): string {
+  const header = `Evaluated ${result.evaluated} of ${result.totalCandidates} recruiting studies; ${result.excluded} excluded as ineligible.`;
+  if (result.matches.length === 0) {
+    return `${header}\n\nNo matching studies found.`;
+  }
+  return [
+    header,
+    ...result.matches.map((m, i) => formatMatchSection(m, i + 1)),
+  ].join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_match_patient' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerMatchPatientTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_match_patient";
+  const toolDescription =
+    "Finds recruiting clinical trials for a patient profile (conditions, age, sex, location, prior treatments) and ranks them by eligibility. Each study comes with per-criterion pass/fail/unknown explanations: age, sex, and site location are checked against structured study fields, and each line of the free-text inclusion/exclusion criteria is checked for mentions of the patient's conditions and prior treatments. Results are a screening aid, not an eligibility determination.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Match Patient to Clinical Trials",
+      description: toolDescription,
+      inputSchema: MatchPatientInputSchema.shape,
+      outputSchema: MatchPatientOutputSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    async (params: MatchPatientInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await matchPatientLogic(params, handlerContext);
+        trackStudyIds(
+          server,
+          result.matches.map((match) => match.nctId),
+        );
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatMatchesMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
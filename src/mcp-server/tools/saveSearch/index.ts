@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Barrel file for the `clinicaltrials_save_search` tool.
+ * @module src/mcp-server/tools/saveSearch/index
+ */
+export { registerSaveSearchTool } from "./registration.js";
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Defines the core logic, schemas, and types for the `clinicaltrials_save_search` tool.
+ * @module src/mcp-server/tools/saveSearch/logic
+ */
+import { z } from "zod";
+import { SavedSearchService } from "../../../services/savedSearches/index.js";
+import { SavedSearchSchema } from "../../../services/savedSearches/types.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import { buildSavedSearchChangesUri } from "../../resources/savedSearchResource/index.js";
+import { getCurrentAuthor } from "../../transports/auth/lib/authContext.js";
+import {
+  SearchStudiesInputSchema,
+  toApiFilter,
+} from "../searchStudies/logic.js";
+
+/**
+ * Zod schema for the input of the `clinicaltrials_save_search` tool.
+ */
+export const SaveSearchInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .describe(
+      "A name for the saved search. Saving under an existing name replaces that search.",
+    ),
+  query: SearchStudiesInputSchema.shape.query,
+  filter: SearchStudiesInputSchema.shape.filter,
+  schedule: z
+    .string()
+    .default("0 * * * *")
+    .optional()
+    .describe(
+      "A cron pattern for re-running the search (e.g., '0 8 * * *' for daily at 08:00). Defaults to hourly. Patterns with a seconds field, and schedules that run more often than the server's minimum interval (15 minutes by default), are rejected.",
+    ),
+});
+
+/**
+ * TypeScript type inferred from the input schema.
+ */
+export type SaveSearchInput = z.infer<typeof SaveSearchInputSchema>;
+
+/**
+ * Zod schema for the output of the `clinicaltrials_save_search` tool.
+ */
+export const SaveSearchOutputSchema = z.object({
+  search: SavedSearchSchema,
+  resourceUri: z
+    .string()
+    .describe("The URI of the saved search's change feed resource."),
+});
+
+/**
+ * TypeScript type inferred from the output schema.
+ */
+export type SaveSearchOutput = z.infer<typeof SaveSearchOutputSchema>;
+
+/**
+ * Saves a search, takes its baseline snapshot, and schedules its re-runs. The
+ * search belongs to the authenticated caller.
+ *
+ * @param params - The validated input parameters.
+ * @param context - The request context for logging and tracing.
+ * @returns A promise resolving to the saved search and its resource URI.
+ * @throws {McpError} If the schedule is invalid or the search matches too many studies.
+ */
+export async function saveSearchLogic(
+  params: SaveSearchInput,
+  context: RequestContext,
+): Promise<SaveSearchOutput> {
+  logger.debug("Executing saveSearchLogic", { ...context, toolInput: params });
+
+  const search = await SavedSearchService.getInstance().save(
+    params.name,
+    {
+      ...(params.query && { query: params.query }),
+      ...(params.filter && { filter: toApiFilter(params.filter, context) }),
+    },
+    params.schedule ?? "0 * * * *",
+    context,
+    getCurrentAuthor(),
+  );
+
+  return { search, resourceUri: buildSavedSearchChangesUri(search.id) };
+}
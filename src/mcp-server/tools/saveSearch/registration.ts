@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Handles registration and error handling for the `clinicaltrials_save_search` tool.
+ * @module src/mcp-server/tools/saveSearch/registration
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  SaveSearchInput,
+  SaveSearchInputSchema,
+  saveSearchLogic,
+  SaveSearchOutput,
+  SaveSearchOutputSchema,
+} from "./logic.js";
+
+/**
+ * Renders a confirmation of the saved search as markdown.
+ * @param result - The logic result.
+ * @returns The markdown summary.
+ * @private
+ */
+function formatSaveSearchMarkdown(result: SaveSearchOutput): string {
+  const { search } = result;
+  return [
+    `Saved search **${search.name}** (ID \`${search.id}\`) currently matches ${search.studyCount ?? 0} studies and is re-run on the schedule \`${search.schedule}\`.`,
+    `Changes are published at \`${result.resourceUri}\`.`,
+  ].join("\n\n");
+}
+
+/**
+ * Registers the 'clinicaltrials_save_search' tool with the MCP server.
+ * @param server - The MCP server instance.
+ */
+export const registerSaveSearchTool = async (
+  server: McpServer,
+): Promise<void> => {
+  const toolName = "clinicaltrials_save_search";
+  const toolDescription =
+    "Saves a study search (the same 'query' and 'filter' as 'clinicaltrials_search_studies') as a named watch that is re-run on a cron schedule, hourly by default. Each re-run is compared with the previous results to detect new studies, removed studies, and overall status changes. Read the detected changes with 'clinicaltrials_get_search_changes', or subscribe to the returned resource URI to be notified. Saving under an existing name replaces that search. Searches matching more than 5000 studies are rejected, as is a new search once the caller has reached the server's limit on saved searches.";
+
+  server.registerTool(
+    toolName,
+    {
+      title: "Save Study Search",
+      description: toolDescription,
+      inputSchema: SaveSearchInputSchema.shape,
+      outputSchema: SaveSearchOutputSchema.shape,
+      annotations: { readOnlyHint: false, idempotentHint: true },
+    },
+    async (params: SaveSearchInput, callContext) => {
+      const handlerContext = requestContextService.createRequestContext({
+        toolName,
+        parentContext: callContext,
+      });
+
+      try {
+        const result = await saveSearchLogic(params, handlerContext);
+        return {
+          structuredContent: result,
+          content: [{ type: "text", text: formatSaveSearchMarkdown(result) }],
+        };
+      } catch (error) {
+        logger.error(`Error in ${toolName} handler`, {
+          error,
+          ...handlerContext,
+        });
+        const mcpError = ErrorHandler.handleError(error, {
+          operation: toolName,
+          context: handlerContext,
+          input: params,
+        }) as McpError;
+
+        return {
+          isError: true,
+          content: [{ type: "text", text: mcpError.message }],
+          structuredContent: {
+            code: mcpError.code,
+            message: mcpError.message,
+            details: mcpError.details,
+          },
+        };
+      }
+    },
+  );
+  logger.info(`Tool '${toolName}' registered successfully.`);
+};
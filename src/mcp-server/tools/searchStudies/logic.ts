@@ -7,6 +7,11 @@ import {
   ClinicalTrialsGovService,
   PagedStudiesSchema,
 } from "../../../services/clinical-trials-gov/index.js";
+import { getStudyWarehouse } from "../../../services/warehouse/index.js";
+import {
+  StudySourceSchema,
+  type StudyLister,
+} from "../../../services/warehouse/types.js";
 import { logger, type RequestContext } from "../../../utils/index.js";
 
 /**
@@ -118,6 +123,11 @@ export const SearchStudiesInputSchema = z.object({
     .string()
     .optional()
     .describe("A token used to retrieve the next page of results."),
+  source: StudySourceSchema.default("api")
+    .optional()
+    .describe(
+      "Where to search: 'api' for the live ClinicalTrials.gov API, or 'local' for the offline study warehouse filled by 'npm run warehouse:ingest'. The local warehouse does not support 'filter.advanced' or Essie operators such as AREA[]. Defaults to 'api'."
+    ),
 });
 
 /**
@@ -135,14 +145,38 @@ export const SearchStudiesOutputSchema = PagedStudiesSchema;
  */
 export type SearchStudiesOutput = z.infer<typeof SearchStudiesOutputSchema>;
 
+/**
+ * Converts the tool's filter into the shape expected by the API. The API
+ * expects the geo filter as a single `distance(...)` string.
+ *
+ * @param filter - The validated filter input.
+ * @param context - The request context for logging.
+ * @returns The filter parameters for the service.
+ */
+export function toApiFilter(
+  filter: NonNullable<SearchStudiesInput["filter"]>,
+  context: RequestContext
+): Record<string, unknown> {
+  const apiFilter: Record<string, unknown> = { ...filter };
+  if (filter.geo) {
+    const { latitude, longitude, radius, unit } = filter.geo;
+    apiFilter.geo = `distance(${latitude},${longitude},${radius}${unit})`;
+    logger.debug(`Transformed geo filter to: ${apiFilter.geo}`, {
+      ...context,
+    });
+  }
+  return apiFilter;
+}
+
 /**
  * Searches for clinical studies using a combination of queries and filters.
- * Supports pagination, sorting, and geographic filtering.
+ * Supports pagination, sorting, and geographic filtering. Searches the live
+ * API, or the local study warehouse when `source` is "local".
  *
  * @param params - The validated input parameters for the tool.
  * @param context - The request context for logging and tracing.
  * @returns A promise that resolves with a paginated list of studies.
- * @throws {McpError} If the API request fails.
+ * @throws {McpError} If the API request fails, or the local warehouse is empty or cannot run the search.
  */
 export async function searchStudiesLogic(
   params: SearchStudiesInput,
@@ -163,27 +197,14 @@ export async function searchStudiesLogic(
     countTotal: true,
   };
 
-  // Handle filter transformation separately.
   if (params.filter) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const filter: Record<string, any> = { ...params.filter };
-    if (filter.geo) {
-      const { latitude, longitude, radius, unit } = filter.geo as {
-        latitude: number;
-        longitude: number;
-        radius: number;
-        unit: string;
-      };
-      // The API expects the geo filter as a single string.
-      filter.geo = `distance(${latitude},${longitude},${radius}${unit})`;
-      logger.debug(`Transformed geo filter to: ${filter.geo}`, {
-        ...context,
-      });
-    }
-    apiParams.filter = filter;
+    apiParams.filter = toApiFilter(params.filter, context);
   }
 
-  const service = ClinicalTrialsGovService.getInstance();
+  const service: StudyLister =
+    params.source === "local"
+      ? await getStudyWarehouse(context)
+      : ClinicalTrialsGovService.getInstance();
   const pagedStudies = await service.listStudies(apiParams, context);
   logger.info("Successfully listed studies.", { ...context });
 
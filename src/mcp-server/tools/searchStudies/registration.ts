@@ -4,6 +4,7 @@
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpError } from "../../../types-global/errors.js";
+import { trackStudyIds } from "../../resources/studyResource/index.js";
 import {
   ErrorHandler,
   logger,
@@ -25,7 +26,7 @@ export const registerSearchStudiesTool = async (
 ): Promise<void> => {
   const toolName = "clinicaltrials_search_studies";
   const toolDescription =
-    "Searches for clinical studies using a combination of query terms and filters. Supports pagination, sorting, and geographic filtering.";
+    "Searches for clinical studies using a combination of query terms and filters. Supports pagination, sorting, and geographic filtering. Set 'source' to 'local' to search the offline study warehouse instead of the live API.";
 
   server.registerTool(
     toolName,
@@ -44,6 +45,12 @@ export const registerSearchStudiesTool = async (
 
       try {
         const result = await searchStudiesLogic(params, handlerContext);
+        trackStudyIds(
+          server,
+          result.studies?.map(
+            (study) => study.protocolSection?.identificationModule?.nctId,
+          ) ?? [],
+        );
         const studies = result.studies;
         const studySummaries =
           studies?.map((study) => {
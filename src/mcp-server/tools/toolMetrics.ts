@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Records metrics for every tool call of a server instance: the
+ * number of calls by tool, outcome, and error code, their duration, and the
+ * token count of the text content of their responses.
+ * @module src/mcp-server/tools/toolMetrics
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import {
+  countTokens,
+  toolCallDurationSeconds,
+  toolCallsTotal,
+  toolResponseTokens,
+} from "../../utils/index.js";
+
+/**
+ * The parts of a tool result that metrics are derived from.
+ */
+interface ToolResultLike {
+  isError?: boolean;
+  content?: { type: string; text?: string }[];
+  structuredContent?: { code?: unknown };
+}
+
+/**
+ * Records the token count of a result's text content. Counting is deferred so
+ * that it does not delay the response.
+ * @private
+ */
+function recordResponseTokens(tool: string, result: ToolResultLike): void {
+  const text = (result.content ?? [])
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("\n");
+  if (!text) return;
+  setImmediate(() => {
+    countTokens(text)
+      .then((tokens) => toolResponseTokens.observe({ tool }, tokens))
+      // Failures are logged by countTokens.
+      .catch(() => undefined);
+  });
+}
+
+/**
+ * Wraps a tool callback to record its metrics.
+ * @private
+ */
+function instrument<T extends (...args: never[]) => unknown>(
+  tool: string,
+  callback: T,
+): T {
+  return (async (...args: Parameters<T>) => {
+    const startedAt = Date.now();
+    let code: string = BaseErrorCode.UNKNOWN_ERROR;
+    try {
+      const result = (await callback(...args)) as ToolResultLike;
+      const errorCode = result.structuredContent?.code;
+      code = !result.isError
+        ? "none"
+        : typeof errorCode === "string"
+          ? errorCode
+          : BaseErrorCode.UNKNOWN_ERROR;
+      recordResponseTokens(tool, result);
+      return result;
+    } catch (error) {
+      if (error instanceof McpError) code = error.code;
+      throw error;
+    } finally {
+      const outcome = code === "none" ? "success" : "error";
+      toolCallsTotal.inc({ tool, outcome, code });
+      toolCallDurationSeconds.observe(
+        { tool, outcome },
+        (Date.now() - startedAt) / 1000,
+      );
+    }
+  }) as T;
+}
+
+/**
+ * Instruments every tool registered on a server instance after this call.
+ * Wrappers installed later, such as `applyScopePolicy`, wrap the callback
+ * first, so call this before them for the calls they reject to be counted.
+ * @param server - The server instance, before registration.
+ */
+export function instrumentToolCalls(server: McpServer): void {
+  const registerTool = server.registerTool.bind(server);
+  server.registerTool = ((
+    name: string,
+    toolConfig: never,
+    callback: (...args: never[]) => unknown,
+  ) =>
+    registerTool(
+      name,
+      toolConfig,
+      instrument(name, callback) as never,
+    )) as typeof server.registerTool;
+}
@@ -6,6 +6,7 @@
  */
 import { config } from "../../../config/index.js";
 import { logger, requestContextService } from "../../../utils/index.js";
+import { ApiKeyStrategy } from "./strategies/apiKeyStrategy.js";
 import { AuthStrategy } from "./strategies/authStrategy.js";
 import { JwtStrategy } from "./strategies/jwtStrategy.js";
 import { OauthStrategy } from "./strategies/oauthStrategy.js";
@@ -32,6 +33,9 @@ export function createAuthStrategy(): AuthStrategy | null {
     case "oauth":
       logger.debug("Instantiating OAuth authentication strategy.", context);
       return new OauthStrategy();
+    case "apikey":
+      logger.debug("Instantiating API key authentication strategy.", context);
+      return new ApiKeyStrategy();
     case "none":
       logger.info("Authentication is disabled ('none' mode).", context);
       return null; // No authentication
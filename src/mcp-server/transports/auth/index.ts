@@ -4,12 +4,28 @@
  * @module src/mcp-server/transports/auth/index
  */
 
-export { authContext } from "./lib/authContext.js";
+export { authContext, getCurrentAuthor } from "./lib/authContext.js";
 export { withRequiredScopes } from "./lib/authUtils.js";
 export type { AuthInfo } from "./lib/authTypes.js";
+export {
+  FileApiKeyStore,
+  generateApiKey,
+  hashApiKey,
+} from "./lib/apiKeyStore.js";
+export type { ApiKeyRecord, ApiKeyStore } from "./lib/apiKeyStore.js";
+export { SupabaseApiKeyStore } from "./lib/supabaseApiKeyStore.js";
+export {
+  applyScopePolicy,
+  loadScopePolicy,
+  parseScopePolicy,
+  requiredScopesFor,
+  ScopePolicySchema,
+} from "./lib/scopePolicy.js";
+export type { ScopePolicy } from "./lib/scopePolicy.js";
 
 export { createAuthStrategy } from "./authFactory.js";
 export { createAuthMiddleware } from "./authMiddleware.js";
+export { ApiKeyStrategy } from "./strategies/apiKeyStrategy.js";
 export type { AuthStrategy } from "./strategies/authStrategy.js";
 export { JwtStrategy } from "./strategies/jwtStrategy.js";
 export { OauthStrategy } from "./strategies/oauthStrategy.js";
@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Storage of the API keys accepted by the `apikey` auth mode.
+ * Keys are never stored in plain text: each record holds the SHA-256 hash of
+ * its key, and the client ID and scopes the key grants. A client may hold
+ * several active keys at once, so keys can be rotated without downtime.
+ * @module src/mcp-server/transports/auth/lib/apiKeyStore
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { readFileSync, statSync } from "fs";
+import { stat } from "fs/promises";
+import { z } from "zod";
+import { BaseErrorCode, McpError } from "../../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../../utils/index.js";
+
+/** Prefix of generated API keys, to make leaked keys easy to recognize. */
+const API_KEY_PREFIX = "ctg_";
+
+/** Keys expiring within this many days are reported when loaded. */
+const EXPIRY_WARNING_DAYS = 14;
+
+/**
+ * Zod schema for an entry of the API key file.
+ */
+export const ApiKeyEntrySchema = z
+  .object({
+    /** A unique, non-secret name for the key, used in logs. */
+    id: z.string().min(1),
+    clientId: z.string().min(1),
+    /** The hex SHA-256 hash of the key. */
+    hash: z
+      .string()
+      .regex(/^[a-f0-9]{64}$/i, "Must be a hex SHA-256 hash.")
+      .transform((hash) => hash.toLowerCase()),
+    scopes: z.array(z.string().min(1)).min(1),
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+    revoked: z.boolean().default(false),
+  })
+  .strict();
+
+/**
+ * Zod schema for the API key file.
+ */
+export const ApiKeyFileSchema = z.object({
+  keys: z.array(ApiKeyEntrySchema),
+});
+
+/**
+ * An API key, without its hash.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  clientId: string;
+  scopes: string[];
+  /** When the key stops being accepted (ISO 8601). */
+  expiresAt?: string;
+  revoked: boolean;
+  /** When the key was last used (ISO 8601), if tracked by the store. */
+  lastUsedAt?: string;
+}
+
+/**
+ * A source of API keys.
+ */
+export interface ApiKeyStore {
+  /**
+   * Looks up a key by the hash of its value.
+   * @param hash - The hex SHA-256 hash of the presented key.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with the key, or `undefined`.
+   */
+  findByHash(
+    hash: string,
+    context: RequestContext,
+  ): Promise<ApiKeyRecord | undefined>;
+
+  /**
+   * Records that a key was used.
+   * @param id - The key ID.
+   * @param usedAt - When the key was used (ISO 8601).
+   * @param context - The request context for logging.
+   */
+  recordUse(id: string, usedAt: string, context: RequestContext): Promise<void>;
+}
+
+/**
+ * Returns the hex SHA-256 hash of an API key. A fast hash is sufficient
+ * because generated keys carry 256 bits of entropy.
+ * @param key - The API key.
+ * @returns The hash.
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key, "utf8").digest("hex");
+}
+
+/**
+ * Generates a new random API key.
+ * @returns The key.
+ */
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * Parses an API key file, rejecting duplicate IDs and hashes.
+ * @param text - The file contents.
+ * @param source - The file path, for error messages.
+ * @returns The entries by hash.
+ * @throws {McpError} If the file is not a valid API key file.
+ */
+export function parseApiKeyFile(
+  text: string,
+  source: string,
+): Map<string, ApiKeyRecord> {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new McpError(
+      BaseErrorCode.CONFIGURATION_ERROR,
+      `The API key file '${source}' is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const parsed = ApiKeyFileSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new McpError(
+      BaseErrorCode.CONFIGURATION_ERROR,
+      `The API key file '${source}' is invalid: ${parsed.error.message}`,
+      { issues: parsed.error.issues },
+    );
+  }
+
+  const byHash = new Map<string, ApiKeyRecord>();
+  const ids = new Set<string>();
+  for (const { hash, ...record } of parsed.data.keys) {
+    if (ids.has(record.id) || byHash.has(hash)) {
+      throw new McpError(
+        BaseErrorCode.CONFIGURATION_ERROR,
+        `The API key file '${source}' lists key '${record.id}' more than once.`,
+      );
+    }
+    ids.add(record.id);
+    byHash.set(hash, record);
+  }
+  return byHash;
+}
+
+/**
+ * Logs the keys that have expired or expire soon, so they can be rotated.
+ * @param keys - The keys.
+ * @param context - The request context for logging.
+ */
+export function reportExpiringApiKeys(
+  keys: Iterable<ApiKeyRecord>,
+  context: RequestContext,
+): void {
+  const now = Date.now();
+  for (const key of keys) {
+    if (key.revoked || !key.expiresAt) continue;
+    const daysLeft = (Date.parse(key.expiresAt) - now) / 86_400_000;
+    if (daysLeft <= 0) {
+      logger.warning(`API key '${key.id}' has expired.`, {
+        ...context,
+        keyId: key.id,
+        clientId: key.clientId,
+        expiresAt: key.expiresAt,
+      });
+    } else if (daysLeft <= EXPIRY_WARNING_DAYS) {
+      logger.warning(
+        `API key '${key.id}' expires in ${Math.ceil(daysLeft)} day(s).`,
+        {
+          ...context,
+          keyId: key.id,
+          clientId: key.clientId,
+          expiresAt: key.expiresAt,
+        },
+      );
+    }
+  }
+}
+
+/**
+ * An {@link ApiKeyStore} backed by a JSON file of the form
+ * `{ "keys": [{ "id", "clientId", "hash", "scopes", "expiresAt"?, "revoked"? }] }`.
+ * The file is reloaded when it changes, so keys can be added and revoked
+ * without a restart; if it becomes missing or invalid, every key is rejected.
+ * Last use is tracked in memory only.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private keys: Map<string, ApiKeyRecord>;
+  private mtimeMs: number;
+  private readonly lastUsed = new Map<string, string>();
+
+  /**
+   * Loads the API key file.
+   * @param filePath - The path of the file.
+   * @param context - The request context for logging.
+   * @throws {McpError} If the file cannot be read or is invalid.
+   */
+  constructor(
+    private readonly filePath: string,
+    context: RequestContext,
+  ) {
+    try {
+      this.mtimeMs = statSync(filePath).mtimeMs;
+      this.keys = parseApiKeyFile(readFileSync(filePath, "utf8"), filePath);
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      throw new McpError(
+        BaseErrorCode.CONFIGURATION_ERROR,
+        `Cannot read the API key file '${filePath}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    logger.info(
+      `Loaded ${this.keys.size} API key(s) from '${filePath}'.`,
+      context,
+    );
+    reportExpiringApiKeys(this.keys.values(), context);
+  }
+
+  public async findByHash(
+    hash: string,
+    context: RequestContext,
+  ): Promise<ApiKeyRecord | undefined> {
+    await this.reloadIfChanged(context);
+    const record = this.keys.get(hash);
+    if (!record) return undefined;
+    const lastUsedAt = this.lastUsed.get(record.id);
+    return { ...record, ...(lastUsedAt && { lastUsedAt }) };
+  }
+
+  public async recordUse(id: string, usedAt: string): Promise<void> {
+    this.lastUsed.set(id, usedAt);
+  }
+
+  /**
+   * Reloads the file if it changed since it was last read. A missing,
+   * unreadable, or invalid file clears the keys, so every key is rejected
+   * until the file is fixed, rather than leaving revoked keys active.
+   * @private
+   */
+  private async reloadIfChanged(context: RequestContext): Promise<void> {
+    let mtimeMs = Number.NaN;
+    try {
+      ({ mtimeMs } = await stat(this.filePath));
+    } catch {
+      // Reported by the read below, once until the file reappears.
+    }
+    if (Object.is(mtimeMs, this.mtimeMs)) return;
+    this.mtimeMs = mtimeMs;
+    try {
+      this.keys = parseApiKeyFile(
+        readFileSync(this.filePath, "utf8"),
+        this.filePath,
+      );
+      logger.info(
+        `Reloaded ${this.keys.size} API key(s) from '${this.filePath}'.`,
+        context,
+      );
+      reportExpiringApiKeys(this.keys.values(), context);
+    } catch (error) {
+      this.keys = new Map();
+      logger.error(
+        "Failed to reload the API key file; rejecting every API key until it is fixed.",
+        {
+          ...context,
+          filePath: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      );
+    }
+  }
+}
@@ -33,3 +33,12 @@ interface AuthStore {
  * const scopes = store?.authInfo.scopes;
  */
 export const authContext = new AsyncLocalStorage<AuthStore>();
+
+/**
+ * Returns the authenticated identity of the current request, if any.
+ * @returns The token subject, or the client ID if the token has no subject.
+ */
+export function getCurrentAuthor(): string | undefined {
+  const authInfo = authContext.getStore()?.authInfo;
+  return authInfo?.subject ?? authInfo?.clientId;
+}
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Declarative authorization policy mapping tools and resources to
+ * the token scopes they require. The policy is read from `MCP_SCOPE_POLICY`
+ * (inline JSON) or the JSON file at `MCP_SCOPE_POLICY_PATH`, and enforced
+ * centrally by {@link applyScopePolicy} as each server instance registers its
+ * tools and resources: tools and resources the session's token may not use are
+ * removed from that session's server, so they do not appear in `tools/list` or
+ * `resources/list`, and every call re-checks the scopes of the calling token.
+ * @module src/mcp-server/transports/auth/lib/scopePolicy
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { config } from "../../../../config/index.js";
+import { BaseErrorCode, McpError } from "../../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../../utils/index.js";
+import { authContext } from "./authContext.js";
+import { withRequiredScopes } from "./authUtils.js";
+
+const ScopeListSchema = z.array(z.string().min(1));
+
+/**
+ * Zod schema for a scope policy. Keys of `tools` and `resources` are tool and
+ * resource names, and may use `*` as a wildcard (e.g. `clinicaltrials_*_webhook`).
+ * An exact name takes precedence over wildcard keys, which are tried in order.
+ */
+export const ScopePolicySchema = z
+  .object({
+    /** Scopes required by tools and resources the policy does not name. */
+    defaultScopes: ScopeListSchema.default([]),
+    tools: z.record(ScopeListSchema).default({}),
+    resources: z.record(ScopeListSchema).default({}),
+  })
+  .strict();
+
+/**
+ * A scope policy.
+ */
+export type ScopePolicy = z.infer<typeof ScopePolicySchema>;
+
+let cachedPolicy: ScopePolicy | null | undefined;
+
+/**
+ * Parses and validates a scope policy document.
+ * @param text - The policy as JSON.
+ * @param source - Where the policy came from, for error messages.
+ * @returns The policy.
+ * @throws {McpError} If the document is not valid JSON or not a valid policy.
+ */
+export function parseScopePolicy(text: string, source: string): ScopePolicy {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new McpError(
+      BaseErrorCode.CONFIGURATION_ERROR,
+      `The scope policy in ${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const parsed = ScopePolicySchema.safeParse(document);
+  if (!parsed.success) {
+    throw new McpError(
+      BaseErrorCode.CONFIGURATION_ERROR,
+      `The scope policy in ${source} is invalid: ${parsed.error.message}`,
+      { issues: parsed.error.issues },
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Loads the configured scope policy once and returns it on later calls.
+ * @param context - The request context for logging.
+ * @returns The policy, or `null` if none is configured, in which case any
+ *   authenticated token may use every tool and resource.
+ * @throws {McpError} If the policy file cannot be read or is invalid.
+ */
+export function loadScopePolicy(context: RequestContext): ScopePolicy | null {
+  if (cachedPolicy !== undefined) return cachedPolicy;
+
+  if (config.mcpScopePolicy) {
+    cachedPolicy = parseScopePolicy(config.mcpScopePolicy, "MCP_SCOPE_POLICY");
+  } else if (config.mcpScopePolicyPath) {
+    let text: string;
+    try {
+      text = readFileSync(config.mcpScopePolicyPath, "utf8");
+    } catch (error) {
+      throw new McpError(
+        BaseErrorCode.CONFIGURATION_ERROR,
+        `Cannot read the scope policy file '${config.mcpScopePolicyPath}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    cachedPolicy = parseScopePolicy(text, config.mcpScopePolicyPath);
+  } else {
+    cachedPolicy = null;
+  }
+
+  logger.info(
+    cachedPolicy
+      ? `Loaded a scope policy for ${Object.keys(cachedPolicy.tools).length} tool and ${Object.keys(cachedPolicy.resources).length} resource entries.`
+      : "No scope policy configured; authenticated tokens may use every tool and resource.",
+    context,
+  );
+  return cachedPolicy;
+}
+
+/**
+ * Tests whether a policy key matches a name, treating `*` as a wildcard.
+ * @private
+ */
+function keyMatches(key: string, name: string): boolean {
+  if (!key.includes("*")) return key === name;
+  const pattern = key
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+/**
+ * Returns the scopes a policy requires for a tool or resource.
+ * @param policy - The scope policy.
+ * @param kind - Whether `name` is a tool or a resource.
+ * @param name - The tool or resource name.
+ * @returns The required scopes.
+ */
+export function requiredScopesFor(
+  policy: ScopePolicy,
+  kind: "tools" | "resources",
+  name: string,
+): string[] {
+  const entries = policy[kind];
+  if (Object.prototype.hasOwnProperty.call(entries, name)) {
+    return entries[name];
+  }
+  const pattern = Object.keys(entries).find((key) => keyMatches(key, name));
+  return pattern ? entries[pattern] : policy.defaultScopes;
+}
+
+/**
+ * Wraps a tool or resource callback so that each call checks the calling
+ * token's scopes. Calls without an auth context (authentication disabled) are
+ * not checked.
+ * @private
+ */
+function guard<T extends (...args: never[]) => unknown>(
+  requiredScopes: string[],
+  callback: T,
+): T {
+  if (requiredScopes.length === 0) return callback;
+  return ((...args: Parameters<T>) => {
+    if (authContext.getStore()) {
+      withRequiredScopes(requiredScopes);
+    }
+    return callback(...args);
+  }) as T;
+}
+
+/**
+ * Enforces a scope policy on a server instance. Must be called before any tool
+ * or resource is registered, within the auth context of the request that
+ * creates the instance, so that the tools and resources the token lacks scopes
+ * for are removed from the instance as they are registered. Without an auth
+ * context (stdio, or authentication disabled), nothing is removed.
+ * @param server - The server instance, before registration.
+ * @param context - The request context for logging.
+ * @param policy - The policy to enforce. Defaults to the configured policy.
+ */
+export function applyScopePolicy(
+  server: McpServer,
+  context: RequestContext,
+  policy: ScopePolicy | null = loadScopePolicy(context),
+): void {
+  if (!policy) return;
+  const authInfo = authContext.getStore()?.authInfo;
+  const granted = new Set(authInfo?.scopes ?? []);
+  const isAllowed = (kind: string, name: string, requiredScopes: string[]) => {
+    const missingScopes = requiredScopes.filter((scope) => !granted.has(scope));
+    if (!authInfo || missingScopes.length === 0) return true;
+    logger.debug(`Hiding ${kind} '${name}' from this session.`, {
+      ...context,
+      clientId: authInfo.clientId,
+      missingScopes,
+    });
+    return false;
+  };
+
+  const registerTool = server.registerTool.bind(server);
+  server.registerTool = ((
+    name: string,
+    toolConfig: never,
+    callback: (...args: never[]) => unknown,
+  ) => {
+    const requiredScopes = requiredScopesFor(policy, "tools", name);
+    const registered = registerTool(
+      name,
+      toolConfig,
+      guard(requiredScopes, callback) as never,
+    );
+    if (!isAllowed("tool", name, requiredScopes)) registered.remove();
+    return registered;
+  }) as typeof server.registerTool;
+
+  const registerResource = server.registerResource.bind(server);
+  server.registerResource = ((
+    name: string,
+    uriOrTemplate: never,
+    resourceConfig: never,
+    callback: (...args: never[]) => unknown,
+  ) => {
+    const requiredScopes = requiredScopesFor(policy, "resources", name);
+    const registered = registerResource(
+      name,
+      uriOrTemplate,
+      resourceConfig,
+      guard(requiredScopes, callback) as never,
+    );
+    if (!isAllowed("resource", name, requiredScopes)) registered.remove();
+    return registered;
+  }) as unknown as typeof server.registerResource;
+}
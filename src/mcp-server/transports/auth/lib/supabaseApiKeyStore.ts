@@ -0,0 +1,84 @@
+/**
+ * @fileoverview An API key store on the Supabase `api_keys` table, created by
+ * the migrations in `supabase/migrations/`. Keys are looked up on each request,
+ * so keys added, revoked, or expired in the table take effect immediately, and
+ * the time of last use is written back to the `last_used_at` column.
+ * @module src/mcp-server/transports/auth/lib/supabaseApiKeyStore
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../services/supabase/database.types.js";
+import { BaseErrorCode, McpError } from "../../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../../utils/index.js";
+import type { ApiKeyRecord, ApiKeyStore } from "./apiKeyStore.js";
+
+/** Minimum interval between `last_used_at` writes for a key. */
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+/**
+ * An {@link ApiKeyStore} backed by a Supabase table.
+ */
+export class SupabaseApiKeyStore implements ApiKeyStore {
+  private readonly lastWritten = new Map<string, number>();
+
+  /**
+   * Creates a new `SupabaseApiKeyStore`.
+   * @param client - A Supabase client with the service role key.
+   */
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  public async findByHash(hash: string): Promise<ApiKeyRecord | undefined> {
+    const { data, error } = await this.client
+      .from("api_keys")
+      .select("*")
+      .eq("key_hash", hash)
+      .maybeSingle();
+    if (error) {
+      throw new McpError(
+        BaseErrorCode.DATABASE_ERROR,
+        `Supabase select api_keys failed: ${error.message}`,
+        { code: error.code },
+      );
+    }
+    if (!data) return undefined;
+    return {
+      id: data.id,
+      clientId: data.client_id,
+      scopes: data.scopes,
+      ...(data.expires_at && {
+        expiresAt: new Date(data.expires_at).toISOString(),
+      }),
+      revoked: data.revoked_at !== null,
+      ...(data.last_used_at && {
+        lastUsedAt: new Date(data.last_used_at).toISOString(),
+      }),
+    };
+  }
+
+  /**
+   * Writes the time of use at most once a minute per key. Failures are logged
+   * and do not reject the request.
+   */
+  public async recordUse(
+    id: string,
+    usedAt: string,
+    context: RequestContext,
+  ): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastWritten.get(id) ?? 0) < LAST_USED_WRITE_INTERVAL_MS) {
+      return;
+    }
+    this.lastWritten.set(id, now);
+    const { error } = await this.client
+      .from("api_keys")
+      .update({ last_used_at: usedAt })
+      .eq("id", id);
+    if (error) {
+      logger.warning("Failed to record API key use.", {
+        ...context,
+        keyId: id,
+        error: error.message,
+      });
+    }
+  }
+}
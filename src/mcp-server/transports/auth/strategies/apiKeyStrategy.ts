@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Implements the API key authentication strategy, for internal
+ * service-to-service callers. A caller presents its key as a Bearer token; the
+ * key's SHA-256 hash is looked up in the configured key store, which binds it
+ * to a client ID and scopes. Each use is logged with the key's ID and when it
+ * was last used.
+ * @module src/mcp-server/transports/auth/strategies/ApiKeyStrategy
+ */
+import { config } from "../../../../config/index.js";
+import { getSupabaseAdminClient } from "../../../../services/supabase/supabaseClient.js";
+import { BaseErrorCode, McpError } from "../../../../types-global/errors.js";
+import { logger, requestContextService } from "../../../../utils/index.js";
+import {
+  FileApiKeyStore,
+  hashApiKey,
+  type ApiKeyStore,
+} from "../lib/apiKeyStore.js";
+import type { AuthInfo } from "../lib/authTypes.js";
+import { SupabaseApiKeyStore } from "../lib/supabaseApiKeyStore.js";
+import type { AuthStrategy } from "./authStrategy.js";
+
+/**
+ * Creates the key store selected by `MCP_API_KEY_SOURCE`.
+ * @private
+ */
+function createApiKeyStore(): ApiKeyStore {
+  const context = requestContextService.createRequestContext({
+    operation: "ApiKeyStrategy.createApiKeyStore",
+    source: config.mcpApiKeySource,
+  });
+  if (config.mcpApiKeySource === "supabase") {
+    return new SupabaseApiKeyStore(getSupabaseAdminClient());
+  }
+  if (!config.mcpApiKeysPath) {
+    logger.fatal("MCP_API_KEYS_PATH is not set for API key auth.", context);
+    throw new McpError(
+      BaseErrorCode.CONFIGURATION_ERROR,
+      "MCP_API_KEYS_PATH must be set for API key auth with the 'file' source.",
+      context,
+    );
+  }
+  return new FileApiKeyStore(config.mcpApiKeysPath, context);
+}
+
+export class ApiKeyStrategy implements AuthStrategy {
+  private readonly store: ApiKeyStore;
+
+  /**
+   * Creates a new `ApiKeyStrategy`.
+   * @param store - The key store. Defaults to the store configured by
+   *   `MCP_API_KEY_SOURCE`.
+   * @throws {McpError} If the configured store cannot be created.
+   */
+  constructor(store?: ApiKeyStore) {
+    const context = requestContextService.createRequestContext({
+      operation: "ApiKeyStrategy.constructor",
+    });
+    logger.debug("Initializing ApiKeyStrategy...", context);
+    this.store = store ?? createApiKeyStore();
+  }
+
+  async verify(token: string): Promise<AuthInfo> {
+    const context = requestContextService.createRequestContext({
+      operation: "ApiKeyStrategy.verify",
+    });
+    logger.debug("Attempting to verify API key.", context);
+
+    const record = await this.store.findByHash(hashApiKey(token), context);
+    if (!record || record.revoked) {
+      logger.warning(
+        record
+          ? `Rejected revoked API key '${record.id}'.`
+          : "Rejected unknown API key.",
+        { ...context, keyId: record?.id, clientId: record?.clientId },
+      );
+      throw new McpError(
+        BaseErrorCode.UNAUTHORIZED,
+        "Invalid API key.",
+        context,
+      );
+    }
+
+    const now = new Date();
+    if (record.expiresAt && Date.parse(record.expiresAt) <= now.getTime()) {
+      logger.warning(`Rejected expired API key '${record.id}'.`, {
+        ...context,
+        keyId: record.id,
+        clientId: record.clientId,
+        expiresAt: record.expiresAt,
+      });
+      throw new McpError(
+        BaseErrorCode.UNAUTHORIZED,
+        "API key has expired.",
+        context,
+      );
+    }
+
+    await this.store.recordUse(record.id, now.toISOString(), context);
+    logger.info("API key verification successful.", {
+      ...context,
+      keyId: record.id,
+      clientId: record.clientId,
+      scopes: record.scopes,
+      previousUseAt: record.lastUsedAt ?? "never",
+    });
+
+    return {
+      token,
+      clientId: record.clientId,
+      scopes: record.scopes,
+      ...(record.expiresAt && {
+        expiresAt: Math.floor(Date.parse(record.expiresAt) / 1000),
+      }),
+      extra: { apiKeyId: record.id },
+    };
+  }
+}
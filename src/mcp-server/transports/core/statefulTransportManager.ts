@@ -15,11 +15,13 @@ import { Readable } from "stream";
 import { config } from "../../../config/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
+  activeSessions,
   ErrorHandler,
   logger,
   RequestContext,
   requestContextService,
 } from "../../../utils/index.js";
+import { authContext } from "../auth/lib/authContext.js";
 import { BaseTransportManager } from "./baseTransportManager.js";
 import { HonoStreamResponse } from "./honoNodeBridge.js";
 import {
@@ -75,11 +77,14 @@ export class StatefulTransportManager
         const sessionContext = { ...opContext, sessionId };
         this.transports.set(sessionId, transport);
         this.servers.set(sessionId, server);
+        const clientId = authContext.getStore()?.authInfo.clientId;
         this.sessions.set(sessionId, {
           id: sessionId,
           createdAt: new Date(),
           lastAccessedAt: new Date(),
+          ...(clientId && { clientId }),
         });
+        activeSessions.inc();
         logger.info(`MCP Session created: ${sessionId}`, sessionContext);
       },
     });
@@ -258,6 +263,10 @@ export class StatefulTransportManager
     return this.sessions.get(sessionId);
   }
 
+  listSessions(): TransportSession[] {
+    return Array.from(this.sessions.values());
+  }
+
   async shutdown(): Promise<void> {
     const context = requestContextService.createRequestContext({
       operation: "StatefulTransportManager.shutdown",
@@ -336,7 +345,9 @@ export class StatefulTransportManager
 
     this.transports.delete(sessionId);
     this.servers.delete(sessionId);
-    this.sessions.delete(sessionId);
+    if (this.sessions.delete(sessionId)) {
+      activeSessions.dec();
+    }
 
     logger.info(
       `MCP Session closed and resources released: ${sessionId}`,
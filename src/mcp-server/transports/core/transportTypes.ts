@@ -40,6 +40,8 @@ export interface TransportSession {
   id: string;
   createdAt: Date;
   lastAccessedAt: Date;
+  /** The client ID of the token that created the session, if authenticated. */
+  clientId?: string;
 }
 
 /**
@@ -97,4 +99,9 @@ export interface StatefulTransportManager extends TransportManager {
    * Retrieves session information.
    */
   getSession(sessionId: string): TransportSession | undefined;
+
+  /**
+   * Lists the active sessions.
+   */
+  listSessions(): TransportSession[];
 }
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview The `/admin` route group of the HTTP transport, for operators.
+ * It lists and force-closes MCP sessions, inspects and purges caches, lists,
+ * runs, starts, and stops scheduled jobs, and changes the log level at
+ * runtime. Every route requires an authenticated token holding the scope set
+ * by `MCP_ADMIN_SCOPE`, and every change is logged with the caller's client ID.
+ * @module src/mcp-server/transports/http/adminRoutes
+ */
+
+import { Context, Hono, Next } from "hono";
+import { z } from "zod";
+import { config } from "../../../config/index.js";
+import { responseCache } from "../../../services/clinical-trials-gov/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import { schedulerService, type Job } from "../../../utils/scheduling/index.js";
+import {
+  authContext,
+  createAuthMiddleware,
+  withRequiredScopes,
+  type AuthStrategy,
+} from "../auth/index.js";
+import { StatefulTransportManager } from "../core/statefulTransportManager.js";
+import { TransportManager, TransportSession } from "../core/transportTypes.js";
+import { HonoNodeBindings } from "./httpTypes.js";
+
+/**
+ * A cache that can be inspected and purged through the admin API.
+ */
+interface AdminCache {
+  getStats(): unknown;
+  clear(context: RequestContext, options?: { includeDisk?: boolean }): void;
+}
+
+/**
+ * The caches exposed by the admin API, by name.
+ */
+const ADMIN_CACHES: Readonly<Record<string, AdminCache>> = {
+  responses: responseCache,
+};
+
+/**
+ * Zod schema for the body of `PUT /admin/log-level`.
+ */
+const SetLogLevelSchema = z.object({
+  level: z.enum([
+    "debug",
+    "info",
+    "notice",
+    "warning",
+    "error",
+    "crit",
+    "alert",
+    "emerg",
+  ]),
+});
+
+type AdminContext = Context<{ Bindings: HonoNodeBindings }>;
+
+/**
+ * Creates a request context for an admin operation, carrying the caller's
+ * client ID for auditing.
+ * @private
+ */
+function createAdminContext(
+  c: AdminContext,
+  operation: string,
+  extra: Record<string, unknown> = {},
+): RequestContext {
+  return requestContextService.createRequestContext({
+    operation: `admin.${operation}`,
+    method: c.req.method,
+    path: c.req.path,
+    clientId: authContext.getStore()?.authInfo.clientId,
+    ...extra,
+  });
+}
+
+/**
+ * Formats a session for an admin response.
+ * @private
+ */
+function describeSession(session: TransportSession, now: number) {
+  return {
+    id: session.id,
+    clientId: session.clientId ?? null,
+    createdAt: session.createdAt.toISOString(),
+    lastAccessedAt: session.lastAccessedAt.toISOString(),
+    ageSeconds: Math.floor((now - session.createdAt.getTime()) / 1000),
+    idleSeconds: Math.floor((now - session.lastAccessedAt.getTime()) / 1000),
+  };
+}
+
+/**
+ * Formats a scheduled job for an admin response.
+ * @private
+ */
+async function describeJob(job: Job) {
+  return {
+    id: job.id,
+    schedule: job.schedule,
+    description: job.description,
+    status: await job.task.getStatus(),
+    isRunning: job.isRunning,
+    nextRunAt: job.task.getNextRun()?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Looks up a scheduled job by ID.
+ * @private
+ * @throws {McpError} If no job has the ID.
+ */
+function findJob(id: string, context: RequestContext): Job {
+  const job = schedulerService.listJobs().find((j) => j.id === id);
+  if (!job) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Job '${id}' not found.`,
+      context,
+    );
+  }
+  return job;
+}
+
+/**
+ * Creates the `/admin` route group, to be mounted with `app.route("/admin", ...)`.
+ *
+ * @param transportManager - The transport manager whose sessions are managed.
+ * @param authStrategy - The strategy that authenticates admin requests.
+ * @returns The Hono sub-application.
+ */
+export function createAdminRoutes(
+  transportManager: TransportManager,
+  authStrategy: AuthStrategy,
+): Hono<{ Bindings: HonoNodeBindings }> {
+  const admin = new Hono<{ Bindings: HonoNodeBindings }>();
+
+  admin.use("*", createAuthMiddleware(authStrategy));
+  admin.use("*", async (_c: AdminContext, next: Next) => {
+    withRequiredScopes([config.mcpAdminScope]);
+    await next();
+  });
+
+  admin.get("/sessions", (c) => {
+    const now = Date.now();
+    const sessions =
+      transportManager instanceof StatefulTransportManager
+        ? transportManager.listSessions()
+        : [];
+    return c.json({
+      sessionMode: config.mcpSessionMode,
+      sessions: sessions.map((session) => describeSession(session, now)),
+    });
+  });
+
+  admin.delete("/sessions/:id", async (c) => {
+    const sessionId = c.req.param("id");
+    const context = createAdminContext(c, "closeSession", { sessionId });
+    if (!(transportManager instanceof StatefulTransportManager)) {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        "Session not found or expired.",
+        context,
+      );
+    }
+    const response = await transportManager.handleDeleteRequest(
+      sessionId,
+      context,
+    );
+    logger.info(`Admin force-closed session ${sessionId}.`, context);
+    return c.json(response.body as object, response.statusCode);
+  });
+
+  admin.get("/caches", (c) => {
+    const caches = Object.fromEntries(
+      Object.entries(ADMIN_CACHES).map(([name, cache]) => [
+        name,
+        cache.getStats(),
+      ]),
+    );
+    return c.json({ caches });
+  });
+
+  admin.delete("/caches/:name", (c) => {
+    const name = c.req.param("name");
+    const includeDisk = c.req.query("includeDisk") === "true";
+    const context = createAdminContext(c, "purgeCache", {
+      cache: name,
+      includeDisk,
+    });
+    const cache = Object.prototype.hasOwnProperty.call(ADMIN_CACHES, name)
+      ? ADMIN_CACHES[name]
+      : undefined;
+    if (!cache) {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        `Cache '${name}' not found. Known caches: ${Object.keys(ADMIN_CACHES).join(", ")}.`,
+        context,
+      );
+    }
+    cache.clear(context, { includeDisk });
+    logger.info(
+      `Admin purged cache '${name}'${includeDisk ? ", including its disk store" : ""}.`,
+      context,
+    );
+    return c.json({ status: "cache_purged", cache: name, includeDisk });
+  });
+
+  admin.get("/jobs", async (c) => {
+    const jobs = await Promise.all(
+      schedulerService.listJobs().map((job) => describeJob(job)),
+    );
+    return c.json({ jobs });
+  });
+
+  admin.post("/jobs/:id/run", async (c) => {
+    const jobId = c.req.param("id");
+    const context = createAdminContext(c, "runJob", { jobId });
+    const job = findJob(jobId, context);
+    if (job.isRunning) {
+      throw new McpError(
+        BaseErrorCode.CONFLICT,
+        `Job '${jobId}' is already running.`,
+        context,
+      );
+    }
+    logger.info(`Admin triggered job '${jobId}'.`, context);
+    // The run continues in the background; its outcome is logged by the scheduler.
+    schedulerService
+      .trigger(jobId)
+      .catch((error) =>
+        logger.error(
+          `Triggered run of job '${jobId}' failed.`,
+          error instanceof Error ? error : new Error(String(error)),
+          context,
+        ),
+      );
+    return c.json(await describeJob(job), 202);
+  });
+
+  admin.post("/jobs/:id/start", async (c) => {
+    const jobId = c.req.param("id");
+    const context = createAdminContext(c, "startJob", { jobId });
+    const job = findJob(jobId, context);
+    schedulerService.start(jobId);
+    logger.info(`Admin started job '${jobId}'.`, context);
+    return c.json(await describeJob(job));
+  });
+
+  admin.post("/jobs/:id/stop", async (c) => {
+    const jobId = c.req.param("id");
+    const context = createAdminContext(c, "stopJob", { jobId });
+    const job = findJob(jobId, context);
+    schedulerService.stop(jobId);
+    logger.info(`Admin stopped job '${jobId}'.`, context);
+    return c.json(await describeJob(job));
+  });
+
+  admin.get("/log-level", (c) => c.json({ level: logger.getLevel() }));
+
+  admin.put("/log-level", async (c) => {
+    const context = createAdminContext(c, "setLogLevel");
+    const parsed = SetLogLevelSchema.safeParse(
+      await c.req.json().catch(() => undefined),
+    );
+    if (!parsed.success) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `Body must be {"level": <level>}, with one of: ${SetLogLevelSchema.shape.level.options.join(", ")}.`,
+        context,
+      );
+    }
+    const previousLevel = logger.getLevel();
+    // Logged before the change, so that raising the level does not hide it.
+    logger.info(
+      `Admin changed the log level from ${previousLevel} to ${parsed.data.level}.`,
+      { ...context, previousLevel, level: parsed.data.level },
+    );
+    logger.setLevel(parsed.data.level);
+    return c.json({ level: logger.getLevel(), previousLevel });
+  });
+
+  return admin;
+}
@@ -12,9 +12,9 @@ import { cors } from "hono/cors";
 import { stream } from "hono/streaming";
 import http from "http";
 import { config } from "../../../config/index.js";
+import { clinicalTrialsCircuitBreaker } from "../../../services/clinical-trials-gov/index.js";
 import {
   logger,
-  rateLimiter,
   RequestContext,
   requestContextService,
 } from "../../../utils/index.js";
@@ -22,28 +22,20 @@ import { createAuthMiddleware, createAuthStrategy } from "../auth/index.js";
 import { StatefulTransportManager } from "../core/statefulTransportManager.js";
 import { StatelessTransportManager } from "../core/statelessTransportManager.js";
 import { TransportManager } from "../core/transportTypes.js";
+import { createAdminRoutes } from "./adminRoutes.js";
 import { httpErrorHandler } from "./httpErrorHandler.js";
 import { HonoNodeBindings } from "./httpTypes.js";
 import { mcpTransportMiddleware } from "./mcpTransportMiddleware.js";
+import { createMetricsRoutes } from "./metricsRoutes.js";
+import {
+  createPreAuthRateLimitMiddleware,
+  createRateLimitMiddleware,
+} from "./rateLimitMiddleware.js";
 
 const HTTP_PORT = config.mcpHttpPort;
 const HTTP_HOST = config.mcpHttpHost;
 const MCP_ENDPOINT_PATH = config.mcpHttpEndpointPath;
 
-/**
- * Extracts the client IP address from the request, prioritizing common proxy headers.
- * @param c - The Hono context object.
- * @returns The client's IP address or a default string if not found.
- */
-function getClientIp(c: Context<{ Bindings: HonoNodeBindings }>): string {
-  const forwardedFor = c.req.header("x-forwarded-for");
-  return (
-    (forwardedFor?.split(",")[0] ?? "").trim() ||
-    c.req.header("x-real-ip") ||
-    "unknown_ip"
-  );
-}
-
 /**
  * Converts a Fetch API Headers object to Node.js IncomingHttpHeaders.
  * Hono uses Fetch API Headers, but the underlying transport managers expect
@@ -225,13 +217,20 @@ export function createHttpApp(
     "*",
     cors({
       origin: config.mcpAllowedOrigins || [],
-      allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+      allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
       allowHeaders: [
         "Content-Type",
         "Mcp-Session-Id",
         "Last-Event-ID",
         "Authorization",
       ],
+      exposeHeaders: [
+        "RateLimit-Policy",
+        "RateLimit-Limit",
+        "RateLimit-Remaining",
+        "RateLimit-Reset",
+        "Retry-After",
+      ],
       credentials: true,
     }),
   );
@@ -247,34 +246,19 @@ export function createHttpApp(
     },
   );
 
-  app.use(
-    MCP_ENDPOINT_PATH,
-    async (c: Context<{ Bindings: HonoNodeBindings }>, next: Next) => {
-      const clientIp = getClientIp(c);
-      const context = requestContextService.createRequestContext({
-        operation: "httpRateLimitCheck",
-        ipAddress: clientIp,
-      });
-      try {
-        rateLimiter.check(clientIp, context);
-        logger.debug("Rate limit check passed.", context);
-      } catch (error) {
-        logger.warning("Rate limit check failed.", {
-          ...context,
-          error: error instanceof Error ? error.message : String(error),
-        });
-        throw error;
-      }
-      await next();
-    },
-  );
-
   const authStrategy = createAuthStrategy();
   if (authStrategy) {
     logger.info(
       "Authentication strategy found, enabling auth middleware.",
       transportContext,
     );
+    // Limits the failed authentication attempts of each IP address.
+    if (config.rateLimit.ipWindowLimit > 0) {
+      const preAuthRateLimit = createPreAuthRateLimitMiddleware();
+      app.use(MCP_ENDPOINT_PATH, preAuthRateLimit);
+      app.use("/admin/*", preAuthRateLimit);
+      app.use("/metrics", preAuthRateLimit);
+    }
     app.use(MCP_ENDPOINT_PATH, createAuthMiddleware(authStrategy));
   } else {
     logger.info(
@@ -283,15 +267,38 @@ export function createHttpApp(
     );
   }
 
+  // Runs after authentication so that limits apply per client, not per IP.
+  app.use(MCP_ENDPOINT_PATH, createRateLimitMiddleware());
+
   app.onError(httpErrorHandler);
 
   app.get("/healthz", (c) => {
+    const upstream = clinicalTrialsCircuitBreaker.getSnapshot();
     return c.json({
-      status: "ok",
+      status: upstream.state === "open" ? "degraded" : "ok",
       timestamp: new Date().toISOString(),
+      upstream: { clinicalTrialsGov: upstream },
     });
   });
 
+  if (config.metricsEnabled) {
+    app.route("/metrics", createMetricsRoutes(authStrategy));
+  }
+
+  // The admin API is only served when requests can be authenticated.
+  if (authStrategy) {
+    app.route("/admin", createAdminRoutes(transportManager, authStrategy));
+    logger.info(
+      `Admin API enabled at /admin for tokens with the '${config.mcpAdminScope}' scope.`,
+      transportContext,
+    );
+  } else {
+    logger.info(
+      "Admin API disabled because authentication is disabled.",
+      transportContext,
+    );
+  }
+
   app.get(MCP_ENDPOINT_PATH, (c: Context<{ Bindings: HonoNodeBindings }>) => {
     const sessionId = c.req.header("mcp-session-id");
     if (sessionId) {
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Serves the Prometheus metrics of the HTTP transport at
+ * `/metrics`. When authentication is enabled, scrapes require an
+ * authenticated token holding the scope set by `MCP_ADMIN_SCOPE`, like the
+ * admin API; without authentication, the endpoint is served to anyone who can
+ * reach the server.
+ * @module src/mcp-server/transports/http/metricsRoutes
+ */
+
+import { Hono, Next } from "hono";
+import { config } from "../../../config/index.js";
+import {
+  metricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+} from "../../../utils/index.js";
+import {
+  createAuthMiddleware,
+  withRequiredScopes,
+  type AuthStrategy,
+} from "../auth/index.js";
+import { HonoNodeBindings } from "./httpTypes.js";
+
+/**
+ * Creates the `/metrics` route, to be mounted with `app.route("/metrics", ...)`.
+ *
+ * @param authStrategy - The strategy that authenticates scrapes, or `null` if
+ *   authentication is disabled.
+ * @returns The Hono sub-application.
+ */
+export function createMetricsRoutes(
+  authStrategy: AuthStrategy | null,
+): Hono<{ Bindings: HonoNodeBindings }> {
+  const metrics = new Hono<{ Bindings: HonoNodeBindings }>();
+
+  if (authStrategy) {
+    metrics.use("*", createAuthMiddleware(authStrategy));
+    metrics.use("*", async (_c, next: Next) => {
+      withRequiredScopes([config.mcpAdminScope]);
+      await next();
+    });
+  }
+
+  metrics.get("/", (c) =>
+    c.body(metricsRegistry.render(), 200, {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+    }),
+  );
+
+  return metrics;
+}
@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Hono middleware that rate limits the MCP endpoint per identity.
+ * Authenticated requests are limited per client and subject from the auth
+ * context, so that clients behind a shared gateway do not share a limit;
+ * unauthenticated requests are limited per IP address. Each request costs 1,
+ * except tool calls, which cost their tool's weight. Limits are reported in
+ * `RateLimit-*` response headers. With authentication enabled, a second,
+ * per-IP limit counts the requests that fail authentication, so that tokens
+ * and API keys cannot be guessed without limit. The IP address of a request is
+ * its socket address, or the forwarded address when the socket address is a
+ * trusted proxy (`MCP_TRUSTED_PROXIES`).
+ * @module src/mcp-server/transports/http/rateLimitMiddleware
+ */
+
+import { Context, MiddlewareHandler, Next } from "hono";
+import { BlockList, isIP } from "net";
+import { config } from "../../../config/index.js";
+import { getSupabaseAdminClient } from "../../../services/supabase/supabaseClient.js";
+import { SupabaseRateLimitStore } from "../../../services/supabase/SupabaseRateLimitStore.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  logger,
+  MemoryRateLimitStore,
+  rateLimitRejectionsTotal,
+  requestContextService,
+  UsageLimiter,
+  type RateLimitStore,
+  type UsageLimitResult,
+} from "../../../utils/index.js";
+import { authContext } from "../auth/index.js";
+import { HonoNodeBindings } from "./httpTypes.js";
+
+/**
+ * Default costs of tool calls that fan out into many upstream requests or do
+ * heavy local work. Other tools cost 1. Overridden by `RATE_LIMIT_TOOL_COSTS`.
+ */
+export const DEFAULT_TOOL_COSTS: Readonly<Record<string, number>> = {
+  clinicaltrials_analyze_trends: 20,
+  clinicaltrials_get_field_stats: 5,
+  clinicaltrials_match_patient: 5,
+  clinicaltrials_compare_studies: 3,
+  clinicaltrials_diff_study_versions: 3,
+  clinicaltrials_get_study_history: 2,
+  clinicaltrials_get_results: 2,
+};
+
+/** Identity prefix of the per-IP counters charged before authentication. */
+const PRE_AUTH_PREFIX = "preauth:ip:";
+
+/**
+ * Parses a list of trusted proxy addresses and CIDR ranges.
+ * @param entries - IPv4 or IPv6 addresses, or ranges such as `10.0.0.0/8`.
+ *   Defaults to `MCP_TRUSTED_PROXIES`.
+ * @returns The trusted proxies.
+ * @throws {McpError} If an entry is not an address or range.
+ */
+export function parseTrustedProxies(
+  entries: string[] = config.mcpTrustedProxies ?? [],
+): BlockList {
+  const proxies = new BlockList();
+  for (const entry of entries) {
+    const [address, prefix] = entry.split("/");
+    const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+    const maxPrefix = family === "ipv6" ? 128 : 32;
+    if (
+      !isIP(address) ||
+      (prefix !== undefined &&
+        (!/^\d+$/.test(prefix) || Number(prefix) > maxPrefix))
+    ) {
+      throw new McpError(
+        BaseErrorCode.CONFIGURATION_ERROR,
+        `Invalid trusted proxy '${entry}'. Expected an IP address or CIDR range.`,
+      );
+    }
+    if (prefix === undefined) {
+      proxies.addAddress(address, family);
+    } else {
+      proxies.addSubnet(address, Number(prefix), family);
+    }
+  }
+  return proxies;
+}
+
+/**
+ * Checks whether an address is one of the trusted proxies.
+ * @private
+ */
+function isTrustedProxy(proxies: BlockList, address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && proxies.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Returns the client IP address of a request. `X-Forwarded-For` and
+ * `X-Real-IP` are only read from trusted proxies, since any client can set
+ * them; `X-Forwarded-For` is read from the right, skipping trusted proxies, so
+ * that addresses prepended by the client are ignored.
+ * @param c - The Hono context object.
+ * @param trustedProxies - The proxies whose forwarded headers are trusted.
+ * @returns The client's IP address, or `unknown_ip` if the socket address is
+ *   unavailable.
+ */
+export function getClientIp(
+  c: Context<{ Bindings: HonoNodeBindings }>,
+  trustedProxies: BlockList,
+): string {
+  const remoteAddress = c.env?.incoming?.socket?.remoteAddress;
+  if (!remoteAddress) return "unknown_ip";
+  if (!isTrustedProxy(trustedProxies, remoteAddress)) return remoteAddress;
+
+  const forwardedFor = (c.req.header("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  for (let i = forwardedFor.length - 1; i >= 0; i--) {
+    if (!isTrustedProxy(trustedProxies, forwardedFor[i])) {
+      return forwardedFor[i];
+    }
+  }
+  return forwardedFor[0] ?? c.req.header("x-real-ip") ?? remoteAddress;
+}
+
+/**
+ * Returns the key that a request's usage is counted under.
+ * @param c - The Hono context object.
+ * @param trustedProxies - The proxies whose forwarded headers are trusted.
+ * @returns `client:<clientId>[:<subject>]` for authenticated requests, or
+ *   `ip:<address>` otherwise.
+ */
+export function getRateLimitIdentity(
+  c: Context<{ Bindings: HonoNodeBindings }>,
+  trustedProxies: BlockList,
+): string {
+  const authInfo = authContext.getStore()?.authInfo;
+  if (authInfo) {
+    return authInfo.subject
+      ? `client:${authInfo.clientId}:${authInfo.subject}`
+      : `client:${authInfo.clientId}`;
+  }
+  return `ip:${getClientIp(c, trustedProxies)}`;
+}
+
+/**
+ * Returns the cost of a JSON-RPC message or batch.
+ * @param body - The parsed request body.
+ * @param toolCosts - The cost of each weighted tool.
+ * @returns The sum of the message costs, and at least 1.
+ */
+export function getRequestCost(
+  body: unknown,
+  toolCosts: Readonly<Record<string, number>>,
+): number {
+  const messages = Array.isArray(body) ? body : [body];
+  const cost = messages.reduce<number>((total, message) => {
+    const { method, params } = (message ?? {}) as {
+      method?: unknown;
+      params?: { name?: unknown };
+    };
+    const toolName =
+      method === "tools/call" && typeof params?.name === "string"
+        ? params.name
+        : undefined;
+    return total + (toolName !== undefined ? (toolCosts[toolName] ?? 1) : 1);
+  }, 0);
+  return Math.max(1, cost);
+}
+
+/**
+ * Creates the configured rate limit store.
+ * @param name - The store to create.
+ * @returns The store.
+ * @throws {McpError} If the Supabase store is selected but not configured.
+ */
+export function createRateLimitStore(
+  name: typeof config.rateLimit.store,
+): RateLimitStore {
+  switch (name) {
+    case "supabase":
+      return new SupabaseRateLimitStore(getSupabaseAdminClient());
+    case "memory":
+      return new MemoryRateLimitStore();
+  }
+}
+
+/**
+ * Sets the `RateLimit-*` headers of a request charged to an identity's
+ * limits, and throws a `RATE_LIMITED` error if a limit is exceeded.
+ * @private
+ */
+function enforceLimit(
+  c: Context<{ Bindings: HonoNodeBindings }>,
+  result: UsageLimitResult,
+  identity: string,
+  cost: number,
+): void {
+  c.header("RateLimit-Policy", result.policy);
+  c.header("RateLimit-Limit", String(result.limit));
+  c.header("RateLimit-Remaining", String(result.remaining));
+  c.header("RateLimit-Reset", String(result.resetSeconds));
+  if (result.allowed) return;
+
+  const preAuth = identity.startsWith(PRE_AUTH_PREFIX);
+  rateLimitRejectionsTotal.inc({
+    limit: preAuth ? "ip" : (result.exceeded ?? "window"),
+  });
+  c.header("Retry-After", String(result.resetSeconds));
+  throw new McpError(
+    BaseErrorCode.RATE_LIMITED,
+    preAuth
+      ? `Too many failed authentication attempts. Please try again in ${result.resetSeconds} seconds.`
+      : result.exceeded === "daily"
+        ? `Daily quota exceeded. Please try again in ${result.resetSeconds} seconds.`
+        : `Rate limit exceeded. Please try again in ${result.resetSeconds} seconds.`,
+    {
+      identity,
+      cost,
+      limit: result.limit,
+      waitTimeSeconds: result.resetSeconds,
+    },
+  );
+}
+
+/**
+ * Creates a Hono middleware that charges each request to its identity's
+ * limits, sets the `RateLimit-*` headers, and rejects requests over a limit
+ * with a `RATE_LIMITED` error. Must run after the auth middleware.
+ * @param limiter - The usage limiter. Defaults to one with the configured
+ *   store and limits.
+ * @param toolCosts - The cost of each weighted tool. Defaults to
+ *   {@link DEFAULT_TOOL_COSTS} merged with `RATE_LIMIT_TOOL_COSTS`.
+ * @param trustedProxies - The proxies whose forwarded headers are trusted.
+ *   Defaults to `MCP_TRUSTED_PROXIES`.
+ * @returns A Hono middleware function.
+ */
+export function createRateLimitMiddleware(
+  limiter: UsageLimiter = new UsageLimiter(
+    createRateLimitStore(config.rateLimit.store),
+    config.rateLimit,
+  ),
+  toolCosts: Readonly<Record<string, number>> = {
+    ...DEFAULT_TOOL_COSTS,
+    ...config.rateLimit.toolCosts,
+  },
+  trustedProxies: BlockList = parseTrustedProxies(),
+): MiddlewareHandler<{ Bindings: HonoNodeBindings }> {
+  return async (c: Context<{ Bindings: HonoNodeBindings }>, next: Next) => {
+    const identity = getRateLimitIdentity(c, trustedProxies);
+    let body: unknown;
+    if (c.req.method === "POST") {
+      // The body is cached by Hono, so the transport can read it again.
+      body = await c.req.json().catch(() => undefined);
+    }
+    const cost = getRequestCost(body, toolCosts);
+    const context = requestContextService.createRequestContext({
+      operation: "httpRateLimitCheck",
+      identity,
+      cost,
+    });
+
+    enforceLimit(
+      c,
+      await limiter.consume(identity, cost, context),
+      identity,
+      cost,
+    );
+    logger.debug("Rate limit check passed.", context);
+    await next();
+  };
+}
+
+/**
+ * Creates a Hono middleware that limits the failed authentication attempts of
+ * each IP address, so that an IP address cannot try tokens or API keys faster
+ * than `RATE_LIMIT_IP_WINDOW_LIMIT` per window. Only requests rejected with
+ * 401 count, so that clients sharing an address are not limited by their
+ * successful requests. Once an address is over the limit, its requests are
+ * rejected before they are authenticated. Must run before the auth
+ * middleware.
+ * @param limiter - The usage limiter. Defaults to one with the configured
+ *   store, window, and per-IP limit.
+ * @param trustedProxies - The proxies whose forwarded headers are trusted.
+ *   Defaults to `MCP_TRUSTED_PROXIES`.
+ * @returns A Hono middleware function.
+ */
+export function createPreAuthRateLimitMiddleware(
+  limiter: UsageLimiter = new UsageLimiter(
+    createRateLimitStore(config.rateLimit.store),
+    {
+      windowMs: config.rateLimit.windowMs,
+      windowLimit: config.rateLimit.ipWindowLimit,
+      dailyQuota: 0,
+    },
+  ),
+  trustedProxies: BlockList = parseTrustedProxies(),
+): MiddlewareHandler<{ Bindings: HonoNodeBindings }> {
+  return async (c: Context<{ Bindings: HonoNodeBindings }>, next: Next) => {
+    // Prefixed so that the counters are kept apart from the per-identity
+    // counters of unauthenticated requests in a shared store.
+    const identity = `${PRE_AUTH_PREFIX}${getClientIp(c, trustedProxies)}`;
+    const context = requestContextService.createRequestContext({
+      operation: "httpPreAuthRateLimitCheck",
+      identity,
+    });
+
+    // A cost of 0 reads the failures so far without counting this request,
+    // which is rejected once none remain.
+    const failures = await limiter.consume(identity, 0, context);
+    enforceLimit(
+      c,
+      failures.remaining > 0
+        ? failures
+        : { ...failures, allowed: false, exceeded: "window" },
+      identity,
+      0,
+    );
+    await next();
+    // Errors thrown by the auth middleware have been turned into the
+    // response by the error handler at this point.
+    if (c.res.status === 401) {
+      await limiter.consume(identity, 1, context);
+    }
+  };
+}
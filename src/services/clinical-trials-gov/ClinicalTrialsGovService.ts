@@ -2,7 +2,8 @@
  * @fileoverview Service for interacting with the ClinicalTrials.gov API.
  * This module provides a singleton class `ClinicalTrialsGovService` that encapsulates
  * all network requests to the ClinicalTrials.gov API, handles response validation,
- * and implements backing up of API responses to the local filesystem.
+ * serves repeated requests from a read-through response cache, and implements
+ * backing up of API responses to the local filesystem.
  * @module src/services/clinical-trials-gov/ClinicalTrialsGovService
  */
 
@@ -10,12 +11,35 @@ import { writeFileSync } from "fs";
 import path from "path";
 import { config } from "../../config/index.js";
 import { BaseErrorCode, McpError } from "../../types-global/errors.js";
-import { logger, type RequestContext } from "../../utils/index.js";
-import { fetchWithTimeout } from "../../utils/network/fetchWithTimeout.js";
-import type { FieldNode, PagedStudies, Study } from "./types.js";
+import {
+  logger,
+  type RequestContext,
+  upstreamRequestDurationSeconds,
+  upstreamRequestsTotal,
+} from "../../utils/index.js";
+import { CircuitBreaker } from "../../utils/network/circuitBreaker.js";
+import { fetchWithRetry } from "../../utils/network/fetchWithRetry.js";
+import { type CacheEndpoint, responseCache } from "./responseCache.js";
+import type { FieldNode, PagedStudies, Study, StudyHistory } from "./types.js";
 
 const BASE_URL = "https://clinicaltrials.gov/api/v2";
 
+/**
+ * Base URL of the study history endpoints. These are served by the API that
+ * backs the ClinicalTrials.gov website's record history pages, since the v2
+ * API only exposes the current version of a study.
+ */
+const HISTORY_BASE_URL = "https://clinicaltrials.gov/api/int";
+
+/**
+ * Circuit breaker guarding all requests to the ClinicalTrials.gov API.
+ * Its state is surfaced on the HTTP transport's `/healthz` route.
+ */
+export const clinicalTrialsCircuitBreaker = new CircuitBreaker(
+  "ClinicalTrials.gov API",
+  config.clinicalTrialsCircuitBreaker,
+);
+
 /**
  * A service class to interact with the ClinicalTrials.gov API.
  * It handles request construction, API communication, and response backup.
@@ -71,18 +95,69 @@ export class ClinicalTrialsGovService {
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const fileName = `study_${nctId}_${timestamp}.json`;
-    return this.fetchAndBackup<Study>(url, fileName, context);
+    return this.fetchAndBackup<Study>(url, fileName, "study", context);
+  }
+
+  /**
+   * Lists the versions of a study, oldest first.
+   * @param nctId - The NCT ID of the study.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with the study's version history.
+   */
+  public async fetchStudyHistory(
+    nctId: string,
+    context: RequestContext,
+  ): Promise<StudyHistory> {
+    const url = `${HISTORY_BASE_URL}/studies/${nctId}/history`;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const fileName = `history_${nctId}_${timestamp}.json`;
+    return this.fetchAndBackup<StudyHistory>(url, fileName, "study", context);
+  }
+
+  /**
+   * Fetches a study as it was at a specific version.
+   * @param nctId - The NCT ID of the study.
+   * @param version - The version number, as listed by {@link fetchStudyHistory}.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with the study data at that version.
+   */
+  public async fetchStudyVersion(
+    nctId: string,
+    version: number,
+    context: RequestContext,
+  ): Promise<Study> {
+    const url = `${HISTORY_BASE_URL}/studies/${nctId}/history/${version}`;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const fileName = `study_${nctId}_v${version}_${timestamp}.json`;
+    const response = await this.fetchAndBackup<{ study?: Study }>(
+      url,
+      fileName,
+      "study",
+      context,
+    );
+    if (!response.study) {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        `Version ${version} of study ${nctId} was not found.`,
+        { nctId, version },
+      );
+    }
+    return response.study;
   }
 
   /**
    * Searches for studies based on a set of query parameters.
    * @param params - The query parameters for the search.
    * @param context - The request context for logging.
+   * @param options - Optional parameters for the fetch request.
+   * @param options.noCache - Fetch live data even if a fresh cached response
+   *   exists. The response still refreshes the cache.
    * @returns A promise that resolves with a paged list of studies.
    */
   public async listStudies(
     params: Record<string, unknown>,
     context: RequestContext,
+    options: { noCache?: boolean } = {},
   ): Promise<PagedStudies> {
     const queryParams = new URLSearchParams();
 
@@ -126,7 +201,13 @@ export class ClinicalTrialsGovService {
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const fileName = `studies_${timestamp}.json`;
 
-    return this.fetchAndBackup<PagedStudies>(url, fileName, context);
+    return this.fetchAndBackup<PagedStudies>(
+      url,
+      fileName,
+      "search",
+      context,
+      options.noCache,
+    );
   }
 
   /**
@@ -148,7 +229,7 @@ export class ClinicalTrialsGovService {
     const url = `${BASE_URL}/studies/metadata?${queryParams.toString()}`;
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const fileName = `metadata_${timestamp}.json`;
-    return this.fetchAndBackup<FieldNode[]>(url, fileName, context);
+    return this.fetchAndBackup<FieldNode[]>(url, fileName, "metadata", context);
   }
 
   /**
@@ -180,7 +261,7 @@ export class ClinicalTrialsGovService {
         endpoint = "field/values";
         break;
       case "listFieldSizes":
-        endpoint = "list/sizes";
+        endpoint = "field/sizes";
         break;
       default:
         throw new McpError(
@@ -196,22 +277,48 @@ export class ClinicalTrialsGovService {
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const fileName = `stats_${statType}_${timestamp}.json`;
-    return this.fetchAndBackup<unknown>(url, fileName, context);
+    return this.fetchAndBackup<unknown>(url, fileName, "stats", context);
   }
 
   /**
-   * A generic fetch method that handles backing up the response.
-   * It always fetches live data and writes it to a backup file if the data path is configured.
+   * A generic fetch method that handles caching and backing up the response.
+   * Fresh cached responses are returned without touching the network. On a miss,
+   * live data is fetched (retrying transient failures), stored in the cache, and
+   * written to a backup file if the data path is configured. In offline mode, a
+   * miss is an error.
    * @param url - The URL to fetch.
    * @param fileName - The file name to use for the backup.
+   * @param endpoint - The endpoint family, used to select the cache TTL.
    * @param context - The request context for logging.
+   * @param noCache - Skip fresh cached responses, except in offline mode,
+   *   which never touches the network.
    * @returns A promise that resolves with the fetched data.
+   * @throws {McpError} If the request fails, or no cached response exists in offline mode.
    */
   private async fetchAndBackup<T>(
     url: string,
     fileName: string,
+    endpoint: CacheEndpoint,
     context: RequestContext,
+    noCache = false,
   ): Promise<T> {
+    const cached =
+      noCache && responseCache.mode !== "offline"
+        ? undefined
+        : responseCache.get<T>(url, endpoint, context);
+    if (cached) {
+      logger.debug(`[API] Serving cached response for ${url}`, context);
+      return cached.data;
+    }
+
+    if (responseCache.mode === "offline") {
+      throw new McpError(
+        BaseErrorCode.SERVICE_UNAVAILABLE,
+        "No cached response is available for this request and the server is running in offline replay mode.",
+        { url, endpoint },
+      );
+    }
+
     logger.debug(`[API] Fetching from ${url}`, context);
     const fetchOptions = {
       headers: { Accept: "application/json" },
@@ -221,12 +328,33 @@ export class ClinicalTrialsGovService {
       context,
     );
 
-    const response = await fetchWithTimeout(
-      url,
-      15000, // 15-second timeout for potentially complex queries
-      context,
-      fetchOptions,
-    );
+    const startedAt = Date.now();
+    const recordUpstreamRequest = (status: string) => {
+      const labels = { endpoint, status };
+      upstreamRequestsTotal.inc(labels);
+      upstreamRequestDurationSeconds.observe(
+        labels,
+        (Date.now() - startedAt) / 1000,
+      );
+    };
+
+    let response: Response;
+    try {
+      response = await fetchWithRetry(
+        url,
+        15000, // 15-second timeout per attempt for potentially complex queries
+        context,
+        {
+          ...config.clinicalTrialsRetry,
+          circuitBreaker: clinicalTrialsCircuitBreaker,
+        },
+        fetchOptions,
+      );
+    } catch (error) {
+      recordUpstreamRequest("error");
+      throw error;
+    }
+    recordUpstreamRequest(String(response.status));
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -235,17 +363,24 @@ export class ClinicalTrialsGovService {
         response.status === 404
           ? `Study not found. ${errorBody}`
           : `API request failed with status ${response.status}: ${response.statusText}`;
-      throw new McpError(BaseErrorCode.SERVICE_UNAVAILABLE, message, {
-        url,
-        status: response.status,
-        body: errorBody,
-      });
+      throw new McpError(
+        response.status === 429
+          ? BaseErrorCode.RATE_LIMITED
+          : BaseErrorCode.SERVICE_UNAVAILABLE,
+        message,
+        {
+          url,
+          status: response.status,
+          body: errorBody,
+        },
+      );
     }
 
     const responseBody = await response.text();
     logger.debug(`[API] Raw response body: ${responseBody}`, context);
 
     const data = JSON.parse(responseBody) as T;
+    responseCache.set(url, endpoint, data, context);
 
     if (config.clinicalTrialsDataPath) {
       const filePath = path.join(config.clinicalTrialsDataPath, fileName);
@@ -6,4 +6,5 @@
  */
 
 export * from "./ClinicalTrialsGovService.js";
+export * from "./responseCache.js";
 export * from "./types.js";
@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Read-through response cache for the ClinicalTrials.gov API.
+ * Combines an in-memory LRU with an on-disk store keyed by the normalized
+ * request URL. Entries carry the time they were captured so that per-endpoint
+ * TTLs can be applied on read. In 'offline' mode, any previously captured
+ * response is replayed regardless of age and the network is never touched.
+ * @module src/services/clinical-trials-gov/responseCache
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { config } from "../../config/index.js";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import { logger, type RequestContext } from "../../utils/index.js";
+
+/**
+ * The API endpoint families that have independently configurable TTLs.
+ */
+export type CacheEndpoint = "study" | "search" | "metadata" | "stats";
+
+/**
+ * The operating mode of the cache.
+ * - `off`: Every request goes to the network; nothing is cached.
+ * - `readthrough`: Fresh entries are served locally; misses and stale entries are fetched and stored.
+ * - `offline`: Only previously captured entries are served, regardless of age.
+ */
+export type CacheMode = "off" | "readthrough" | "offline";
+
+/**
+ * Configuration options for a {@link ResponseCache}.
+ */
+export interface ResponseCacheConfig {
+  /** The operating mode of the cache. */
+  mode: CacheMode;
+  /** Maximum number of entries in the in-memory LRU. `0` disables the memory tier. */
+  maxEntries: number;
+  /** Per-endpoint time-to-live values in milliseconds. */
+  ttlMs: Record<CacheEndpoint, number>;
+  /** Directory for the on-disk store, or `null` to disable the disk tier. */
+  directory: string | null;
+}
+
+/**
+ * A single cached API response as held in memory and persisted to disk.
+ */
+export interface CacheEntry<T = unknown> {
+  /** The normalized URL the response was fetched from. */
+  url: string;
+  /** The endpoint family of the request. */
+  endpoint: CacheEndpoint;
+  /** Epoch milliseconds at which the response was captured. */
+  fetchedAt: number;
+  /** The parsed response body. */
+  data: T;
+}
+
+/**
+ * A snapshot of cache counters and sizes.
+ */
+export interface CacheStats {
+  mode: CacheMode;
+  memoryEntries: number;
+  maxEntries: number;
+  directory: string | null;
+  hits: number;
+  misses: number;
+  staleServed: number;
+}
+
+/**
+ * Normalizes a URL so that logically identical requests share a cache key.
+ * Query parameters are sorted by name and then by value.
+ * @param url - The URL to normalize.
+ * @returns The normalized URL string.
+ */
+export function normalizeCacheUrl(url: string): string {
+  const parsed = new URL(url);
+  const params = [...parsed.searchParams.entries()].sort(([a, av], [b, bv]) =>
+    a === b ? av.localeCompare(bv) : a.localeCompare(b),
+  );
+  parsed.search = new URLSearchParams(params).toString();
+  return parsed.toString();
+}
+
+/**
+ * A two-tier (memory + disk) read-through cache for API responses.
+ */
+export class ResponseCache {
+  private readonly memory = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private staleServed = 0;
+
+  /**
+   * Creates a new `ResponseCache` instance.
+   * @param cacheConfig - The cache configuration.
+   */
+  constructor(private readonly cacheConfig: ResponseCacheConfig) {}
+
+  /**
+   * The configured cache mode.
+   */
+  public get mode(): CacheMode {
+    return this.cacheConfig.mode;
+  }
+
+  /**
+   * Looks up a cached response for the given URL.
+   * In 'readthrough' mode, entries older than the endpoint's TTL are ignored.
+   * In 'offline' mode, any captured entry is returned regardless of age.
+   *
+   * @param url - The request URL.
+   * @param endpoint - The endpoint family, used to select the TTL.
+   * @param context - The request context for logging.
+   * @returns The cached entry, or `undefined` on a miss.
+   */
+  public get<T>(
+    url: string,
+    endpoint: CacheEndpoint,
+    context: RequestContext,
+  ): CacheEntry<T> | undefined {
+    if (this.cacheConfig.mode === "off") {
+      return undefined;
+    }
+
+    const key = normalizeCacheUrl(url);
+    const entry = this.memory.get(key) ?? this.readFromDisk(key, context);
+
+    if (!entry) {
+      this.misses++;
+      logger.debug(`[Cache] Miss for ${key}`, context);
+      return undefined;
+    }
+
+    const ageMs = Date.now() - entry.fetchedAt;
+    const isFresh = ageMs <= this.cacheConfig.ttlMs[endpoint];
+
+    if (!isFresh && this.cacheConfig.mode !== "offline") {
+      this.misses++;
+      logger.debug(`[Cache] Stale entry for ${key} (age ${ageMs}ms)`, context);
+      return undefined;
+    }
+
+    if (!isFresh) {
+      this.staleServed++;
+    }
+    this.hits++;
+    this.remember(key, entry);
+    logger.debug(`[Cache] Hit for ${key} (age ${ageMs}ms)`, context);
+    return entry as CacheEntry<T>;
+  }
+
+  /**
+   * Stores a response in both cache tiers.
+   * @param url - The request URL.
+   * @param endpoint - The endpoint family of the request.
+   * @param data - The parsed response body.
+   * @param context - The request context for logging.
+   */
+  public set<T>(
+    url: string,
+    endpoint: CacheEndpoint,
+    data: T,
+    context: RequestContext,
+  ): void {
+    if (this.cacheConfig.mode === "off") {
+      return;
+    }
+
+    const key = normalizeCacheUrl(url);
+    const entry: CacheEntry<T> = {
+      url: key,
+      endpoint,
+      fetchedAt: Date.now(),
+      data,
+    };
+    this.remember(key, entry);
+    this.writeToDisk(key, entry, context);
+  }
+
+  /**
+   * Removes all entries from the in-memory tier, and from the disk store if
+   * `includeDisk` is set. The disk store holds the responses that 'offline'
+   * mode replays, so it cannot be deleted while that mode is active.
+   * @param context - The request context for logging.
+   * @param options - Set `includeDisk` to also delete the disk store.
+   * @throws {McpError} `CONFLICT` if `includeDisk` is set in 'offline' mode.
+   */
+  public clear(
+    context: RequestContext,
+    options: { includeDisk?: boolean } = {},
+  ): void {
+    if (options.includeDisk && this.cacheConfig.mode === "offline") {
+      throw new McpError(
+        BaseErrorCode.CONFLICT,
+        "The disk cache cannot be deleted in 'offline' mode, because it holds the responses being replayed.",
+        context,
+      );
+    }
+    this.memory.clear();
+    const directory = this.cacheConfig.directory;
+    if (options.includeDisk && directory && existsSync(directory)) {
+      rmSync(directory, { recursive: true, force: true });
+    }
+    logger.info(
+      options.includeDisk
+        ? "[Cache] Cleared all cached responses, including the disk store."
+        : "[Cache] Cleared the in-memory cached responses.",
+      context,
+    );
+  }
+
+  /**
+   * Returns a snapshot of the cache's counters and sizes.
+   * @returns The current cache statistics.
+   */
+  public getStats(): CacheStats {
+    return {
+      mode: this.cacheConfig.mode,
+      memoryEntries: this.memory.size,
+      maxEntries: this.cacheConfig.maxEntries,
+      directory: this.cacheConfig.directory,
+      hits: this.hits,
+      misses: this.misses,
+      staleServed: this.staleServed,
+    };
+  }
+
+  /**
+   * Inserts an entry into the memory tier, evicting the least recently used
+   * entry if the tier is full.
+   * @private
+   */
+  private remember(key: string, entry: CacheEntry): void {
+    if (this.cacheConfig.maxEntries === 0) {
+      return;
+    }
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.memory.size > this.cacheConfig.maxEntries) {
+      const oldestKey = this.memory.keys().next().value as string;
+      this.memory.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Resolves the on-disk file path for a cache key.
+   * @private
+   */
+  private filePathFor(key: string): string | null {
+    if (!this.cacheConfig.directory) {
+      return null;
+    }
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.cacheConfig.directory, `${hash}.json`);
+  }
+
+  /**
+   * Reads an entry from the disk tier.
+   * @private
+   */
+  private readFromDisk(
+    key: string,
+    context: RequestContext,
+  ): CacheEntry | undefined {
+    const filePath = this.filePathFor(key);
+    if (!filePath || !existsSync(filePath)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(readFileSync(filePath, "utf-8")) as CacheEntry;
+      // Guard against hash collisions and hand-edited files.
+      return entry.url === key ? entry : undefined;
+    } catch (error) {
+      logger.warning(`[Cache] Failed to read cache file: ${filePath}`, {
+        ...context,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes an entry to the disk tier.
+   * @private
+   */
+  private writeToDisk(
+    key: string,
+    entry: CacheEntry,
+    context: RequestContext,
+  ): void {
+    const filePath = this.filePathFor(key);
+    if (!filePath) {
+      return;
+    }
+    try {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(entry));
+      logger.debug(`[Cache] Wrote ${filePath}`, context);
+    } catch (error) {
+      logger.error(`Failed to write cache file: ${filePath}`, {
+        ...context,
+        error,
+      });
+    }
+  }
+}
+
+/**
+ * The application-wide response cache, configured from `config.clinicalTrialsCache`.
+ * The disk tier lives in a `cache/` subdirectory of `CLINICALTRIALS_DATA_PATH`.
+ */
+export const responseCache = new ResponseCache({
+  ...config.clinicalTrialsCache,
+  directory: config.clinicalTrialsDataPath
+    ? path.join(config.clinicalTrialsDataPath, "cache")
+    : null,
+});
@@ -8,274 +8,387 @@
 import { z } from "zod";
 
 /**
- * Zod schema for a single clinical study, mirroring the ClinicalTrials.gov API structure.
- * This provides runtime validation and serves as the single source of truth for the Study type.
+ * Zod schema for an arm/group as reported in the results section. Measurements
+ * and counts refer to groups by `id` (e.g., `OG000`, `BG000`, `EG000`).
  */
-export const StudySchema = z
+export const ResultsGroupSchema = z
   .object({
-    protocolSection: z
-      .object({
-        identificationModule: z
+    id: z.string(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for the number of participants analyzed, per group.
+ */
+export const ResultsDenomSchema = z
+  .object({
+    units: z.string().optional(),
+    counts: z
+      .array(
+        z
+          .object({ groupId: z.string(), value: z.string().optional() })
+          .passthrough()
+      )
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for a single measured value. The API reports values as strings,
+ * since they may be "NA" or carry a comment instead of a number.
+ */
+export const MeasurementSchema = z
+  .object({
+    groupId: z.string(),
+    value: z.string().optional(),
+    spread: z.string().optional(),
+    lowerLimit: z.string().optional(),
+    upperLimit: z.string().optional(),
+    comment: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for the classes and categories a measure is broken down into.
+ */
+export const MeasureClassSchema = z
+  .object({
+    title: z.string().optional(),
+    categories: z
+      .array(
+        z
           .object({
-            nctId: z.string(),
-            orgStudyIdInfo: z
-              .object({ id: z.string().optional() })
-              .passthrough()
-              .optional(),
-            organization: z
-              .object({
-                fullName: z.string().optional(),
-                class: z.string().optional(),
-              })
-              .passthrough()
-              .optional(),
-            briefTitle: z.string().optional(),
-            officialTitle: z.string().optional(),
-            acronym: z.string().optional(),
+            title: z.string().optional(),
+            measurements: z.array(MeasurementSchema).optional(),
           })
           .passthrough()
-          .optional(),
-        statusModule: z
+      )
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for a baseline characteristic.
+ */
+export const BaselineMeasureSchema = z
+  .object({
+    title: z.string().optional(),
+    description: z.string().optional(),
+    paramType: z.string().optional(),
+    dispersionType: z.string().optional(),
+    unitOfMeasure: z.string().optional(),
+    classes: z.array(MeasureClassSchema).optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for a statistical analysis comparing outcome groups.
+ */
+export const OutcomeAnalysisSchema = z
+  .object({
+    groupIds: z.array(z.string()).optional(),
+    groupDescription: z.string().optional(),
+    nonInferiorityType: z.string().optional(),
+    pValue: z.string().optional(),
+    pValueComment: z.string().optional(),
+    statisticalMethod: z.string().optional(),
+    paramType: z.string().optional(),
+    paramValue: z.string().optional(),
+    ciPctValue: z.string().optional(),
+    ciNumSides: z.string().optional(),
+    ciLowerLimit: z.string().optional(),
+    ciUpperLimit: z.string().optional(),
+    estimateComment: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for a reported outcome measure.
+ */
+export const OutcomeMeasureSchema = z
+  .object({
+    type: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    populationDescription: z.string().optional(),
+    reportingStatus: z.string().optional(),
+    paramType: z.string().optional(),
+    dispersionType: z.string().optional(),
+    unitOfMeasure: z.string().optional(),
+    timeFrame: z.string().optional(),
+    groups: z.array(ResultsGroupSchema).optional(),
+    denoms: z.array(ResultsDenomSchema).optional(),
+    classes: z.array(MeasureClassSchema).optional(),
+    analyses: z.array(OutcomeAnalysisSchema).optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for an adverse event group, with its totals.
+ */
+export const AdverseEventGroupSchema = ResultsGroupSchema.extend({
+  deathsNumAffected: z.number().optional(),
+  deathsNumAtRisk: z.number().optional(),
+  seriousNumAffected: z.number().optional(),
+  seriousNumAtRisk: z.number().optional(),
+  otherNumAffected: z.number().optional(),
+  otherNumAtRisk: z.number().optional(),
+});
+
+/**
+ * Zod schema for a single adverse event term and its per-group counts.
+ */
+export const AdverseEventSchema = z
+  .object({
+    term: z.string(),
+    organSystem: z.string().optional(),
+    sourceVocabulary: z.string().optional(),
+    assessmentType: z.string().optional(),
+    stats: z
+      .array(
+        z
           .object({
-            overallStatus: z.string().optional(),
-            lastKnownStatus: z.string().optional(),
-            startDateStruct: z
-              .object({
-                date: z.string().optional(),
-                type: z.string().optional(),
-              })
-              .passthrough()
-              .optional(),
-            primaryCompletionDateStruct: z
-              .object({
-                date: z.string().optional(),
-                type: z.string().optional(),
-              })
-              .passthrough()
-              .optional(),
-            completionDateStruct: z
-              .object({
-                date: z.string().optional(),
-                type: z.string().optional(),
-              })
-              .passthrough()
-              .optional(),
+            groupId: z.string(),
+            numEvents: z.number().optional(),
+            numAffected: z.number().optional(),
+            numAtRisk: z.number().optional(),
           })
           .passthrough()
-          .optional(),
-        sponsorCollaboratorsModule: z
-          .object({
-            responsibleParty: z
-              .object({ type: z.string().optional() })
-              .passthrough()
-              .optional(),
-            leadSponsor: z
+      )
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for the posted results of a study: participant flow, baseline
+ * characteristics, outcome measures, and adverse events.
+ */
+export const ResultsSectionSchema = z
+  .object({
+    participantFlowModule: z
+      .object({
+        recruitmentDetails: z.string().optional(),
+        preAssignmentDetails: z.string().optional(),
+        groups: z.array(ResultsGroupSchema).optional(),
+        periods: z
+          .array(
+            z
               .object({
-                name: z.string().optional(),
-                class: z.string().optional(),
+                title: z.string().optional(),
+                milestones: z
+                  .array(
+                    z
+                      .object({
+                        type: z.string().optional(),
+                        achievements: z
+                          .array(
+                            z
+                              .object({
+                                groupId: z.string(),
+                                numSubjects: z.string().optional(),
+                              })
+                              .passthrough()
+                          )
+                          .optional(),
+                      })
+                      .passthrough()
+                  )
+                  .optional(),
               })
               .passthrough()
-              .optional(),
-            collaborators: z
-              .array(
-                z
-                  .object({
-                    name: z.string().optional(),
-                    class: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-          })
+          )
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+    baselineCharacteristicsModule: z
+      .object({
+        populationDescription: z.string().optional(),
+        groups: z.array(ResultsGroupSchema).optional(),
+        denoms: z.array(ResultsDenomSchema).optional(),
+        measures: z.array(BaselineMeasureSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+    outcomeMeasuresModule: z
+      .object({
+        outcomeMeasures: z.array(OutcomeMeasureSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+    adverseEventsModule: z
+      .object({
+        frequencyThreshold: z.string().optional(),
+        timeFrame: z.string().optional(),
+        description: z.string().optional(),
+        allCauseMortalityComment: z.string().optional(),
+        eventGroups: z.array(AdverseEventGroupSchema).optional(),
+        seriousEvents: z.array(AdverseEventSchema).optional(),
+        otherEvents: z.array(AdverseEventSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Represents the posted results of a study.
+ */
+export type ResultsSection = z.infer<typeof ResultsSectionSchema>;
+
+/**
+ * Represents a reported outcome measure.
+ */
+export type OutcomeMeasure = z.infer<typeof OutcomeMeasureSchema>;
+
+/**
+ * Represents a single adverse event term and its per-group counts.
+ */
+export type AdverseEvent = z.infer<typeof AdverseEventSchema>;
+
+/**
+ * Zod schema for the protocol section of a study: its registered description,
+ * design, eligibility, locations, and sponsors.
+ */
+export const ProtocolSectionSchema = z
+  .object({
+    identificationModule: z
+      .object({
+        nctId: z.string(),
+        orgStudyIdInfo: z
+          .object({ id: z.string().optional() })
           .passthrough()
           .optional(),
-        descriptionModule: z
+        organization: z
           .object({
-            briefSummary: z.string().optional(),
-            detailedDescription: z.string().optional(),
+            fullName: z.string().optional(),
+            class: z.string().optional(),
           })
           .passthrough()
           .optional(),
-        conditionsModule: z
+        briefTitle: z.string().optional(),
+        officialTitle: z.string().optional(),
+        acronym: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    statusModule: z
+      .object({
+        overallStatus: z.string().optional(),
+        lastKnownStatus: z.string().optional(),
+        startDateStruct: z
           .object({
-            conditions: z.any().optional(),
-            keywords: z.any().optional(),
+            date: z.string().optional(),
+            type: z.string().optional(),
           })
           .passthrough()
           .optional(),
-        armsInterventionsModule: z
+        primaryCompletionDateStruct: z
           .object({
-            arms: z
-              .array(
-                z
-                  .object({
-                    name: z.string().optional(),
-                    type: z.string().optional(),
-                    description: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-            interventions: z
-              .array(
-                z
-                  .object({
-                    type: z.string().optional(),
-                    name: z.string().optional(),
-                    description: z.string().optional(),
-                    armNames: z.any().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
+            date: z.string().optional(),
+            type: z.string().optional(),
           })
           .passthrough()
           .optional(),
-        designModule: z
+        completionDateStruct: z
           .object({
-            studyType: z.string().optional(),
-            phases: z.any().optional(),
-            designInfo: z
-              .object({
-                allocation: z.string().optional(),
-                interventionModel: z.string().optional(),
-                primaryPurpose: z.string().optional(),
-                maskingInfo: z
-                  .object({ masking: z.string().optional() })
-                  .passthrough()
-                  .optional(),
-              })
-              .passthrough()
-              .optional(),
+            date: z.string().optional(),
+            type: z.string().optional(),
           })
           .passthrough()
           .optional(),
-        eligibilityModule: z
-          .object({
-            eligibilityCriteria: z.string().optional(),
-            healthyVolunteers: z.boolean().optional(),
-            sex: z.string().optional(),
-            minimumAge: z.string().optional(),
-            stdAges: z.any().optional(),
-          })
+      })
+      .passthrough()
+      .optional(),
+    sponsorCollaboratorsModule: z
+      .object({
+        responsibleParty: z
+          .object({ type: z.string().optional() })
           .passthrough()
           .optional(),
-        contactsLocationsModule: z
+        leadSponsor: z
           .object({
-            locations: z
-              .array(
-                z
-                  .object({
-                    city: z.string().optional(),
-                    state: z.string().optional(),
-                    country: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
+            name: z.string().optional(),
+            class: z.string().optional(),
           })
           .passthrough()
           .optional(),
+        collaborators: z
+          .array(
+            z
+              .object({
+                name: z.string().optional(),
+                class: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
       })
       .passthrough()
       .optional(),
-    derivedSection: z
+    descriptionModule: z
       .object({
-        miscInfoModule: z
-          .object({
-            versionHolder: z.string().optional(),
-          })
-          .passthrough()
+        briefSummary: z.string().optional(),
+        detailedDescription: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    conditionsModule: z
+      .object({
+        conditions: z.any().optional(),
+        keywords: z.any().optional(),
+      })
+      .passthrough()
+      .optional(),
+    armsInterventionsModule: z
+      .object({
+        arms: z
+          .array(
+            z
+              .object({
+                name: z.string().optional(),
+                type: z.string().optional(),
+                description: z.string().optional(),
+              })
+              .passthrough()
+          )
           .optional(),
-        conditionBrowseModule: z
+        interventions: z
+          .array(
+            z
+              .object({
+                type: z.string().optional(),
+                name: z.string().optional(),
+                description: z.string().optional(),
+                armNames: z.any().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+    designModule: z
+      .object({
+        studyType: z.string().optional(),
+        phases: z.any().optional(),
+        enrollmentInfo: z
           .object({
-            meshes: z
-              .array(
-                z
-                  .object({
-                    id: z.string().optional(),
-                    term: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-            ancestors: z
-              .array(
-                z
-                  .object({
-                    id: z.string().optional(),
-                    term: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-            browseLeaves: z
-              .array(
-                z
-                  .object({
-                    id: z.string().optional(),
-                    name: z.string().optional(),
-                    asFound: z.string().optional(),
-                    relevance: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-            browseBranches: z
-              .array(
-                z
-                  .object({
-                    abbrev: z.string().optional(),
-                    name: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
+            count: z.number().optional(),
+            type: z.string().optional(),
           })
           .passthrough()
           .optional(),
-        interventionBrowseModule: z
+        designInfo: z
           .object({
-            meshes: z
-              .array(
-                z
-                  .object({
-                    id: z.string().optional(),
-                    term: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-            ancestors: z
-              .array(
-                z
-                  .object({
-                    id: z.string().optional(),
-                    term: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-            browseLeaves: z
-              .array(
-                z
-                  .object({
-                    id: z.string().optional(),
-                    name: z.string().optional(),
-                    relevance: z.string().optional(),
-                  })
-                  .passthrough()
-              )
-              .optional(),
-            browseBranches: z
-              .array(
-                z
-                  .object({
-                    abbrev: z.string().optional(),
-                    name: z.string().optional(),
-                  })
-                  .passthrough()
-              )
+            allocation: z.string().optional(),
+            interventionModel: z.string().optional(),
+            primaryPurpose: z.string().optional(),
+            maskingInfo: z
+              .object({ masking: z.string().optional() })
+              .passthrough()
               .optional(),
           })
           .passthrough()
@@ -283,6 +396,191 @@ export const StudySchema = z
       })
       .passthrough()
       .optional(),
+    outcomesModule: z
+      .object({
+        primaryOutcomes: z
+          .array(
+            z
+              .object({
+                measure: z.string().optional(),
+                description: z.string().optional(),
+                timeFrame: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+        secondaryOutcomes: z
+          .array(
+            z
+              .object({
+                measure: z.string().optional(),
+                description: z.string().optional(),
+                timeFrame: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+    eligibilityModule: z
+      .object({
+        eligibilityCriteria: z.string().optional(),
+        healthyVolunteers: z.boolean().optional(),
+        sex: z.string().optional(),
+        minimumAge: z.string().optional(),
+        maximumAge: z.string().optional(),
+        stdAges: z.any().optional(),
+      })
+      .passthrough()
+      .optional(),
+    contactsLocationsModule: z
+      .object({
+        locations: z
+          .array(
+            z
+              .object({
+                facility: z.string().optional(),
+                city: z.string().optional(),
+                state: z.string().optional(),
+                country: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for the derived section of a study: fields computed by
+ * ClinicalTrials.gov, such as condition and intervention browse terms.
+ */
+export const DerivedSectionSchema = z
+  .object({
+    miscInfoModule: z
+      .object({
+        versionHolder: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    conditionBrowseModule: z
+      .object({
+        meshes: z
+          .array(
+            z
+              .object({
+                id: z.string().optional(),
+                term: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+        ancestors: z
+          .array(
+            z
+              .object({
+                id: z.string().optional(),
+                term: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+        browseLeaves: z
+          .array(
+            z
+              .object({
+                id: z.string().optional(),
+                name: z.string().optional(),
+                asFound: z.string().optional(),
+                relevance: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+        browseBranches: z
+          .array(
+            z
+              .object({
+                abbrev: z.string().optional(),
+                name: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+    interventionBrowseModule: z
+      .object({
+        meshes: z
+          .array(
+            z
+              .object({
+                id: z.string().optional(),
+                term: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+        ancestors: z
+          .array(
+            z
+              .object({
+                id: z.string().optional(),
+                term: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+        browseLeaves: z
+          .array(
+            z
+              .object({
+                id: z.string().optional(),
+                name: z.string().optional(),
+                relevance: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+        browseBranches: z
+          .array(
+            z
+              .object({
+                abbrev: z.string().optional(),
+                name: z.string().optional(),
+              })
+              .passthrough()
+          )
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for a single clinical study, mirroring the ClinicalTrials.gov API structure.
+ * This provides runtime validation and serves as the single source of truth for the Study type.
+ * The sections are declared separately, and the type spelled out, to keep declaration emit
+ * within the compiler's size limit.
+ */
+export const StudySchema: z.ZodObject<
+  {
+    protocolSection: z.ZodOptional<typeof ProtocolSectionSchema>;
+    derivedSection: z.ZodOptional<typeof DerivedSectionSchema>;
+    resultsSection: z.ZodOptional<typeof ResultsSectionSchema>;
+    hasResults: z.ZodOptional<z.ZodBoolean>;
+  },
+  "passthrough"
+> = z
+  .object({
+    protocolSection: ProtocolSectionSchema.optional(),
+    derivedSection: DerivedSectionSchema.optional(),
+    resultsSection: ResultsSectionSchema.optional(),
     hasResults: z.boolean().optional(),
   })
   .passthrough();
@@ -294,9 +592,17 @@ export const StudySchema = z
 export type Study = z.infer<typeof StudySchema>;
 
 /**
- * Zod schema for a paged list of studies.
+ * Zod schema for a paged list of studies. The type is spelled out so that
+ * declaration emit references `StudySchema` instead of inlining it.
  */
-export const PagedStudiesSchema = z
+export const PagedStudiesSchema: z.ZodObject<
+  {
+    studies: z.ZodArray<typeof StudySchema>;
+    nextPageToken: z.ZodOptional<z.ZodString>;
+    totalCount: z.ZodOptional<z.ZodNumber>;
+  },
+  "passthrough"
+> = z
   .object({
     studies: z.array(StudySchema),
     nextPageToken: z.string().optional(),
@@ -309,6 +615,41 @@ export const PagedStudiesSchema = z
  */
 export type PagedStudies = z.infer<typeof PagedStudiesSchema>;
 
+/**
+ * Zod schema for one entry of a study's version history. Version 0 is the
+ * initial registration; each later version is a submitted update.
+ */
+export const StudyVersionSchema = z
+  .object({
+    version: z.number().int(),
+    date: z.string().optional(),
+    status: z.string().optional(),
+    moduleLabels: z
+      .array(z.string())
+      .optional()
+      .describe("The labels of the modules changed in this version."),
+  })
+  .passthrough();
+
+/**
+ * Represents one entry of a study's version history.
+ */
+export type StudyVersion = z.infer<typeof StudyVersionSchema>;
+
+/**
+ * Zod schema for the version history of a study.
+ */
+export const StudyHistorySchema = z
+  .object({
+    changes: z.array(StudyVersionSchema),
+  })
+  .passthrough();
+
+/**
+ * Represents the version history of a study.
+ */
+export type StudyHistory = z.infer<typeof StudyHistorySchema>;
+
 /**
  * Represents a node in the study data model tree.
  */
@@ -316,9 +657,42 @@ export interface FieldNode {
   name: string;
   type: string;
   description: string;
+  /** The short "piece" name used by the stats endpoints (e.g., `Phase`). */
+  piece?: string;
+  title?: string;
+  sourceType?: string;
+  isEnum?: boolean;
+  indexedOnly?: boolean;
+  historicOnly?: boolean;
   children?: FieldNode[];
 }
 
+/**
+ * A single value and the number of studies that have it.
+ */
+export interface FieldValueCount {
+  value: string;
+  studiesCount: number;
+}
+
+/**
+ * Represents the value statistics for one field, as returned by
+ * `/stats/field/values`. Only the properties relevant to the field's type are present.
+ */
+export interface FieldValueStats {
+  field: string;
+  piece: string;
+  type: string;
+  missingStudiesCount?: number;
+  uniqueValuesCount?: number;
+  topValues?: FieldValueCount[];
+  trueCount?: number;
+  falseCount?: number;
+  min?: string | number;
+  max?: string | number;
+  avg?: number;
+}
+
 /**
  * Represents the possible status values for a study.
  */
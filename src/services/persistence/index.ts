@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Barrel file for the persistence service. Selects the storage
+ * backend configured by `STORAGE_BACKEND` and shares it across the server.
+ * @module src/services/persistence/index
+ */
+
+import { config } from "../../config/index.js";
+import { logger, type RequestContext } from "../../utils/index.js";
+import { getSupabaseAdminClient } from "../supabase/supabaseClient.js";
+import { MemoryBackend } from "./memory/MemoryBackend.js";
+import { SqliteBackend } from "./sqlite/SqliteBackend.js";
+import { SupabaseBackend } from "./supabase/SupabaseBackend.js";
+import type { PersistenceBackend, PersistenceBackendName } from "./types.js";
+
+export * from "./types.js";
+export { MemoryBackend } from "./memory/MemoryBackend.js";
+export { SqliteBackend } from "./sqlite/SqliteBackend.js";
+export { SupabaseBackend } from "./supabase/SupabaseBackend.js";
+
+let backend: PersistenceBackend | null = null;
+
+/**
+ * Creates a storage backend by name.
+ * @param name - The backend to create.
+ * @returns A promise that resolves with the backend, not yet migrated.
+ * @throws {McpError} If the backend's driver or credentials are unavailable.
+ */
+export async function createPersistenceBackend(
+  name: PersistenceBackendName,
+): Promise<PersistenceBackend> {
+  switch (name) {
+    case "sqlite":
+      return SqliteBackend.open(config.storage.sqlitePath);
+    case "supabase":
+      return new SupabaseBackend(getSupabaseAdminClient());
+    case "memory":
+      return new MemoryBackend();
+  }
+}
+
+/**
+ * Opens and migrates the configured storage backend, replacing the current
+ * one. Call once at startup, before any saved search is restored.
+ * @param context - The request context for logging.
+ * @param name - The backend to use. Defaults to `config.storage.backend`.
+ * @returns A promise that resolves with the backend.
+ * @throws {McpError} If the backend cannot be opened or migrated.
+ */
+export async function initializePersistence(
+  context: RequestContext,
+  name: PersistenceBackendName = config.storage.backend,
+): Promise<PersistenceBackend> {
+  const next = await createPersistenceBackend(name);
+  await next.migrate(context);
+  await backend?.close();
+  backend = next;
+  logger.info(`Persistence initialized with the '${name}' backend.`, context);
+  return backend;
+}
+
+/**
+ * Returns the storage backend. Before {@link initializePersistence} is called,
+ * an in-memory backend is used.
+ * @returns The storage backend.
+ */
+export function getPersistence(): PersistenceBackend {
+  if (!backend) {
+    backend = new MemoryBackend();
+  }
+  return backend;
+}
+
+/**
+ * Closes the storage backend. The next {@link getPersistence} call starts a
+ * new in-memory backend.
+ */
+export async function closePersistence(): Promise<void> {
+  await backend?.close();
+  backend = null;
+}
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview An in-memory storage backend. It is the default when no
+ * backend is configured, and keeps the server's behavior of forgetting
+ * everything on restart. Records are cloned on the way in and out, so callers
+ * cannot mutate stored state.
+ * @module src/services/persistence/memory/MemoryBackend
+ */
+
+import type { SavedSearch, SearchSnapshot } from "../../savedSearches/types.js";
+import type {
+  AnalysisResultRecord,
+  AnalysisResultRepository,
+  AnnotationRepository,
+  PersistenceBackend,
+  SavedSearchRepository,
+  SnapshotRepository,
+  StudyAnnotation,
+} from "../types.js";
+
+/**
+ * Sorts records by a timestamp field, most recent first.
+ * @private
+ */
+function newestFirst<T>(records: T[], key: (record: T) => string): T[] {
+  return records.sort((a, b) => key(b).localeCompare(key(a)));
+}
+
+/**
+ * Clones a record if it exists.
+ * @private
+ */
+function cloneOptional<T>(record: T | undefined): T | undefined {
+  return record === undefined ? undefined : structuredClone(record);
+}
+
+/**
+ * A storage backend that keeps every record in process memory.
+ */
+export class MemoryBackend implements PersistenceBackend {
+  public readonly name = "memory" as const;
+  private readonly searches = new Map<string, SavedSearch>();
+  private readonly snapshotsBySearch = new Map<string, SearchSnapshot>();
+  private readonly annotationsById = new Map<string, StudyAnnotation>();
+  private readonly resultsById = new Map<string, AnalysisResultRecord>();
+
+  public readonly savedSearches: SavedSearchRepository = {
+    list: async () =>
+      [...this.searches.values()].map((search) => structuredClone(search)),
+    upsert: async (search) => {
+      this.searches.set(search.id, structuredClone(search));
+    },
+    delete: async (id) => {
+      this.searches.delete(id);
+      this.snapshotsBySearch.delete(id);
+    },
+  };
+
+  public readonly snapshots: SnapshotRepository = {
+    get: async (searchId) =>
+      cloneOptional(this.snapshotsBySearch.get(searchId)),
+    save: async (searchId, snapshot) => {
+      this.snapshotsBySearch.set(searchId, structuredClone(snapshot));
+    },
+  };
+
+  public readonly annotations: AnnotationRepository = {
+    list: async (filter = {}) =>
+      newestFirst(
+        [...this.annotationsById.values()]
+          .filter(
+            (a) =>
+              (!filter.nctId || a.nctId === filter.nctId) &&
+              (!filter.tag || a.tags.includes(filter.tag)) &&
+              (!filter.author || a.author === filter.author),
+          )
+          .map((a) => structuredClone(a)),
+        (a) => a.updatedAt,
+      ),
+    get: async (id) => cloneOptional(this.annotationsById.get(id)),
+    upsert: async (annotation) => {
+      this.annotationsById.set(annotation.id, structuredClone(annotation));
+    },
+    delete: async (id) => this.annotationsById.delete(id),
+  };
+
+  public readonly analysisResults: AnalysisResultRepository = {
+    list: async (filter = {}) => {
+      const results = newestFirst(
+        [...this.resultsById.values()]
+          .filter(
+            (r) =>
+              !filter.analysisType || r.analysisType === filter.analysisType,
+          )
+          .map((r) => structuredClone(r)),
+        (r) => r.createdAt,
+      );
+      return filter.limit ? results.slice(0, filter.limit) : results;
+    },
+    get: async (id) => cloneOptional(this.resultsById.get(id)),
+    insert: async (record) => {
+      this.resultsById.set(record.id, structuredClone(record));
+    },
+    delete: async (id) => this.resultsById.delete(id),
+  };
+
+  /**
+   * The in-memory backend has no schema to migrate.
+   */
+  public async migrate(): Promise<void> {}
+
+  /**
+   * The in-memory backend holds no resources.
+   */
+  public async close(): Promise<void> {}
+}
@@ -0,0 +1,288 @@
+/**
+ * @fileoverview A storage backend on a local SQLite file, for tests and
+ * single-user deployments. It uses the built-in `node:sqlite` module, which is
+ * available from Node.js 22.5; on older runtimes {@link SqliteBackend.open}
+ * fails with a configuration error. JSON columns are stored as text.
+ * @module src/services/persistence/sqlite/SqliteBackend
+ */
+
+import type { DatabaseSync, SQLOutputValue } from "node:sqlite";
+import type { RequestContext } from "../../../utils/index.js";
+import type { SavedSearch, SearchSnapshot } from "../../savedSearches/types.js";
+import type {
+  AnalysisResultRecord,
+  AnalysisResultRepository,
+  AnnotationRepository,
+  PersistenceBackend,
+  SavedSearchRepository,
+  SnapshotRepository,
+  StudyAnnotation,
+} from "../types.js";
+import { applySqliteMigrations, openSqliteDatabase } from "./database.js";
+import { SQLITE_MIGRATIONS } from "./migrations.js";
+
+/**
+ * A row as returned by `node:sqlite`.
+ * @private
+ */
+type Row = Record<string, SQLOutputValue>;
+
+/**
+ * Reads an optional text column.
+ * @private
+ */
+function optionalText(value: SQLOutputValue): string | undefined {
+  return value === null ? undefined : String(value);
+}
+
+/**
+ * Maps a `saved_searches` row to a saved search.
+ * @private
+ */
+function toSavedSearch(row: Row): SavedSearch {
+  const owner = optionalText(row.owner);
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    ...(owner && { owner }),
+    params: JSON.parse(String(row.params)),
+    schedule: String(row.schedule),
+    createdAt: String(row.created_at),
+    ...(row.last_run_at !== null && { lastRunAt: String(row.last_run_at) }),
+    ...(row.last_error !== null && { lastError: String(row.last_error) }),
+    ...(row.study_count !== null && { studyCount: Number(row.study_count) }),
+  };
+}
+
+/**
+ * Maps a `study_annotations` row to an annotation.
+ * @private
+ */
+function toAnnotation(row: Row): StudyAnnotation {
+  const author = optionalText(row.author);
+  return {
+    id: String(row.id),
+    nctId: String(row.nct_id),
+    note: String(row.note),
+    tags: JSON.parse(String(row.tags)),
+    ...(author && { author }),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/**
+ * Maps an `analysis_results` row to an analysis result.
+ * @private
+ */
+function toAnalysisResult(row: Row): AnalysisResultRecord {
+  return {
+    id: String(row.id),
+    analysisType: String(row.analysis_type),
+    params: JSON.parse(String(row.params)),
+    result: JSON.parse(String(row.result)),
+    createdAt: String(row.created_at),
+  };
+}
+
+/**
+ * A storage backend on a local SQLite database.
+ */
+export class SqliteBackend implements PersistenceBackend {
+  public readonly name = "sqlite" as const;
+
+  /**
+   * Creates a backend on an open database. Use {@link SqliteBackend.open} to
+   * open a database file.
+   * @param db - The open database.
+   */
+  constructor(private readonly db: DatabaseSync) {}
+
+  /**
+   * Opens (or creates) a SQLite database file.
+   * @param filePath - The database file, or `:memory:` for a private in-memory database.
+   * @returns A promise that resolves with the backend.
+   * @throws {McpError} If `node:sqlite` is not available in this Node.js runtime.
+   */
+  public static async open(filePath: string): Promise<SqliteBackend> {
+    return new SqliteBackend(await openSqliteDatabase(filePath));
+  }
+
+  public readonly savedSearches: SavedSearchRepository = {
+    list: async () =>
+      this.db
+        .prepare("SELECT * FROM saved_searches ORDER BY created_at, rowid")
+        .all()
+        .map(toSavedSearch),
+    upsert: async (search) => {
+      // An upsert rather than INSERT OR REPLACE, which would delete the row
+      // and cascade to its snapshot.
+      this.db
+        .prepare(
+          `INSERT INTO saved_searches
+             (id, name, owner, params, schedule, created_at, last_run_at, last_error, study_count)
+           VALUES (:id, :name, :owner, :params, :schedule, :createdAt, :lastRunAt, :lastError, :studyCount)
+           ON CONFLICT (id) DO UPDATE SET
+             name = excluded.name,
+             owner = excluded.owner,
+             params = excluded.params,
+             schedule = excluded.schedule,
+             last_run_at = excluded.last_run_at,
+             last_error = excluded.last_error,
+             study_count = excluded.study_count`,
+        )
+        .run({
+          id: search.id,
+          name: search.name,
+          owner: search.owner ?? null,
+          params: JSON.stringify(search.params),
+          schedule: search.schedule,
+          createdAt: search.createdAt,
+          lastRunAt: search.lastRunAt ?? null,
+          lastError: search.lastError ?? null,
+          studyCount: search.studyCount ?? null,
+        });
+    },
+    delete: async (id) => {
+      this.db.prepare("DELETE FROM saved_searches WHERE id = ?").run(id);
+    },
+  };
+
+  public readonly snapshots: SnapshotRepository = {
+    get: async (searchId) => {
+      const row = this.db
+        .prepare("SELECT * FROM search_snapshots WHERE search_id = ?")
+        .get(searchId);
+      if (!row) return undefined;
+      const snapshot: SearchSnapshot = {
+        takenAt: String(row.taken_at),
+        studies: new Map(Object.entries(JSON.parse(String(row.studies)))),
+      };
+      return snapshot;
+    },
+    save: async (searchId, snapshot) => {
+      this.db
+        .prepare(
+          `INSERT INTO search_snapshots (search_id, taken_at, studies)
+           VALUES (?, ?, ?)
+           ON CONFLICT (search_id) DO UPDATE SET
+             taken_at = excluded.taken_at,
+             studies = excluded.studies`,
+        )
+        .run(
+          searchId,
+          snapshot.takenAt,
+          JSON.stringify(Object.fromEntries(snapshot.studies)),
+        );
+    },
+  };
+
+  public readonly annotations: AnnotationRepository = {
+    list: async (filter = {}) =>
+      this.db
+        .prepare(
+          `SELECT * FROM study_annotations
+           WHERE (:nctId IS NULL OR nct_id = :nctId)
+             AND (:author IS NULL OR author = :author)
+             AND (:tag IS NULL OR EXISTS (
+               SELECT 1 FROM json_each(tags) WHERE json_each.value = :tag))
+           ORDER BY updated_at DESC, rowid DESC`,
+        )
+        .all({
+          nctId: filter.nctId ?? null,
+          author: filter.author ?? null,
+          tag: filter.tag ?? null,
+        })
+        .map(toAnnotation),
+    get: async (id) => {
+      const row = this.db
+        .prepare("SELECT * FROM study_annotations WHERE id = ?")
+        .get(id);
+      return row && toAnnotation(row);
+    },
+    upsert: async (annotation) => {
+      this.db
+        .prepare(
+          `INSERT INTO study_annotations
+             (id, nct_id, note, tags, author, created_at, updated_at)
+           VALUES (:id, :nctId, :note, :tags, :author, :createdAt, :updatedAt)
+           ON CONFLICT (id) DO UPDATE SET
+             nct_id = excluded.nct_id,
+             note = excluded.note,
+             tags = excluded.tags,
+             author = excluded.author,
+             updated_at = excluded.updated_at`,
+        )
+        .run({
+          id: annotation.id,
+          nctId: annotation.nctId,
+          note: annotation.note,
+          tags: JSON.stringify(annotation.tags),
+          author: annotation.author ?? null,
+          createdAt: annotation.createdAt,
+          updatedAt: annotation.updatedAt,
+        });
+    },
+    delete: async (id) =>
+      Number(
+        this.db.prepare("DELETE FROM study_annotations WHERE id = ?").run(id)
+          .changes,
+      ) > 0,
+  };
+
+  public readonly analysisResults: AnalysisResultRepository = {
+    list: async (filter = {}) =>
+      this.db
+        .prepare(
+          `SELECT * FROM analysis_results
+           WHERE (:analysisType IS NULL OR analysis_type = :analysisType)
+           ORDER BY created_at DESC, rowid DESC
+           LIMIT :limit`,
+        )
+        .all({
+          analysisType: filter.analysisType ?? null,
+          limit: filter.limit ?? -1,
+        })
+        .map(toAnalysisResult),
+    get: async (id) => {
+      const row = this.db
+        .prepare("SELECT * FROM analysis_results WHERE id = ?")
+        .get(id);
+      return row && toAnalysisResult(row);
+    },
+    insert: async (record) => {
+      this.db
+        .prepare(
+          `INSERT INTO analysis_results (id, analysis_type, params, result, created_at)
+           VALUES (?, ?, ?, ?, ?)`,
+        )
+        .run(
+          record.id,
+          record.analysisType,
+          JSON.stringify(record.params),
+          JSON.stringify(record.result ?? null),
+          record.createdAt,
+        );
+    },
+    delete: async (id) =>
+      Number(
+        this.db.prepare("DELETE FROM analysis_results WHERE id = ?").run(id)
+          .changes,
+      ) > 0,
+  };
+
+  /**
+   * Applies the migrations that have not been applied yet.
+   * @param context - The request context for logging.
+   */
+  public async migrate(context: RequestContext): Promise<void> {
+    applySqliteMigrations(this.db, SQLITE_MIGRATIONS, context);
+  }
+
+  /**
+   * Closes the database.
+   */
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+}
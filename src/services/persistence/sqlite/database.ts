@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Helpers shared by the SQLite databases of the server: opening a
+ * database with the built-in `node:sqlite` module, which is available from
+ * Node.js 22.5, and applying versioned schema migrations.
+ * @module src/services/persistence/sqlite/database
+ */
+
+import { mkdirSync } from "fs";
+import type { DatabaseSync } from "node:sqlite";
+import path from "path";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import type { SqliteMigration } from "./migrations.js";
+
+/**
+ * Opens (or creates) a SQLite database file, creating its directory if needed.
+ * @param filePath - The database file, or `:memory:` for a private in-memory database.
+ * @returns A promise that resolves with the open database.
+ * @throws {McpError} If `node:sqlite` is not available in this Node.js runtime.
+ */
+export async function openSqliteDatabase(
+  filePath: string,
+): Promise<DatabaseSync> {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = await import("node:sqlite");
+  } catch (error) {
+    throw new McpError(
+      BaseErrorCode.CONFIGURATION_ERROR,
+      `SQLite storage requires the built-in 'node:sqlite' module (Node.js 22.5 or later); this runtime is Node.js ${process.versions.node}.`,
+      { cause: error instanceof Error ? error.message : String(error) },
+    );
+  }
+  if (filePath !== ":memory:") {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+  return new sqlite.DatabaseSync(filePath);
+}
+
+/**
+ * Applies the migrations that have not been applied to a database yet, each in
+ * its own transaction, and records them in its `schema_migrations` table.
+ * @param db - The open database.
+ * @param migrations - The migrations, in ascending version order.
+ * @param context - The request context for logging.
+ * @throws {McpError} If a migration fails. The failed migration is rolled back.
+ */
+export function applySqliteMigrations(
+  db: DatabaseSync,
+  migrations: SqliteMigration[],
+  context: RequestContext,
+): void {
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version INTEGER PRIMARY KEY,
+       name TEXT NOT NULL,
+       applied_at TEXT NOT NULL
+     )`,
+  );
+  const applied = new Set(
+    db
+      .prepare("SELECT version FROM schema_migrations")
+      .all()
+      .map((row) => Number(row.version)),
+  );
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+    db.exec("BEGIN");
+    try {
+      db.exec(migration.sql);
+      db.prepare(
+        "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+      ).run(migration.version, migration.name, new Date().toISOString());
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw new McpError(
+        BaseErrorCode.DATABASE_ERROR,
+        `SQLite migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`,
+        { version: migration.version },
+      );
+    }
+    logger.info(
+      `Applied SQLite migration ${migration.version} (${migration.name}).`,
+      context,
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview The schema migrations of the SQLite backend, applied in order
+ * and recorded in the `schema_migrations` table. The tables mirror the
+ * Supabase migrations in `supabase/migrations/`. Never edit an applied
+ * migration; append a new one instead.
+ * @module src/services/persistence/sqlite/migrations
+ */
+
+/**
+ * A schema migration.
+ */
+export interface SqliteMigration {
+  /** The migration number. Migrations are applied in ascending order. */
+  version: number;
+  name: string;
+  /** The SQL to apply, as one or more statements. */
+  sql: string;
+}
+
+/**
+ * The migrations of the SQLite backend.
+ */
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    name: "create_persistence_tables",
+    sql: `
+      CREATE TABLE saved_searches (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        params TEXT NOT NULL,
+        schedule TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_run_at TEXT,
+        last_error TEXT,
+        study_count INTEGER
+      );
+
+      CREATE TABLE search_snapshots (
+        search_id TEXT PRIMARY KEY
+          REFERENCES saved_searches (id) ON DELETE CASCADE,
+        taken_at TEXT NOT NULL,
+        studies TEXT NOT NULL
+      );
+
+      CREATE TABLE study_annotations (
+        id TEXT PRIMARY KEY,
+        nct_id TEXT NOT NULL,
+        note TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        author TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX study_annotations_nct_id_idx ON study_annotations (nct_id);
+
+      CREATE TABLE analysis_results (
+        id TEXT PRIMARY KEY,
+        analysis_type TEXT NOT NULL,
+        params TEXT NOT NULL,
+        result TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX analysis_results_type_created_idx
+        ON analysis_results (analysis_type, created_at);
+    `,
+  },
+  {
+    version: 2,
+    name: "add_saved_search_owner",
+    // SQLite cannot drop the UNIQUE constraint on the name, so the table is
+    // rebuilt. The snapshots are rebuilt with it, since dropping the old table
+    // would cascade to them.
+    sql: `
+      CREATE TABLE saved_searches_new (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        owner TEXT,
+        params TEXT NOT NULL,
+        schedule TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_run_at TEXT,
+        last_error TEXT,
+        study_count INTEGER
+      );
+      INSERT INTO saved_searches_new
+        (id, name, params, schedule, created_at, last_run_at, last_error, study_count)
+        SELECT id, name, params, schedule, created_at, last_run_at, last_error, study_count
+        FROM saved_searches ORDER BY rowid;
+
+      CREATE TABLE search_snapshots_new (
+        search_id TEXT PRIMARY KEY
+          REFERENCES saved_searches_new (id) ON DELETE CASCADE,
+        taken_at TEXT NOT NULL,
+        studies TEXT NOT NULL
+      );
+      INSERT INTO search_snapshots_new SELECT * FROM search_snapshots;
+
+      DROP TABLE search_snapshots;
+      DROP TABLE saved_searches;
+      ALTER TABLE saved_searches_new RENAME TO saved_searches;
+      ALTER TABLE search_snapshots_new RENAME TO search_snapshots;
+      CREATE UNIQUE INDEX saved_searches_owner_name_idx
+        ON saved_searches (IFNULL(owner, ''), name);
+    `,
+  },
+];
@@ -0,0 +1,322 @@
+/**
+ * @fileoverview A storage backend on a Supabase (Postgres) project, for
+ * deployments shared by several users or server instances. The tables are
+ * created by the migrations in `supabase/migrations/`, which are applied with
+ * the Supabase CLI (`supabase db push`), not by the server.
+ * @module src/services/persistence/supabase/SupabaseBackend
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, type RequestContext } from "../../../utils/index.js";
+import type {
+  SavedSearch,
+  SavedSearchParams,
+  SnapshotEntry,
+} from "../../savedSearches/types.js";
+import type { Database, Json, Tables } from "../../supabase/database.types.js";
+import type {
+  AnalysisResultRecord,
+  AnalysisResultRepository,
+  AnnotationRepository,
+  PersistenceBackend,
+  SavedSearchRepository,
+  SnapshotRepository,
+  StudyAnnotation,
+} from "../types.js";
+
+/**
+ * The tables the backend needs.
+ * @private
+ */
+const TABLES = [
+  "saved_searches",
+  "search_snapshots",
+  "study_annotations",
+  "analysis_results",
+] as const;
+
+/**
+ * Throws a database error for a failed Supabase query.
+ * @private
+ */
+function check<T>(
+  operation: string,
+  result: { data: T | null; error: { message: string; code?: string } | null },
+): T | null {
+  if (result.error) {
+    throw new McpError(
+      BaseErrorCode.DATABASE_ERROR,
+      `Supabase ${operation} failed: ${result.error.message}`,
+      { code: result.error.code },
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Returns the rows of a Supabase query, throwing a database error if it failed.
+ * @private
+ */
+function checkRows<T>(
+  operation: string,
+  result: {
+    data: T[] | null;
+    error: { message: string; code?: string } | null;
+  },
+): T[] {
+  return check(operation, result) ?? [];
+}
+
+/**
+ * Normalizes a Postgres timestamp to the ISO format used by the other
+ * backends.
+ * @private
+ */
+const toIso = (timestamp: string) => new Date(timestamp).toISOString();
+
+/**
+ * Maps a `saved_searches` row to a saved search.
+ * @private
+ */
+function toSavedSearch(row: Tables<"saved_searches">): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.owner && { owner: row.owner }),
+    params: row.params as unknown as SavedSearchParams,
+    schedule: row.schedule,
+    createdAt: toIso(row.created_at),
+    ...(row.last_run_at && { lastRunAt: toIso(row.last_run_at) }),
+    ...(row.last_error !== null && { lastError: row.last_error }),
+    ...(row.study_count !== null && { studyCount: row.study_count }),
+  };
+}
+
+/**
+ * Maps a `study_annotations` row to an annotation.
+ * @private
+ */
+function toAnnotation(row: Tables<"study_annotations">): StudyAnnotation {
+  return {
+    id: row.id,
+    nctId: row.nct_id,
+    note: row.note,
+    tags: row.tags,
+    ...(row.author && { author: row.author }),
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+/**
+ * Maps an `analysis_results` row to an analysis result.
+ * @private
+ */
+function toAnalysisResult(
+  row: Tables<"analysis_results">,
+): AnalysisResultRecord {
+  return {
+    id: row.id,
+    analysisType: row.analysis_type,
+    params: row.params as Record<string, unknown>,
+    result: row.result,
+    createdAt: toIso(row.created_at),
+  };
+}
+
+/**
+ * A storage backend on a Supabase project.
+ */
+export class SupabaseBackend implements PersistenceBackend {
+  public readonly name = "supabase" as const;
+
+  /**
+   * Creates a backend on a Supabase client. The client should use the service
+   * role key, since the tables are not readable through row level security.
+   * @param client - The Supabase client.
+   */
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  public readonly savedSearches: SavedSearchRepository = {
+    list: async () =>
+      checkRows(
+        "list saved searches",
+        await this.client
+          .from("saved_searches")
+          .select("*")
+          .order("created_at"),
+      ).map(toSavedSearch),
+    upsert: async (search) => {
+      check(
+        "upsert saved search",
+        await this.client.from("saved_searches").upsert({
+          id: search.id,
+          name: search.name,
+          owner: search.owner ?? null,
+          params: search.params as unknown as Json,
+          schedule: search.schedule,
+          created_at: search.createdAt,
+          last_run_at: search.lastRunAt ?? null,
+          last_error: search.lastError ?? null,
+          study_count: search.studyCount ?? null,
+        }),
+      );
+    },
+    delete: async (id) => {
+      // The snapshot is deleted by the foreign key cascade.
+      check(
+        "delete saved search",
+        await this.client.from("saved_searches").delete().eq("id", id),
+      );
+    },
+  };
+
+  public readonly snapshots: SnapshotRepository = {
+    get: async (searchId) => {
+      const row = check<Tables<"search_snapshots">>(
+        "get snapshot",
+        await this.client
+          .from("search_snapshots")
+          .select("*")
+          .eq("search_id", searchId)
+          .maybeSingle(),
+      );
+      if (!row) return undefined;
+      return {
+        takenAt: toIso(row.taken_at),
+        studies: new Map(
+          Object.entries(row.studies as Record<string, SnapshotEntry>),
+        ),
+      };
+    },
+    save: async (searchId, snapshot) => {
+      check(
+        "save snapshot",
+        await this.client.from("search_snapshots").upsert({
+          search_id: searchId,
+          taken_at: snapshot.takenAt,
+          studies: Object.fromEntries(snapshot.studies) as unknown as Json,
+        }),
+      );
+    },
+  };
+
+  public readonly annotations: AnnotationRepository = {
+    list: async (filter = {}) => {
+      let query = this.client.from("study_annotations").select("*");
+      if (filter.nctId) query = query.eq("nct_id", filter.nctId);
+      if (filter.author) query = query.eq("author", filter.author);
+      if (filter.tag) query = query.contains("tags", [filter.tag]);
+      return checkRows(
+        "list annotations",
+        await query.order("updated_at", { ascending: false }),
+      ).map(toAnnotation);
+    },
+    get: async (id) => {
+      const row = check<Tables<"study_annotations">>(
+        "get annotation",
+        await this.client
+          .from("study_annotations")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle(),
+      );
+      return row ? toAnnotation(row) : undefined;
+    },
+    upsert: async (annotation) => {
+      check(
+        "upsert annotation",
+        await this.client.from("study_annotations").upsert({
+          id: annotation.id,
+          nct_id: annotation.nctId,
+          note: annotation.note,
+          tags: annotation.tags,
+          author: annotation.author ?? null,
+          created_at: annotation.createdAt,
+          updated_at: annotation.updatedAt,
+        }),
+      );
+    },
+    delete: async (id) =>
+      checkRows(
+        "delete annotation",
+        await this.client
+          .from("study_annotations")
+          .delete()
+          .eq("id", id)
+          .select("id"),
+      ).length > 0,
+  };
+
+  public readonly analysisResults: AnalysisResultRepository = {
+    list: async (filter = {}) => {
+      let query = this.client.from("analysis_results").select("*");
+      if (filter.analysisType) {
+        query = query.eq("analysis_type", filter.analysisType);
+      }
+      query = query.order("created_at", { ascending: false });
+      if (filter.limit !== undefined) query = query.limit(filter.limit);
+      return checkRows("list analysis results", await query).map(
+        toAnalysisResult,
+      );
+    },
+    get: async (id) => {
+      const row = check<Tables<"analysis_results">>(
+        "get analysis result",
+        await this.client
+          .from("analysis_results")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle(),
+      );
+      return row ? toAnalysisResult(row) : undefined;
+    },
+    insert: async (record) => {
+      check(
+        "insert analysis result",
+        await this.client.from("analysis_results").insert({
+          id: record.id,
+          analysis_type: record.analysisType,
+          params: record.params as Json,
+          result: (record.result ?? null) as Json,
+          created_at: record.createdAt,
+        }),
+      );
+    },
+    delete: async (id) =>
+      checkRows(
+        "delete analysis result",
+        await this.client
+          .from("analysis_results")
+          .delete()
+          .eq("id", id)
+          .select("id"),
+      ).length > 0,
+  };
+
+  /**
+   * Checks that the tables exist. The server does not alter a shared
+   * database; apply the migrations with `supabase db push`.
+   * @param context - The request context for logging.
+   * @throws {McpError} If a table is missing or cannot be read.
+   */
+  public async migrate(context: RequestContext): Promise<void> {
+    for (const table of TABLES) {
+      const { error } = await this.client.from(table).select("*").limit(0);
+      if (error) {
+        throw new McpError(
+          BaseErrorCode.CONFIGURATION_ERROR,
+          `The Supabase table '${table}' is not available (${error.message}). Apply the migrations in supabase/migrations with 'supabase db push'.`,
+          { table, code: error.code },
+        );
+      }
+    }
+    logger.debug("Verified the Supabase persistence tables.", context);
+  }
+
+  /**
+   * Does nothing; the Supabase client is shared with the rest of the server.
+   */
+  public async close(): Promise<void> {}
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Defines the records and repository interfaces of the
+ * persistence layer. Each storage backend (in-memory, SQLite, Supabase)
+ * implements the same repositories, so callers never depend on a backend.
+ * @module src/services/persistence/types
+ */
+
+import { z } from "zod";
+import type { RequestContext } from "../../utils/index.js";
+import type { SavedSearch, SearchSnapshot } from "../savedSearches/types.js";
+
+/**
+ * The available storage backends.
+ * - `memory`: Process memory. Nothing survives a restart.
+ * - `sqlite`: A local SQLite file, for tests and single-user deployments.
+ * - `supabase`: A Supabase (Postgres) project, for shared deployments.
+ */
+export const PersistenceBackendNameSchema = z.enum([
+  "memory",
+  "sqlite",
+  "supabase",
+]);
+
+/**
+ * The name of a storage backend.
+ */
+export type PersistenceBackendName = z.infer<
+  typeof PersistenceBackendNameSchema
+>;
+
+/**
+ * Zod schema for a user's annotation on a study.
+ */
+export const StudyAnnotationSchema = z.object({
+  id: z.string(),
+  nctId: z.string(),
+  note: z.string(),
+  tags: z.array(z.string()),
+  author: z
+    .string()
+    .optional()
+    .describe("The authenticated client or subject that wrote the note."),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Represents a user's annotation on a study.
+ */
+export type StudyAnnotation = z.infer<typeof StudyAnnotationSchema>;
+
+/**
+ * Filters for listing annotations. All given filters must match.
+ */
+export interface AnnotationFilter {
+  nctId?: string;
+  tag?: string;
+  author?: string;
+}
+
+/**
+ * Zod schema for a stored analysis result.
+ */
+export const AnalysisResultRecordSchema = z.object({
+  id: z.string(),
+  analysisType: z.string(),
+  params: z
+    .record(z.unknown())
+    .describe("The input the analysis was run with."),
+  result: z.unknown(),
+  createdAt: z.string(),
+});
+
+/**
+ * Represents a stored analysis result.
+ */
+export type AnalysisResultRecord = z.infer<typeof AnalysisResultRecordSchema>;
+
+/**
+ * Filters for listing analysis results.
+ */
+export interface AnalysisResultFilter {
+  analysisType?: string;
+  /** The maximum number of results to return, most recent first. */
+  limit?: number;
+}
+
+/**
+ * Stores saved search definitions.
+ */
+export interface SavedSearchRepository {
+  /** Lists the saved searches, oldest first. */
+  list(): Promise<SavedSearch[]>;
+  /** Inserts or replaces a saved search by ID. */
+  upsert(search: SavedSearch): Promise<void>;
+  /** Deletes a saved search and its snapshot. */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Stores the latest snapshot of each saved search.
+ */
+export interface SnapshotRepository {
+  /** Returns the latest snapshot of a saved search, if one was saved. */
+  get(searchId: string): Promise<SearchSnapshot | undefined>;
+  /** Replaces the snapshot of a saved search. */
+  save(searchId: string, snapshot: SearchSnapshot): Promise<void>;
+}
+
+/**
+ * Stores annotations on studies.
+ */
+export interface AnnotationRepository {
+  /** Lists the matching annotations, most recently updated first. */
+  list(filter?: AnnotationFilter): Promise<StudyAnnotation[]>;
+  /** Returns an annotation by ID. */
+  get(id: string): Promise<StudyAnnotation | undefined>;
+  /** Inserts or replaces an annotation by ID. */
+  upsert(annotation: StudyAnnotation): Promise<void>;
+  /** Deletes an annotation, returning `true` if it existed. */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Stores analysis results.
+ */
+export interface AnalysisResultRepository {
+  /** Lists the matching results, most recent first. */
+  list(filter?: AnalysisResultFilter): Promise<AnalysisResultRecord[]>;
+  /** Returns a result by ID. */
+  get(id: string): Promise<AnalysisResultRecord | undefined>;
+  /** Inserts a result. */
+  insert(record: AnalysisResultRecord): Promise<void>;
+  /** Deletes a result, returning `true` if it existed. */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * A storage backend: the repositories plus its lifecycle.
+ */
+export interface PersistenceBackend {
+  readonly name: PersistenceBackendName;
+  readonly savedSearches: SavedSearchRepository;
+  readonly snapshots: SnapshotRepository;
+  readonly annotations: AnnotationRepository;
+  readonly analysisResults: AnalysisResultRepository;
+  /**
+   * Brings the storage schema up to date.
+   * @param context - The request context for logging.
+   */
+  migrate(context: RequestContext): Promise<void>;
+  /** Releases the backend's resources. */
+  close(): Promise<void>;
+}
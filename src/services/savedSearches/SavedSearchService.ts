@@ -0,0 +1,506 @@
+/**
+ * @fileoverview Service for saved searches: named ClinicalTrials.gov queries
+ * that are re-run on a cron schedule and compared against their previous
+ * snapshot to produce a feed of new, removed, and status-changed studies.
+ * Each saved search belongs to the authenticated client or subject that saved
+ * it, and is only visible to its owner; searches saved without authentication
+ * have no owner and are only visible without authentication. Because every run
+ * pages through the ClinicalTrials.gov API, schedules may not fire more often
+ * than `SAVED_SEARCH_MIN_INTERVAL_MINUTES`, and each owner may keep at most
+ * `SAVED_SEARCH_MAX_PER_OWNER` searches. Searches and their
+ * snapshots are written through to the configured storage backend and restored
+ * at startup; the change feed is held in memory.
+ * @module src/services/savedSearches/SavedSearchService
+ */
+
+import cron from "node-cron";
+import { config } from "../../config/index.js";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import {
+  generateUUID,
+  logger,
+  type RequestContext,
+} from "../../utils/index.js";
+import {
+  countCronFields,
+  getMinimumCronIntervalMs,
+} from "../../utils/scheduling/cronInterval.js";
+import { schedulerService } from "../../utils/scheduling/index.js";
+import { ClinicalTrialsGovService } from "../clinical-trials-gov/index.js";
+import { getPersistence } from "../persistence/index.js";
+import { diffSnapshots } from "./changeDetection.js";
+import type {
+  SavedSearch,
+  SavedSearchParams,
+  SearchSnapshot,
+  StudyChangeEvent,
+} from "./types.js";
+
+/**
+ * The maximum number of studies a saved search may match. Snapshots hold one
+ * entry per study, so broad queries are rejected rather than tracked.
+ */
+export const MAX_SNAPSHOT_STUDIES = 5000;
+
+/**
+ * The maximum number of change events kept per saved search. Older events are
+ * dropped first.
+ */
+export const MAX_CHANGES_PER_SEARCH = 500;
+
+/**
+ * The fields requested when taking a snapshot.
+ */
+const SNAPSHOT_FIELDS = [
+  "protocolSection.identificationModule.nctId",
+  "protocolSection.identificationModule.briefTitle",
+  "protocolSection.statusModule.overallStatus",
+];
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Called with the changes detected by each run of a saved search that found any.
+ */
+export type StudyChangeListener = (
+  search: SavedSearch,
+  events: StudyChangeEvent[],
+) => void | Promise<void>;
+
+/**
+ * Options for reading the change feed.
+ */
+export interface ChangeFeedOptions {
+  /**
+   * The owner whose saved searches to read changes of. Unset for the searches
+   * saved without authentication.
+   */
+  owner?: string;
+  /** Only return changes of this saved search. */
+  searchId?: string;
+  /** Only return changes detected after this ISO 8601 timestamp. */
+  since?: string;
+  /** The maximum number of changes to return, most recent first. */
+  limit?: number;
+}
+
+/**
+ * A singleton service that stores saved searches, schedules their re-runs,
+ * and keeps the change feed.
+ */
+export class SavedSearchService {
+  private static instance: SavedSearchService;
+  private readonly searches = new Map<string, SavedSearch>();
+  private readonly snapshots = new Map<string, SearchSnapshot>();
+  private readonly changes = new Map<string, StudyChangeEvent[]>();
+  private readonly listeners = new Set<StudyChangeListener>();
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   */
+  private constructor() {}
+
+  /**
+   * Returns the singleton instance of the SavedSearchService.
+   * @returns The singleton instance.
+   */
+  public static getInstance(): SavedSearchService {
+    if (!SavedSearchService.instance) {
+      SavedSearchService.instance = new SavedSearchService();
+    }
+    return SavedSearchService.instance;
+  }
+
+  /**
+   * Saves a search and takes its baseline snapshot. Saving under an existing
+   * name replaces that search: its schedule and query are updated and a new
+   * baseline is taken, but its ID and change feed are kept. Names are unique
+   * per owner.
+   * @param name - The name of the saved search.
+   * @param params - The query and filter to re-run.
+   * @param schedule - The cron pattern to re-run the search on.
+   * @param context - The request context for logging.
+   * @param owner - The authenticated client or subject saving the search.
+   * @returns A promise that resolves with the saved search.
+   * @throws {McpError} If the schedule is invalid or fires too often, the
+   * owner already has the maximum number of saved searches, or the query
+   * matches too many studies.
+   */
+  public async save(
+    name: string,
+    params: SavedSearchParams,
+    schedule: string,
+    context: RequestContext,
+    owner?: string,
+  ): Promise<SavedSearch> {
+    const scheduleError = this.checkSchedule(schedule);
+    if (scheduleError) {
+      throw new McpError(BaseErrorCode.INVALID_INPUT, scheduleError, {
+        schedule,
+      });
+    }
+
+    const existing = this.findByName(name, owner);
+    const { maxPerOwner } = config.savedSearches;
+    if (!existing && this.list(owner).length >= maxPerOwner) {
+      throw new McpError(
+        BaseErrorCode.CONFLICT,
+        `You already have the maximum of ${maxPerOwner} saved searches. Delete one before saving another.`,
+        { limit: maxPerOwner },
+      );
+    }
+    const search: SavedSearch = {
+      id: existing?.id ?? generateUUID(),
+      name,
+      ...(owner && { owner }),
+      params,
+      schedule,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+    const snapshot = await this.takeSnapshot(search, context);
+    search.lastRunAt = snapshot.takenAt;
+    search.studyCount = snapshot.studies.size;
+
+    const persistence = getPersistence();
+    await persistence.savedSearches.upsert(search);
+    await persistence.snapshots.save(search.id, snapshot);
+
+    if (existing) {
+      schedulerService.remove(this.jobId(search.id));
+    }
+    this.scheduleRuns(search);
+    this.searches.set(search.id, search);
+    this.snapshots.set(search.id, snapshot);
+    if (!this.changes.has(search.id)) {
+      this.changes.set(search.id, []);
+    }
+
+    logger.info(
+      `Saved search '${name}' with ${snapshot.studies.size} studies, re-run on '${schedule}'.`,
+      { ...context, searchId: search.id },
+    );
+    return { ...search };
+  }
+
+  /**
+   * Loads the saved searches and their snapshots from the storage backend and
+   * schedules their re-runs. Searches that are already loaded are skipped.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with the number of searches restored.
+   */
+  public async restore(context: RequestContext): Promise<number> {
+    const persistence = getPersistence();
+    let restored = 0;
+    for (const search of await persistence.savedSearches.list()) {
+      if (this.searches.has(search.id)) continue;
+      const scheduleError = this.checkSchedule(search.schedule);
+      if (scheduleError) {
+        logger.warning(
+          `Skipping saved search '${search.name}': ${scheduleError}`,
+          { ...context, searchId: search.id },
+        );
+        continue;
+      }
+      const snapshot = await persistence.snapshots.get(search.id);
+      if (snapshot) {
+        this.snapshots.set(search.id, snapshot);
+      }
+      this.searches.set(search.id, search);
+      if (!this.changes.has(search.id)) {
+        this.changes.set(search.id, []);
+      }
+      this.scheduleRuns(search);
+      restored++;
+    }
+    logger.info(
+      `Restored ${restored} saved searches from the '${persistence.name}' storage backend.`,
+      context,
+    );
+    return restored;
+  }
+
+  /**
+   * Lists the saved searches of an owner.
+   * @param owner - The owner, or unset for the searches saved without
+   *   authentication.
+   * @returns The saved searches, oldest first.
+   */
+  public list(owner?: string): SavedSearch[] {
+    return [...this.searches.values()]
+      .filter((search) => search.owner === owner)
+      .map((search) => ({ ...search }));
+  }
+
+  /**
+   * Finds a saved search of an owner by ID or name.
+   * @param idOrName - The ID or name of the saved search.
+   * @param owner - The owner, or unset for the searches saved without
+   *   authentication.
+   * @returns The saved search, or `undefined` if the owner has none matching.
+   */
+  public get(idOrName: string, owner?: string): SavedSearch | undefined {
+    const byId = this.searches.get(idOrName);
+    const search =
+      byId && byId.owner === owner ? byId : this.findByName(idOrName, owner);
+    return search && { ...search };
+  }
+
+  /**
+   * Deletes a saved search of an owner, with its schedule, its snapshot, and
+   * its change feed.
+   * @param id - The ID of the saved search.
+   * @param context - The request context for logging.
+   * @param owner - The owner, or unset for the searches saved without
+   *   authentication.
+   * @returns A promise that resolves with `true` if the owner had the search.
+   */
+  public async delete(
+    id: string,
+    context: RequestContext,
+    owner?: string,
+  ): Promise<boolean> {
+    const search = this.searches.get(id);
+    if (!search || search.owner !== owner) {
+      return false;
+    }
+    await getPersistence().savedSearches.delete(id);
+    schedulerService.remove(this.jobId(id));
+    this.searches.delete(id);
+    this.snapshots.delete(id);
+    this.changes.delete(id);
+    logger.info(`Deleted saved search ${id}.`, { ...context, searchId: id });
+    return true;
+  }
+
+  /**
+   * Re-runs a saved search, records the changes since its last snapshot, and
+   * notifies the change listeners. A failed run is recorded on the search as
+   * `lastError` and the previous snapshot is kept. If the search has no
+   * snapshot yet (e.g. it was restored without one), the run takes its
+   * baseline and reports no changes.
+   * @param id - The ID of the saved search.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with the detected changes.
+   * @throws {McpError} If the search does not exist or the run fails.
+   */
+  public async run(
+    id: string,
+    context: RequestContext,
+  ): Promise<StudyChangeEvent[]> {
+    const search = this.searches.get(id);
+    if (!search) {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        `Saved search '${id}' was not found.`,
+        { searchId: id },
+      );
+    }
+
+    const persistence = getPersistence();
+    let snapshot: SearchSnapshot;
+    try {
+      snapshot = await this.takeSnapshot(search, context);
+    } catch (error) {
+      search.lastError = error instanceof Error ? error.message : String(error);
+      await persistence.savedSearches.upsert(search);
+      throw error;
+    }
+
+    const previous = this.snapshots.get(id);
+    const events: StudyChangeEvent[] = previous
+      ? diffSnapshots(previous, snapshot).map((change) => ({
+          id: generateUUID(),
+          searchId: search.id,
+          searchName: search.name,
+          detectedAt: snapshot.takenAt,
+          ...change,
+        }))
+      : [];
+
+    this.snapshots.set(id, snapshot);
+    search.lastRunAt = snapshot.takenAt;
+    search.studyCount = snapshot.studies.size;
+    delete search.lastError;
+    await persistence.snapshots.save(id, snapshot);
+    await persistence.savedSearches.upsert(search);
+
+    const feed = this.changes.get(id) ?? [];
+    feed.push(...events);
+    feed.splice(0, Math.max(0, feed.length - MAX_CHANGES_PER_SEARCH));
+    this.changes.set(id, feed);
+
+    logger.info(
+      `Saved search '${search.name}' re-run: ${events.length} changes detected.`,
+      { ...context, searchId: id },
+    );
+    if (events.length > 0) {
+      await this.notify(search, events, context);
+    }
+    return events;
+  }
+
+  /**
+   * Reads the change feed of an owner's saved searches.
+   * @param options - The owner, and filters for the feed.
+   * @returns The matching changes, most recent first.
+   */
+  public getChanges(options: ChangeFeedOptions = {}): StudyChangeEvent[] {
+    const feeds = [...this.changes.entries()]
+      .filter(
+        ([id]) =>
+          (!options.searchId || id === options.searchId) &&
+          this.searches.get(id)?.owner === options.owner,
+      )
+      .map(([, feed]) => feed);
+    const sinceTime = options.since ? Date.parse(options.since) : undefined;
+    const events = feeds
+      .flat()
+      .filter(
+        (event) =>
+          sinceTime === undefined || Date.parse(event.detectedAt) > sinceTime,
+      )
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+    return options.limit ? events.slice(0, options.limit) : events;
+  }
+
+  /**
+   * Registers a listener for detected changes.
+   * @param listener - The listener to call after each run that found changes.
+   * @returns A function that removes the listener.
+   */
+  public onChange(listener: StudyChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Calls every change listener, logging rather than propagating their errors.
+   * @private
+   */
+  private async notify(
+    search: SavedSearch,
+    events: StudyChangeEvent[],
+    context: RequestContext,
+  ): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener({ ...search }, events);
+      } catch (error) {
+        logger.error("Saved search change listener failed.", {
+          ...context,
+          searchId: search.id,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Fetches every study matching a saved search. The response cache is
+   * bypassed, since a cached page would hide the changes a re-run looks for.
+   * @private
+   */
+  private async takeSnapshot(
+    search: SavedSearch,
+    context: RequestContext,
+  ): Promise<SearchSnapshot> {
+    const service = ClinicalTrialsGovService.getInstance();
+    const takenAt = new Date().toISOString();
+    const studies: SearchSnapshot["studies"] = new Map();
+    let pageToken: string | undefined;
+
+    do {
+      const page = await service.listStudies(
+        {
+          ...search.params,
+          fields: SNAPSHOT_FIELDS,
+          pageSize: PAGE_SIZE,
+          pageToken,
+          countTotal: pageToken === undefined,
+        },
+        context,
+        { noCache: true },
+      );
+      if (
+        page.totalCount !== undefined &&
+        page.totalCount > MAX_SNAPSHOT_STUDIES
+      ) {
+        throw new McpError(
+          BaseErrorCode.INVALID_INPUT,
+          `The search matches ${page.totalCount} studies, which exceeds the limit of ${MAX_SNAPSHOT_STUDIES} for a saved search. Please use a more specific query.`,
+          { totalStudies: page.totalCount, limit: MAX_SNAPSHOT_STUDIES },
+        );
+      }
+      for (const study of page.studies ?? []) {
+        const nctId = study.protocolSection?.identificationModule?.nctId;
+        if (!nctId) continue;
+        studies.set(nctId, {
+          title: study.protocolSection?.identificationModule?.briefTitle,
+          status: study.protocolSection?.statusModule?.overallStatus,
+        });
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken && studies.size < MAX_SNAPSHOT_STUDIES);
+
+    return { takenAt, studies };
+  }
+
+  /**
+   * Schedules and starts the re-runs of a saved search.
+   * @private
+   */
+  private scheduleRuns(search: SavedSearch): void {
+    const jobId = this.jobId(search.id);
+    schedulerService.schedule(
+      jobId,
+      search.schedule,
+      async (jobContext) => {
+        await this.run(search.id, jobContext);
+      },
+      `Re-run saved search '${search.name}'`,
+    );
+    schedulerService.start(jobId);
+  }
+
+  /**
+   * Checks that a schedule is a valid 5-field cron pattern that does not fire
+   * more often than `SAVED_SEARCH_MIN_INTERVAL_MINUTES`.
+   * @private
+   */
+  private checkSchedule(schedule: string): string | undefined {
+    if (!cron.validate(schedule)) {
+      return `Invalid cron schedule: ${schedule}`;
+    }
+    if (countCronFields(schedule) !== 5) {
+      return `Saved search schedules must be 5-field cron patterns without a seconds field: ${schedule}`;
+    }
+    const { minIntervalMinutes } = config.savedSearches;
+    if (getMinimumCronIntervalMs(schedule) < minIntervalMinutes * 60_000) {
+      return `The schedule '${schedule}' runs more often than the minimum interval of ${minIntervalMinutes} minutes between runs.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Finds a saved search of an owner by name.
+   * @private
+   */
+  private findByName(
+    name: string,
+    owner: string | undefined,
+  ): SavedSearch | undefined {
+    return [...this.searches.values()].find(
+      (search) => search.name === name && search.owner === owner,
+    );
+  }
+
+  /**
+   * Returns the scheduler job ID of a saved search.
+   * @private
+   */
+  private jobId(id: string): string {
+    return `saved-search:${id}`;
+  }
+}
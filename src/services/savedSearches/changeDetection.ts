@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Compares two snapshots of a saved search to find new,
+ * removed, and status-changed studies.
+ * @module src/services/savedSearches/changeDetection
+ */
+
+import type { SearchSnapshot, StudyChangeEvent } from "./types.js";
+
+/**
+ * A detected change, before it is assigned an ID and attributed to a search.
+ */
+export type StudyChange = Omit<
+  StudyChangeEvent,
+  "id" | "searchId" | "searchName" | "detectedAt"
+>;
+
+/**
+ * Lists the changes between two snapshots of a saved search. New studies come
+ * first, then status changes, then removed studies, each in NCT ID order.
+ * @param previous - The earlier snapshot.
+ * @param current - The later snapshot.
+ * @returns The detected changes.
+ */
+export function diffSnapshots(
+  previous: SearchSnapshot,
+  current: SearchSnapshot,
+): StudyChange[] {
+  const added: StudyChange[] = [];
+  const changed: StudyChange[] = [];
+  const removed: StudyChange[] = [];
+
+  for (const nctId of [...current.studies.keys()].sort()) {
+    const entry = current.studies.get(nctId)!;
+    const before = previous.studies.get(nctId);
+    if (!before) {
+      added.push({
+        type: "new",
+        nctId,
+        ...(entry.title && { title: entry.title }),
+        ...(entry.status && { status: entry.status }),
+      });
+    } else if (before.status !== entry.status) {
+      changed.push({
+        type: "statusChanged",
+        nctId,
+        ...(entry.title && { title: entry.title }),
+        ...(before.status && { previousStatus: before.status }),
+        ...(entry.status && { status: entry.status }),
+      });
+    }
+  }
+
+  for (const nctId of [...previous.studies.keys()].sort()) {
+    if (!current.studies.has(nctId)) {
+      const entry = previous.studies.get(nctId)!;
+      removed.push({
+        type: "removed",
+        nctId,
+        ...(entry.title && { title: entry.title }),
+        ...(entry.status && { previousStatus: entry.status }),
+      });
+    }
+  }
+
+  return [...added, ...changed, ...removed];
+}
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Barrel file for the saved searches service module.
+ * @module src/services/savedSearches/index
+ */
+
+export * from "./changeDetection.js";
+export * from "./SavedSearchService.js";
+export * from "./types.js";
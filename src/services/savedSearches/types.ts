@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Defines the schemas and types for saved searches and the
+ * change events detected when they are re-run.
+ * @module src/services/savedSearches/types
+ */
+
+import { z } from "zod";
+
+/**
+ * The query and filter of a saved search, in the shape accepted by
+ * `ClinicalTrialsGovService.listStudies`.
+ */
+export type SavedSearchParams = {
+  query?: Record<string, unknown>;
+  filter?: Record<string, unknown>;
+};
+
+/**
+ * Zod schema for a saved search.
+ */
+export const SavedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  owner: z
+    .string()
+    .optional()
+    .describe("The authenticated client or subject that saved the search."),
+  params: z
+    .object({
+      query: z.record(z.unknown()).optional(),
+      filter: z.record(z.unknown()).optional(),
+    })
+    .describe("The saved query and filter."),
+  schedule: z.string().describe("The cron pattern the search is re-run on."),
+  createdAt: z.string(),
+  lastRunAt: z.string().optional(),
+  lastError: z
+    .string()
+    .optional()
+    .describe("The error of the last run, if it failed."),
+  studyCount: z
+    .number()
+    .int()
+    .optional()
+    .describe("The number of studies in the last snapshot."),
+});
+
+/**
+ * Represents a saved search.
+ */
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
+
+/**
+ * The kinds of change detected between two snapshots of a saved search.
+ * - `new`: A study now matches the search.
+ * - `removed`: A study no longer matches the search.
+ * - `statusChanged`: A matching study's overall status changed.
+ */
+export const StudyChangeTypeSchema = z.enum([
+  "new",
+  "removed",
+  "statusChanged",
+]);
+
+/**
+ * A kind of change detected between two snapshots.
+ */
+export type StudyChangeType = z.infer<typeof StudyChangeTypeSchema>;
+
+/**
+ * Zod schema for a change detected when a saved search is re-run.
+ */
+export const StudyChangeEventSchema = z.object({
+  id: z.string(),
+  searchId: z.string(),
+  searchName: z.string(),
+  detectedAt: z.string(),
+  type: StudyChangeTypeSchema,
+  nctId: z.string(),
+  title: z.string().optional(),
+  previousStatus: z.string().optional(),
+  status: z.string().optional(),
+});
+
+/**
+ * Represents a change detected when a saved search is re-run.
+ */
+export type StudyChangeEvent = z.infer<typeof StudyChangeEventSchema>;
+
+/**
+ * What a snapshot records about each matching study.
+ */
+export interface SnapshotEntry {
+  title?: string;
+  status?: string;
+}
+
+/**
+ * The studies matching a saved search at one point in time, keyed by NCT ID.
+ */
+export interface SearchSnapshot {
+  takenAt: string;
+  studies: Map<string, SnapshotEntry>;
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview A rate limit store on a Supabase (Postgres) project, so that
+ * replicas of the server share their rate limits and quotas. Counters live in
+ * the `rate_limit_counters` table and are incremented atomically by the
+ * `increment_rate_limit` function, both created by the migrations in
+ * `supabase/migrations/`.
+ * @module src/services/supabase/SupabaseRateLimitStore
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import type {
+  RateLimitEntry,
+  RateLimitStore,
+} from "../../utils/security/index.js";
+import type { Database } from "./database.types.js";
+
+/**
+ * A {@link RateLimitStore} shared through a Supabase project.
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  /**
+   * Creates a new `SupabaseRateLimitStore`.
+   * @param client - A Supabase client with the service role key.
+   */
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  public async increment(
+    key: string,
+    cost: number,
+    windowMs: number,
+  ): Promise<RateLimitEntry> {
+    const { data, error } = await this.client.rpc("increment_rate_limit", {
+      p_key: key,
+      p_cost: cost,
+      p_window_ms: windowMs,
+    });
+    if (error || !data?.[0]) {
+      throw new McpError(
+        BaseErrorCode.DATABASE_ERROR,
+        `Supabase increment_rate_limit failed: ${error?.message ?? "no counter returned"}`,
+        { code: error?.code },
+      );
+    }
+    return { count: data[0].count, resetTime: Number(data[0].reset_time) };
+  }
+
+  public async close(): Promise<void> {
+    // The Supabase client is shared and holds no connection to release.
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview The schema of the Supabase database, in the format generated by
+ * `supabase gen types typescript`. It describes the tables created by the
+ * migrations in `supabase/migrations/`; regenerate or update it whenever a
+ * migration changes them.
+ * @module src/services/supabase/database.types
+ */
+
+/**
+ * A value of a `json` or `jsonb` column.
+ */
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+/**
+ * The schema of the Supabase database.
+ */
+export type Database = {
+  public: {
+    Tables: {
+      saved_searches: {
+        Row: {
+          id: string;
+          name: string;
+          owner: string | null;
+          params: Json;
+          schedule: string;
+          created_at: string;
+          last_run_at: string | null;
+          last_error: string | null;
+          study_count: number | null;
+        };
+        Insert: {
+          id: string;
+          name: string;
+          owner?: string | null;
+          params: Json;
+          schedule: string;
+          created_at?: string;
+          last_run_at?: string | null;
+          last_error?: string | null;
+          study_count?: number | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          owner?: string | null;
+          params?: Json;
+          schedule?: string;
+          created_at?: string;
+          last_run_at?: string | null;
+          last_error?: string | null;
+          study_count?: number | null;
+        };
+        Relationships: [];
+      };
+      search_snapshots: {
+        Row: {
+          search_id: string;
+          taken_at: string;
+          studies: Json;
+        };
+        Insert: {
+          search_id: string;
+          taken_at: string;
+          studies: Json;
+        };
+        Update: {
+          search_id?: string;
+          taken_at?: string;
+          studies?: Json;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "search_snapshots_search_id_fkey";
+            columns: ["search_id"];
+            isOneToOne: true;
+            referencedRelation: "saved_searches";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      study_annotations: {
+        Row: {
+          id: string;
+          nct_id: string;
+          note: string;
+          tags: string[];
+          author: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          nct_id: string;
+          note: string;
+          tags?: string[];
+          author?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          nct_id?: string;
+          note?: string;
+          tags?: string[];
+          author?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      analysis_results: {
+        Row: {
+          id: string;
+          analysis_type: string;
+          params: Json;
+          result: Json;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          analysis_type: string;
+          params: Json;
+          result: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          analysis_type?: string;
+          params?: Json;
+          result?: Json;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      api_keys: {
+        Row: {
+          id: string;
+          client_id: string;
+          key_hash: string;
+          scopes: string[];
+          expires_at: string | null;
+          revoked_at: string | null;
+          last_used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          client_id: string;
+          key_hash: string;
+          scopes: string[];
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          last_used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          client_id?: string;
+          key_hash?: string;
+          scopes?: string[];
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          last_used_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      rate_limit_counters: {
+        Row: {
+          key: string;
+          count: number;
+          reset_at: string;
+        };
+        Insert: {
+          key: string;
+          count: number;
+          reset_at: string;
+        };
+        Update: {
+          key?: string;
+          count?: number;
+          reset_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      increment_rate_limit: {
+        Args: {
+          p_key: string;
+          p_cost: number;
+          p_window_ms: number;
+        };
+        Returns: {
+          count: number;
+          reset_time: number;
+        }[];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+/**
+ * The row type of a table in the public schema.
+ */
+export type Tables<T extends keyof Database["public"]["Tables"]> =
+  Database["public"]["Tables"][T]["Row"];
+
+/**
+ * The insert type of a table in the public schema.
+ */
+export type TablesInsert<T extends keyof Database["public"]["Tables"]> =
+  Database["public"]["Tables"][T]["Insert"];
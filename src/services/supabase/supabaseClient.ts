@@ -11,10 +11,7 @@ import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { config } from "../../config/index.js";
 import { BaseErrorCode, McpError } from "../../types-global/errors.js";
 import { logger, requestContextService } from "../../utils/index.js";
-
-// Define a type for our database schema if we have one.
-// For now, we'll use `Record<string, unknown>` but this should be replaced with generated types.
-type Database = Record<string, unknown>;
+import type { Database } from "./database.types.js";
 
 let supabase: SupabaseClient<Database> | null = null;
 let supabaseAdmin: SupabaseClient<Database> | null = null;
@@ -0,0 +1,521 @@
+/**
+ * @fileoverview A local SQLite warehouse of ClinicalTrials.gov studies, filled
+ * from API pages or bulk JSON exports and searched offline with FTS5. It lists
+ * studies with the same parameters as `ClinicalTrialsGovService.listStudies`,
+ * so the search and analysis tools can read from it instead of the live API,
+ * without the API's rate limits or the analysis cap. It uses the built-in
+ * `node:sqlite` module, which is available from Node.js 22.5.
+ * @module src/services/warehouse/StudyWarehouse
+ */
+
+import { createReadStream } from "fs";
+import { readdir, readFile, stat } from "fs/promises";
+import type { DatabaseSync, StatementSync } from "node:sqlite";
+import path from "path";
+import { createInterface } from "readline";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import { logger, type RequestContext } from "../../utils/index.js";
+import { ClinicalTrialsGovService } from "../clinical-trials-gov/ClinicalTrialsGovService.js";
+import type { PagedStudies, Study } from "../clinical-trials-gov/types.js";
+import {
+  applySqliteMigrations,
+  openSqliteDatabase,
+} from "../persistence/sqlite/database.js";
+import { normalizeStudy } from "./normalize.js";
+import {
+  buildWarehouseQuery,
+  encodePageToken,
+  MAX_WAREHOUSE_PAGE_SIZE,
+  projectFields,
+} from "./query.js";
+import { WAREHOUSE_MIGRATIONS } from "./schema.js";
+import type {
+  IngestOptions,
+  IngestResult,
+  StudyLister,
+  WarehouseStats,
+} from "./types.js";
+
+/** The number of studies written per transaction. */
+const BATCH_SIZE = 500;
+const API_CALL_DELAY_MS = 250;
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * The great-circle distance between two points, in kilometres. Registered as
+ * the `distance_km` SQL function for the geo filter.
+ * @private
+ */
+function distanceKm(
+  lat1: unknown,
+  lon1: unknown,
+  lat2: unknown,
+  lon2: unknown,
+): number | null {
+  if ([lat1, lon1, lat2, lon2].some((value) => typeof value !== "number")) {
+    return null;
+  }
+  const rad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = rad((lat2 as number) - (lat1 as number));
+  const dLon = rad((lon2 as number) - (lon1 as number));
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(lat1 as number)) *
+      Math.cos(rad(lat2 as number)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Reads the studies of a parsed JSON document: an array of studies, an API
+ * page (`{ studies: [...] }`), or a single study.
+ * @private
+ */
+function studiesOf(document: unknown, file: string): Study[] {
+  if (Array.isArray(document)) return document as Study[];
+  if (typeof document === "object" && document !== null) {
+    const { studies, protocolSection } = document as Record<string, unknown>;
+    if (Array.isArray(studies)) return studies as Study[];
+    if (protocolSection) return [document as Study];
+  }
+  throw new McpError(
+    BaseErrorCode.INVALID_INPUT,
+    `'${file}' is not a study, an array of studies, or a page of studies.`,
+    { file },
+  );
+}
+
+/**
+ * Parses a JSON document, reporting the file it came from on failure.
+ * @private
+ */
+function parseJson(text: string, file: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new McpError(
+      BaseErrorCode.INVALID_INPUT,
+      `'${file}' is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      { file },
+    );
+  }
+}
+
+/**
+ * Yields the studies of a bulk export: a JSON file, a JSON Lines file
+ * (`.jsonl` or `.ndjson`, one study per line), or a directory of JSON files,
+ * such as the unzipped ClinicalTrials.gov JSON download.
+ * @private
+ */
+async function* readStudies(filePath: string): AsyncGenerator<Study> {
+  const info = await stat(filePath).catch(() => {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `The file or directory '${filePath}' does not exist.`,
+      { filePath },
+    );
+  });
+
+  if (info.isDirectory()) {
+    const entries = (await readdir(filePath))
+      .filter((entry) => entry.toLowerCase().endsWith(".json"))
+      .sort();
+    for (const entry of entries) {
+      const file = path.join(filePath, entry);
+      yield* studiesOf(parseJson(await readFile(file, "utf8"), file), file);
+    }
+    return;
+  }
+
+  if (/\.(jsonl|ndjson)$/i.test(filePath)) {
+    const lines = createInterface({
+      input: createReadStream(filePath, "utf8"),
+      crlfDelay: Infinity,
+    });
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+      yield parseJson(line, `${filePath}:${lineNumber}`) as Study;
+    }
+    return;
+  }
+
+  yield* studiesOf(
+    parseJson(await readFile(filePath, "utf8"), filePath),
+    filePath,
+  );
+}
+
+/**
+ * A local SQLite warehouse of studies.
+ */
+export class StudyWarehouse implements StudyLister {
+  /**
+   * Creates a warehouse on an open database. Use {@link StudyWarehouse.open}
+   * to open a database file.
+   * @param db - The open database.
+   */
+  constructor(private readonly db: DatabaseSync) {
+    db.function("distance_km", { deterministic: true }, distanceKm);
+  }
+
+  /**
+   * Opens (or creates) a warehouse database file.
+   * @param filePath - The database file, or `:memory:` for a private in-memory database.
+   * @returns A promise that resolves with the warehouse, not yet migrated.
+   * @throws {McpError} If `node:sqlite` is not available in this Node.js runtime.
+   */
+  public static async open(filePath: string): Promise<StudyWarehouse> {
+    return new StudyWarehouse(await openSqliteDatabase(filePath));
+  }
+
+  /**
+   * Applies the migrations that have not been applied yet.
+   * @param context - The request context for logging.
+   */
+  public async migrate(context: RequestContext): Promise<void> {
+    applySqliteMigrations(this.db, WAREHOUSE_MIGRATIONS, context);
+  }
+
+  /**
+   * Stores studies, replacing any stored study with the same NCT ID. Studies
+   * are written in batches, each in its own transaction, and the run is
+   * recorded in `ingest_runs`.
+   * @param studies - The studies to store.
+   * @param source - A description of where the studies came from.
+   * @param context - The request context for logging.
+   * @param options - An optional study limit and progress callback.
+   * @returns A promise that resolves with a summary of the run.
+   */
+  public async ingestStudies(
+    studies: Iterable<Study> | AsyncIterable<Study>,
+    source: string,
+    context: RequestContext,
+    options: IngestOptions = {},
+  ): Promise<IngestResult> {
+    const { maxStudies = Infinity, onProgress } = options;
+    const startedAt = new Date().toISOString();
+    let ingested = 0;
+    let skipped = 0;
+    let batch: Study[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      this.writeBatch(batch);
+      ingested += batch.length;
+      batch = [];
+      logger.debug(`Ingested ${ingested} studies from ${source}.`, context);
+      await onProgress?.(ingested);
+    };
+
+    for await (const study of studies) {
+      if (!study?.protocolSection?.identificationModule?.nctId) {
+        skipped++;
+        continue;
+      }
+      batch.push(study);
+      if (batch.length >= BATCH_SIZE) await flush();
+      if (ingested + batch.length >= maxStudies) break;
+    }
+    await flush();
+
+    const result: IngestResult = {
+      source,
+      ingested,
+      skipped,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+    };
+    this.db
+      .prepare(
+        `INSERT INTO ingest_runs (source, started_at, finished_at, ingested, skipped)
+         VALUES (:source, :startedAt, :finishedAt, :ingested, :skipped)`,
+      )
+      .run(result);
+    logger.info(
+      `Ingested ${ingested} studies into the warehouse (${skipped} skipped).`,
+      { ...context, source },
+    );
+    return result;
+  }
+
+  /**
+   * Fetches the studies matching a search from the live API and stores them.
+   * @param params - The query and filter parameters, as for `listStudies`.
+   * @param context - The request context for logging.
+   * @param options - An optional study limit and progress callback.
+   * @returns A promise that resolves with a summary of the run.
+   */
+  public async ingestFromApi(
+    params: Record<string, unknown>,
+    context: RequestContext,
+    options: IngestOptions = {},
+  ): Promise<IngestResult> {
+    const service = ClinicalTrialsGovService.getInstance();
+    async function* pages(): AsyncGenerator<Study> {
+      let pageToken: string | undefined;
+      do {
+        const page: PagedStudies = await service.listStudies(
+          { ...params, pageToken, pageSize: MAX_WAREHOUSE_PAGE_SIZE },
+          context,
+        );
+        yield* page.studies ?? [];
+        pageToken = page.nextPageToken;
+        if (pageToken) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, API_CALL_DELAY_MS),
+          );
+        }
+      } while (pageToken);
+    }
+    return this.ingestStudies(
+      pages(),
+      `api ${JSON.stringify(params)}`,
+      context,
+      options,
+    );
+  }
+
+  /**
+   * Reads the studies of a bulk export and stores them. Accepts a JSON file
+   * holding a study, an array of studies, or an API page; a JSON Lines file
+   * (`.jsonl` or `.ndjson`); or a directory of such JSON files, such as the
+   * unzipped ClinicalTrials.gov JSON download.
+   * @param filePath - The file or directory.
+   * @param context - The request context for logging.
+   * @param options - An optional study limit and progress callback.
+   * @returns A promise that resolves with a summary of the run.
+   * @throws {McpError} If the path does not exist or holds invalid JSON.
+   */
+  public async ingestFromFile(
+    filePath: string,
+    context: RequestContext,
+    options: IngestOptions = {},
+  ): Promise<IngestResult> {
+    return this.ingestStudies(
+      readStudies(filePath),
+      path.resolve(filePath),
+      context,
+      options,
+    );
+  }
+
+  /**
+   * Lists the stored studies matching a search, with the parameters of
+   * `ClinicalTrialsGovService.listStudies`. Query areas are searched with
+   * FTS5 and ranked by relevance unless a sort is given.
+   * @param params - The query, filter, fields, sort, pageSize, pageToken, and countTotal parameters.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with a page of studies.
+   * @throws {McpError} If the warehouse is empty or a parameter is only supported by the live API.
+   */
+  public async listStudies(
+    params: Record<string, unknown>,
+    context: RequestContext,
+  ): Promise<PagedStudies> {
+    if (!this.db.prepare("SELECT 1 FROM studies LIMIT 1").get()) {
+      throw new McpError(
+        BaseErrorCode.SERVICE_NOT_INITIALIZED,
+        "The local study warehouse is empty. Fill it with 'npm run warehouse:ingest' before searching with source 'local'.",
+      );
+    }
+    const query = buildWarehouseQuery(params);
+    logger.debug("Querying the study warehouse.", {
+      ...context,
+      from: query.from,
+    });
+
+    const rows = this.run(() =>
+      this.db
+        .prepare(
+          `SELECT s.data ${query.from} ORDER BY ${query.orderBy} LIMIT :limit OFFSET :offset`,
+        )
+        .all({
+          ...query.params,
+          limit: query.pageSize + 1,
+          offset: query.offset,
+        }),
+    );
+    const studies = rows.slice(0, query.pageSize).map((row) => {
+      const record = JSON.parse(String(row.data));
+      return (
+        query.fields ? projectFields(record, query.fields) : record
+      ) as Study;
+    });
+
+    const page: PagedStudies = { studies };
+    if (rows.length > query.pageSize) {
+      page.nextPageToken = encodePageToken(query.offset + query.pageSize);
+    }
+    if (params.countTotal) {
+      const row = this.run(() =>
+        this.db
+          .prepare(`SELECT COUNT(*) AS total ${query.from}`)
+          .get(query.params),
+      );
+      page.totalCount = Number(row?.total ?? 0);
+    }
+    return page;
+  }
+
+  /**
+   * Counts the stored rows and reports when the warehouse was last filled.
+   * @returns A promise that resolves with the statistics.
+   */
+  public async getStats(): Promise<WarehouseStats> {
+    const count = (table: string) =>
+      Number(
+        this.db.prepare(`SELECT COUNT(*) AS total FROM ${table}`).get()?.total,
+      );
+    const last = this.db
+      .prepare("SELECT MAX(finished_at) AS finished_at FROM ingest_runs")
+      .get()?.finished_at;
+    return {
+      studies: count("studies"),
+      conditions: count("conditions"),
+      interventions: count("interventions"),
+      locations: count("locations"),
+      sponsors: count("sponsors"),
+      outcomes: count("outcomes"),
+      ...(typeof last === "string" && { lastIngestedAt: last }),
+    };
+  }
+
+  /**
+   * Closes the database.
+   */
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /**
+   * Runs a warehouse query, reporting malformed search expressions as invalid
+   * input.
+   * @private
+   */
+  private run<T>(query: () => T): T {
+    try {
+      return query();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new McpError(
+        /fts5/i.test(message)
+          ? BaseErrorCode.INVALID_INPUT
+          : BaseErrorCode.DATABASE_ERROR,
+        `The study warehouse query failed: ${message}`,
+      );
+    }
+  }
+
+  /**
+   * Replaces the stored rows of a batch of studies in one transaction.
+   * @private
+   */
+  private writeBatch(studies: Study[]): void {
+    const statements = this.statements();
+    const ingestedAt = new Date().toISOString();
+    this.db.exec("BEGIN");
+    try {
+      for (const record of studies) {
+        const normalized = normalizeStudy(record);
+        if (!normalized) continue;
+        const { study, fts } = normalized;
+        // Deleting the study cascades to its child rows.
+        statements.deleteFts.run(study.nctId);
+        statements.deleteStudy.run(study.nctId);
+        const { lastInsertRowid } = statements.insertStudy.run({
+          ...study,
+          phases: JSON.stringify(study.phases),
+          hasResults: study.hasResults ? 1 : 0,
+          data: JSON.stringify(record),
+          ingestedAt,
+        });
+        for (const condition of normalized.conditions) {
+          statements.insertCondition.run(study.nctId, condition);
+        }
+        for (const { type, name } of normalized.interventions) {
+          statements.insertIntervention.run(study.nctId, type, name);
+        }
+        for (const location of normalized.locations) {
+          statements.insertLocation.run({ nctId: study.nctId, ...location });
+        }
+        for (const sponsor of normalized.sponsors) {
+          statements.insertSponsor.run(
+            study.nctId,
+            sponsor.name,
+            sponsor.class,
+            sponsor.role,
+          );
+        }
+        for (const outcome of normalized.outcomes) {
+          statements.insertOutcome.run(
+            study.nctId,
+            outcome.type,
+            outcome.measure,
+            outcome.timeFrame,
+          );
+        }
+        statements.insertFts.run({ id: lastInsertRowid, ...fts });
+      }
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw new McpError(
+        BaseErrorCode.DATABASE_ERROR,
+        `Failed to store studies in the warehouse: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Prepares the statements used to store studies.
+   * @private
+   */
+  private statements(): Record<string, StatementSync> {
+    return {
+      deleteStudy: this.db.prepare("DELETE FROM studies WHERE nct_id = ?"),
+      deleteFts: this.db.prepare(
+        "DELETE FROM studies_fts WHERE rowid = (SELECT id FROM studies WHERE nct_id = ?)",
+      ),
+      insertStudy: this.db.prepare(
+        `INSERT INTO studies (
+           nct_id, brief_title, official_title, acronym, overall_status,
+           study_type, phases, lead_sponsor, lead_sponsor_class, enrollment,
+           start_date, primary_completion_date, completion_date,
+           last_update_post_date, has_results, data, ingested_at)
+         VALUES (
+           :nctId, :briefTitle, :officialTitle, :acronym, :overallStatus,
+           :studyType, :phases, :leadSponsor, :leadSponsorClass, :enrollment,
+           :startDate, :primaryCompletionDate, :completionDate,
+           :lastUpdatePostDate, :hasResults, :data, :ingestedAt)`,
+      ),
+      insertCondition: this.db.prepare(
+        "INSERT INTO conditions (nct_id, condition) VALUES (?, ?)",
+      ),
+      insertIntervention: this.db.prepare(
+        "INSERT INTO interventions (nct_id, type, name) VALUES (?, ?, ?)",
+      ),
+      insertLocation: this.db.prepare(
+        `INSERT INTO locations
+           (nct_id, facility, city, state, country, status, latitude, longitude)
+         VALUES
+           (:nctId, :facility, :city, :state, :country, :status, :latitude, :longitude)`,
+      ),
+      insertSponsor: this.db.prepare(
+        "INSERT INTO sponsors (nct_id, name, class, role) VALUES (?, ?, ?, ?)",
+      ),
+      insertOutcome: this.db.prepare(
+        "INSERT INTO outcomes (nct_id, type, measure, time_frame) VALUES (?, ?, ?, ?)",
+      ),
+      insertFts: this.db.prepare(
+        `INSERT INTO studies_fts (
+           rowid, identifiers, titles, conditions, keywords, interventions,
+           outcomes, sponsors, locations, summary)
+         VALUES (
+           :id, :identifiers, :titles, :conditions, :keywords, :interventions,
+           :outcomes, :sponsors, :locations, :summary)`,
+      ),
+    };
+  }
+}
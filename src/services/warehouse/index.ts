@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Barrel file for the local study warehouse. Shares one open
+ * warehouse, at the path configured by `WAREHOUSE_SQLITE_PATH`, across the
+ * server.
+ * @module src/services/warehouse/index
+ */
+
+import { config } from "../../config/index.js";
+import type { RequestContext } from "../../utils/index.js";
+import { StudyWarehouse } from "./StudyWarehouse.js";
+
+export * from "./types.js";
+export { StudyWarehouse } from "./StudyWarehouse.js";
+export { normalizeStudy, type NormalizedStudy } from "./normalize.js";
+
+let warehouse: Promise<StudyWarehouse> | null = null;
+
+/**
+ * Returns the configured study warehouse, opening and migrating it on first
+ * use.
+ * @param context - The request context for logging.
+ * @returns A promise that resolves with the warehouse.
+ * @throws {McpError} If `node:sqlite` is not available or the migration fails.
+ */
+export function getStudyWarehouse(
+  context: RequestContext,
+): Promise<StudyWarehouse> {
+  if (!warehouse) {
+    warehouse = StudyWarehouse.open(config.warehouse.sqlitePath).then(
+      async (opened) => {
+        await opened.migrate(context);
+        return opened;
+      },
+    );
+    // Let a later call retry after a failed open.
+    warehouse.catch(() => {
+      warehouse = null;
+    });
+  }
+  return warehouse;
+}
+
+/**
+ * Closes the study warehouse, if it is open.
+ */
+export async function closeStudyWarehouse(): Promise<void> {
+  const opened = await warehouse?.catch(() => null);
+  warehouse = null;
+  await opened?.close();
+}
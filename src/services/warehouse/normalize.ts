@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Flattens API study records into the rows of the warehouse
+ * tables and the text of their full-text index entry.
+ * @module src/services/warehouse/normalize
+ */
+
+import type { Study } from "../clinical-trials-gov/types.js";
+
+/**
+ * The rows stored for one study.
+ */
+export interface NormalizedStudy {
+  study: {
+    nctId: string;
+    briefTitle: string | null;
+    officialTitle: string | null;
+    acronym: string | null;
+    overallStatus: string | null;
+    studyType: string | null;
+    phases: string[];
+    leadSponsor: string | null;
+    leadSponsorClass: string | null;
+    enrollment: number | null;
+    startDate: string | null;
+    primaryCompletionDate: string | null;
+    completionDate: string | null;
+    lastUpdatePostDate: string | null;
+    hasResults: boolean;
+  };
+  conditions: string[];
+  interventions: { type: string | null; name: string }[];
+  locations: {
+    facility: string | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    status: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  }[];
+  sponsors: {
+    name: string;
+    class: string | null;
+    role: "lead" | "collaborator";
+  }[];
+  outcomes: {
+    type: "primary" | "secondary" | "other";
+    measure: string;
+    timeFrame: string | null;
+  }[];
+  /** The text of each full-text index column. */
+  fts: {
+    identifiers: string;
+    titles: string;
+    conditions: string;
+    keywords: string;
+    interventions: string;
+    outcomes: string;
+    sponsors: string;
+    locations: string;
+    summary: string;
+  };
+}
+
+/**
+ * Reads an optional string.
+ * @private
+ */
+const str = (value: unknown): string | null =>
+  typeof value === "string" && value.length > 0 ? value : null;
+
+/**
+ * Reads an optional number.
+ * @private
+ */
+const num = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/**
+ * Reads an array of strings, ignoring other values.
+ * @private
+ */
+const strings = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string" && v.length > 0)
+    : [];
+
+/**
+ * Reads an array of objects, ignoring other values.
+ * @private
+ */
+const records = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (v): v is Record<string, unknown> =>
+          typeof v === "object" && v !== null,
+      )
+    : [];
+
+/**
+ * Joins the non-empty values with newlines, for a full-text index column.
+ * @private
+ */
+const text = (values: (string | null | undefined)[]): string =>
+  values.filter(Boolean).join("\n");
+
+/**
+ * Flattens a study into warehouse rows.
+ * @param record - The study, as returned by the API or a bulk export.
+ * @returns The rows, or `undefined` if the record has no NCT ID.
+ */
+export function normalizeStudy(record: Study): NormalizedStudy | undefined {
+  const protocol = record.protocolSection;
+  const identification = protocol?.identificationModule;
+  const nctId = str(identification?.nctId)?.toUpperCase();
+  if (!nctId) return undefined;
+
+  const status = protocol?.statusModule;
+  const sponsorModule = protocol?.sponsorCollaboratorsModule;
+  const lastUpdate = (
+    status as { lastUpdatePostDateStruct?: { date?: unknown } } | undefined
+  )?.lastUpdatePostDateStruct;
+  const secondaryIds = records(
+    (identification as { secondaryIdInfos?: unknown } | undefined)
+      ?.secondaryIdInfos,
+  ).map((info) => str(info.id));
+
+  const conditions = strings(protocol?.conditionsModule?.conditions);
+  const keywords = strings(protocol?.conditionsModule?.keywords);
+
+  const interventions = records(
+    protocol?.armsInterventionsModule?.interventions,
+  ).flatMap((intervention) => {
+    const name = str(intervention.name);
+    if (!name) return [];
+    const otherNames = strings(intervention.otherNames);
+    return [{ type: str(intervention.type), name, otherNames }];
+  });
+
+  const locations = records(protocol?.contactsLocationsModule?.locations).map(
+    (location) => {
+      const geoPoint = (location.geoPoint ?? {}) as Record<string, unknown>;
+      return {
+        facility: str(location.facility),
+        city: str(location.city),
+        state: str(location.state),
+        country: str(location.country),
+        status: str(location.status),
+        latitude: num(geoPoint.lat),
+        longitude: num(geoPoint.lon),
+      };
+    },
+  );
+
+  const leadSponsor = str(sponsorModule?.leadSponsor?.name);
+  const sponsors: NormalizedStudy["sponsors"] = [
+    ...(leadSponsor
+      ? [
+          {
+            name: leadSponsor,
+            class: str(sponsorModule?.leadSponsor?.class),
+            role: "lead" as const,
+          },
+        ]
+      : []),
+    ...records(sponsorModule?.collaborators).flatMap((collaborator) => {
+      const name = str(collaborator.name);
+      return name
+        ? [
+            {
+              name,
+              class: str(collaborator.class),
+              role: "collaborator" as const,
+            },
+          ]
+        : [];
+    }),
+  ];
+
+  const outcomesModule = (protocol?.outcomesModule ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const outcomes = (
+    [
+      ["primary", outcomesModule.primaryOutcomes],
+      ["secondary", outcomesModule.secondaryOutcomes],
+      ["other", outcomesModule.otherOutcomes],
+    ] as const
+  ).flatMap(([type, list]) =>
+    records(list).flatMap((outcome) => {
+      const measure = str(outcome.measure);
+      return measure
+        ? [{ type, measure, timeFrame: str(outcome.timeFrame) }]
+        : [];
+    }),
+  );
+
+  const briefTitle = str(identification?.briefTitle);
+  const officialTitle = str(identification?.officialTitle);
+  const acronym = str(identification?.acronym);
+
+  return {
+    study: {
+      nctId,
+      briefTitle,
+      officialTitle,
+      acronym,
+      overallStatus: str(status?.overallStatus),
+      studyType: str(protocol?.designModule?.studyType),
+      phases: strings(protocol?.designModule?.phases),
+      leadSponsor,
+      leadSponsorClass: str(sponsorModule?.leadSponsor?.class),
+      enrollment: num(protocol?.designModule?.enrollmentInfo?.count),
+      startDate: str(status?.startDateStruct?.date),
+      primaryCompletionDate: str(status?.primaryCompletionDateStruct?.date),
+      completionDate: str(status?.completionDateStruct?.date),
+      lastUpdatePostDate: str(lastUpdate?.date),
+      hasResults: record.hasResults === true || !!record.resultsSection,
+    },
+    conditions,
+    interventions: interventions.map(({ type, name }) => ({ type, name })),
+    locations,
+    sponsors,
+    outcomes,
+    fts: {
+      identifiers: text([
+        nctId,
+        str(identification?.orgStudyIdInfo?.id),
+        ...secondaryIds,
+      ]),
+      titles: text([briefTitle, officialTitle, acronym]),
+      conditions: text(conditions),
+      keywords: text(keywords),
+      interventions: text(
+        interventions.flatMap((i) => [i.name, ...i.otherNames]),
+      ),
+      outcomes: text(outcomes.map((o) => o.measure)),
+      sponsors: text(sponsors.map((s) => s.name)),
+      locations: text(
+        locations.map((l) =>
+          [l.facility, l.city, l.state, l.country].filter(Boolean).join(", "),
+        ),
+      ),
+      summary: text([
+        str(protocol?.descriptionModule?.briefSummary),
+        str(protocol?.descriptionModule?.detailedDescription),
+      ]),
+    },
+  };
+}
@@ -0,0 +1,456 @@
+/**
+ * @fileoverview Translates the query, filter, sort, field, and paging
+ * parameters of the ClinicalTrials.gov `/studies` endpoint into SQL over the
+ * local study warehouse. Query terms become an FTS5 match expression with each
+ * query area limited to its columns of `studies_fts`. Essie-only syntax, such
+ * as `AREA[...]` expressions and `filter.advanced`, is rejected rather than
+ * approximated.
+ * @module src/services/warehouse/query
+ */
+
+import type { SQLInputValue } from "node:sqlite";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+
+/**
+ * The `studies_fts` columns searched by each query area. `term` searches
+ * every column.
+ * @private
+ */
+const QUERY_COLUMNS: Record<string, string[] | null> = {
+  cond: ["conditions", "keywords"],
+  term: null,
+  locn: ["locations"],
+  titles: ["titles"],
+  intr: ["interventions"],
+  outc: ["outcomes"],
+  spons: ["sponsors"],
+  id: ["identifiers"],
+};
+
+/**
+ * The `studies` columns of the sortable fields, keyed by API piece name, and
+ * whether they sort in descending order by default, as the API does for dates
+ * and numbers.
+ * @private
+ */
+const SORT_COLUMNS: Record<string, { column: string; descending: boolean }> = {
+  NCTId: { column: "s.nct_id", descending: false },
+  BriefTitle: { column: "s.brief_title", descending: false },
+  OverallStatus: { column: "s.overall_status", descending: false },
+  EnrollmentCount: { column: "s.enrollment", descending: true },
+  StartDate: { column: "s.start_date", descending: true },
+  PrimaryCompletionDate: {
+    column: "s.primary_completion_date",
+    descending: true,
+  },
+  CompletionDate: { column: "s.completion_date", descending: true },
+  LastUpdatePostDate: { column: "s.last_update_post_date", descending: true },
+};
+
+/**
+ * The study paths of the API piece names accepted in `fields`. Any dotted
+ * path, such as `protocolSection.designModule.phases`, is accepted as well.
+ * @private
+ */
+const FIELD_PIECES: Record<string, string> = {
+  NCTId: "protocolSection.identificationModule.nctId",
+  BriefTitle: "protocolSection.identificationModule.briefTitle",
+  OfficialTitle: "protocolSection.identificationModule.officialTitle",
+  Acronym: "protocolSection.identificationModule.acronym",
+  OverallStatus: "protocolSection.statusModule.overallStatus",
+  StartDate: "protocolSection.statusModule.startDateStruct",
+  PrimaryCompletionDate:
+    "protocolSection.statusModule.primaryCompletionDateStruct",
+  CompletionDate: "protocolSection.statusModule.completionDateStruct",
+  LastUpdatePostDate: "protocolSection.statusModule.lastUpdatePostDateStruct",
+  LeadSponsorName: "protocolSection.sponsorCollaboratorsModule.leadSponsor",
+  Condition: "protocolSection.conditionsModule.conditions",
+  Keyword: "protocolSection.conditionsModule.keywords",
+  InterventionName:
+    "protocolSection.armsInterventionsModule.interventions.name",
+  Phase: "protocolSection.designModule.phases",
+  StudyType: "protocolSection.designModule.studyType",
+  EnrollmentCount: "protocolSection.designModule.enrollmentInfo",
+  BriefSummary: "protocolSection.descriptionModule.briefSummary",
+  LocationCountry: "protocolSection.contactsLocationsModule.locations.country",
+  HasResults: "hasResults",
+};
+
+/** The largest page the warehouse returns. */
+export const MAX_WAREHOUSE_PAGE_SIZE = 1000;
+const DEFAULT_PAGE_SIZE = 10;
+const KM_PER_MILE = 1.609344;
+
+/**
+ * A query over the `studies` table, aliased `s`.
+ */
+export interface WarehouseQuery {
+  /** The `FROM` and `WHERE` clauses. */
+  from: string;
+  /** The `ORDER BY` clause. */
+  orderBy: string;
+  /** The named parameters of `from`. */
+  params: Record<string, SQLInputValue>;
+  /** The study paths to return, or `undefined` for the whole record. */
+  fields?: string[];
+  pageSize: number;
+  offset: number;
+}
+
+/**
+ * Throws an invalid input error.
+ * @private
+ */
+function invalid(message: string, details?: Record<string, unknown>): never {
+  throw new McpError(BaseErrorCode.INVALID_INPUT, message, details);
+}
+
+/**
+ * Reads a list parameter given as an array or a comma-separated string.
+ * @private
+ */
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(",");
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Translates an Essie search expression into an FTS5 match expression. Words
+ * and quoted phrases are matched as phrases, and `AND`, `OR`, `NOT`, and
+ * parentheses are kept. Adjacent terms are implicitly joined with `AND`, as in
+ * Essie.
+ * @param text - The search expression.
+ * @returns The FTS5 expression, or `undefined` if the text has no terms.
+ * @throws {McpError} If the expression uses syntax the warehouse cannot search.
+ */
+export function toFtsQuery(text: string): string | undefined {
+  const tokens: string[] = [];
+  let depth = 0;
+  for (const [token, phrase] of text.matchAll(/"([^"]*)"|[()]|[^\s()"]+/g)) {
+    if (phrase !== undefined) {
+      if (phrase.trim()) tokens.push(`"${phrase.trim()}"`);
+    } else if (token === "(" || token === ")") {
+      depth += token === "(" ? 1 : -1;
+      if (depth < 0) invalid(`Unbalanced parentheses in '${text}'.`);
+      tokens.push(token);
+    } else if (["AND", "OR", "NOT"].includes(token)) {
+      tokens.push(token);
+    } else if (/[[\]]/.test(token)) {
+      invalid(
+        `The local study warehouse does not support Essie operators such as '${token}'. Use source 'api' for this query.`,
+        { expression: text },
+      );
+    } else {
+      tokens.push(`"${token}"`);
+    }
+  }
+  if (depth !== 0) invalid(`Unbalanced parentheses in '${text}'.`);
+  if (tokens.length === 0) return undefined;
+  if (tokens[0] === "NOT") {
+    invalid(
+      `The local study warehouse cannot search for '${text}': 'NOT' must follow another term, as in 'cancer NOT lung'.`,
+    );
+  }
+  return tokens.join(" ");
+}
+
+/**
+ * Builds the FTS5 match expression for the query areas of a search.
+ * @private
+ */
+function toMatch(query: Record<string, unknown>): string | undefined {
+  const parts: string[] = [];
+  for (const [area, value] of Object.entries(query)) {
+    if (!value) continue;
+    if (!(area in QUERY_COLUMNS)) {
+      invalid(`The local study warehouse does not support 'query.${area}'.`, {
+        supported: Object.keys(QUERY_COLUMNS),
+      });
+    }
+    const expression = toFtsQuery(String(value));
+    if (!expression) continue;
+    const columns = QUERY_COLUMNS[area];
+    parts.push(
+      columns ? `{${columns.join(" ")}} : (${expression})` : `(${expression})`,
+    );
+  }
+  return parts.length > 0 ? parts.join(" AND ") : undefined;
+}
+
+/**
+ * Reads the geographic filter, given either in the tool's object form or in
+ * the API's `distance(latitude,longitude,radius)` form.
+ * @private
+ */
+function toGeo(value: unknown): {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+} {
+  if (typeof value === "object" && value !== null) {
+    const { latitude, longitude, radius, unit } = value as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof latitude === "number" &&
+      typeof longitude === "number" &&
+      typeof radius === "number"
+    ) {
+      return {
+        latitude,
+        longitude,
+        radiusKm: unit === "mi" ? radius * KM_PER_MILE : radius,
+      };
+    }
+  } else {
+    const match = String(value).match(
+      /^distance\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*([\d.]+)\s*(km|mi)?\s*\)$/,
+    );
+    if (match) {
+      const radius = Number(match[3]);
+      return {
+        latitude: Number(match[1]),
+        longitude: Number(match[2]),
+        radiusKm: match[4] === "mi" ? radius * KM_PER_MILE : radius,
+      };
+    }
+  }
+  return invalid(
+    "The geo filter must be a point and radius, as in 'distance(39.0,-77.1,50mi)'.",
+    { geo: value },
+  );
+}
+
+/**
+ * Builds the `ORDER BY` clause for the requested sort.
+ * @private
+ */
+function toOrderBy(sort: unknown, hasMatch: boolean): string {
+  const terms: string[] = [];
+  for (const piece of sort ? toList(sort) : []) {
+    const [name, direction] = piece.split(":");
+    if (direction && !["asc", "desc"].includes(direction)) {
+      invalid(`Invalid sort direction in '${piece}'; use 'asc' or 'desc'.`);
+    }
+    if (name === "@relevance") {
+      if (hasMatch) {
+        terms.push(`bm25(studies_fts) ${direction === "asc" ? "DESC" : "ASC"}`);
+      }
+      continue;
+    }
+    const sortable = SORT_COLUMNS[name];
+    if (!sortable) {
+      invalid(`The local study warehouse cannot sort by '${name}'.`, {
+        supported: ["@relevance", ...Object.keys(SORT_COLUMNS)],
+      });
+    }
+    const descending = direction ? direction === "desc" : sortable.descending;
+    terms.push(
+      `${sortable.column} IS NULL, ${sortable.column} ${descending ? "DESC" : "ASC"}`,
+    );
+  }
+  if (terms.length === 0 && hasMatch) terms.push("bm25(studies_fts)");
+  terms.push("s.nct_id");
+  return terms.join(", ");
+}
+
+/**
+ * Reads the requested fields as study paths.
+ * @private
+ */
+function toFields(fields: unknown): string[] | undefined {
+  if (!fields) return undefined;
+  const paths = toList(fields).map((field) => {
+    if (field.includes(".")) return field;
+    const path = FIELD_PIECES[field];
+    if (path) return path;
+    if (/^[a-z]/.test(field)) return field;
+    return invalid(
+      `The local study warehouse does not recognize the field '${field}'. Use a dotted path such as 'protocolSection.identificationModule.briefTitle'.`,
+      { supportedPieces: Object.keys(FIELD_PIECES) },
+    );
+  });
+  return paths.length > 0 ? paths : undefined;
+}
+
+/**
+ * Encodes a page offset as a page token.
+ * @param offset - The index of the first study of the page.
+ * @returns The page token.
+ */
+export function encodePageToken(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+/**
+ * Decodes a page token created by {@link encodePageToken}.
+ * @private
+ */
+function decodePageToken(token: string): number {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(token, "base64url").toString("utf8"),
+    );
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Reported below.
+  }
+  return invalid("The page token is not a valid local warehouse page token.", {
+    pageToken: token,
+  });
+}
+
+/**
+ * Translates `/studies` parameters into a warehouse query.
+ * @param params - The query, filter, fields, sort, pageSize, and pageToken parameters.
+ * @returns The query.
+ * @throws {McpError} If a parameter uses a feature only the live API supports.
+ */
+export function buildWarehouseQuery(
+  params: Record<string, unknown>,
+): WarehouseQuery {
+  const sqlParams: Record<string, SQLInputValue> = {};
+  const conditions: string[] = [];
+
+  const match =
+    typeof params.query === "object" && params.query !== null
+      ? toMatch(params.query as Record<string, unknown>)
+      : undefined;
+  if (match) {
+    conditions.push("studies_fts MATCH :match");
+    sqlParams.match = match;
+  }
+
+  const filter =
+    typeof params.filter === "object" && params.filter !== null
+      ? (params.filter as Record<string, unknown>)
+      : {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (!value) continue;
+    switch (key) {
+      case "overallStatus":
+        conditions.push(
+          "s.overall_status IN (SELECT value FROM json_each(:statuses))",
+        );
+        sqlParams.statuses = JSON.stringify(toList(value));
+        break;
+      case "ids":
+        conditions.push("s.nct_id IN (SELECT value FROM json_each(:ids))");
+        sqlParams.ids = JSON.stringify(
+          toList(value).flatMap((id) =>
+            id.split(/\s+/).map((part) => part.toUpperCase()),
+          ),
+        );
+        break;
+      case "geo": {
+        const geo = toGeo(value);
+        conditions.push(
+          `EXISTS (SELECT 1 FROM locations l
+             WHERE l.nct_id = s.nct_id
+               AND distance_km(l.latitude, l.longitude, :latitude, :longitude) <= :radiusKm)`,
+        );
+        Object.assign(sqlParams, geo);
+        break;
+      }
+      case "advanced":
+        invalid(
+          "The local study warehouse does not support 'filter.advanced' Essie expressions. Use source 'api' for this query.",
+        );
+        break;
+      default:
+        invalid(`The local study warehouse does not support 'filter.${key}'.`);
+    }
+  }
+
+  const pageSize = Number(params.pageSize ?? DEFAULT_PAGE_SIZE);
+  if (
+    !Number.isInteger(pageSize) ||
+    pageSize < 1 ||
+    pageSize > MAX_WAREHOUSE_PAGE_SIZE
+  ) {
+    invalid(
+      `The page size must be an integer from 1 to ${MAX_WAREHOUSE_PAGE_SIZE}.`,
+    );
+  }
+
+  return {
+    from: [
+      match
+        ? "FROM studies_fts JOIN studies s ON s.id = studies_fts.rowid"
+        : "FROM studies s",
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    ].join(" "),
+    orderBy: toOrderBy(params.sort, !!match),
+    params: sqlParams,
+    fields: toFields(params.fields),
+    pageSize,
+    offset:
+      typeof params.pageToken === "string"
+        ? decodePageToken(params.pageToken)
+        : 0,
+  };
+}
+
+/**
+ * Copies the value at a dotted path, keeping the enclosing objects and mapping
+ * over arrays along the way.
+ * @private
+ */
+function pick(value: unknown, segments: string[]): unknown {
+  if (segments.length === 0 || value === undefined || value === null) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => pick(item, segments) ?? {});
+  }
+  if (typeof value !== "object") return undefined;
+  const [key, ...rest] = segments;
+  if (!(key in value)) return undefined;
+  const child = pick((value as Record<string, unknown>)[key], rest);
+  return child === undefined ? undefined : { [key]: child };
+}
+
+/**
+ * Merges two projections of the same record.
+ * @private
+ */
+function merge(target: unknown, source: unknown): unknown {
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return target.map((item, index) => merge(item, source[index]));
+  }
+  if (
+    typeof target === "object" &&
+    target !== null &&
+    typeof source === "object" &&
+    source !== null
+  ) {
+    const merged: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = key in merged ? merge(merged[key], value) : value;
+    }
+    return merged;
+  }
+  return source ?? target;
+}
+
+/**
+ * Projects a study record onto the requested fields, as the API's `fields`
+ * parameter does.
+ * @param record - The full study record.
+ * @param fields - The study paths to keep.
+ * @returns The projected record.
+ */
+export function projectFields(
+  record: Record<string, unknown>,
+  fields: string[],
+): Record<string, unknown> {
+  return fields.reduce<Record<string, unknown>>(
+    (projected, field) =>
+      merge(projected, pick(record, field.split(".")) ?? {}) as Record<
+        string,
+        unknown
+      >,
+    {},
+  );
+}
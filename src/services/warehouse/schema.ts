@@ -0,0 +1,117 @@
+/**
+ * @fileoverview The schema migrations of the local study warehouse. Each study
+ * is stored as its full API record in `studies.data`, with the columns used for
+ * filtering and sorting extracted alongside it, and its conditions,
+ * interventions, locations, sponsors, and outcomes normalized into child
+ * tables. `studies_fts` is an FTS5 index over the searchable text of each
+ * study, one row per study, keyed by `studies.id`. Never edit an applied migration; append a new one
+ * instead.
+ * @module src/services/warehouse/schema
+ */
+
+import type { SqliteMigration } from "../persistence/sqlite/migrations.js";
+
+/**
+ * The migrations of the study warehouse.
+ */
+export const WAREHOUSE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    name: "create_warehouse_tables",
+    sql: `
+      CREATE TABLE studies (
+        id INTEGER PRIMARY KEY,
+        nct_id TEXT NOT NULL UNIQUE,
+        brief_title TEXT,
+        official_title TEXT,
+        acronym TEXT,
+        overall_status TEXT,
+        study_type TEXT,
+        phases TEXT NOT NULL DEFAULT '[]',
+        lead_sponsor TEXT,
+        lead_sponsor_class TEXT,
+        enrollment INTEGER,
+        start_date TEXT,
+        primary_completion_date TEXT,
+        completion_date TEXT,
+        last_update_post_date TEXT,
+        has_results INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL,
+        ingested_at TEXT NOT NULL
+      );
+      CREATE INDEX studies_overall_status_idx ON studies (overall_status);
+      CREATE INDEX studies_start_date_idx ON studies (start_date);
+      CREATE INDEX studies_last_update_post_date_idx
+        ON studies (last_update_post_date);
+
+      CREATE TABLE conditions (
+        nct_id TEXT NOT NULL REFERENCES studies (nct_id) ON DELETE CASCADE,
+        condition TEXT NOT NULL
+      );
+      CREATE INDEX conditions_nct_id_idx ON conditions (nct_id);
+      CREATE INDEX conditions_condition_idx
+        ON conditions (condition COLLATE NOCASE);
+
+      CREATE TABLE interventions (
+        nct_id TEXT NOT NULL REFERENCES studies (nct_id) ON DELETE CASCADE,
+        type TEXT,
+        name TEXT NOT NULL
+      );
+      CREATE INDEX interventions_nct_id_idx ON interventions (nct_id);
+      CREATE INDEX interventions_name_idx
+        ON interventions (name COLLATE NOCASE);
+
+      CREATE TABLE locations (
+        nct_id TEXT NOT NULL REFERENCES studies (nct_id) ON DELETE CASCADE,
+        facility TEXT,
+        city TEXT,
+        state TEXT,
+        country TEXT,
+        status TEXT,
+        latitude REAL,
+        longitude REAL
+      );
+      CREATE INDEX locations_nct_id_idx ON locations (nct_id);
+      CREATE INDEX locations_country_idx ON locations (country);
+
+      CREATE TABLE sponsors (
+        nct_id TEXT NOT NULL REFERENCES studies (nct_id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        class TEXT,
+        role TEXT NOT NULL CHECK (role IN ('lead', 'collaborator'))
+      );
+      CREATE INDEX sponsors_nct_id_idx ON sponsors (nct_id);
+      CREATE INDEX sponsors_name_idx ON sponsors (name COLLATE NOCASE);
+
+      CREATE TABLE outcomes (
+        nct_id TEXT NOT NULL REFERENCES studies (nct_id) ON DELETE CASCADE,
+        type TEXT NOT NULL CHECK (type IN ('primary', 'secondary', 'other')),
+        measure TEXT NOT NULL,
+        time_frame TEXT
+      );
+      CREATE INDEX outcomes_nct_id_idx ON outcomes (nct_id);
+
+      CREATE VIRTUAL TABLE studies_fts USING fts5 (
+        identifiers,
+        titles,
+        conditions,
+        keywords,
+        interventions,
+        outcomes,
+        sponsors,
+        locations,
+        summary,
+        tokenize = 'porter unicode61 remove_diacritics 2'
+      );
+
+      CREATE TABLE ingest_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT NOT NULL,
+        ingested INTEGER NOT NULL,
+        skipped INTEGER NOT NULL
+      );
+    `,
+  },
+];
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Defines the types of the local study warehouse.
+ * @module src/services/warehouse/types
+ */
+
+import { z } from "zod";
+import type { RequestContext } from "../../utils/index.js";
+import type { PagedStudies } from "../clinical-trials-gov/types.js";
+
+/**
+ * Where studies are read from.
+ * - `api`: The live ClinicalTrials.gov API.
+ * - `local`: The local study warehouse, filled by `npm run warehouse:ingest`.
+ */
+export const StudySourceSchema = z.enum(["api", "local"]);
+
+/**
+ * The source studies are read from.
+ */
+export type StudySource = z.infer<typeof StudySourceSchema>;
+
+/**
+ * Anything that lists studies with the query, filter, field, sort, and paging
+ * parameters of the ClinicalTrials.gov `/studies` endpoint. Implemented by
+ * `ClinicalTrialsGovService` and `StudyWarehouse`.
+ */
+export interface StudyLister {
+  listStudies(
+    params: Record<string, unknown>,
+    context: RequestContext,
+  ): Promise<PagedStudies>;
+}
+
+/**
+ * Zod schema for the summary of an ingest run.
+ */
+export const IngestResultSchema = z.object({
+  source: z.string().describe("The API query or file the studies came from."),
+  ingested: z.number().int().describe("The number of studies stored."),
+  skipped: z
+    .number()
+    .int()
+    .describe("The number of records skipped because they had no NCT ID."),
+  startedAt: z.string(),
+  finishedAt: z.string(),
+});
+
+/**
+ * The summary of an ingest run.
+ */
+export type IngestResult = z.infer<typeof IngestResultSchema>;
+
+/**
+ * Options for an ingest run.
+ */
+export interface IngestOptions {
+  /** Stop after this many studies. */
+  maxStudies?: number;
+  /** Called after each batch of studies is stored. */
+  onProgress?: (ingested: number) => void | Promise<void>;
+}
+
+/**
+ * Zod schema for the row counts and freshness of the warehouse.
+ */
+export const WarehouseStatsSchema = z.object({
+  studies: z.number().int(),
+  conditions: z.number().int(),
+  interventions: z.number().int(),
+  locations: z.number().int(),
+  sponsors: z.number().int(),
+  outcomes: z.number().int(),
+  lastIngestedAt: z.string().optional(),
+});
+
+/**
+ * The row counts and freshness of the warehouse.
+ */
+export type WarehouseStats = z.infer<typeof WarehouseStatsSchema>;
@@ -0,0 +1,464 @@
+/**
+ * @fileoverview Service for outbound webhooks: delivers the changes detected by
+ * saved searches as HMAC-signed JSON POSTs, retries failed deliveries with
+ * jittered exponential backoff, and records deliveries that still fail in a
+ * dead-letter log. Subscriptions are held in memory. Like saved searches, each
+ * belongs to the authenticated client or subject that created it, which is the
+ * only one to list and delete it, and only receives the changes of that
+ * owner's saved searches. Webhook URLs are checked by {@link assertWebhookTarget}
+ * when created, and deliveries connect only to the addresses checked by
+ * {@link webhookLookup} and do not follow redirects, so that they cannot be
+ * steered to the server's own network.
+ * @module src/services/webhooks/WebhookService
+ */
+
+import { appendFileSync } from "fs";
+import http from "http";
+import https from "https";
+import path from "path";
+import { config } from "../../config/index.js";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import {
+  computeRetryDelay,
+  generateUUID,
+  logger,
+  parseRetryAfter,
+  requestContextService,
+  RETRYABLE_STATUS_CODES,
+  type RequestContext,
+} from "../../utils/index.js";
+import {
+  SavedSearch,
+  SavedSearchService,
+  StudyChangeEvent,
+  StudyChangeType,
+} from "../savedSearches/index.js";
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./signing.js";
+import {
+  assertWebhookHost,
+  assertWebhookTarget,
+  webhookLookup,
+} from "./urlPolicy.js";
+import {
+  DeadLetter,
+  DeliveryResult,
+  WEBHOOK_EVENT_TYPE,
+  WebhookPayload,
+  WebhookSubscription,
+} from "./types.js";
+
+/**
+ * The maximum number of dead letters kept in memory. The dead-letter log file
+ * keeps every one.
+ */
+export const MAX_DEAD_LETTERS = 100;
+
+/**
+ * The name of the dead-letter log file in the logs directory.
+ */
+export const DEAD_LETTER_LOG_FILE = "webhook-dead-letters.jsonl";
+
+/**
+ * Options for creating a webhook subscription.
+ */
+export interface CreateWebhookOptions {
+  url: string;
+  /** The signing secret. A random secret is generated if omitted. */
+  secret?: string;
+  description?: string;
+  events?: StudyChangeType[];
+  searchIds?: string[];
+}
+
+/**
+ * A webhook subscription with its signing secret.
+ * @private
+ */
+type WebhookRecord = WebhookSubscription & { secret: string };
+
+/**
+ * A simple promise-based delay function.
+ * @private
+ */
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A singleton service that stores webhook subscriptions and delivers saved
+ * search changes to them. The service listens for changes from the moment it
+ * is first instantiated.
+ */
+export class WebhookService {
+  private static instance: WebhookService;
+  private readonly webhooks = new Map<string, WebhookRecord>();
+  private readonly deadLetters: DeadLetter[] = [];
+
+  /**
+   * Private constructor to prevent direct instantiation. Registers the
+   * saved search change listener.
+   */
+  private constructor() {
+    SavedSearchService.getInstance().onChange(async (search, events) => {
+      const context = requestContextService.createRequestContext({
+        operation: "WebhookService.dispatch",
+        searchId: search.id,
+      });
+      // Deliveries may be retried for minutes, so they must not hold up the
+      // saved search run that detected the changes.
+      void this.dispatch(search, events, context);
+    });
+  }
+
+  /**
+   * Returns the singleton instance of the WebhookService.
+   * @returns The singleton instance.
+   */
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  /**
+   * Creates a webhook subscription.
+   * @param options - The URL, secret, and event filters of the webhook.
+   * @param context - The request context for logging.
+   * @param owner - The authenticated client or subject creating the webhook.
+   * @returns A promise that resolves with the subscription and its signing
+   * secret. The secret is not returned again.
+   * @throws {McpError} If the URL is not an absolute http(s) URL or targets a
+   * host that is not allowed.
+   */
+  public async create(
+    options: CreateWebhookOptions,
+    context: RequestContext,
+    owner?: string,
+  ): Promise<{ webhook: WebhookSubscription; secret: string }> {
+    let url: URL;
+    try {
+      url = new URL(options.url);
+    } catch {
+      throw new McpError(
+        BaseErrorCode.INVALID_INPUT,
+        `Invalid webhook URL: ${options.url}`,
+        { url: options.url },
+      );
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw new McpError(
+        BaseErrorCode.INVALID_INPUT,
+        `Webhook URLs must use http or https, not '${url.protocol}'.`,
+        { url: options.url },
+      );
+    }
+    await assertWebhookTarget(url);
+
+    const record: WebhookRecord = {
+      id: generateUUID(),
+      url: url.href,
+      ...(owner && { owner }),
+      ...(options.description && { description: options.description }),
+      ...(options.events?.length && { events: options.events }),
+      ...(options.searchIds?.length && { searchIds: options.searchIds }),
+      createdAt: new Date().toISOString(),
+      secret: options.secret ?? generateWebhookSecret(),
+    };
+    this.webhooks.set(record.id, record);
+
+    logger.info(`Created webhook ${record.id} for ${url.origin}.`, {
+      ...context,
+      webhookId: record.id,
+    });
+    return { webhook: this.toSubscription(record), secret: record.secret };
+  }
+
+  /**
+   * Lists the webhook subscriptions of an owner.
+   * @param owner - The owner, or unset for the webhooks created without
+   * authentication.
+   * @returns The subscriptions, oldest first, without their secrets.
+   */
+  public list(owner?: string): WebhookSubscription[] {
+    return [...this.webhooks.values()]
+      .filter((record) => record.owner === owner)
+      .map((record) => this.toSubscription(record));
+  }
+
+  /**
+   * Deletes a webhook subscription of an owner. Deliveries already in
+   * progress finish.
+   * @param id - The ID of the webhook.
+   * @param context - The request context for logging.
+   * @param owner - The owner, or unset for the webhooks created without
+   * authentication.
+   * @returns `true` if the owner had the webhook.
+   */
+  public delete(id: string, context: RequestContext, owner?: string): boolean {
+    if (this.webhooks.get(id)?.owner !== owner || !this.webhooks.delete(id)) {
+      return false;
+    }
+    logger.info(`Deleted webhook ${id}.`, { ...context, webhookId: id });
+    return true;
+  }
+
+  /**
+   * Lists the deliveries of an owner's webhooks that failed after all
+   * attempts.
+   * @param owner - The owner, or unset for the webhooks created without
+   * authentication.
+   * @param webhookId - Only return the dead letters of this webhook.
+   * @returns The dead letters, most recent first.
+   */
+  public getDeadLetters(owner?: string, webhookId?: string): DeadLetter[] {
+    return this.deadLetters
+      .filter(
+        (letter) =>
+          letter.owner === owner &&
+          (!webhookId || letter.webhookId === webhookId),
+      )
+      .reverse();
+  }
+
+  /**
+   * Delivers the changes of a saved search run to every matching webhook of
+   * the search's owner. Each webhook receives only the change types it
+   * subscribed to, and nothing if none of the changes match.
+   * @param search - The saved search that detected the changes.
+   * @param events - The detected changes.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with the outcome of each delivery.
+   */
+  public async dispatch(
+    search: SavedSearch,
+    events: StudyChangeEvent[],
+    context: RequestContext,
+  ): Promise<DeliveryResult[]> {
+    const deliveries = [...this.webhooks.values()].flatMap((record) => {
+      if (
+        record.owner !== search.owner ||
+        (record.searchIds && !record.searchIds.includes(search.id))
+      ) {
+        return [];
+      }
+      const changes = record.events
+        ? events.filter((event) => record.events!.includes(event.type))
+        : events;
+      if (changes.length === 0) {
+        return [];
+      }
+      const payload: WebhookPayload = {
+        id: generateUUID(),
+        type: WEBHOOK_EVENT_TYPE,
+        createdAt: new Date().toISOString(),
+        search: { id: search.id, name: search.name },
+        changes,
+      };
+      return [this.deliver(record, payload, context)];
+    });
+    return Promise.all(deliveries);
+  }
+
+  /**
+   * POSTs a payload to a webhook, retrying network errors, timeouts, and
+   * transient statuses (408, 429, 5xx). Other statuses, including redirects,
+   * and hosts that are no longer allowed fail immediately.
+   * @private
+   */
+  private async deliver(
+    record: WebhookRecord,
+    payload: WebhookPayload,
+    context: RequestContext,
+  ): Promise<DeliveryResult> {
+    const policy = config.webhooks;
+    const body = JSON.stringify(payload);
+    const deliveryContext = {
+      ...context,
+      webhookId: record.id,
+      deliveryId: payload.id,
+    };
+    let status: number | undefined;
+    let error = "";
+
+    for (let attempt = 1; ; attempt++) {
+      let retryAfterMs: number | undefined;
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      try {
+        const response = await this.post(
+          new URL(record.url),
+          {
+            "Content-Type": "application/json",
+            "User-Agent": `${config.mcpServerName}/${config.mcpServerVersion}`,
+            [WEBHOOK_ID_HEADER]: payload.id,
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+              record.secret,
+              timestamp,
+              body,
+            ),
+          },
+          body,
+          policy.timeoutMs,
+        );
+        status = response.status;
+
+        if (status >= 200 && status < 300) {
+          logger.info(`Delivered webhook ${payload.id} to ${record.id}.`, {
+            ...deliveryContext,
+            attempt,
+          });
+          return {
+            deliveryId: payload.id,
+            webhookId: record.id,
+            delivered: true,
+            attempts: attempt,
+            status,
+          };
+        }
+
+        error = `Webhook responded with status ${status}.`;
+        if (!RETRYABLE_STATUS_CODES.has(status)) {
+          return this.deadLetter(record, payload, attempt, error, status);
+        }
+        retryAfterMs = parseRetryAfter(response.retryAfter);
+      } catch (err) {
+        status = undefined;
+        error = err instanceof Error ? err.message : String(err);
+        if (
+          err instanceof McpError &&
+          err.code === BaseErrorCode.INVALID_INPUT
+        ) {
+          return this.deadLetter(record, payload, attempt, error, status);
+        }
+      }
+
+      if (attempt >= policy.maxAttempts) {
+        return this.deadLetter(record, payload, attempt, error, status);
+      }
+      const delayMs = computeRetryDelay(attempt, policy, retryAfterMs);
+      logger.warning(
+        `Webhook delivery ${payload.id} failed: ${error} Retrying in ${delayMs}ms (attempt ${attempt + 1} of ${policy.maxAttempts}).`,
+        { ...deliveryContext, attempt, delayMs },
+      );
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * Sends one POST request to a webhook. Host names are resolved by
+   * {@link webhookLookup}, so the connection is made to a checked address.
+   * Redirects are returned as they are, not followed.
+   * @private
+   */
+  private post(
+    url: URL,
+    headers: Record<string, string>,
+    body: string,
+    timeoutMs: number,
+  ): Promise<{ status: number; retryAfter: string | undefined }> {
+    assertWebhookHost(url);
+    return new Promise((resolve, reject) => {
+      const request = (url.protocol === "https:" ? https : http).request(
+        url,
+        {
+          method: "POST",
+          headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+          lookup: webhookLookup,
+          timeout: timeoutMs,
+        },
+        (response) => {
+          // Drain the body so the underlying connection can be reused.
+          response.resume();
+          const retryAfter = response.headers["retry-after"];
+          resolve({ status: response.statusCode ?? 0, retryAfter });
+        },
+      );
+      request.on("timeout", () =>
+        request.destroy(
+          new McpError(
+            BaseErrorCode.TIMEOUT,
+            `Webhook delivery timed out after ${timeoutMs}ms.`,
+          ),
+        ),
+      );
+      request.on("error", reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Records a failed delivery in memory and in the dead-letter log file.
+   * @private
+   */
+  private deadLetter(
+    record: WebhookRecord,
+    payload: WebhookPayload,
+    attempts: number,
+    error: string,
+    status: number | undefined,
+  ): DeliveryResult {
+    const letter: DeadLetter = {
+      deliveryId: payload.id,
+      webhookId: record.id,
+      ...(record.owner && { owner: record.owner }),
+      url: record.url,
+      failedAt: new Date().toISOString(),
+      attempts,
+      ...(status !== undefined && { status }),
+      error,
+      payload,
+    };
+    this.deadLetters.push(letter);
+    this.deadLetters.splice(
+      0,
+      Math.max(0, this.deadLetters.length - MAX_DEAD_LETTERS),
+    );
+
+    const context = requestContextService.createRequestContext({
+      operation: "WebhookService.deadLetter",
+      webhookId: record.id,
+      deliveryId: payload.id,
+    });
+    logger.error(
+      `Webhook delivery ${payload.id} failed after ${attempts} attempts: ${error}`,
+      context,
+    );
+    if (config.logsPath) {
+      try {
+        appendFileSync(
+          path.join(config.logsPath, DEAD_LETTER_LOG_FILE),
+          `${JSON.stringify(letter)}\n`,
+        );
+      } catch (err) {
+        logger.warning("Failed to write the webhook dead-letter log.", {
+          ...context,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    return {
+      deliveryId: payload.id,
+      webhookId: record.id,
+      delivered: false,
+      attempts,
+      ...(status !== undefined && { status }),
+      error,
+    };
+  }
+
+  /**
+   * Strips the secret from a webhook record.
+   * @private
+   */
+  private toSubscription(record: WebhookRecord): WebhookSubscription {
+    const { secret: _secret, ...subscription } = record;
+    return subscription;
+  }
+}
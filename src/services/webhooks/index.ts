@@ -0,0 +1,9 @@
+/**
+ * @fileoverview Barrel file for the webhooks service module.
+ * @module src/services/webhooks/index
+ */
+
+export * from "./signing.js";
+export * from "./types.js";
+export * from "./urlPolicy.js";
+export * from "./WebhookService.js";
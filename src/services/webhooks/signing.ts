@@ -0,0 +1,79 @@
+/**
+ * @fileoverview HMAC-SHA256 signing of webhook payloads. The signature covers
+ * the delivery timestamp and the raw body, so receivers can reject both
+ * tampered and replayed deliveries.
+ * @module src/services/webhooks/signing
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/** The header carrying the delivery ID. */
+export const WEBHOOK_ID_HEADER = "X-Webhook-Id";
+
+/** The header carrying the delivery timestamp, in Unix seconds. */
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/** The header carrying the signature, as `sha256=<hex digest>`. */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/**
+ * The default maximum age, in seconds, of a delivery accepted by
+ * {@link verifyWebhookSignature}.
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Generates a random signing secret for a new webhook.
+ * @returns The secret, prefixed with `whsec_`.
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * Signs a webhook body.
+ * @param secret - The webhook's signing secret.
+ * @param timestamp - The delivery timestamp, in Unix seconds.
+ * @param body - The raw JSON body.
+ * @returns The signature, as `sha256=<hex digest>` of `<timestamp>.<body>`.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verifies the signature of a received webhook delivery.
+ * @param secret - The webhook's signing secret.
+ * @param timestamp - The value of the timestamp header.
+ * @param body - The raw JSON body, exactly as received.
+ * @param signature - The value of the signature header.
+ * @param toleranceSeconds - The maximum accepted age of the delivery.
+ * @param now - The current time in milliseconds.
+ * @returns `true` if the signature matches and the delivery is recent enough.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Date.now(),
+): boolean {
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds)) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - seconds) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, seconds, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
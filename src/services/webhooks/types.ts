@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Defines the schemas and types for webhook subscriptions, the
+ * payloads delivered to them, and the dead-letter records of failed deliveries.
+ * @module src/services/webhooks/types
+ */
+
+import { z } from "zod";
+import {
+  StudyChangeEventSchema,
+  StudyChangeTypeSchema,
+} from "../savedSearches/types.js";
+
+/**
+ * Zod schema for a webhook subscription, as exposed to clients. The signing
+ * secret is never included.
+ */
+export const WebhookSubscriptionSchema = z.object({
+  id: z.string(),
+  owner: z
+    .string()
+    .optional()
+    .describe("The authenticated client or subject that created the webhook."),
+  url: z.string().describe("The URL that change events are POSTed to."),
+  description: z.string().optional(),
+  events: z
+    .array(StudyChangeTypeSchema)
+    .optional()
+    .describe("The change types delivered. Defaults to all change types."),
+  searchIds: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "The saved searches whose changes are delivered. Defaults to all saved searches of the owner.",
+    ),
+  createdAt: z.string(),
+});
+
+/**
+ * Represents a webhook subscription, without its secret.
+ */
+export type WebhookSubscription = z.infer<typeof WebhookSubscriptionSchema>;
+
+/**
+ * The event type of every webhook payload.
+ */
+export const WEBHOOK_EVENT_TYPE = "saved_search.changes";
+
+/**
+ * Zod schema for the JSON body POSTed to a webhook.
+ */
+export const WebhookPayloadSchema = z.object({
+  id: z.string().describe("The delivery ID. Retries reuse the same ID."),
+  type: z.literal(WEBHOOK_EVENT_TYPE),
+  createdAt: z.string(),
+  search: z.object({ id: z.string(), name: z.string() }),
+  changes: z.array(StudyChangeEventSchema),
+});
+
+/**
+ * Represents the JSON body POSTed to a webhook.
+ */
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+/**
+ * Zod schema for a delivery that failed after all attempts.
+ */
+export const DeadLetterSchema = z.object({
+  deliveryId: z.string(),
+  webhookId: z.string(),
+  owner: z.string().optional(),
+  url: z.string(),
+  failedAt: z.string(),
+  attempts: z.number().int(),
+  status: z
+    .number()
+    .int()
+    .optional()
+    .describe("The HTTP status of the last attempt, if one was received."),
+  error: z.string(),
+  payload: WebhookPayloadSchema,
+});
+
+/**
+ * Represents a delivery that failed after all attempts.
+ */
+export type DeadLetter = z.infer<typeof DeadLetterSchema>;
+
+/**
+ * The outcome of delivering one payload to one webhook.
+ */
+export interface DeliveryResult {
+  deliveryId: string;
+  webhookId: string;
+  delivered: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
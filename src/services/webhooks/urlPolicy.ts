@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Checks the targets of webhook deliveries so that webhooks
+ * cannot be used to reach the server's own network. A host on the
+ * `WEBHOOK_ALLOWED_HOSTS` allowlist is trusted as configured; without an
+ * allowlist, every address a host resolves to must be a public one. Deliveries
+ * resolve hosts with {@link webhookLookup}, which checks the addresses that
+ * the connection is then made to.
+ * @module src/services/webhooks/urlPolicy
+ */
+
+import type { LookupAddress, LookupOptions } from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { config } from "../../config/index.js";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+
+/**
+ * Loopback, private, link-local, shared, multicast, and reserved ranges. The
+ * IPv4 ranges also match their IPv4-mapped IPv6 addresses.
+ * @private
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 and 6to4 addresses embed IPv4 addresses, which may be private.
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Strips the brackets of an IPv6 host and lowercases it.
+ * @private
+ */
+const normalizeHost = (host: string) =>
+  host.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+
+/**
+ * Checks whether an IP address is publicly routable.
+ * @param address - An IPv4 or IPv6 address.
+ * @returns `true` unless the address is loopback, private, link-local, or
+ * otherwise reserved.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Checks whether a host is allowed by `WEBHOOK_ALLOWED_HOSTS`.
+ * @private
+ */
+const isAllowlisted = (host: string) =>
+  config.webhooks.allowedHosts?.some(
+    (allowed) => normalizeHost(allowed) === host,
+  ) ?? false;
+
+/**
+ * Checks the parts of a webhook URL that need no DNS resolution: that the
+ * host is on `WEBHOOK_ALLOWED_HOSTS` if it is set, and otherwise that an IP
+ * address host is public. Host names are checked by {@link webhookLookup}.
+ * @param url - The webhook URL.
+ * @throws {McpError} `INVALID_INPUT` if the host is not allowed.
+ */
+export function assertWebhookHost(url: URL): void {
+  const host = normalizeHost(url.hostname);
+  if (config.webhooks.allowedHosts) {
+    if (!isAllowlisted(host)) {
+      throw new McpError(
+        BaseErrorCode.INVALID_INPUT,
+        `Webhook host '${host}' is not in WEBHOOK_ALLOWED_HOSTS.`,
+        { url: url.href },
+      );
+    }
+  } else if (isIP(host) && !isPublicAddress(host)) {
+    throw nonPublicAddressError(host, host);
+  }
+}
+
+/**
+ * Creates the error for a host that resolves to a non-public address.
+ * @private
+ */
+function nonPublicAddressError(host: string, address: string): McpError {
+  return new McpError(
+    BaseErrorCode.INVALID_INPUT,
+    `Webhook host '${host}' resolves to the non-public address ${address}. Add it to WEBHOOK_ALLOWED_HOSTS to deliver to internal receivers.`,
+    { host, address },
+  );
+}
+
+/**
+ * Resolves a webhook host. Unless the host is on `WEBHOOK_ALLOWED_HOSTS`,
+ * every address it resolves to must be public.
+ * @private
+ */
+async function resolveWebhookHost(
+  host: string,
+  family?: LookupOptions["family"],
+): Promise<LookupAddress[]> {
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, {
+      all: true,
+      verbatim: true,
+      ...(family && { family }),
+    });
+  } catch (error) {
+    throw new McpError(
+      BaseErrorCode.SERVICE_UNAVAILABLE,
+      `Webhook host '${host}' could not be resolved.`,
+      { host, error: error instanceof Error ? error.message : String(error) },
+    );
+  }
+  if (!isAllowlisted(host)) {
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      throw nonPublicAddressError(host, blocked.address);
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Checks that a webhook URL may be delivered to, when the webhook is created.
+ * With `WEBHOOK_ALLOWED_HOSTS` set, the host must be on the list. Otherwise
+ * the host is resolved and every address must be public.
+ * @param url - The webhook URL.
+ * @returns A promise that resolves if the URL may be delivered to.
+ * @throws {McpError} `INVALID_INPUT` if the host is not allowed or resolves to
+ * a non-public address, and `SERVICE_UNAVAILABLE` if it cannot be resolved.
+ */
+export async function assertWebhookTarget(url: URL): Promise<void> {
+  assertWebhookHost(url);
+  const host = normalizeHost(url.hostname);
+  if (!isIP(host) && !isAllowlisted(host)) {
+    await resolveWebhookHost(host);
+  }
+}
+
+/**
+ * The DNS lookup of webhook connections. It checks the addresses it resolves
+ * and passes only those on to the connection, so that a host cannot pass the
+ * check and then resolve to another address when the connection is made, as
+ * with DNS rebinding. IP address hosts are not looked up; check them with
+ * {@link assertWebhookHost}.
+ */
+export const webhookLookup: LookupFunction = (hostname, options, callback) => {
+  resolveWebhookHost(normalizeHost(hostname), options.family).then(
+    (addresses) => {
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (error: Error) => callback(error as NodeJS.ErrnoException, "", 0),
+  );
+};
@@ -0,0 +1,497 @@
+/**
+ * @fileoverview Parses the free-text `eligibilityCriteria` of a clinical study
+ * into inclusion and exclusion lists, and extracts common quantitative
+ * constraints (age limits, performance status, lab thresholds) from each criterion.
+ * @module src/utils/clinicaltrials/eligibilityParser
+ */
+
+import { z } from "zod";
+
+/**
+ * The comparison operators used by extracted constraints.
+ */
+export const ComparisonOperatorSchema = z.enum(["<", "<=", ">", ">=", "="]);
+
+/**
+ * TypeScript type inferred from the comparison operator schema.
+ */
+export type ComparisonOperator = z.infer<typeof ComparisonOperatorSchema>;
+
+const constraintBase = {
+  operator: ComparisonOperatorSchema,
+  value: z.number(),
+  source: z.string().describe("The text the constraint was extracted from."),
+};
+
+/**
+ * Zod schema for an age limit, e.g. "aged 18 to 75 years".
+ */
+export const AgeConstraintSchema = z.object({
+  type: z.literal("age"),
+  ...constraintBase,
+  unit: z.enum(["years", "months", "weeks", "days"]),
+});
+
+/**
+ * TypeScript type for the units of an age limit.
+ */
+export type AgeUnit = z.infer<typeof AgeConstraintSchema>["unit"];
+
+/**
+ * Zod schema for a performance status limit, e.g. "ECOG 0-1" or "KPS ≥ 70".
+ */
+export const PerformanceStatusConstraintSchema = z.object({
+  type: z.literal("performanceStatus"),
+  scale: z.enum(["ECOG", "Karnofsky"]),
+  ...constraintBase,
+});
+
+/**
+ * Zod schema for a laboratory threshold, e.g. "ANC ≥ 1500/µL".
+ */
+export const LabConstraintSchema = z.object({
+  type: z.literal("lab"),
+  analyte: z.string().describe("The normalized analyte name, e.g. 'ANC'."),
+  ...constraintBase,
+  unit: z.string().optional(),
+});
+
+/**
+ * Zod schema for any constraint extracted from a criterion.
+ */
+export const EligibilityConstraintSchema = z.discriminatedUnion("type", [
+  AgeConstraintSchema,
+  PerformanceStatusConstraintSchema,
+  LabConstraintSchema,
+]);
+
+/**
+ * TypeScript type inferred from the eligibility constraint schema.
+ */
+export type EligibilityConstraint = z.infer<typeof EligibilityConstraintSchema>;
+
+/**
+ * Zod schema for a single criterion of an inclusion or exclusion list.
+ */
+export const EligibilityCriterionSchema = z.object({
+  text: z.string().describe("The criterion, without bullets or numbering."),
+  level: z
+    .number()
+    .int()
+    .describe("The nesting depth: 0 for top-level items, 1 for sub-items."),
+  constraints: z.array(EligibilityConstraintSchema).optional(),
+});
+
+/**
+ * TypeScript type inferred from the eligibility criterion schema.
+ */
+export type EligibilityCriterion = z.infer<typeof EligibilityCriterionSchema>;
+
+/**
+ * Zod schema for parsed eligibility criteria.
+ */
+export const StructuredEligibilitySchema = z.object({
+  inclusion: z.array(EligibilityCriterionSchema),
+  exclusion: z.array(EligibilityCriterionSchema),
+});
+
+/**
+ * TypeScript type inferred from the structured eligibility schema.
+ */
+export type StructuredEligibility = z.infer<typeof StructuredEligibilitySchema>;
+
+/**
+ * Matches a bullet or list number at the start of a line, capturing the indentation.
+ * Handles `*`, `-`, `•`, `o`, `1.`, `1)`, `(1)`, `a.`, `a)`, and roman numerals.
+ */
+const BULLET_PATTERN =
+  /^(\s*)(?:[-*•·▪◦o]|\(?\d{1,2}[.)]|\(?[a-z][.)]|\(?(?:i{1,3}|iv|vi{0,3}|ix|x)[.)])\s+/i;
+
+/**
+ * Matches a section heading such as "Inclusion Criteria:" or "**Key Exclusion
+ * Criteria**", capturing the section and any criterion on the same line.
+ */
+const HEADING_PATTERN =
+  /^[*_\s]*(?:key\s+|main\s+|general\s+)?(inclusion|exclusion)\s+criteria\b(?:\s+(?:for|in)\b[^:]{0,60})?[*_\s]*(?::[*_\s]*(.*))?$/i;
+
+/**
+ * Reverses markdown escaping and common HTML entities in criteria text.
+ * @private
+ */
+function unescapeText(text: string): string {
+  return text
+    .replace(/\\([\\<>=*_[\]().#+-])/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&le;/g, "≤")
+    .replace(/&ge;/g, "≥")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Phrases for each comparison operator, longest first so that
+ * "less than or equal to" is preferred over "less than".
+ */
+const OPERATOR_PHRASES: [RegExp, ComparisonOperator][] = [
+  [
+    /^(?:≥|>=|=>|≧|greater than or equal to|at least|no less than|not less than|minimum(?: of)?)$/i,
+    ">=",
+  ],
+  [
+    /^(?:≤|<=|=<|≦|less than or equal to|no more than|not more than|up to|not exceeding|maximum(?: of)?)$/i,
+    "<=",
+  ],
+  [/^(?:<|less than|below|under|lower than)$/i, "<"],
+  [/^(?:>|greater than|more than|above|over|higher than|exceeding)$/i, ">"],
+  [/^(?:=|of|equal to)$/i, "="],
+];
+
+/**
+ * A regex source matching any operator phrase.
+ */
+const OPERATOR_SOURCE =
+  "≥|>=|=>|≧|≤|<=|=<|≦|<|>|=|greater than or equal to|less than or equal to|at least|no less than|not less than|no more than|not more than|up to|not exceeding|less than|greater than|more than|below|under|lower than|above|over|higher than|exceeding|minimum(?: of)?|maximum(?: of)?";
+
+/**
+ * Converts an operator phrase to its comparison operator.
+ * @private
+ */
+function toOperator(phrase: string): ComparisonOperator {
+  const normalized = phrase.trim().replace(/\s+/g, " ");
+  return (
+    OPERATOR_PHRASES.find(([pattern]) => pattern.test(normalized))?.[1] ?? "="
+  );
+}
+
+/**
+ * Parses a number that may use a thousands separator ("1,500") or a decimal comma ("1,5").
+ * @private
+ */
+function toNumber(text: string): number {
+  return Number(
+    /^\d{1,3}(?:,\d{3})+$/.test(text)
+      ? text.replace(/,/g, "")
+      : text.replace(",", "."),
+  );
+}
+
+/**
+ * Normalizes an age unit such as "yrs" or "Month" to its plural form.
+ * @private
+ */
+function toAgeUnit(unit: string | undefined): AgeUnit {
+  const units: Record<string, AgeUnit> = {
+    m: "months",
+    w: "weeks",
+    d: "days",
+  };
+  return units[(unit ?? "").charAt(0).toLowerCase()] ?? "years";
+}
+
+/**
+ * Extracts age limits from a criterion, e.g. "aged 18 to 75 years",
+ * "Age ≥ 18", or "18 years of age or older".
+ * @private
+ */
+function extractAgeConstraints(text: string): EligibilityConstraint[] {
+  const unit = "(years?|yrs?|months?|weeks?|days?)";
+  const age = (
+    operator: ComparisonOperator,
+    value: string,
+    ageUnit: string | undefined,
+    source: string,
+  ): EligibilityConstraint => ({
+    type: "age",
+    operator,
+    value: Number(value),
+    unit: toAgeUnit(ageUnit),
+    source,
+  });
+
+  const range = new RegExp(
+    `\\b(?:aged?|ages|between the ages of)\\s+(?:of\\s+|between\\s+|from\\s+)?(\\d{1,3})\\s*${unit}?\\s*(?:-|–|to|and)\\s*(\\d{1,3})\\s*${unit}?`,
+    "i",
+  ).exec(text);
+  if (range) {
+    const [source, low, lowUnit, high, highUnit] = range;
+    return [
+      age(">=", low, highUnit ?? lowUnit, source),
+      age("<=", high, highUnit ?? lowUnit, source),
+    ];
+  }
+
+  const span = new RegExp(
+    `\\b(\\d{1,3})\\s*(?:-|–|to)\\s*(\\d{1,3})\\s*${unit}\\s+(?:of age|old)`,
+    "i",
+  ).exec(text);
+  if (span) {
+    const [source, low, high, spanUnit] = span;
+    return [
+      age(">=", low, spanUnit, source),
+      age("<=", high, spanUnit, source),
+    ];
+  }
+
+  const bounded = new RegExp(
+    `\\bage[ds]?\\b[^\\d]{0,15}?(${OPERATOR_SOURCE})\\s*(\\d{1,3})\\s*${unit}?`,
+    "i",
+  ).exec(text);
+  if (bounded) {
+    return [age(toOperator(bounded[1]), bounded[2], bounded[3], bounded[0])];
+  }
+
+  const trailing = new RegExp(
+    `\\b(\\d{1,3})\\s*${unit}(\\s+of age|\\s+old)?\\s+(?:or|and)\\s+(older|above|over|younger|below|under)\\b`,
+    "i",
+  ).exec(text);
+  // Without "of age" or "old", only "older"/"younger" reliably refer to age
+  // (compare "life expectancy of 3 months or over").
+  if (trailing && (trailing[3] || /older|younger/i.test(trailing[4]))) {
+    const isMinimum = /older|above|over/i.test(trailing[4]);
+    return [
+      age(isMinimum ? ">=" : "<=", trailing[1], trailing[2], trailing[0]),
+    ];
+  }
+
+  const leading = new RegExp(
+    `\\b(at least|older than|younger than|under)\\s+(\\d{1,3})\\s*${unit}\\s+(?:of age|old)`,
+    "i",
+  ).exec(text);
+  if (leading) {
+    const operators: Record<string, ComparisonOperator> = {
+      "at least": ">=",
+      "older than": ">",
+      "younger than": "<",
+      under: "<",
+    };
+    return [
+      age(
+        operators[leading[1].toLowerCase()],
+        leading[2],
+        leading[3],
+        leading[0],
+      ),
+    ];
+  }
+  return [];
+}
+
+/**
+ * Extracts ECOG and Karnofsky performance status limits from a criterion.
+ * @private
+ */
+function extractPerformanceStatusConstraints(
+  text: string,
+): EligibilityConstraint[] {
+  const constraints: EligibilityConstraint[] = [];
+
+  const ecog =
+    /\b(?:ECOG|Eastern Cooperative Oncology Group)\b(?:\s*\(ECOG\))?(?:\s+(?:performance status|performance score|PS|score|grade))?(?:\s+\(PS\))?\s*(?:of\s+|:\s*|must be\s+|is\s+)?((?:≤|<=|=<|<|≥|>=|at least|no more than|less than or equal to)\s*\d|\d(?:\s*(?:-|–|to)\s*\d|(?:\s*,\s*\d)*(?:\s*,?\s*(?:or|and)\s*\d)?))/i.exec(
+      text,
+    );
+  if (ecog) {
+    const source = ecog[0];
+    const operatorMatch =
+      /^(≤|<=|=<|<|≥|>=|at least|no more than|less than or equal to)\s*(\d)$/i.exec(
+        ecog[1],
+      );
+    if (operatorMatch) {
+      constraints.push({
+        type: "performanceStatus",
+        scale: "ECOG",
+        operator: toOperator(operatorMatch[1]),
+        value: Number(operatorMatch[2]),
+        source,
+      });
+    } else {
+      const values = (ecog[1].match(/\d/g) ?? []).map(Number);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      if (min === max) {
+        constraints.push({
+          type: "performanceStatus",
+          scale: "ECOG",
+          operator: "=",
+          value: min,
+          source,
+        });
+      } else {
+        if (min > 0) {
+          constraints.push({
+            type: "performanceStatus",
+            scale: "ECOG",
+            operator: ">=",
+            value: min,
+            source,
+          });
+        }
+        constraints.push({
+          type: "performanceStatus",
+          scale: "ECOG",
+          operator: "<=",
+          value: max,
+          source,
+        });
+      }
+    }
+  }
+
+  const karnofsky = new RegExp(
+    `\\b(?:Karnofsky|KPS)\\b[^\\d]{0,30}?(${OPERATOR_SOURCE})\\s*(\\d{2,3})\\s*%?`,
+    "i",
+  ).exec(text);
+  if (karnofsky) {
+    constraints.push({
+      type: "performanceStatus",
+      scale: "Karnofsky",
+      operator: toOperator(karnofsky[1]),
+      value: Number(karnofsky[2]),
+      source: karnofsky[0],
+    });
+  }
+  return constraints;
+}
+
+/**
+ * Normalized analyte names and the patterns that identify them, most specific first.
+ */
+const ANALYTES: [string, RegExp][] = [
+  ["ANC", /\b(?:ANC|absolute neutrophil count|neutrophils?(?: count)?)\b/i],
+  ["Platelets", /\b(?:platelets?(?: count)?|PLT)\b/i],
+  ["HbA1c", /\b(?:HbA1c|A1c|glycated ha?emoglobin)\b/i],
+  ["Hemoglobin", /\b(?:ha?emoglobin|Hgb|Hb)\b/i],
+  ["WBC", /\b(?:WBC|white blood cell(?: count)?|leukocytes?(?: count)?)\b/i],
+  ["Creatinine clearance", /\b(?:creatinine clearance|CrCl|CLcr)\b/i],
+  ["eGFR", /\b(?:e?GFR|glomerular filtration rate)\b/i],
+  ["Creatinine", /\b(?:serum )?creatinine\b/i],
+  ["Total bilirubin", /\b(?:total )?bilirubin\b/i],
+  ["AST", /\b(?:AST|SGOT|aspartate (?:amino)?transaminase)\b/i],
+  ["ALT", /\b(?:ALT|SGPT|alanine (?:amino)?transaminase)\b/i],
+  ["Albumin", /\b(?:serum )?albumin\b/i],
+  ["INR", /\bINR\b/i],
+  ["LVEF", /\b(?:LVEF|left ventricular ejection fraction)\b/i],
+];
+
+/**
+ * Units recognized after a lab value, e.g. "× 10^9/L", "g/dL", "× ULN", or "%".
+ */
+const LAB_UNIT_SOURCE =
+  "(?:[x×*]\\s*10\\s*\\^?\\s*\\d+\\s*\\/\\s*[µu]?L|(?:cells\\s*)?\\/\\s*(?:mm3|mm³|[µu]L|L)|g\\/dL|g\\/L|mg\\/dL|[µu]mol\\/L|mmol\\/mol|mL\\/min(?:\\/1\\.73\\s*m(?:2|²))?|[x×]\\s*(?:the\\s+)?(?:institutional\\s+)?(?:ULN|upper limit of normal)|%)";
+
+/**
+ * Extracts laboratory thresholds from a criterion. Each analyte contributes at
+ * most one constraint, taken from the first operator and value that follow its
+ * name, so "AST and ALT ≤ 2.5 × ULN" yields a threshold for both.
+ * @private
+ */
+function extractLabConstraints(text: string): EligibilityConstraint[] {
+  const constraints: EligibilityConstraint[] = [];
+  const claimed: [number, number][] = [];
+
+  for (const [analyte, pattern] of ANALYTES) {
+    const name = new RegExp(pattern.source, "gi");
+    let found: RegExpExecArray | null;
+    while ((found = name.exec(text))) {
+      const start = found.index;
+      if (claimed.some(([from, to]) => start >= from && start < to)) continue;
+
+      claimed.push([start, start + found[0].length]);
+      const rest = text.slice(start + found[0].length);
+      const threshold = new RegExp(
+        `^[^\\d;.]{0,40}?(${OPERATOR_SOURCE})\\s*(\\d+(?:[.,]\\d+)?)\\s*(${LAB_UNIT_SOURCE})?`,
+        "i",
+      ).exec(rest);
+      if (!threshold) continue;
+
+      const end = start + found[0].length + threshold[0].length;
+      constraints.push({
+        type: "lab",
+        analyte,
+        operator: toOperator(threshold[1]),
+        value: toNumber(threshold[2]),
+        ...(threshold[3] && { unit: threshold[3].replace(/\s+/g, " ").trim() }),
+        source: text.slice(start, end).trim(),
+      });
+      break;
+    }
+  }
+  return constraints;
+}
+
+/**
+ * Extracts every recognized quantitative constraint from a criterion.
+ * @param text - The criterion text.
+ * @returns The constraints, in the order age, performance status, lab.
+ */
+export function extractConstraints(text: string): EligibilityConstraint[] {
+  return [
+    ...extractAgeConstraints(text),
+    ...extractPerformanceStatusConstraints(text),
+    ...extractLabConstraints(text),
+  ];
+}
+
+/**
+ * Parses free-text eligibility criteria into inclusion and exclusion lists.
+ *
+ * Section headings ("Inclusion Criteria:", "Key Exclusion Criteria") switch the
+ * current list; lines before any heading are treated as inclusion criteria.
+ * Bullets and numbering are removed, indented items are given a deeper `level`,
+ * and unbulleted lines that directly follow an item are joined to it.
+ *
+ * @param text - The `eligibilityCriteria` text, in markdown or legacy format.
+ * @returns The parsed criteria with any extracted constraints.
+ */
+export function parseEligibilityCriteria(text: string): StructuredEligibility {
+  const sections: StructuredEligibility = { inclusion: [], exclusion: [] };
+  let current = sections.inclusion;
+  let indents: number[] = [];
+  let previousBlank = true;
+
+  const push = (criterionText: string, level: number) => {
+    current.push({ text: criterionText, level });
+  };
+
+  for (const rawLine of unescapeText(text).split(/\r?\n/)) {
+    if (!rawLine.trim()) {
+      previousBlank = true;
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(rawLine.trim());
+    if (heading && rawLine.trim().length <= 120) {
+      current =
+        heading[1].toLowerCase() === "inclusion"
+          ? sections.inclusion
+          : sections.exclusion;
+      indents = [];
+      if (heading[2]?.trim()) push(heading[2].trim(), 0);
+      previousBlank = false;
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.exec(rawLine);
+    const line = rawLine.slice(bullet ? bullet[0].length : 0).trim();
+    if (bullet) {
+      const indent = bullet[1].replace(/\t/g, "    ").length;
+      while (indents.length > 0 && indents[indents.length - 1] >= indent) {
+        indents.pop();
+      }
+      push(line, indents.length);
+      indents.push(indent);
+    } else if (!previousBlank && current.length > 0) {
+      const last = current[current.length - 1];
+      last.text = `${last.text} ${line}`;
+    } else {
+      indents = [];
+      push(line, 0);
+    }
+    previousBlank = false;
+  }
+
+  for (const criterion of [...sections.inclusion, ...sections.exclusion]) {
+    const constraints = extractConstraints(criterion.text);
+    if (constraints.length > 0) criterion.constraints = constraints;
+  }
+  return sections;
+}
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Computes field-level differences between two versions of a study.
+ * Studies are flattened into leaf paths such as
+ * `protocolSection.statusModule.overallStatus` or
+ * `protocolSection.outcomesModule.primaryOutcomes[0].measure` and compared path
+ * by path. Outcome measures are additionally compared by their normalized
+ * titles, so that added, removed, or reworded outcomes are reported even when
+ * the list was reordered.
+ * @module src/utils/clinicaltrials/studyDiff
+ */
+
+import type { Study } from "../../services/clinical-trials-gov/types.js";
+
+/**
+ * A leaf value of a flattened study.
+ */
+export type StudyFieldValue = string | number | boolean | null;
+
+/**
+ * A single changed field between two versions of a study.
+ */
+export interface StudyFieldChange {
+  /** The leaf path of the field. */
+  path: string;
+  /** The module the field belongs to (e.g., `statusModule`), or the top-level section. */
+  module: string;
+  /** The value in the earlier version, or `null` if the field was added. */
+  before: StudyFieldValue;
+  /** The value in the later version, or `null` if the field was removed. */
+  after: StudyFieldValue;
+}
+
+/**
+ * The outcome measures added and removed between two versions, by title.
+ */
+export interface OutcomeMeasureChanges {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * The result of comparing two versions of a study.
+ */
+export interface StudyDiff {
+  changes: StudyFieldChange[];
+  outcomes: {
+    primary: OutcomeMeasureChanges;
+    secondary: OutcomeMeasureChanges;
+  };
+}
+
+/**
+ * Paths that change with almost every update and carry no information about
+ * the study itself. They are left out of diffs.
+ */
+const IGNORED_PATHS = [
+  "derivedSection",
+  "protocolSection.statusModule.statusVerifiedDate",
+  "protocolSection.statusModule.lastUpdateSubmitDate",
+  "protocolSection.statusModule.lastUpdatePostDateStruct",
+];
+
+/**
+ * Checks whether a path is, or is nested under, an ignored path.
+ * @private
+ */
+function isIgnored(path: string): boolean {
+  return IGNORED_PATHS.some(
+    (ignored) =>
+      path === ignored ||
+      path.startsWith(`${ignored}.`) ||
+      path.startsWith(`${ignored}[`),
+  );
+}
+
+/**
+ * Flattens a study into a map of leaf paths to values. Arrays of primitive
+ * values are kept whole, joined by "; ", so that a list is one field.
+ * @param study - The study to flatten.
+ * @returns The leaf values, keyed by path.
+ */
+export function flattenStudy(study: Study): Map<string, StudyFieldValue> {
+  const fields = new Map<string, StudyFieldValue>();
+
+  const visit = (value: unknown, path: string): void => {
+    if (path && isIgnored(path)) return;
+    if (value === null || value === undefined) return;
+    if (Array.isArray(value)) {
+      if (value.every((item) => item === null || typeof item !== "object")) {
+        if (value.length > 0) fields.set(path, value.join("; "));
+        return;
+      }
+      value.forEach((item, i) => visit(item, `${path}[${i}]`));
+      return;
+    }
+    if (typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, path ? `${path}.${key}` : key);
+      }
+      return;
+    }
+    fields.set(path, value as StudyFieldValue);
+  };
+
+  visit(study, "");
+  return fields;
+}
+
+/**
+ * Returns the module a path belongs to: the second segment for paths within a
+ * section (e.g., `outcomesModule`), otherwise the first.
+ * @private
+ */
+function moduleOf(path: string): string {
+  const segments = path.split(".").map((segment) => segment.split("[")[0]);
+  return segments[1] ?? segments[0];
+}
+
+/**
+ * Normalizes an outcome title for matching, ignoring case and spacing.
+ * @private
+ */
+function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Lists the outcome measures added and removed between two versions.
+ * @private
+ */
+function compareOutcomeTitles(
+  before: { measure?: string }[] | undefined,
+  after: { measure?: string }[] | undefined,
+): OutcomeMeasureChanges {
+  const titles = (outcomes: { measure?: string }[] | undefined) =>
+    new Map(
+      (outcomes ?? [])
+        .filter((o) => o.measure)
+        .map((o) => [normalizeTitle(o.measure!), o.measure!.trim()]),
+    );
+  const beforeTitles = titles(before);
+  const afterTitles = titles(after);
+  return {
+    added: [...afterTitles]
+      .filter(([key]) => !beforeTitles.has(key))
+      .map(([, title]) => title),
+    removed: [...beforeTitles]
+      .filter(([key]) => !afterTitles.has(key))
+      .map(([, title]) => title),
+  };
+}
+
+/**
+ * Compares two versions of a study field by field.
+ * @param before - The earlier version.
+ * @param after - The later version.
+ * @returns The changed fields, in path order, and the outcome measures added or removed.
+ */
+export function diffStudies(before: Study, after: Study): StudyDiff {
+  const beforeFields = flattenStudy(before);
+  const afterFields = flattenStudy(after);
+  const paths = [
+    ...new Set([...beforeFields.keys(), ...afterFields.keys()]),
+  ].sort();
+
+  const changes: StudyFieldChange[] = [];
+  for (const path of paths) {
+    const was = beforeFields.get(path) ?? null;
+    const is = afterFields.get(path) ?? null;
+    if (was !== is) {
+      changes.push({ path, module: moduleOf(path), before: was, after: is });
+    }
+  }
+
+  const beforeOutcomes = before.protocolSection?.outcomesModule;
+  const afterOutcomes = after.protocolSection?.outcomesModule;
+  return {
+    changes,
+    outcomes: {
+      primary: compareOutcomeTitles(
+        beforeOutcomes?.primaryOutcomes,
+        afterOutcomes?.primaryOutcomes,
+      ),
+      secondary: compareOutcomeTitles(
+        beforeOutcomes?.secondaryOutcomes,
+        afterOutcomes?.secondaryOutcomes,
+      ),
+    },
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Barrel file for formatting utility modules.
+ * This file re-exports utilities that render data for human-readable tool output.
+ * @module src/utils/formatting
+ */
+
+export * from "./markdownTable.js";
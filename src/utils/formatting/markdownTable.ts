@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Provides a helper for rendering compact markdown tables in tool output.
+ * @module src/utils/formatting/markdownTable
+ */
+
+/**
+ * A value that can be rendered in a markdown table cell.
+ */
+export type MarkdownCell = string | number | boolean | null | undefined;
+
+/**
+ * Escapes a value for use in a markdown table cell.
+ * Pipes are escaped and line breaks are collapsed so a cell never breaks the row.
+ * @param value - The cell value.
+ * @returns The escaped cell text. Empty values render as an empty string.
+ */
+export function escapeMarkdownCell(value: MarkdownCell): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return String(value)
+    .replace(/\|/g, "\\|")
+    .replace(/\s*\r?\n\s*/g, " ")
+    .trim();
+}
+
+/**
+ * Renders a markdown table.
+ * @param headers - The column headers.
+ * @param rows - The table rows. Each row should have one cell per header.
+ * @param options - Optional column alignment, one of `left` or `right` per column.
+ * @returns The markdown table, without a trailing newline.
+ */
+export function formatMarkdownTable(
+  headers: string[],
+  rows: MarkdownCell[][],
+  options: { align?: ("left" | "right")[] } = {},
+): string {
+  const separator = headers.map((_, i) =>
+    options.align?.[i] === "right" ? "---:" : ":---",
+  );
+  const lines = [
+    `| ${headers.map(escapeMarkdownCell).join(" | ")} |`,
+    `| ${separator.join(" | ")} |`,
+    ...rows.map(
+      (row) =>
+        `| ${headers.map((_, i) => escapeMarkdownCell(row[i])).join(" | ")} |`,
+    ),
+  ];
+  return lines.join("\n");
+}
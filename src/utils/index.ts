@@ -6,6 +6,7 @@
  */
 
 // Re-export all utilities from their categorized subdirectories
+export * from "./formatting/index.js";
 export * from "./internal/index.js";
 export * from "./metrics/index.js";
 export * from "./parsing/index.js";
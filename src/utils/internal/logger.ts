@@ -301,6 +301,14 @@ export class Logger {
     });
   }
 
+  /**
+   * Gets the current minimum logging level.
+   * @returns The current minimum MCP log level.
+   */
+  public getLevel(): McpLogLevel {
+    return this.currentMcpLevel;
+  }
+
   /**
    * Dynamically sets the minimum logging level.
    * @param newLevel - The new minimum MCP log level to set.
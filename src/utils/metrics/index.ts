@@ -1,8 +1,10 @@
 /**
  * @fileoverview Barrel file for metrics-related utility modules.
  * This file re-exports utilities for collecting and processing metrics,
- * such as token counting.
+ * such as token counting and the Prometheus metrics registry.
  * @module src/utils/metrics
  */
 
+export * from "./metricsRegistry.js";
+export * from "./serverMetrics.js";
 export * from "./tokenCounter.js";
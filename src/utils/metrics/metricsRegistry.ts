@@ -0,0 +1,400 @@
+/**
+ * @fileoverview A minimal in-process metrics registry with counters, gauges,
+ * and histograms, rendered in the Prometheus text exposition format (0.0.4).
+ * Metrics are labelled by a fixed set of label names declared up front; each
+ * distinct combination of label values is a separate series.
+ * @module src/utils/metrics/metricsRegistry
+ */
+
+/**
+ * Label values of a series, by label name.
+ */
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * Options shared by all metric types.
+ */
+export interface MetricOptions {
+  /** The metric name, e.g. `mcp_tool_calls_total`. */
+  name: string;
+  /** A one-line description, rendered as the `# HELP` line. */
+  help: string;
+  /** The names of the labels every observation carries. */
+  labelNames?: readonly string[];
+}
+
+/**
+ * Options of a {@link Histogram}.
+ */
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds of the buckets, in increasing order. `+Inf` is implicit. */
+  buckets: readonly number[];
+}
+
+/**
+ * Default histogram buckets for durations in seconds.
+ */
+export const DEFAULT_DURATION_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+/**
+ * Escapes a label value for the text exposition format.
+ * @private
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Formats a sample value, spelling out the infinities.
+ * @private
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Renders a label set as `{a="1",b="2"}`, or an empty string without labels.
+ * @private
+ */
+function formatLabels(names: readonly string[], values: string[]): string {
+  if (names.length === 0) return "";
+  const pairs = names.map(
+    (name, i) => `${name}="${escapeLabelValue(values[i] ?? "")}"`,
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * The base of all metric types: validates labels and keys series by them.
+ */
+abstract class Metric<TSeries> {
+  public readonly name: string;
+  public readonly help: string;
+  public readonly labelNames: readonly string[];
+  protected readonly series = new Map<string, { labels: string[] } & TSeries>();
+
+  protected constructor(options: MetricOptions) {
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  /** The Prometheus metric type. */
+  protected abstract readonly type: "counter" | "gauge" | "histogram";
+
+  /** Creates the initial state of a new series. */
+  protected abstract createSeries(): TSeries;
+
+  /** Renders the sample lines of one series. */
+  protected abstract renderSeries(labels: string[], series: TSeries): string[];
+
+  /**
+   * Returns the series for a label set, creating it if needed.
+   * @throws {Error} If the labels do not match the declared label names.
+   */
+  protected getSeries(labels: MetricLabels = {}): TSeries {
+    const values = this.labelValues(labels);
+    const key = JSON.stringify(values);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: values, ...this.createSeries() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Returns the series for a label set, if it has been observed.
+   * @throws {Error} If the labels do not match the declared label names.
+   */
+  protected findSeries(labels: MetricLabels = {}): TSeries | undefined {
+    return this.series.get(JSON.stringify(this.labelValues(labels)));
+  }
+
+  /**
+   * Orders label values by the declared label names.
+   * @private
+   */
+  private labelValues(labels: MetricLabels): string[] {
+    const keys = Object.keys(labels);
+    if (
+      keys.length !== this.labelNames.length ||
+      keys.some((key) => !this.labelNames.includes(key))
+    ) {
+      throw new Error(
+        `Metric '${this.name}' expects labels [${this.labelNames.join(", ")}], got [${keys.join(", ")}].`,
+      );
+    }
+    return this.labelNames.map((name) => String(labels[name]));
+  }
+
+  /**
+   * Renders the metric, with its `# HELP` and `# TYPE` lines.
+   * @returns The lines of the metric.
+   */
+  public render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, ...series } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, series as TSeries));
+    }
+    return lines;
+  }
+
+  /**
+   * Removes all series.
+   */
+  public reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * A monotonically increasing count.
+ */
+export class Counter extends Metric<{ value: number }> {
+  protected readonly type = "counter";
+
+  constructor(options: MetricOptions) {
+    super(options);
+  }
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  protected renderSeries(labels: string[], series: { value: number }) {
+    return [
+      `${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(series.value)}`,
+    ];
+  }
+
+  /**
+   * Increments the counter.
+   * @param labels - The label values.
+   * @param value - The amount to add. Must not be negative.
+   */
+  public inc(labels?: MetricLabels, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter '${this.name}' cannot be decreased.`);
+    }
+    this.getSeries(labels).value += value;
+  }
+
+  /**
+   * Gets the current value of a series.
+   * @param labels - The label values.
+   * @returns The value, or 0 if the series has not been incremented.
+   */
+  public get(labels?: MetricLabels): number {
+    return this.findSeries(labels)?.value ?? 0;
+  }
+}
+
+/**
+ * A value that can go up and down.
+ */
+export class Gauge extends Metric<{ value: number }> {
+  protected readonly type = "gauge";
+
+  constructor(options: MetricOptions) {
+    super(options);
+  }
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  protected renderSeries(labels: string[], series: { value: number }) {
+    return [
+      `${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(series.value)}`,
+    ];
+  }
+
+  /**
+   * Sets the gauge.
+   * @param labels - The label values.
+   * @param value - The new value.
+   */
+  public set(labels: MetricLabels | undefined, value: number): void {
+    this.getSeries(labels).value = value;
+  }
+
+  /**
+   * Increments the gauge.
+   * @param labels - The label values.
+   * @param value - The amount to add.
+   */
+  public inc(labels?: MetricLabels, value = 1): void {
+    this.getSeries(labels).value += value;
+  }
+
+  /**
+   * Decrements the gauge.
+   * @param labels - The label values.
+   * @param value - The amount to subtract.
+   */
+  public dec(labels?: MetricLabels, value = 1): void {
+    this.getSeries(labels).value -= value;
+  }
+
+  /**
+   * Gets the current value of a series.
+   * @param labels - The label values.
+   * @returns The value, or 0 if the series has not been set.
+   */
+  public get(labels?: MetricLabels): number {
+    return this.findSeries(labels)?.value ?? 0;
+  }
+}
+
+interface HistogramSeries {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * A distribution of observations, counted in cumulative buckets.
+ */
+export class Histogram extends Metric<HistogramSeries> {
+  protected readonly type = "histogram";
+  public readonly buckets: readonly number[];
+
+  constructor(options: HistogramOptions) {
+    super(options);
+    if (options.labelNames?.includes("le")) {
+      throw new Error(`Histogram '${options.name}' cannot use the label 'le'.`);
+    }
+    this.buckets = [...options.buckets].sort((a, b) => a - b);
+  }
+
+  protected createSeries(): HistogramSeries {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: string[], series: HistogramSeries) {
+    const names = [...this.labelNames, "le"];
+    const lines = this.buckets.map(
+      (bound, i) =>
+        `${this.name}_bucket${formatLabels(names, [...labels, formatValue(bound)])} ${series.counts[i]}`,
+    );
+    lines.push(
+      `${this.name}_bucket${formatLabels(names, [...labels, "+Inf"])} ${series.count}`,
+      `${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(series.sum)}`,
+      `${this.name}_count${formatLabels(this.labelNames, labels)} ${series.count}`,
+    );
+    return lines;
+  }
+
+  /**
+   * Records an observation.
+   * @param labels - The label values.
+   * @param value - The observed value.
+   */
+  public observe(labels: MetricLabels | undefined, value: number): void {
+    const series = this.getSeries(labels);
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i] += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * Gets the number and sum of observations of a series.
+   * @param labels - The label values.
+   * @returns The count and sum.
+   */
+  public get(labels?: MetricLabels): { count: number; sum: number } {
+    const series = this.findSeries(labels);
+    return { count: series?.count ?? 0, sum: series?.sum ?? 0 };
+  }
+}
+
+/**
+ * A collection of metrics, rendered together for a `/metrics` endpoint.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Counter | Gauge | Histogram>();
+
+  /**
+   * Creates and registers a counter.
+   * @param options - The counter options.
+   * @returns The counter.
+   * @throws {Error} If a metric with the name is already registered.
+   */
+  public counter(options: MetricOptions): Counter {
+    return this.register(new Counter(options));
+  }
+
+  /**
+   * Creates and registers a gauge.
+   * @param options - The gauge options.
+   * @returns The gauge.
+   * @throws {Error} If a metric with the name is already registered.
+   */
+  public gauge(options: MetricOptions): Gauge {
+    return this.register(new Gauge(options));
+  }
+
+  /**
+   * Creates and registers a histogram.
+   * @param options - The histogram options.
+   * @returns The histogram.
+   * @throws {Error} If a metric with the name is already registered.
+   */
+  public histogram(options: HistogramOptions): Histogram {
+    return this.register(new Histogram(options));
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format.
+   * @returns The exposition text.
+   */
+  public render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  /**
+   * Removes all series of all metrics, keeping the metrics registered.
+   */
+  public reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  /** @private */
+  private register<T extends Counter | Gauge | Histogram>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric '${metric.name}' is already registered.`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * The content type of the Prometheus text exposition format.
+ */
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * The application's metrics registry, served at `/metrics`.
+ */
+export const metricsRegistry = new MetricsRegistry();
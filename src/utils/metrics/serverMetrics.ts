@@ -0,0 +1,78 @@
+/**
+ * @fileoverview The metrics the server records, registered with
+ * {@link metricsRegistry} and served at `/metrics` by the HTTP transport.
+ * @module src/utils/metrics/serverMetrics
+ */
+
+import {
+  DEFAULT_DURATION_BUCKETS,
+  metricsRegistry,
+} from "./metricsRegistry.js";
+
+/**
+ * Tool calls, by tool, outcome (`success` or `error`), and error code
+ * (`none` on success).
+ */
+export const toolCallsTotal = metricsRegistry.counter({
+  name: "mcp_tool_calls_total",
+  help: "Total MCP tool calls, by tool, outcome, and error code.",
+  labelNames: ["tool", "outcome", "code"],
+});
+
+/**
+ * Duration of tool calls, by tool and outcome.
+ */
+export const toolCallDurationSeconds = metricsRegistry.histogram({
+  name: "mcp_tool_call_duration_seconds",
+  help: "Duration of MCP tool calls in seconds, by tool and outcome.",
+  labelNames: ["tool", "outcome"],
+  buckets: DEFAULT_DURATION_BUCKETS,
+});
+
+/**
+ * Token counts of the text content of tool responses, by tool.
+ */
+export const toolResponseTokens = metricsRegistry.histogram({
+  name: "mcp_tool_response_tokens",
+  help: "Token count of the text content of MCP tool responses, by tool.",
+  labelNames: ["tool"],
+  buckets: [100, 500, 1000, 2500, 5000, 10000, 25000, 50000, 100000, 250000],
+});
+
+/**
+ * Requests to the ClinicalTrials.gov API, by endpoint family and HTTP status
+ * (`error` when no response was received).
+ */
+export const upstreamRequestsTotal = metricsRegistry.counter({
+  name: "ctgov_upstream_requests_total",
+  help: "Total ClinicalTrials.gov API requests not served from cache, by endpoint and status.",
+  labelNames: ["endpoint", "status"],
+});
+
+/**
+ * Latency of requests to the ClinicalTrials.gov API, including retries.
+ */
+export const upstreamRequestDurationSeconds = metricsRegistry.histogram({
+  name: "ctgov_upstream_request_duration_seconds",
+  help: "Latency of ClinicalTrials.gov API requests in seconds, including retries, by endpoint and status.",
+  labelNames: ["endpoint", "status"],
+  buckets: DEFAULT_DURATION_BUCKETS,
+});
+
+/**
+ * Active stateful MCP sessions of the HTTP transport.
+ */
+export const activeSessions = metricsRegistry.gauge({
+  name: "mcp_active_sessions",
+  help: "Active stateful MCP sessions.",
+});
+
+/**
+ * Requests rejected by the HTTP rate limiter, by the limit exceeded
+ * (`window`, `daily`, or `ip` for the per-IP limit before authentication).
+ */
+export const rateLimitRejectionsTotal = metricsRegistry.counter({
+  name: "mcp_rate_limit_rejections_total",
+  help: "Total HTTP requests rejected by the rate limiter, by the limit exceeded.",
+  labelNames: ["limit"],
+});
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Provides a `CircuitBreaker` class that stops sending requests to
+ * an upstream service after repeated failures, then probes it again after a
+ * cool-down period. State transitions are logged so operators can see when an
+ * upstream dependency is being shed.
+ * @module src/utils/network/circuitBreaker
+ */
+
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import { logger } from "../internal/logger.js";
+import type { RequestContext } from "../internal/requestContext.js";
+
+/**
+ * The state of a circuit breaker.
+ * - `closed`: Requests flow normally.
+ * - `open`: Requests are rejected immediately until the reset timeout elapses.
+ * - `half_open`: A single trial request is allowed through to probe the upstream.
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Configuration options for a {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures required to open the circuit. */
+  failureThreshold: number;
+  /** Time in milliseconds the circuit stays open before allowing a trial request. */
+  resetTimeoutMs: number;
+}
+
+/**
+ * A point-in-time view of a circuit breaker, suitable for health endpoints.
+ */
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt: string | null;
+  lastFailureAt: string | null;
+}
+
+/**
+ * A consecutive-failure circuit breaker for an upstream dependency.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private trialInFlight = false;
+
+  /**
+   * Creates a new `CircuitBreaker` instance.
+   * @param name - A human-readable name for the protected dependency, used in logs.
+   * @param breakerConfig - The breaker configuration.
+   */
+  constructor(
+    public readonly name: string,
+    private readonly breakerConfig: CircuitBreakerConfig,
+  ) {}
+
+  /**
+   * Ensures a request may proceed. Transitions from `open` to `half_open` once
+   * the reset timeout has elapsed.
+   * @param context - The request context for logging.
+   * @throws {McpError} With `SERVICE_UNAVAILABLE` if the circuit is open.
+   */
+  public assertCanRequest(context: RequestContext): void {
+    if (this.state === "open") {
+      const elapsed = Date.now() - (this.openedAt ?? 0);
+      if (elapsed < this.breakerConfig.resetTimeoutMs) {
+        const retryInSeconds = Math.ceil(
+          (this.breakerConfig.resetTimeoutMs - elapsed) / 1000,
+        );
+        throw new McpError(
+          BaseErrorCode.SERVICE_UNAVAILABLE,
+          `${this.name} is temporarily unavailable after repeated failures. Please try again in ${retryInSeconds} seconds.`,
+          { circuit: this.name, state: this.state, retryInSeconds },
+        );
+      }
+      this.transition("half_open", context);
+    }
+
+    if (this.state === "half_open") {
+      if (this.trialInFlight) {
+        throw new McpError(
+          BaseErrorCode.SERVICE_UNAVAILABLE,
+          `${this.name} is being probed after repeated failures. Please try again shortly.`,
+          { circuit: this.name, state: this.state },
+        );
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Records a successful request, closing the circuit if it was probing.
+   * @param context - The request context for logging.
+   */
+  public recordSuccess(context: RequestContext): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== "closed") {
+      this.transition("closed", context);
+    }
+  }
+
+  /**
+   * Records a failed request, opening the circuit once the threshold is reached
+   * or immediately if a half-open trial fails.
+   * @param context - The request context for logging.
+   */
+  public recordFailure(context: RequestContext): void {
+    this.consecutiveFailures++;
+    this.lastFailureAt = Date.now();
+    this.trialInFlight = false;
+
+    if (
+      this.state === "half_open" ||
+      (this.state === "closed" &&
+        this.consecutiveFailures >= this.breakerConfig.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition("open", context);
+    }
+  }
+
+  /**
+   * Returns a snapshot of the breaker's state.
+   * @returns The current breaker snapshot.
+   */
+  public getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.breakerConfig.failureThreshold,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      lastFailureAt: this.lastFailureAt
+        ? new Date(this.lastFailureAt).toISOString()
+        : null,
+    };
+  }
+
+  /**
+   * Resets the breaker to the `closed` state and clears all counters.
+   */
+  public reset(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.lastFailureAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Moves the breaker to a new state and logs the transition.
+   * @private
+   */
+  private transition(next: CircuitState, context: RequestContext): void {
+    const previous = this.state;
+    this.state = next;
+    const logContext = {
+      ...context,
+      circuit: this.name,
+      previousState: previous,
+      state: next,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+    if (next === "open") {
+      logger.warning(
+        `[CircuitBreaker] '${this.name}' opened after ${this.consecutiveFailures} consecutive failures.`,
+        logContext,
+      );
+    } else {
+      logger.info(
+        `[CircuitBreaker] '${this.name}' transitioned from ${previous} to ${next}.`,
+        logContext,
+      );
+    }
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Provides a retrying wrapper around `fetchWithTimeout`.
+ * Idempotent requests (GET/HEAD) that fail with a network error, a timeout,
+ * or a transient status (408, 429, 5xx) are retried with jittered exponential
+ * backoff. A `Retry-After` header, when present, takes precedence over the
+ * computed backoff. An optional circuit breaker can short-circuit requests to
+ * an upstream that is persistently failing.
+ * @module src/utils/network/fetchWithRetry
+ */
+
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import { logger } from "../internal/logger.js";
+import type { RequestContext } from "../internal/requestContext.js";
+import type { CircuitBreaker } from "./circuitBreaker.js";
+import {
+  fetchWithTimeout,
+  type FetchWithTimeoutOptions,
+} from "./fetchWithTimeout.js";
+
+/**
+ * Retry policy options for {@link fetchWithRetry}.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first. `1` disables retries. */
+  maxAttempts: number;
+  /** Base delay in milliseconds for the exponential backoff. */
+  baseDelayMs: number;
+  /** Upper bound in milliseconds for any single delay, including `Retry-After`. */
+  maxDelayMs: number;
+  /** Optional circuit breaker guarding the upstream. */
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * HTTP status codes that indicate a transient failure worth retrying.
+ */
+export const RETRYABLE_STATUS_CODES: ReadonlySet<number> = new Set([
+  408, 429, 500, 502, 503, 504,
+]);
+
+/**
+ * HTTP methods that are safe to retry without side effects.
+ * @private
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"]);
+
+/**
+ * Error codes from `fetchWithTimeout` that indicate a transient failure.
+ * @private
+ */
+const RETRYABLE_ERROR_CODES = new Set<BaseErrorCode>([
+  BaseErrorCode.TIMEOUT,
+  BaseErrorCode.SERVICE_UNAVAILABLE,
+]);
+
+/**
+ * Parses a `Retry-After` header value into milliseconds.
+ * Supports both delta-seconds and HTTP-date forms.
+ * @param headerValue - The raw header value.
+ * @param now - The current epoch time in milliseconds.
+ * @returns The delay in milliseconds, or `undefined` if the header is absent or invalid.
+ */
+export function parseRetryAfter(
+  headerValue: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!headerValue) {
+    return undefined;
+  }
+  const trimmed = headerValue.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Computes the delay before the next attempt.
+ * Uses "full jitter" exponential backoff unless a `Retry-After` value is given.
+ * @param attempt - The 1-based number of the attempt that just failed.
+ * @param policy - The retry policy.
+ * @param retryAfterMs - An optional server-provided delay.
+ * @returns The delay in milliseconds, capped at `policy.maxDelayMs`.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: Pick<RetryPolicy, "baseDelayMs" | "maxDelayMs">,
+  retryAfterMs?: number,
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * A simple promise-based delay function.
+ * @private
+ */
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetches a resource with a timeout, retrying transient failures of idempotent
+ * requests according to the given policy.
+ *
+ * The final `Response` is returned even when it is not OK, so callers keep
+ * control over how non-retryable statuses (e.g. 404) are surfaced.
+ *
+ * @param url - The URL to fetch.
+ * @param timeoutMs - The per-attempt timeout in milliseconds.
+ * @param context - The request context for logging.
+ * @param policy - The retry policy.
+ * @param options - Optional fetch options (RequestInit), excluding 'signal'.
+ * @returns A promise that resolves to the last Response received.
+ * @throws {McpError} If the circuit is open, or the last attempt failed with a network error or timeout.
+ */
+export async function fetchWithRetry(
+  url: string | URL,
+  timeoutMs: number,
+  context: RequestContext,
+  policy: RetryPolicy,
+  options?: FetchWithTimeoutOptions,
+): Promise<Response> {
+  const method = (options?.method ?? "GET").toUpperCase();
+  const maxAttempts = IDEMPOTENT_METHODS.has(method)
+    ? Math.max(1, policy.maxAttempts)
+    : 1;
+  const breaker = policy.circuitBreaker;
+
+  breaker?.assertCanRequest(context);
+
+  for (let attempt = 1; ; attempt++) {
+    const attemptContext = { ...context, attempt, maxAttempts };
+    let retryAfterMs: number | undefined;
+
+    try {
+      const response = await fetchWithTimeout(
+        url,
+        timeoutMs,
+        attemptContext,
+        options,
+      );
+
+      if (!RETRYABLE_STATUS_CODES.has(response.status)) {
+        breaker?.recordSuccess(attemptContext);
+        return response;
+      }
+
+      if (attempt >= maxAttempts) {
+        breaker?.recordFailure(attemptContext);
+        return response;
+      }
+
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      // Drain the body so the underlying connection can be reused.
+      await response.body?.cancel();
+      logger.warning(
+        `Transient status ${response.status} from ${method} ${url.toString()}.`,
+        { ...attemptContext, status: response.status },
+      );
+    } catch (error) {
+      const retryable =
+        error instanceof McpError && RETRYABLE_ERROR_CODES.has(error.code);
+      if (!retryable || attempt >= maxAttempts) {
+        breaker?.recordFailure(attemptContext);
+        throw error;
+      }
+    }
+
+    const delayMs = computeRetryDelay(attempt, policy, retryAfterMs);
+    logger.info(
+      `Retrying ${method} ${url.toString()} in ${delayMs}ms (attempt ${attempt + 1} of ${maxAttempts}).`,
+      { ...attemptContext, delayMs, retryAfterMs },
+    );
+    await sleep(delayMs);
+  }
+}
@@ -3,5 +3,7 @@
  * @module src/utils/network/index
  */
 
+export * from "./circuitBreaker.js";
+export * from "./fetchWithRetry.js";
 export * from "./fetchWithTimeout.js";
 export type { FetchWithTimeoutOptions } from "./fetchWithTimeout.js"; // Explicitly re-exporting type
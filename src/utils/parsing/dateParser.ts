@@ -91,6 +91,70 @@ export async function parseDateStringDetailed(
   );
 }
 
+/**
+ * A calendar date whose month and day may be unknown, such as the `"2023-05"`
+ * dates returned by the ClinicalTrials.gov API.
+ */
+export interface PartialDate {
+  year: number;
+  /** The month (1-12), if known. */
+  month?: number;
+  /** The day of the month (1-31), if known. */
+  day?: number;
+}
+
+/**
+ * Matches ISO 8601 calendar dates with optional month and day (`YYYY`, `YYYY-MM`, `YYYY-MM-DD`).
+ * @private
+ */
+const ISO_PARTIAL_DATE_REGEX = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/**
+ * Parses a date string that may only specify a year or a year and month.
+ * ISO partial dates are parsed directly, as `chrono-node` does not recognize
+ * them; any other format (e.g., "May 2023") is parsed with `chrono-node`, and
+ * only the components it is certain about are kept.
+ *
+ * @param text - The date string to parse.
+ * @param context - The request context for logging and error tracking.
+ * @returns A promise resolving with the known date components, or `null` if parsing fails.
+ * @throws {McpError} If an unexpected error occurs during parsing.
+ */
+export async function parsePartialDateString(
+  text: string,
+  context: RequestContext,
+): Promise<PartialDate | null> {
+  const trimmed = text.trim();
+  const isoMatch = ISO_PARTIAL_DATE_REGEX.exec(trimmed);
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch;
+    const monthNumber = month ? Number(month) : undefined;
+    const dayNumber = day ? Number(day) : undefined;
+    if (
+      (monthNumber !== undefined && (monthNumber < 1 || monthNumber > 12)) ||
+      (dayNumber !== undefined && (dayNumber < 1 || dayNumber > 31))
+    ) {
+      return null;
+    }
+    return { year: Number(year), month: monthNumber, day: dayNumber };
+  }
+
+  const [result] = await parseDateStringDetailed(trimmed, context);
+  const year = result?.start.get("year");
+  if (!result || !result.start.isCertain("year") || !year) {
+    return null;
+  }
+  return {
+    year,
+    month: result.start.isCertain("month")
+      ? (result.start.get("month") ?? undefined)
+      : undefined,
+    day: result.start.isCertain("day")
+      ? (result.start.get("day") ?? undefined)
+      : undefined,
+  };
+}
+
 /**
  * An object providing date parsing functionalities.
  *
@@ -131,4 +195,11 @@ export const dateParser = {
    * @returns A promise resolving with a Date object or `null`.
    */
   parseDate: parseDateString,
+  /**
+   * Parses a date string that may only specify a year or a year and month.
+   * @param text - The date string to parse (e.g., "2023-05").
+   * @param context - The request context for logging and error tracking.
+   * @returns A promise resolving with the known date components, or `null`.
+   */
+  parsePartial: parsePartialDateString,
 };
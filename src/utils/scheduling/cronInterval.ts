@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Computes how often a 5-field cron pattern fires, so that
+ * callers can reject schedules that would run a job too often. Fields are
+ * expanded the way 'node-cron' expands them: lists, ranges, steps, `*`, and
+ * month and weekday names, with the day of the month and the day of the week
+ * both having to match.
+ * @module src/utils/scheduling/cronInterval
+ */
+
+const MINUTE_MS = 60_000;
+const DAY_MINUTES = 1440;
+/**
+ * Days simulated to find the shortest gap between two days a pattern fires on.
+ * Eight years cover every weekday of every date, including February 29.
+ * @private
+ */
+const SIMULATED_DAYS = 8 * 366;
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Returns the number of fields of a cron pattern: 5, or 6 if it has a
+ * leading seconds field.
+ * @param expression - The cron pattern.
+ * @returns The number of whitespace-separated fields.
+ */
+export function countCronFields(expression: string): number {
+  return expression.trim().split(/\s+/).length;
+}
+
+/**
+ * Expands one cron field into the set of values it matches.
+ * @private
+ */
+function expandField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0,
+): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string) => {
+    const index = names.findIndex((name) =>
+      token.toLowerCase().startsWith(name),
+    );
+    return index === -1 ? parseInt(token, 10) : index + nameOffset;
+  };
+  for (const item of field.split(",")) {
+    const [range, stepText] = item.split("/");
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let [first, last] =
+      range === "*"
+        ? [min, max]
+        : range.includes("-")
+          ? range.split("-").map(toNumber)
+          : [toNumber(range), toNumber(range)];
+    if (first > last) [first, last] = [last, first];
+    for (let value = first; value <= last; value += Math.max(1, step)) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Computes the shortest time between two consecutive runs of a 5-field cron
+ * pattern, ignoring daylight saving time changes.
+ * @param expression - A valid 5-field cron pattern.
+ * @returns The shortest interval in milliseconds, or `Infinity` if the pattern
+ *   fires at most once in eight years.
+ * @throws {Error} If the pattern does not have exactly 5 fields.
+ */
+export function getMinimumCronIntervalMs(expression: string): number {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Expected a 5-field cron pattern, got ${fields.length} fields: ${expression}`,
+    );
+  }
+  const minutes = expandField(fields[0], 0, 59);
+  const hours = expandField(fields[1], 0, 23);
+  const daysOfMonth = expandField(fields[2], 1, 31);
+  const months = expandField(fields[3], 1, 12, MONTH_NAMES, 1);
+  const weekdays = new Set(
+    [...expandField(fields[4], 0, 7, WEEKDAY_NAMES)].map((day) => day % 7),
+  );
+
+  const times = [...hours]
+    .flatMap((hour) => [...minutes].map((minute) => hour * 60 + minute))
+    .sort((a, b) => a - b);
+  let shortest = Infinity;
+  for (let i = 1; i < times.length; i++) {
+    shortest = Math.min(shortest, times[i] - times[i - 1]);
+  }
+
+  // The shortest gap between the last run of one day and the first run of
+  // the next day that the pattern fires on.
+  let previousDay: number | undefined;
+  for (let day = 0; day < SIMULATED_DAYS; day++) {
+    const date = new Date(Date.UTC(2024, 0, 1 + day));
+    if (
+      !daysOfMonth.has(date.getUTCDate()) ||
+      !months.has(date.getUTCMonth() + 1) ||
+      !weekdays.has(date.getUTCDay())
+    ) {
+      continue;
+    }
+    if (previousDay !== undefined && times.length > 0) {
+      shortest = Math.min(
+        shortest,
+        (day - previousDay) * DAY_MINUTES + times[0] - times[times.length - 1],
+      );
+    }
+    previousDay = day;
+  }
+  return shortest * MINUTE_MS;
+}
@@ -4,4 +4,5 @@
  * @module src/utils/scheduling
  */
 
+export * from "./cronInterval.js";
 export * from "./scheduler.js";
@@ -31,6 +31,7 @@ export interface Job {
 export class SchedulerService {
   private static instance: SchedulerService;
   private jobs: Map<string, Job> = new Map();
+  private runners: Map<string, () => Promise<void>> = new Map();
 
   /** @private */
   private constructor() {
@@ -74,7 +75,7 @@ export class SchedulerService {
       throw new Error(`Invalid cron schedule: ${schedule}`);
     }
 
-    const task = createTask(schedule, async () => {
+    const run = async () => {
       const job = this.jobs.get(id);
       if (job && job.isRunning) {
         logger.warning(
@@ -107,7 +108,8 @@ export class SchedulerService {
           job.isRunning = false;
         }
       }
-    });
+    };
+    const task = createTask(schedule, run);
 
     const newJob: Job = {
       id,
@@ -118,6 +120,7 @@ export class SchedulerService {
     };
 
     this.jobs.set(id, newJob);
+    this.runners.set(id, run);
     logger.info(`Job '${id}' scheduled: ${description}`, {
       requestId: `job-schedule-${id}`,
       timestamp: new Date().toISOString(),
@@ -157,6 +160,24 @@ export class SchedulerService {
     });
   }
 
+  /**
+   * Runs a job immediately, outside its schedule. As with scheduled runs, the
+   * run is skipped if the job is already running.
+   * @param id - The ID of the job to run.
+   * @returns A promise that resolves when the run finishes.
+   */
+  public async trigger(id: string): Promise<void> {
+    const run = this.runners.get(id);
+    if (!run) {
+      throw new Error(`Job with ID '${id}' not found.`);
+    }
+    logger.info(`Job '${id}' triggered manually.`, {
+      requestId: `job-trigger-${id}`,
+      timestamp: new Date().toISOString(),
+    });
+    await run();
+  }
+
   /**
    * Removes a job from the scheduler. The job is stopped before being removed.
    * @param id - The ID of the job to remove.
@@ -168,6 +189,7 @@ export class SchedulerService {
     }
     job.task.stop();
     this.jobs.delete(id);
+    this.runners.delete(id);
     logger.info(`Job '${id}' removed.`, {
       requestId: `job-remove-${id}`,
       timestamp: new Date().toISOString(),
@@ -1,10 +1,12 @@
 /**
  * @fileoverview Barrel file for security-related utility modules.
  * This file re-exports utilities for input sanitization, rate limiting,
- * and ID generation.
+ * usage quotas, and ID generation.
  * @module src/utils/security
  */
 
 export * from "./idGenerator.js";
 export * from "./rateLimiter.js";
+export * from "./rateLimitStore.js";
 export * from "./sanitization.js";
+export * from "./usageLimiter.js";
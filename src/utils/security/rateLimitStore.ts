@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Storage for rate limit counters. The {@link UsageLimiter} keeps
+ * its counters in a {@link RateLimitStore}, so replicas of the server can share
+ * limits through an external store; {@link MemoryRateLimitStore} keeps them in
+ * process memory.
+ * @module src/utils/security/rateLimitStore
+ */
+
+import { logger, requestContextService } from "../index.js";
+import type { RateLimitEntry } from "./rateLimiter.js";
+
+/**
+ * A store of fixed-window counters.
+ */
+export interface RateLimitStore {
+  /**
+   * Adds `cost` to the counter of `key`. If the key has no counter, or its
+   * window has ended, a new window of `windowMs` starts with the counter at
+   * `cost`. Must be atomic when the store is shared.
+   * @param key - The counter key.
+   * @param cost - The amount to add.
+   * @param windowMs - The length of a new window, in milliseconds.
+   * @returns A promise that resolves with the counter after the increment.
+   */
+  increment(
+    key: string,
+    cost: number,
+    windowMs: number,
+  ): Promise<RateLimitEntry>;
+
+  /**
+   * Releases the store's resources.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * A {@link RateLimitStore} in process memory. Limits are not shared between
+ * replicas and reset when the process restarts.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, RateLimitEntry>();
+  private cleanupTimer: NodeJS.Timeout | null;
+
+  /**
+   * Creates a new `MemoryRateLimitStore`.
+   * @param cleanupIntervalMs - How often to drop expired counters.
+   */
+  constructor(cleanupIntervalMs = 5 * 60 * 1000) {
+    this.cleanupTimer = setInterval(() => this.cleanup(), cleanupIntervalMs);
+    this.cleanupTimer.unref?.();
+  }
+
+  public async increment(
+    key: string,
+    cost: number,
+    windowMs: number,
+  ): Promise<RateLimitEntry> {
+    const now = Date.now();
+    const entry = this.counters.get(key);
+    if (!entry || now >= entry.resetTime) {
+      const fresh = { count: cost, resetTime: now + windowMs };
+      this.counters.set(key, fresh);
+      return { ...fresh };
+    }
+    entry.count += cost;
+    return { ...entry };
+  }
+
+  public async close(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.counters.clear();
+  }
+
+  /**
+   * Removes counters whose window has ended.
+   * @private
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.counters) {
+      if (now >= entry.resetTime) {
+        this.counters.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      logger.debug(
+        `Cleaned up ${removed} expired rate limit counters`,
+        requestContextService.createRequestContext({
+          operation: "MemoryRateLimitStore.cleanup",
+          remaining: this.counters.size,
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Provides the `UsageLimiter` class, which limits the usage of
+ * each identity (an authenticated client, or an IP address) by cost-weighted
+ * requests per time window and per UTC day. Counters are kept in a pluggable
+ * {@link RateLimitStore}.
+ * @module src/utils/security/usageLimiter
+ */
+
+import { logger, type RequestContext } from "../index.js";
+import type { RateLimitStore } from "./rateLimitStore.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Defines configuration options for the {@link UsageLimiter}.
+ */
+export interface UsageLimitConfig {
+  /** Length of the rate limit window, in milliseconds. */
+  windowMs: number;
+  /** Total cost each identity may spend per window. */
+  windowLimit: number;
+  /** Total cost each identity may spend per UTC day. `0` disables the quota. */
+  dailyQuota: number;
+}
+
+/**
+ * The outcome of {@link UsageLimiter.consume}, describing the limit closest to
+ * being exhausted, or the limit that was exceeded.
+ */
+export interface UsageLimitResult {
+  /** Whether the request is within its limits. */
+  allowed: boolean;
+  /** The limit that was exceeded, if any. */
+  exceeded?: "window" | "daily";
+  /** The total cost allowed by the reported limit. */
+  limit: number;
+  /** The cost remaining under the reported limit. */
+  remaining: number;
+  /** Seconds until the reported limit resets. */
+  resetSeconds: number;
+  /** The configured limits, as a `RateLimit-Policy` header value. */
+  policy: string;
+}
+
+/**
+ * Limits the cost-weighted usage of each identity per window and per day.
+ */
+export class UsageLimiter {
+  /**
+   * Creates a new `UsageLimiter`.
+   * @param store - Where the counters are kept.
+   * @param config - The limits.
+   */
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly config: UsageLimitConfig,
+  ) {}
+
+  /**
+   * Charges a request's cost to an identity. The daily quota is not charged
+   * for requests rejected by the window limit.
+   * @param identity - The key of the identity, e.g. `client:<clientId>`.
+   * @param cost - The cost of the request.
+   * @param context - The request context for logging.
+   * @returns A promise that resolves with the outcome.
+   */
+  public async consume(
+    identity: string,
+    cost: number,
+    context: RequestContext,
+  ): Promise<UsageLimitResult> {
+    const now = Date.now();
+    const { windowMs, windowLimit, dailyQuota } = this.config;
+    const policy = [
+      `${windowLimit};w=${Math.ceil(windowMs / 1000)}`,
+      ...(dailyQuota > 0 ? [`${dailyQuota};w=${DAY_MS / 1000}`] : []),
+    ].join(", ");
+
+    const window = await this.store.increment(
+      `window:${identity}`,
+      cost,
+      windowMs,
+    );
+    const windowStatus = {
+      limit: windowLimit,
+      remaining: Math.max(0, windowLimit - window.count),
+      resetSeconds: Math.max(0, Math.ceil((window.resetTime - now) / 1000)),
+      policy,
+    };
+    if (window.count > windowLimit) {
+      logger.warning(`Rate limit exceeded for '${identity}'.`, {
+        ...context,
+        cost,
+        limit: windowLimit,
+      });
+      return { allowed: false, exceeded: "window", ...windowStatus };
+    }
+    if (dailyQuota <= 0) {
+      return { allowed: true, ...windowStatus };
+    }
+
+    // Daily counters reset at the next UTC midnight.
+    const daily = await this.store.increment(
+      `daily:${identity}`,
+      cost,
+      DAY_MS - (now % DAY_MS),
+    );
+    const dailyStatus = {
+      limit: dailyQuota,
+      remaining: Math.max(0, dailyQuota - daily.count),
+      resetSeconds: Math.max(0, Math.ceil((daily.resetTime - now) / 1000)),
+      policy,
+    };
+    if (daily.count > dailyQuota) {
+      logger.warning(`Daily quota exceeded for '${identity}'.`, {
+        ...context,
+        cost,
+        quota: dailyQuota,
+      });
+      return { allowed: false, exceeded: "daily", ...dailyStatus };
+    }
+    return {
+      allowed: true,
+      ...(dailyStatus.remaining < windowStatus.remaining
+        ? dailyStatus
+        : windowStatus),
+    };
+  }
+
+  /**
+   * Releases the store's resources.
+   */
+  public async close(): Promise<void> {
+    await this.store.close();
+  }
+}
@@ -0,0 +1,54 @@
+-- Persistence tables for saved searches, search snapshots, study annotations,
+-- and analysis results. Keep in sync with the SQLite migrations in
+-- src/services/persistence/sqlite/migrations.ts and the types in
+-- src/services/supabase/database.types.ts.
+
+create table if not exists public.saved_searches (
+  id text primary key,
+  name text not null unique,
+  params jsonb not null,
+  schedule text not null,
+  created_at timestamptz not null default now(),
+  last_run_at timestamptz,
+  last_error text,
+  study_count integer
+);
+
+create table if not exists public.search_snapshots (
+  search_id text primary key
+    references public.saved_searches (id) on delete cascade,
+  taken_at timestamptz not null,
+  studies jsonb not null
+);
+
+create table if not exists public.study_annotations (
+  id text primary key,
+  nct_id text not null,
+  note text not null,
+  tags text[] not null default '{}',
+  author text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+create index if not exists study_annotations_nct_id_idx
+  on public.study_annotations (nct_id);
+create index if not exists study_annotations_tags_idx
+  on public.study_annotations using gin (tags);
+
+create table if not exists public.analysis_results (
+  id text primary key,
+  analysis_type text not null,
+  params jsonb not null,
+  result jsonb not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists analysis_results_type_created_idx
+  on public.analysis_results (analysis_type, created_at desc);
+
+-- The server connects with the service role key, which bypasses row level
+-- security. Enabling it without policies keeps the tables private to the
+-- anon and authenticated roles.
+alter table public.saved_searches enable row level security;
+alter table public.search_snapshots enable row level security;
+alter table public.study_annotations enable row level security;
+alter table public.analysis_results enable row level security;
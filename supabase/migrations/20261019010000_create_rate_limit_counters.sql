@@ -0,0 +1,44 @@
+-- Rate limit and quota counters shared by the replicas of the server when
+-- RATE_LIMIT_STORE is "supabase". Keep in sync with the types in
+-- src/services/supabase/database.types.ts.
+
+create table if not exists public.rate_limit_counters (
+  key text primary key,
+  count integer not null,
+  reset_at timestamptz not null
+);
+
+-- Adds p_cost to the counter of p_key, starting a new window of p_window_ms
+-- when the key has no counter or its window has ended. Returns the counter and
+-- the end of its window in Unix milliseconds.
+create or replace function public.increment_rate_limit(
+  p_key text,
+  p_cost integer,
+  p_window_ms integer
+)
+returns table (count integer, reset_time bigint)
+language sql
+as $$
+  insert into public.rate_limit_counters as c (key, count, reset_at)
+  values (
+    p_key,
+    p_cost,
+    now() + make_interval(secs => p_window_ms / 1000.0)
+  )
+  on conflict (key) do update set
+    count = case
+      when c.reset_at <= now() then excluded.count
+      else c.count + excluded.count
+    end,
+    reset_at = case
+      when c.reset_at <= now() then excluded.reset_at
+      else c.reset_at
+    end
+  returning c.count, (extract(epoch from c.reset_at) * 1000)::bigint;
+$$;
+
+-- The server connects with the service role key, which bypasses row level
+-- security and keeps its execute grant.
+alter table public.rate_limit_counters enable row level security;
+revoke execute on function public.increment_rate_limit(text, integer, integer)
+  from public, anon, authenticated;
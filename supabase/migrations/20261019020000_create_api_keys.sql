@@ -0,0 +1,22 @@
+-- API keys accepted by the "apikey" auth mode when MCP_API_KEY_SOURCE is
+-- "supabase". Only the SHA-256 hash of each key is stored; generate keys with
+-- `npm run auth:generate-key`. Keep in sync with the types in
+-- src/services/supabase/database.types.ts.
+
+create table if not exists public.api_keys (
+  id text primary key,
+  client_id text not null,
+  key_hash text not null unique,
+  scopes text[] not null check (cardinality(scopes) > 0),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  last_used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+create index if not exists api_keys_client_id_idx
+  on public.api_keys (client_id);
+
+-- The server connects with the service role key, which bypasses row level
+-- security. Enabling it without policies keeps the keys private to the anon
+-- and authenticated roles.
+alter table public.api_keys enable row level security;
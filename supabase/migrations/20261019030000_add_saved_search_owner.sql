@@ -0,0 +1,10 @@
+-- Saved searches belong to the authenticated client or subject that saved
+-- them, and names are unique per owner rather than across the server.
+-- Searches saved without authentication have no owner. Keep in sync with the
+-- SQLite migrations in src/services/persistence/sqlite/migrations.ts and the
+-- types in src/services/supabase/database.types.ts.
+
+alter table public.saved_searches add column if not exists owner text;
+alter table public.saved_searches drop constraint if exists saved_searches_name_key;
+create unique index if not exists saved_searches_owner_name_idx
+  on public.saved_searches (coalesce(owner, ''), name);
@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Tests for the compare_interventions prompt.
+ * @module tests/mcp-server/prompts/compareInterventions.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildCompareInterventionsPrompt } from '../../../src/mcp-server/prompts/compareInterventions/logic';
+
+describe('buildCompareInterventionsPrompt', () => {
+  it('should list each intervention and wire up the analysis tools', () => {
+    const result = buildCompareInterventionsPrompt({
+      condition: 'obesity',
+      interventions: 'semaglutide, tirzepatide,',
+    });
+    const content = result.messages[0].content;
+    const text = content.type === 'text' ? content.text : '';
+
+    expect(result.description).toBe('Compare semaglutide vs. tirzepatide in obesity');
+    expect(text).toContain('- semaglutide\n- tirzepatide');
+    expect(text).toContain('clinicaltrials_analyze_trends');
+    expect(text).toContain('`query.cond` set to "obesity"');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Tests for the find_recruiting_trials prompt.
+ * @module tests/mcp-server/prompts/findRecruitingTrials.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildFindRecruitingTrialsPrompt } from '../../../src/mcp-server/prompts/findRecruitingTrials/logic';
+
+const getText = (result: ReturnType<typeof buildFindRecruitingTrialsPrompt>) => {
+  const content = result.messages[0].content;
+  return content.type === 'text' ? content.text : '';
+};
+
+describe('buildFindRecruitingTrialsPrompt', () => {
+  it('should build a single user message with search instructions', () => {
+    const result = buildFindRecruitingTrialsPrompt({ condition: 'type 2 diabetes' });
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    expect(getText(result)).toContain('clinicaltrials_search_studies');
+    expect(getText(result)).toContain('`query.cond` set to "type 2 diabetes"');
+    expect(getText(result)).not.toContain('filter.advanced` set to');
+  });
+
+  it('should translate age, sex, and location into search arguments', () => {
+    const text = getText(
+      buildFindRecruitingTrialsPrompt({ condition: 'asthma', age: '54', sex: 'Female', location: 'Boston, MA' }),
+    );
+
+    expect(text).toContain('`query.locn` set to "Boston, MA"');
+    expect(text).toContain('AREA[Sex](FEMALE OR ALL)');
+    expect(text).toContain('AREA[MinimumAge]RANGE[MIN, 54 years]');
+    expect(text).toContain('- Age: 54');
+  });
+
+  it('should ignore an unparseable age in the filter', () => {
+    const text = getText(buildFindRecruitingTrialsPrompt({ condition: 'asthma', age: 'adult' }));
+
+    expect(text).not.toContain('AREA[MinimumAge]');
+    expect(text).toContain('- Age: adult');
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Tests for the sponsor_landscape prompt.
+ * @module tests/mcp-server/prompts/sponsorLandscape.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildSponsorLandscapePrompt } from '../../../src/mcp-server/prompts/sponsorLandscape/logic';
+
+const getText = (result: ReturnType<typeof buildSponsorLandscapePrompt>) => {
+  const content = result.messages[0].content;
+  return content.type === 'text' ? content.text : '';
+};
+
+describe('buildSponsorLandscapePrompt', () => {
+  it('should query by sponsor only when no condition is given', () => {
+    const result = buildSponsorLandscapePrompt({ sponsor: 'Pfizer' });
+
+    expect(result.description).toBe('Trial landscape for Pfizer');
+    expect(getText(result)).toContain('`query.spons` set to "Pfizer"');
+    expect(getText(result)).not.toContain('query.cond');
+  });
+
+  it('should narrow the query to a condition', () => {
+    const text = getText(buildSponsorLandscapePrompt({ sponsor: 'Pfizer', condition: 'RSV' }));
+
+    expect(text).toContain('`query.spons` set to "Pfizer" and `query.cond` set to "RSV"');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Tests for the saved search change feed resource and resource subscriptions.
+ * @module tests/mcp-server/resources/savedSearchResource.test
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { readSavedSearchChangesLogic } from '../../../src/mcp-server/resources/savedSearchResource/logic';
+import { registerSavedSearchResources } from '../../../src/mcp-server/resources/savedSearchResource/registration';
+import { isSubscribed, registerResourceSubscriptions } from '../../../src/mcp-server/resources/subscriptions';
+import { SavedSearchService, StudyChangeListener } from '../../../src/services/savedSearches';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the SavedSearchService
+vi.mock('../../../src/services/savedSearches');
+
+describe('savedSearchResource', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const search = { id: 'search-1', name: 'Glioma', params: {}, schedule: '0 * * * *', createdAt: '2026-01-01T00:00:00.000Z' };
+  let listeners: StudyChangeListener[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listeners = [];
+    vi.spyOn(SavedSearchService, 'getInstance').mockReturnValue({
+      list: vi.fn().mockReturnValue([search]),
+      get: vi.fn((id: string) => (id === search.id ? search : undefined)),
+      getChanges: vi.fn().mockReturnValue([]),
+      onChange: vi.fn((listener: StudyChangeListener) => {
+        listeners.push(listener);
+        return () => listeners.splice(listeners.indexOf(listener), 1);
+      }),
+    } as unknown as SavedSearchService);
+  });
+
+  it('should read a saved search and its changes', () => {
+    expect(readSavedSearchChangesLogic('search-1', mockRequestContext)).toEqual({ search, changes: [] });
+    expect(SavedSearchService.getInstance().getChanges).toHaveBeenCalledWith({ searchId: 'search-1', limit: 100 });
+  });
+
+  it('should throw NOT_FOUND for an unknown saved search', () => {
+    expect(() => readSavedSearchChangesLogic('missing', mockRequestContext)).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.NOT_FOUND }),
+    );
+  });
+
+  it('should notify subscribed clients of changes until the server closes', async () => {
+    const server = new McpServer(
+      { name: 'test', version: '1.0.0' },
+      { capabilities: { resources: { listChanged: true, subscribe: true } } },
+    );
+    registerResourceSubscriptions(server);
+    await registerSavedSearchResources(server);
+    const sendResourceUpdated = vi.spyOn(server.server, 'sendResourceUpdated').mockResolvedValue();
+    const uri = 'clinicaltrials://saved-search/search-1/changes';
+
+    await listeners[0](search, []);
+    expect(sendResourceUpdated).not.toHaveBeenCalled();
+
+    // Simulate a subscribe request by invoking the registered handler.
+    const handlers = (server.server as unknown as { _requestHandlers: Map<string, (req: unknown) => Promise<unknown>> })
+      ._requestHandlers;
+    await handlers.get('resources/subscribe')!({ method: 'resources/subscribe', params: { uri } });
+    expect(isSubscribed(server, uri)).toBe(true);
+
+    await listeners[0](search, []);
+    expect(sendResourceUpdated).toHaveBeenCalledWith({ uri });
+
+    server.server.onclose?.();
+    expect(listeners).toHaveLength(0);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Tests for the study resources and the session NCT ID tracker.
+ * @module tests/mcp-server/resources/studyResource.test
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildStudyResourceUri,
+  readStudyResourceLogic,
+} from '../../../src/mcp-server/resources/studyResource/logic';
+import {
+  getTrackedStudyIds,
+  MAX_TRACKED_STUDY_IDS,
+  trackStudyIds,
+} from '../../../src/mcp-server/resources/studyResource/studyIdTracker';
+import { ClinicalTrialsGovService, Study } from '../../../src/services/clinical-trials-gov';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+describe('readStudyResourceLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const mockStudy: Study = {
+    protocolSection: {
+      identificationModule: { nctId: 'NCT12345678', briefTitle: 'Test Study' },
+      eligibilityModule: { eligibilityCriteria: 'Inclusion Criteria: adults', sex: 'ALL' },
+      contactsLocationsModule: { locations: [{ city: 'Boston', country: 'United States' }] },
+    },
+    hasResults: false,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      fetchStudy: vi.fn().mockResolvedValue(mockStudy),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should build resource URIs for each view', () => {
+    expect(buildStudyResourceUri('NCT12345678')).toBe('clinicaltrials://study/NCT12345678');
+    expect(buildStudyResourceUri('NCT12345678', 'eligibility')).toBe('clinicaltrials://study/NCT12345678/eligibility');
+  });
+
+  it('should return the full study for the full view', async () => {
+    const result = await readStudyResourceLogic('nct12345678', 'full', mockRequestContext);
+
+    expect(result).toEqual(mockStudy);
+    expect(ClinicalTrialsGovService.getInstance().fetchStudy).toHaveBeenCalledWith(
+      'NCT12345678',
+      mockRequestContext,
+      { markupFormat: 'markdown' },
+    );
+  });
+
+  it('should extract the eligibility and locations views', async () => {
+    const eligibility = await readStudyResourceLogic('NCT12345678', 'eligibility', mockRequestContext);
+    const locations = await readStudyResourceLogic('NCT12345678', 'locations', mockRequestContext);
+
+    expect(eligibility).toEqual({
+      nctId: 'NCT12345678',
+      briefTitle: 'Test Study',
+      eligibility: mockStudy.protocolSection?.eligibilityModule,
+    });
+    expect(locations.locations).toEqual(mockStudy.protocolSection?.contactsLocationsModule);
+  });
+
+  it('should throw NOT_FOUND for the results view of a study without results', async () => {
+    await expect(readStudyResourceLogic('NCT12345678', 'results', mockRequestContext)).rejects.toHaveProperty(
+      'code',
+      BaseErrorCode.NOT_FOUND,
+    );
+  });
+
+  it('should reject malformed NCT IDs without calling the API', async () => {
+    await expect(readStudyResourceLogic('NCT123', 'full', mockRequestContext)).rejects.toHaveProperty(
+      'code',
+      BaseErrorCode.INVALID_INPUT,
+    );
+    expect(ClinicalTrialsGovService.getInstance().fetchStudy).not.toHaveBeenCalled();
+  });
+});
+
+describe('studyIdTracker', () => {
+  const createServer = () => ({ sendResourceListChanged: vi.fn() }) as unknown as McpServer;
+
+  it('should track IDs per server, most recent first', () => {
+    const server = createServer();
+    const otherServer = createServer();
+
+    trackStudyIds(server, ['NCT00000001', 'nct00000002', undefined, 'invalid']);
+    trackStudyIds(server, ['NCT00000001']);
+
+    expect(getTrackedStudyIds(server)).toEqual(['NCT00000001', 'NCT00000002']);
+    expect(getTrackedStudyIds(otherServer)).toEqual([]);
+  });
+
+  it('should notify the client only when new IDs are seen', () => {
+    const server = createServer();
+
+    expect(trackStudyIds(server, ['NCT00000001'])).toBe(true);
+    expect(trackStudyIds(server, ['NCT00000001'])).toBe(false);
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evict the oldest IDs beyond the limit', () => {
+    const server = createServer();
+    const ids = Array.from({ length: MAX_TRACKED_STUDY_IDS + 1 }, (_, i) => `NCT${String(i).padStart(8, '0')}`);
+
+    trackStudyIds(server, ids);
+
+    const tracked = getTrackedStudyIds(server);
+    expect(tracked).toHaveLength(MAX_TRACKED_STUDY_IDS);
+    expect(tracked).not.toContain('NCT00000000');
+  });
+});
@@ -8,11 +8,40 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { config } from "../../src/config/index.js";
 import { initializeAndStartServer } from "../../src/mcp-server/server.js";
 import { startStdioTransport } from "../../src/mcp-server/transports/stdio/index.js";
+import {
+  applyScopePolicy,
+  loadScopePolicy,
+} from "../../src/mcp-server/transports/auth/index.js";
 import { startHttpTransport } from "../../src/mcp-server/transports/http/index.js";
 import { ErrorHandler } from "../../src/utils/index.js";
+import { registerCompareInterventionsPrompt } from "../../src/mcp-server/prompts/compareInterventions/index.js";
+import { registerFindRecruitingTrialsPrompt } from "../../src/mcp-server/prompts/findRecruitingTrials/index.js";
+import { registerSponsorLandscapePrompt } from "../../src/mcp-server/prompts/sponsorLandscape/index.js";
+import { registerStudyResources } from "../../src/mcp-server/resources/studyResource/index.js";
+import { registerAnalysisResultResources } from "../../src/mcp-server/resources/analysisResultResource/index.js";
+import { registerSavedSearchResources } from "../../src/mcp-server/resources/savedSearchResource/index.js";
+import { registerResourceSubscriptions } from "../../src/mcp-server/resources/subscriptions.js";
 import { registerGetStudyTool } from "../../src/mcp-server/tools/getStudy/index.js";
+import { instrumentToolCalls } from "../../src/mcp-server/tools/toolMetrics.js";
 import { registerSearchStudiesTool } from "../../src/mcp-server/tools/searchStudies/index.js";
 import { registerAnalyzeTrendsTool } from "../../src/mcp-server/tools/analyzeTrends/index.js";
+import { registerListFieldsTool } from "../../src/mcp-server/tools/listFields/index.js";
+import { registerGetFieldStatsTool } from "../../src/mcp-server/tools/getFieldStats/index.js";
+import { registerMatchPatientTool } from "../../src/mcp-server/tools/matchPatient/index.js";
+import { registerCompareStudiesTool } from "../../src/mcp-server/tools/compareStudies/index.js";
+import { registerGetResultsTool } from "../../src/mcp-server/tools/getResults/index.js";
+import { registerGetStudyHistoryTool } from "../../src/mcp-server/tools/getStudyHistory/index.js";
+import { registerDiffStudyVersionsTool } from "../../src/mcp-server/tools/diffStudyVersions/index.js";
+import { registerSaveSearchTool } from "../../src/mcp-server/tools/saveSearch/index.js";
+import { registerGetSearchChangesTool } from "../../src/mcp-server/tools/getSearchChanges/index.js";
+import { registerDeleteSavedSearchTool } from "../../src/mcp-server/tools/deleteSavedSearch/index.js";
+import { registerCreateWebhookTool } from "../../src/mcp-server/tools/createWebhook/index.js";
+import { registerListWebhooksTool } from "../../src/mcp-server/tools/listWebhooks/index.js";
+import { registerDeleteWebhookTool } from "../../src/mcp-server/tools/deleteWebhook/index.js";
+import { registerAnnotateStudyTool } from "../../src/mcp-server/tools/annotateStudy/index.js";
+import { registerGetAnnotationsTool } from "../../src/mcp-server/tools/getAnnotations/index.js";
+import { initializePersistence } from "../../src/services/persistence/index.js";
+import { SavedSearchService } from "../../src/services/savedSearches/index.js";
 
 // Mock dependencies
 vi.mock("@modelcontextprotocol/sdk/server/mcp.js", () => {
@@ -30,6 +59,7 @@ vi.mock("../../src/config/index.js", async () => {
       mcpServerName: "test-server",
       mcpServerVersion: "1.0.0",
       mcpTransportType: "stdio", // Default for tests
+      metricsEnabled: true,
     },
     environment: "test",
   };
@@ -58,6 +88,36 @@ vi.mock("../../src/utils/index.js", async (importOriginal) => {
   };
 });
 
+vi.mock("../../src/services/persistence/index.js", () => ({
+  initializePersistence: vi.fn(),
+}));
+
+vi.mock("../../src/services/savedSearches/index.js", () => {
+  const instance = { restore: vi.fn() };
+  return {
+    SavedSearchService: { getInstance: vi.fn(() => instance) },
+  };
+});
+
+vi.mock("../../src/mcp-server/resources/studyResource/index.js", () => ({
+  registerStudyResources: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/resources/savedSearchResource/index.js", () => ({
+  registerSavedSearchResources: vi.fn(),
+}));
+
+vi.mock(
+  "../../src/mcp-server/resources/analysisResultResource/index.js",
+  () => ({
+    registerAnalysisResultResources: vi.fn(),
+  }),
+);
+
+vi.mock("../../src/mcp-server/resources/subscriptions.js", () => ({
+  registerResourceSubscriptions: vi.fn(),
+}));
+
 vi.mock("../../src/mcp-server/tools/getStudy/index.js", () => ({
   registerGetStudyTool: vi.fn(),
 }));
@@ -70,6 +130,78 @@ vi.mock("../../src/mcp-server/tools/analyzeTrends/index.js", () => ({
   registerAnalyzeTrendsTool: vi.fn(),
 }));
 
+vi.mock("../../src/mcp-server/tools/listFields/index.js", () => ({
+  registerListFieldsTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/getFieldStats/index.js", () => ({
+  registerGetFieldStatsTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/matchPatient/index.js", () => ({
+  registerMatchPatientTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/compareStudies/index.js", () => ({
+  registerCompareStudiesTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/getResults/index.js", () => ({
+  registerGetResultsTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/getStudyHistory/index.js", () => ({
+  registerGetStudyHistoryTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/diffStudyVersions/index.js", () => ({
+  registerDiffStudyVersionsTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/saveSearch/index.js", () => ({
+  registerSaveSearchTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/getSearchChanges/index.js", () => ({
+  registerGetSearchChangesTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/deleteSavedSearch/index.js", () => ({
+  registerDeleteSavedSearchTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/createWebhook/index.js", () => ({
+  registerCreateWebhookTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/listWebhooks/index.js", () => ({
+  registerListWebhooksTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/deleteWebhook/index.js", () => ({
+  registerDeleteWebhookTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/annotateStudy/index.js", () => ({
+  registerAnnotateStudyTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/tools/getAnnotations/index.js", () => ({
+  registerGetAnnotationsTool: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/prompts/findRecruitingTrials/index.js", () => ({
+  registerFindRecruitingTrialsPrompt: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/prompts/compareInterventions/index.js", () => ({
+  registerCompareInterventionsPrompt: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/prompts/sponsorLandscape/index.js", () => ({
+  registerSponsorLandscapePrompt: vi.fn(),
+}));
+
 vi.mock("../../src/mcp-server/transports/http/index.js", () => ({
   startHttpTransport: vi.fn().mockResolvedValue({ server: "mock-http-server" }),
 }));
@@ -78,6 +210,15 @@ vi.mock("../../src/mcp-server/transports/stdio/index.js", () => ({
   startStdioTransport: vi.fn(),
 }));
 
+vi.mock("../../src/mcp-server/tools/toolMetrics.js", () => ({
+  instrumentToolCalls: vi.fn(),
+}));
+
+vi.mock("../../src/mcp-server/transports/auth/index.js", () => ({
+  applyScopePolicy: vi.fn(),
+  loadScopePolicy: vi.fn().mockReturnValue(null),
+}));
+
 describe("MCP Server Initialization", () => {
   let exitSpy;
 
@@ -99,9 +240,44 @@ describe("MCP Server Initialization", () => {
     expect(McpServer).toHaveBeenCalledTimes(1);
     expect(startStdioTransport).toHaveBeenCalledTimes(1);
     expect(startHttpTransport).not.toHaveBeenCalled();
+    expect(initializePersistence).toHaveBeenCalledTimes(1);
+    expect(SavedSearchService.getInstance().restore).toHaveBeenCalledTimes(1);
+    expect(loadScopePolicy).toHaveBeenCalledTimes(1);
+    expect(applyScopePolicy).toHaveBeenCalledWith(
+      vi.mocked(McpServer).mock.results[0].value,
+      expect.any(Object),
+    );
+    expect(instrumentToolCalls).toHaveBeenCalledWith(
+      vi.mocked(McpServer).mock.results[0].value,
+    );
+    expect(
+      vi.mocked(instrumentToolCalls).mock.invocationCallOrder[0],
+    ).toBeLessThan(vi.mocked(applyScopePolicy).mock.invocationCallOrder[0]);
+    expect(registerResourceSubscriptions).toHaveBeenCalled();
+    expect(registerStudyResources).toHaveBeenCalled();
+    expect(registerSavedSearchResources).toHaveBeenCalled();
+    expect(registerAnalysisResultResources).toHaveBeenCalled();
     expect(registerGetStudyTool).toHaveBeenCalled();
     expect(registerSearchStudiesTool).toHaveBeenCalled();
     expect(registerAnalyzeTrendsTool).toHaveBeenCalled();
+    expect(registerListFieldsTool).toHaveBeenCalled();
+    expect(registerGetFieldStatsTool).toHaveBeenCalled();
+    expect(registerMatchPatientTool).toHaveBeenCalled();
+    expect(registerCompareStudiesTool).toHaveBeenCalled();
+    expect(registerGetResultsTool).toHaveBeenCalled();
+    expect(registerGetStudyHistoryTool).toHaveBeenCalled();
+    expect(registerDiffStudyVersionsTool).toHaveBeenCalled();
+    expect(registerSaveSearchTool).toHaveBeenCalled();
+    expect(registerGetSearchChangesTool).toHaveBeenCalled();
+    expect(registerDeleteSavedSearchTool).toHaveBeenCalled();
+    expect(registerCreateWebhookTool).toHaveBeenCalled();
+    expect(registerListWebhooksTool).toHaveBeenCalled();
+    expect(registerDeleteWebhookTool).toHaveBeenCalled();
+    expect(registerAnnotateStudyTool).toHaveBeenCalled();
+    expect(registerGetAnnotationsTool).toHaveBeenCalled();
+    expect(registerFindRecruitingTrialsPrompt).toHaveBeenCalled();
+    expect(registerCompareInterventionsPrompt).toHaveBeenCalled();
+    expect(registerSponsorLandscapePrompt).toHaveBeenCalled();
   });
 
   it("should initialize and start with http transport", async () => {
@@ -147,6 +323,23 @@ describe("MCP Server Initialization", () => {
     expect(exitSpy).toHaveBeenCalledWith(1);
   });
 
+  it("should exit when the scope policy is invalid", async () => {
+    config.mcpTransportType = "stdio";
+    const policyError = new Error("Invalid scope policy");
+    vi.mocked(loadScopePolicy).mockImplementationOnce(() => {
+      throw policyError;
+    });
+
+    await initializeAndStartServer();
+
+    expect(startStdioTransport).not.toHaveBeenCalled();
+    expect(ErrorHandler.handleError).toHaveBeenCalledWith(
+      policyError,
+      expect.objectContaining({ critical: true }),
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
   it("should handle registration failures gracefully and exit", async () => {
     config.mcpTransportType = "stdio";
     const registrationError = new Error("Registration failed");
@@ -4,13 +4,18 @@
  */
 
 import { vi, describe, it, expect, beforeEach } from 'vitest';
-import { analyzeTrendsLogic, AnalyzeTrendsInput } from '../../../src/mcp-server/tools/analyzeTrends/logic';
+import { analyzeTrendsLogic, AnalyzeTrendsInput, drawNctIdSample } from '../../../src/mcp-server/tools/analyzeTrends/logic';
+import { buildCrossTab, normalizeEventTerm, toPeriodKey } from '../../../src/mcp-server/tools/analyzeTrends/aggregators';
+import { config } from '../../../src/config';
 import { ClinicalTrialsGovService, Study } from '../../../src/services/clinical-trials-gov';
 import { requestContextService } from '../../../src/utils';
 import { McpError, BaseErrorCode } from '../../../src/types-global/errors';
+import { closePersistence, getPersistence } from '../../../src/services/persistence';
+import { getStudyWarehouse, StudyWarehouse } from '../../../src/services/warehouse';
 
 // Mock the ClinicalTrialsGovService
 vi.mock('../../../src/services/clinical-trials-gov');
+vi.mock('../../../src/services/warehouse');
 
 const mockStudies: Study[] = [
   {
@@ -85,19 +90,132 @@ describe('analyzeTrendsLogic', () => {
 
   it('should throw an error if the number of studies exceeds the limit', async () => {
     const service = ClinicalTrialsGovService.getInstance();
-    vi.mocked(service.listStudies).mockResolvedValue({ studies: [], totalCount: 9999 });
+    const limit = config.maxStudiesForAnalysis;
+    vi.mocked(service.listStudies).mockResolvedValue({ studies: [], totalCount: limit + 1 });
 
     const input: AnalyzeTrendsInput = { analysisType: 'countByStatus' };
     
     await expect(analyzeTrendsLogic(input, mockRequestContext)).rejects.toThrow(
       new McpError(
         BaseErrorCode.INVALID_INPUT,
-        'The query returned 9999 studies, which exceeds the limit of 5000 for analysis. Please provide a more specific query.',
-        { totalStudies: 9999, limit: 5000 }
+        `The query returned ${limit + 1} studies, which exceeds the limit of ${limit} for analysis. Please provide a more specific query, or set 'sampleSize' to analyze a random sample.`,
+        { totalStudies: limit + 1, limit }
       )
     );
   });
 
+  it('should analyze every study in the local warehouse, beyond the limit and without sampling', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    const limit = config.maxStudiesForAnalysis;
+    const warehouse = { listStudies: vi.fn().mockResolvedValue({ studies: mockStudies, totalCount: limit + 1 }) };
+    vi.mocked(getStudyWarehouse).mockResolvedValue(warehouse as unknown as StudyWarehouse);
+
+    const result = await analyzeTrendsLogic(
+      { analysisType: 'countByStatus', source: 'local', sampleSize: 100 },
+      mockRequestContext,
+    );
+
+    expect(result.analysis[0].results).toEqual({ COMPLETED: 2, RECRUITING: 1 });
+    expect(result.sampling).toBeUndefined();
+    expect(warehouse.listStudies).toHaveBeenLastCalledWith(
+      expect.not.objectContaining({ filter: expect.anything() }),
+      mockRequestContext,
+    );
+    expect(service.listStudies).not.toHaveBeenCalled();
+  });
+
+  it('should request only the fields the analysis type reads', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.listStudies).mockResolvedValue({ studies: mockStudies, totalCount: 3 });
+
+    await analyzeTrendsLogic({ analysisType: 'countByStatus' }, mockRequestContext);
+
+    expect(service.listStudies).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        fields: ['protocolSection.identificationModule.nctId', 'protocolSection.statusModule.overallStatus'],
+        pageSize: 1000,
+      }),
+      mockRequestContext,
+    );
+  });
+
+  it('should request the union of fields for multiple analysis types without duplicates', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.listStudies).mockResolvedValue({ studies: mockStudies, totalCount: 3 });
+
+    await analyzeTrendsLogic(
+      { analysisType: ['countByPhase', 'countByStartDate'], groupBy: 'phase' },
+      mockRequestContext,
+    );
+
+    const { fields } = vi.mocked(service.listStudies).mock.lastCall![0] as { fields: string[] };
+    expect(fields).toEqual([
+      'protocolSection.identificationModule.nctId',
+      'protocolSection.designModule.phases',
+      'protocolSection.statusModule.startDateStruct',
+    ]);
+  });
+
+  it('should analyze a random sample when the query matches more studies than sampleSize', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    const sampledStudies = mockStudies.map((study, i) => ({
+      protocolSection: {
+        ...study.protocolSection,
+        // The first two share the 7-character block NCT0123 but not an 8-character prefix.
+        identificationModule: { nctId: ['NCT01230000', 'NCT01239999', 'NCT04560000'][i] },
+      },
+    }));
+    vi.mocked(service.listStudies)
+      .mockResolvedValueOnce({ studies: [], totalCount: 300_000 }) // Total for the query
+      .mockResolvedValueOnce({ studies: [], totalCount: 3 }) // Total for the sample
+      .mockResolvedValueOnce({ studies: sampledStudies, totalCount: 3 });
+
+    const result = await analyzeTrendsLogic(
+      { analysisType: 'countByStatus', sampleSize: 1000, filter: { advanced: 'AREA[Phase]PHASE3' } },
+      mockRequestContext,
+    );
+
+    const sampledQuery = vi.mocked(service.listStudies).mock.calls[1][0] as { filter: { advanced: string } };
+    expect(sampledQuery.filter.advanced).toMatch(/^\(AREA\[Phase\]PHASE3\) AND \(AREA\[NCTId\]\(NCT\d{4}\* OR /);
+    expect(result.analysis[0].results).toEqual({ COMPLETED: 2, RECRUITING: 1 });
+    expect(result.sampling).toMatchObject({
+      method: 'nctIdCluster',
+      totalMatched: 300_000,
+      sampledStudies: 3,
+      sampledBlocks: 2,
+      samplingFraction: 0.004,
+      confidenceLevel: 0.95,
+    });
+    // Each NCT ID block counts as one observation, so NCT01230000 and NCT01239999 count once.
+    expect(result.sampling?.marginOfError).toBeCloseTo(0.6916, 4);
+  });
+
+  it('should leave headroom below the limit and redraw samples that exceed it', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    const limit = config.maxStudiesForAnalysis;
+    vi.mocked(service.listStudies)
+      .mockResolvedValueOnce({ studies: [], totalCount: limit * 10 }) // Total for the query
+      .mockResolvedValueOnce({ studies: [], totalCount: limit + 1 }) // Total for the first sample
+      .mockResolvedValueOnce({ studies: [], totalCount: 3 }) // Total for the second sample
+      .mockResolvedValueOnce({ studies: mockStudies, totalCount: 3 });
+
+    const result = await analyzeTrendsLogic({ analysisType: 'countByStatus', sampleSize: limit }, mockRequestContext);
+
+    expect(service.listStudies).toHaveBeenCalledTimes(4);
+    expect(result.sampling?.sampledStudies).toBe(3);
+    expect(result.sampling?.samplingFraction).toBeLessThan(0.08);
+  });
+
+  it('should analyze every study when the query matches fewer than sampleSize', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.listStudies).mockResolvedValue({ studies: mockStudies, totalCount: 3 });
+
+    const result = await analyzeTrendsLogic({ analysisType: 'countByStatus', sampleSize: 1000 }, mockRequestContext);
+
+    expect(result.sampling).toBeUndefined();
+    expect(service.listStudies).toHaveBeenCalledTimes(2);
+  });
+
   it('should handle fetching studies with pagination', async () => {
     const service = ClinicalTrialsGovService.getInstance();
     vi.mocked(service.listStudies)
@@ -111,4 +229,287 @@ describe('analyzeTrendsLogic', () => {
 
     expect(service.listStudies).toHaveBeenCalledTimes(4); // 1 for total, 3 for pages
   });
+
+  it('should report progress after each page', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.listStudies)
+      .mockResolvedValueOnce({ studies: [], totalCount: 3 })
+      .mockResolvedValueOnce({ studies: mockStudies.slice(0, 2), nextPageToken: 'token1', totalCount: 3 })
+      .mockResolvedValueOnce({ studies: [mockStudies[2]], totalCount: 3 });
+    const onProgress = vi.fn();
+
+    await analyzeTrendsLogic({ analysisType: 'countByStatus' }, mockRequestContext, { onProgress });
+
+    expect(onProgress.mock.calls).toEqual([
+      [2, 3],
+      [3, 3],
+    ]);
+  });
+
+  it('should stop paginating once the signal is aborted', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    const controller = new AbortController();
+    vi.mocked(service.listStudies)
+      .mockResolvedValueOnce({ studies: [], totalCount: 3 })
+      .mockResolvedValueOnce({ studies: [mockStudies[0]], nextPageToken: 'token1', totalCount: 3 })
+      .mockResolvedValueOnce({ studies: [mockStudies[1]], nextPageToken: 'token2', totalCount: 3 });
+
+    const promise = analyzeTrendsLogic({ analysisType: 'countByStatus' }, mockRequestContext, {
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+
+    await expect(promise).rejects.toHaveProperty('code', BaseErrorCode.CANCELLED);
+    expect(service.listStudies).toHaveBeenCalledTimes(2);
+  });
+
+  it('should store the result when saveResult is set', async () => {
+    await closePersistence();
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.listStudies).mockResolvedValue({ studies: mockStudies, totalCount: 3 });
+
+    const result = await analyzeTrendsLogic(
+      { analysisType: 'countByStatus', query: { cond: 'asthma' }, saveResult: true },
+      mockRequestContext,
+    );
+
+    expect(result.resultUri).toBe(`clinicaltrials://analysis/${result.resultId}`);
+    const stored = await getPersistence().analysisResults.get(result.resultId!);
+    expect(stored).toMatchObject({
+      analysisType: 'countByStatus',
+      params: { analysisType: 'countByStatus', query: { cond: 'asthma' } },
+      result: { analysis: result.analysis },
+    });
+    expect(stored?.params).not.toHaveProperty('saveResult');
+  });
+
+  describe('time-series analysis', () => {
+    const datedStudies: Study[] = [
+      {
+        protocolSection: {
+          statusModule: { overallStatus: 'COMPLETED', startDateStruct: { date: '2020-02' } },
+          designModule: { phases: ['PHASE2', 'PHASE3'] },
+        },
+      },
+      {
+        protocolSection: {
+          statusModule: { overallStatus: 'RECRUITING', startDateStruct: { date: '2022-11-15' } },
+          designModule: { phases: ['PHASE3'] },
+        },
+      },
+      {
+        protocolSection: {
+          statusModule: { overallStatus: 'RECRUITING', startDateStruct: { date: '2022' } },
+          designModule: { phases: ['PHASE3'] },
+        },
+      },
+      { protocolSection: { statusModule: { overallStatus: 'WITHDRAWN' } } },
+    ];
+
+    beforeEach(() => {
+      const service = ClinicalTrialsGovService.getInstance();
+      vi.mocked(service.listStudies).mockResolvedValue({ studies: datedStudies, totalCount: 4 });
+    });
+
+    it('should bucket studies by start year and fill empty years', async () => {
+      const result = await analyzeTrendsLogic({ analysisType: 'countByStartDate' }, mockRequestContext);
+
+      expect(result.analysis[0].interval).toBe('year');
+      expect(result.analysis[0].results).toEqual({ '2020': 1, '2021': 0, '2022': 2, Unknown: 1 });
+      expect(Object.keys(result.analysis[0].results)).toEqual(['2020', '2021', '2022', 'Unknown']);
+    });
+
+    it('should bucket by quarter and count dates without a month as unknown', async () => {
+      const result = await analyzeTrendsLogic(
+        { analysisType: 'countByStartDate', interval: 'quarter' },
+        mockRequestContext,
+      );
+      const results = result.analysis[0].results;
+
+      expect(Object.keys(results)).toHaveLength(13);
+      expect(results['2020-Q1']).toBe(1);
+      expect(results['2021-Q3']).toBe(0);
+      expect(results['2022-Q4']).toBe(1);
+      expect(results.Unknown).toBe(2);
+    });
+
+    it('should break each period down by another dimension', async () => {
+      const result = await analyzeTrendsLogic(
+        { analysisType: 'countByStartDate', groupBy: 'phase' },
+        mockRequestContext,
+      );
+
+      expect(result.analysis[0].groupBy).toBe('phase');
+      expect(result.analysis[0].series).toEqual({
+        '2020': { PHASE2: 1, PHASE3: 1 },
+        '2021': {},
+        '2022': { PHASE3: 2 },
+        Unknown: { Unknown: 1 },
+      });
+    });
+  });
+});
+
+describe('buildCrossTab', () => {
+  it('should pivot two dimensions with row and column totals', () => {
+    const crossTab = buildCrossTab(mockStudies, ['phase', 'status']);
+
+    expect(crossTab.rowDimensions).toEqual(['phase']);
+    expect(crossTab.columnDimension).toBe('status');
+    expect(crossTab.rows).toEqual(['PHASE_3', 'PHASE_2']);
+    expect(crossTab.columns).toEqual(['COMPLETED', 'RECRUITING']);
+    expect(crossTab.matrix).toEqual([
+      [2, 0],
+      [0, 1],
+    ]);
+    expect(crossTab.rowTotals).toEqual([2, 1]);
+    expect(crossTab.columnTotals).toEqual([2, 1]);
+    expect(crossTab.grandTotal).toBe(3);
+  });
+
+  it('should count distinct studies in totals for multi-valued dimensions', () => {
+    const crossTab = buildCrossTab(mockStudies, ['country', 'sponsorType']);
+
+    expect(crossTab.rows).toEqual(['Canada', 'USA']);
+    expect(crossTab.matrix).toEqual([
+      [1, 1],
+      [2, 0],
+    ]);
+    expect(crossTab.columnTotals).toEqual([2, 1]);
+  });
+
+  it('should combine leading dimensions into row keys', () => {
+    const crossTab = buildCrossTab(mockStudies, ['sponsorType', 'phase', 'status']);
+
+    expect(crossTab.rowDimensions).toEqual(['sponsorType', 'phase']);
+    expect(crossTab.rows).toEqual(['INDUSTRY / PHASE_2', 'INDUSTRY / PHASE_3', 'NIH / PHASE_3']);
+  });
+});
+
+describe('analyzeTrendsLogic crossTab', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+
+  beforeEach(() => {
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      listStudies: vi.fn().mockResolvedValue({ studies: mockStudies, totalCount: 3 }),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should return the cross-tab with row totals as results', async () => {
+    const result = await analyzeTrendsLogic(
+      { analysisType: 'crossTab', dimensions: ['phase', 'status'] },
+      mockRequestContext,
+    );
+
+    expect(result.analysis[0].results).toEqual({ PHASE_3: 2, PHASE_2: 1 });
+    expect(result.analysis[0].crossTab?.matrix).toHaveLength(2);
+  });
+
+  it('should require dimensions before fetching any studies', async () => {
+    await expect(analyzeTrendsLogic({ analysisType: 'crossTab' }, mockRequestContext)).rejects.toHaveProperty(
+      'code',
+      BaseErrorCode.INVALID_INPUT,
+    );
+    expect(ClinicalTrialsGovService.getInstance().listStudies).not.toHaveBeenCalled();
+  });
+});
+
+describe('analyzeTrendsLogic adverseEvents', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+
+  const studiesWithEvents: Study[] = [
+    {
+      resultsSection: {
+        adverseEventsModule: {
+          eventGroups: [
+            { id: 'EG000', seriousNumAtRisk: 100, otherNumAtRisk: 100 },
+            { id: 'EG001', seriousNumAtRisk: 100, otherNumAtRisk: 100 },
+          ],
+          seriousEvents: [
+            {
+              term: 'Pneumonia',
+              organSystem: 'Infections and infestations',
+              stats: [
+                { groupId: 'EG000', numAffected: 3 },
+                { groupId: 'EG001', numAffected: 1 },
+              ],
+            },
+          ],
+          otherEvents: [
+            { term: 'Nausea', organSystem: 'Gastrointestinal disorders', stats: [{ groupId: 'EG000', numAffected: 20 }] },
+          ],
+        },
+      },
+    },
+    {
+      resultsSection: {
+        adverseEventsModule: {
+          eventGroups: [{ id: 'EG000', seriousNumAtRisk: 50, otherNumAtRisk: 50 }],
+          seriousEvents: [
+            { term: 'pneumonia ', organSystem: 'Infections and Infestations', stats: [{ groupId: 'EG000', numAffected: 2 }] },
+          ],
+        },
+      },
+    },
+    { protocolSection: { statusModule: { overallStatus: 'COMPLETED' } } },
+  ];
+
+  beforeEach(() => {
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      listStudies: vi.fn().mockResolvedValue({ studies: studiesWithEvents, totalCount: 3 }),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should pool normalized terms per organ system with denominators', async () => {
+    const result = await analyzeTrendsLogic({ analysisType: 'adverseEvents' }, mockRequestContext);
+    const { adverseEvents, results } = result.analysis[0];
+
+    expect(ClinicalTrialsGovService.getInstance().listStudies).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        fields: ['protocolSection.identificationModule.nctId', 'resultsSection.adverseEventsModule'],
+      }),
+      mockRequestContext,
+    );
+    expect(results).toEqual({ 'Gastrointestinal disorders': 20, 'Infections and infestations': 6 });
+    expect(adverseEvents?.studiesWithResults).toBe(2);
+    expect(adverseEvents?.participantsAtRisk).toEqual({ serious: 250, other: 250 });
+    expect(adverseEvents?.terms[1]).toEqual({
+      term: 'Pneumonia',
+      organSystem: 'Infections and infestations',
+      studies: 2,
+      serious: { affected: 6, atRisk: 250, rate: 0.024 },
+      other: { affected: 0, atRisk: 250, rate: 0 },
+    });
+  });
+});
+
+describe('normalizeEventTerm', () => {
+  it('should ignore case, punctuation, and spacing', () => {
+    expect(normalizeEventTerm(' Nausea/Vomiting.')).toBe(normalizeEventTerm('nausea  vomiting'));
+  });
+});
+
+describe('drawNctIdSample', () => {
+  it('should sample whole NCT ID blocks with the requested fraction', () => {
+    const sample = drawNctIdSample(0.0025);
+
+    expect(sample.samplingFraction).toBe(0.003);
+    expect(sample.expression).toMatch(/^AREA\[NCTId\]\(NCT\d{4}\* OR NCT\d{4}\* OR NCT\d{4}\*\)$/);
+  });
+
+  it('should exclude the unsampled blocks when sampling most of them', () => {
+    const sample = drawNctIdSample(0.999);
+
+    expect(sample.samplingFraction).toBe(0.999);
+    expect(sample.expression).toMatch(/^NOT AREA\[NCTId\]\(NCT\d{4}\*\)$/);
+  });
+});
+
+describe('toPeriodKey', () => {
+  it('should format year, quarter, and month keys', () => {
+    expect(toPeriodKey({ year: 2023, month: 5 }, 'year')).toBe('2023');
+    expect(toPeriodKey({ year: 2023, month: 5 }, 'quarter')).toBe('2023-Q2');
+    expect(toPeriodKey({ year: 2023, month: 5 }, 'month')).toBe('2023-05');
+    expect(toPeriodKey({ year: 2023 }, 'month')).toBeUndefined();
+  });
 });
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Tests for the annotateStudy and getAnnotations tools.
+ * @module tests/mcp-server/tools/annotateStudy.test
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { annotateStudyLogic } from '../../../src/mcp-server/tools/annotateStudy/logic';
+import { getAnnotationsLogic } from '../../../src/mcp-server/tools/getAnnotations/logic';
+import { authContext } from '../../../src/mcp-server/transports/auth/lib/authContext';
+import { closePersistence } from '../../../src/services/persistence';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+describe('annotation tools', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const as = <T>(subject: string, fn: () => Promise<T>) =>
+    authContext.run({ authInfo: { token: 'token', clientId: 'client', scopes: [], subject } }, fn);
+
+  beforeEach(async () => {
+    await closePersistence();
+  });
+
+  it('should add a note attributed to the caller and find it by study and tag', async () => {
+    const { annotation, created } = await as('alice', () =>
+      annotateStudyLogic({ nctId: 'nct00000001', note: 'Promising', tags: ['shortlist', 'shortlist'] }, mockRequestContext),
+    );
+
+    expect(created).toBe(true);
+    expect(annotation).toMatchObject({ nctId: 'NCT00000001', note: 'Promising', tags: ['shortlist'], author: 'alice' });
+
+    await as('bob', () => annotateStudyLogic({ nctId: 'NCT00000002', note: 'Not eligible' }, mockRequestContext));
+
+    const byStudy = await getAnnotationsLogic({ nctId: 'NCT00000001' }, mockRequestContext);
+    expect(byStudy.annotations.map((a) => a.id)).toEqual([annotation.id]);
+    const byTag = await getAnnotationsLogic({ tag: 'shortlist' }, mockRequestContext);
+    expect(byTag.totalCount).toBe(1);
+    const mine = await as('bob', () => getAnnotationsLogic({ mine: true }, mockRequestContext));
+    expect(mine.annotations.map((a) => a.note)).toEqual(['Not eligible']);
+  });
+
+  it('should let only the author replace a note', async () => {
+    const { annotation } = await as('alice', () =>
+      annotateStudyLogic({ nctId: 'NCT00000001', note: 'First' }, mockRequestContext),
+    );
+
+    await expect(
+      as('bob', () => annotateStudyLogic({ nctId: 'NCT00000001', note: 'Edited', id: annotation.id }, mockRequestContext)),
+    ).rejects.toMatchObject({ code: BaseErrorCode.FORBIDDEN });
+
+    const updated = await as('alice', () =>
+      annotateStudyLogic({ nctId: 'NCT00000001', note: 'Edited', id: annotation.id }, mockRequestContext),
+    );
+    expect(updated.created).toBe(false);
+    expect(updated.annotation).toMatchObject({ id: annotation.id, note: 'Edited', createdAt: annotation.createdAt });
+  });
+
+  it('should reject replacing a note that does not exist', async () => {
+    await expect(
+      annotateStudyLogic({ nctId: 'NCT00000001', note: 'Edited', id: 'missing' }, mockRequestContext),
+    ).rejects.toMatchObject({ code: BaseErrorCode.NOT_FOUND });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Tests for the compareStudies tool.
+ * @module tests/mcp-server/tools/compareStudies.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildComparisonRows, compareStudiesLogic } from '../../../src/mcp-server/tools/compareStudies/logic';
+import { ClinicalTrialsGovService, Study } from '../../../src/services/clinical-trials-gov';
+import { BaseErrorCode, McpError } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+const makeStudy = (nctId: string, phase: string, masking: string): Study => ({
+  protocolSection: {
+    identificationModule: { nctId, briefTitle: `Study ${nctId}` },
+    statusModule: { overallStatus: 'RECRUITING', startDateStruct: { date: '2024-01', type: 'ACTUAL' } },
+    designModule: {
+      studyType: 'INTERVENTIONAL',
+      phases: [phase],
+      designInfo: { allocation: 'RANDOMIZED', maskingInfo: { masking } },
+      enrollmentInfo: { count: 100, type: 'ESTIMATED' },
+    },
+    sponsorCollaboratorsModule: { leadSponsor: { name: 'Acme', class: 'INDUSTRY' } },
+  },
+});
+
+describe('buildComparisonRows', () => {
+  it('should align fields and flag the ones that differ', () => {
+    const rows = buildComparisonRows(
+      [makeStudy('NCT00000001', 'PHASE2', 'DOUBLE'), makeStudy('NCT00000002', 'PHASE3', 'double')],
+      ['design', 'enrollment'],
+    );
+
+    expect(rows.map((r) => [r.field, r.values, r.differs])).toEqual([
+      ['Phase', ['PHASE2', 'PHASE3'], true],
+      ['Allocation', ['RANDOMIZED', 'RANDOMIZED'], false],
+      ['Intervention model', [null, null], false],
+      ['Masking', ['DOUBLE', 'double'], false],
+      ['Primary purpose', [null, null], false],
+      ['Enrollment', ['100 (ESTIMATED)', '100 (ESTIMATED)'], false],
+    ]);
+  });
+});
+
+describe('compareStudiesLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      fetchStudy: vi.fn(),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should return only differing fields and report the differences', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy).mockImplementation(async (nctId: string) =>
+      makeStudy(nctId, nctId === 'NCT00000001' ? 'PHASE2' : 'PHASE3', 'NONE'),
+    );
+
+    const result = await compareStudiesLogic(
+      { nctIds: ['nct00000001', 'NCT00000002'], onlyDifferences: true },
+      mockRequestContext,
+    );
+
+    expect(result.nctIds).toEqual(['NCT00000001', 'NCT00000002']);
+    expect(result.rows.map((r) => `${r.section}.${r.field}`)).toEqual(['overview.Title', 'design.Phase']);
+    expect(result.differences).toEqual(['overview.Title', 'design.Phase']);
+    expect(result.errors).toBeUndefined();
+  });
+
+  it('should compare the remaining studies when some cannot be fetched', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy).mockImplementation(async (nctId: string) => {
+      if (nctId === 'NCT00000002') {
+        throw new McpError(BaseErrorCode.NOT_FOUND, 'Study not found');
+      }
+      return makeStudy(nctId, 'PHASE2', 'NONE');
+    });
+
+    const result = await compareStudiesLogic(
+      { nctIds: ['NCT00000001', 'NCT00000002', 'NCT00000003'], sections: ['design'] },
+      mockRequestContext,
+    );
+
+    expect(result.nctIds).toEqual(['NCT00000001', 'NCT00000003']);
+    expect(result.rows.every((r) => r.values.length === 2)).toBe(true);
+    expect(result.errors).toEqual([{ nctId: 'NCT00000002', error: 'Study not found' }]);
+  });
+
+  it('should throw when fewer than two studies can be fetched', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy)
+      .mockResolvedValueOnce(makeStudy('NCT00000001', 'PHASE2', 'NONE'))
+      .mockRejectedValueOnce(new McpError(BaseErrorCode.NOT_FOUND, 'Study not found'));
+
+    await expect(
+      compareStudiesLogic({ nctIds: ['NCT00000001', 'NCT00000002'] }, mockRequestContext),
+    ).rejects.toMatchObject({ code: BaseErrorCode.NOT_FOUND });
+  });
+});
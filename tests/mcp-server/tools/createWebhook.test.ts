@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Tests for the createWebhook tool.
+ * @module tests/mcp-server/tools/createWebhook.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWebhookLogic } from '../../../src/mcp-server/tools/createWebhook/logic';
+import { deleteWebhookLogic } from '../../../src/mcp-server/tools/deleteWebhook/logic';
+import { listWebhooksLogic } from '../../../src/mcp-server/tools/listWebhooks/logic';
+import { authContext } from '../../../src/mcp-server/transports/auth/lib/authContext';
+import { SavedSearchService } from '../../../src/services/savedSearches';
+import { WebhookService } from '../../../src/services/webhooks';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the services
+vi.mock('../../../src/services/savedSearches');
+vi.mock('../../../src/services/webhooks');
+
+describe('createWebhookLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const created = {
+    webhook: { id: 'hook-1', url: 'https://example.com/hook', createdAt: '2026-01-01T00:00:00.000Z' },
+    secret: 'whsec_test',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(SavedSearchService, 'getInstance').mockReturnValue({
+      get: vi.fn((idOrName: string) => (idOrName === 'Glioma' ? { id: 'search-1', name: 'Glioma' } : undefined)),
+    } as unknown as SavedSearchService);
+    vi.spyOn(WebhookService, 'getInstance').mockReturnValue({
+      create: vi.fn().mockResolvedValue(created),
+      list: vi.fn().mockReturnValue([]),
+      getDeadLetters: vi.fn().mockReturnValue([]),
+      delete: vi.fn().mockReturnValue(true),
+    } as unknown as WebhookService);
+  });
+
+  it('should resolve saved search names to IDs', async () => {
+    const result = await createWebhookLogic(
+      { url: 'https://example.com/hook', events: ['new'], searches: ['Glioma'] },
+      mockRequestContext,
+    );
+
+    expect(result).toEqual(created);
+    expect(WebhookService.getInstance().create).toHaveBeenCalledWith(
+      { url: 'https://example.com/hook', events: ['new'], searchIds: ['search-1'] },
+      mockRequestContext,
+      undefined,
+    );
+  });
+
+  it('should create, list, and delete webhooks as the authenticated client', async () => {
+    const authInfo = { clientId: 'client-a', subject: 'alice', scopes: [], token: 'token' };
+    await authContext.run({ authInfo }, async () => {
+      await createWebhookLogic({ url: 'https://example.com/hook', searches: ['Glioma'] }, mockRequestContext);
+      await listWebhooksLogic({}, mockRequestContext);
+      await deleteWebhookLogic({ id: 'hook-1' }, mockRequestContext);
+    });
+
+    const service = WebhookService.getInstance();
+    expect(SavedSearchService.getInstance().get).toHaveBeenCalledWith('Glioma', 'alice');
+    expect(service.create).toHaveBeenCalledWith(expect.any(Object), mockRequestContext, 'alice');
+    expect(service.list).toHaveBeenCalledWith('alice');
+    expect(service.getDeadLetters).toHaveBeenCalledWith('alice');
+    expect(service.delete).toHaveBeenCalledWith('hook-1', mockRequestContext, 'alice');
+  });
+
+  it('should throw NOT_FOUND for an unknown saved search', async () => {
+    await expect(
+      createWebhookLogic({ url: 'https://example.com/hook', searches: ['Unknown'] }, mockRequestContext),
+    ).rejects.toMatchObject({ code: BaseErrorCode.NOT_FOUND });
+    expect(WebhookService.getInstance().create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Tests for the diffStudyVersions tool.
+ * @module tests/mcp-server/tools/diffStudyVersions.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { diffStudyVersionsLogic } from '../../../src/mcp-server/tools/diffStudyVersions/logic';
+import { ClinicalTrialsGovService, Study } from '../../../src/services/clinical-trials-gov';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+const history = {
+  changes: [
+    { version: 0, date: '2020-01-01', status: 'NOT_YET_RECRUITING' },
+    { version: 1, date: '2021-01-01', status: 'RECRUITING' },
+    { version: 2, date: '2023-01-01', status: 'COMPLETED' },
+  ],
+};
+
+const versions: Study[] = [
+  {
+    protocolSection: {
+      statusModule: { overallStatus: 'NOT_YET_RECRUITING' },
+      outcomesModule: { primaryOutcomes: [{ measure: 'Overall survival', timeFrame: '5 years' }] },
+    },
+  },
+  {
+    protocolSection: {
+      statusModule: { overallStatus: 'RECRUITING' },
+      outcomesModule: { primaryOutcomes: [{ measure: 'Overall survival', timeFrame: '5 years' }] },
+    },
+  },
+  {
+    protocolSection: {
+      statusModule: { overallStatus: 'COMPLETED' },
+      outcomesModule: { primaryOutcomes: [{ measure: 'Overall survival', timeFrame: '3 years' }] },
+    },
+  },
+];
+
+describe('diffStudyVersionsLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      fetchStudyHistory: vi.fn().mockResolvedValue(history),
+      fetchStudyVersion: vi.fn(async (_nctId: string, version: number) => versions[version]),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should compare the initial registration with the latest version by default', async () => {
+    const result = await diffStudyVersionsLogic({ nctId: 'nct00000001' }, mockRequestContext);
+
+    const service = ClinicalTrialsGovService.getInstance();
+    expect(service.fetchStudyVersion).toHaveBeenCalledWith('NCT00000001', 0, mockRequestContext);
+    expect(service.fetchStudyVersion).toHaveBeenCalledWith('NCT00000001', 2, mockRequestContext);
+    expect(result).toMatchObject({
+      from: { version: 0, date: '2020-01-01' },
+      to: { version: 2, date: '2023-01-01' },
+      totalChanges: 2,
+      changedModules: { outcomesModule: 1, statusModule: 1 },
+      primaryOutcomesChanged: true,
+    });
+    expect(result.outcomes.primary).toEqual({ added: [], removed: [] });
+  });
+
+  it('should not flag primary outcomes when only other fields changed', async () => {
+    const result = await diffStudyVersionsLogic({ nctId: 'NCT00000001', toVersion: 1 }, mockRequestContext);
+
+    expect(result.changes.map((c) => c.path)).toEqual(['protocolSection.statusModule.overallStatus']);
+    expect(result.primaryOutcomesChanged).toBe(false);
+  });
+
+  it('should reject versions out of order or missing from the history', async () => {
+    await expect(
+      diffStudyVersionsLogic({ nctId: 'NCT00000001', fromVersion: 2, toVersion: 1 }, mockRequestContext),
+    ).rejects.toMatchObject({ code: BaseErrorCode.INVALID_INPUT });
+    await expect(
+      diffStudyVersionsLogic({ nctId: 'NCT00000001', toVersion: 7 }, mockRequestContext),
+    ).rejects.toMatchObject({ code: BaseErrorCode.NOT_FOUND });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Tests for the getFieldStats tool.
+ * @module tests/mcp-server/tools/getFieldStats.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getFieldStatsLogic } from '../../../src/mcp-server/tools/getFieldStats/logic';
+import { ClinicalTrialsGovService } from '../../../src/services/clinical-trials-gov';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+describe('getFieldStatsLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const phaseStats = {
+    field: 'protocolSection.designModule.phases',
+    piece: 'Phase',
+    type: 'ENUM',
+    missingStudiesCount: 100,
+    uniqueValuesCount: 3,
+    topValues: [
+      { value: 'PHASE1', studiesCount: 20 },
+      { value: 'PHASE2', studiesCount: 50 },
+      { value: 'PHASE3', studiesCount: 30 },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      getApiStats: vi.fn(),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should request field values and sort them by study count', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.getApiStats).mockResolvedValue([phaseStats]);
+
+    const result = await getFieldStatsLogic({ fields: ['Phase'] }, mockRequestContext);
+
+    expect(service.getApiStats).toHaveBeenCalledWith(
+      'fieldValues',
+      { fields: ['Phase'], types: undefined },
+      mockRequestContext,
+    );
+    expect(result.fields[0].topValues?.map((v) => v.value)).toEqual(['PHASE2', 'PHASE3', 'PHASE1']);
+    expect(result.fields[0].truncated).toBeUndefined();
+  });
+
+  it('should limit the number of values and flag truncation', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.getApiStats).mockResolvedValue([phaseStats]);
+
+    const result = await getFieldStatsLogic({ fields: ['Phase'], limit: 2 }, mockRequestContext);
+
+    expect(result.fields[0].topValues).toHaveLength(2);
+    expect(result.fields[0].truncated).toBe(true);
+  });
+
+  it('should pass through statistics for fields without top values', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    const booleanStats = { field: 'hasResults', piece: 'HasResults', type: 'BOOLEAN', trueCount: 5, falseCount: 7 };
+    vi.mocked(service.getApiStats).mockResolvedValue([booleanStats]);
+
+    const result = await getFieldStatsLogic({ fields: ['HasResults'] }, mockRequestContext);
+
+    expect(result.fields[0]).toEqual(booleanStats);
+  });
+
+  it('should throw a NOT_FOUND error when no statistics are returned', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.getApiStats).mockResolvedValue([]);
+
+    await expect(getFieldStatsLogic({ fields: ['Unknown'] }, mockRequestContext)).rejects.toHaveProperty(
+      'code',
+      BaseErrorCode.NOT_FOUND,
+    );
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Tests for the getResults tool.
+ * @module tests/mcp-server/tools/getResults.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getResultsLogic, summarizeOutcome } from '../../../src/mcp-server/tools/getResults/logic';
+import { ClinicalTrialsGovService, OutcomeMeasure, Study } from '../../../src/services/clinical-trials-gov';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+const groups = [
+  { id: 'OG000', title: 'Drug' },
+  { id: 'OG001', title: 'Placebo' },
+];
+
+const primaryOutcome: OutcomeMeasure = {
+  type: 'PRIMARY',
+  title: 'Change in HbA1c',
+  timeFrame: 'Week 26',
+  paramType: 'MEAN',
+  dispersionType: 'STANDARD_DEVIATION',
+  unitOfMeasure: 'percent',
+  groups,
+  denoms: [{ units: 'Participants', counts: [{ groupId: 'OG000', value: '120' }, { groupId: 'OG001', value: '118' }] }],
+  classes: [
+    {
+      categories: [
+        {
+          measurements: [
+            { groupId: 'OG001', value: '-0.2', spread: '0.9' },
+            { groupId: 'OG000', value: '-1.1', spread: '1.0' },
+          ],
+        },
+      ],
+    },
+  ],
+  analyses: [
+    {
+      groupIds: ['OG000', 'OG001'],
+      statisticalMethod: 'ANCOVA',
+      pValue: '<0.001',
+      paramType: 'Mean Difference (Net)',
+      paramValue: '-0.9',
+      ciPctValue: '95',
+      ciLowerLimit: '-1.1',
+      ciUpperLimit: '-0.7',
+    },
+  ],
+};
+
+const studyWithResults: Study = {
+  protocolSection: { identificationModule: { nctId: 'NCT00000001', briefTitle: 'Drug vs Placebo' } },
+  hasResults: true,
+  resultsSection: {
+    outcomeMeasuresModule: {
+      outcomeMeasures: [primaryOutcome, { ...primaryOutcome, type: 'POST_HOC', title: 'Post hoc' }],
+    },
+    adverseEventsModule: {
+      timeFrame: '1 year',
+      eventGroups: [
+        { id: 'EG000', title: 'Drug', seriousNumAffected: 9, seriousNumAtRisk: 120 },
+        { id: 'EG001', title: 'Placebo', seriousNumAffected: 5, seriousNumAtRisk: 118 },
+      ],
+      seriousEvents: [
+        { term: 'Pneumonia', organSystem: 'Infections', stats: [{ groupId: 'EG000', numAffected: 1, numAtRisk: 120 }] },
+        {
+          term: 'Hypoglycaemia',
+          organSystem: 'Metabolism',
+          stats: [
+            { groupId: 'EG000', numAffected: 4, numAtRisk: 120 },
+            { groupId: 'EG001', numAffected: 1, numAtRisk: 118 },
+          ],
+        },
+      ],
+    },
+  },
+};
+
+describe('summarizeOutcome', () => {
+  it('should align measurements with groups and format analyses', () => {
+    const summary = summarizeOutcome(primaryOutcome);
+
+    expect(summary.groups).toEqual([
+      { id: 'OG000', title: 'Drug', participants: '120' },
+      { id: 'OG001', title: 'Placebo', participants: '118' },
+    ]);
+    expect(summary.rows).toEqual([{ label: '', values: ['-1.1 (1.0)', '-0.2 (0.9)'] }]);
+    expect(summary.analyses).toEqual([
+      {
+        groups: ['Drug', 'Placebo'],
+        method: 'ANCOVA',
+        pValue: '<0.001',
+        estimate: 'Mean Difference (Net) -0.9 (95% CI -1.1 to -0.7)',
+      },
+    ]);
+  });
+
+  it('should omit analyses when not requested', () => {
+    expect(summarizeOutcome(primaryOutcome, false).analyses).toBeUndefined();
+  });
+});
+
+describe('getResultsLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      fetchStudy: vi.fn(),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should fetch only the results fields and filter outcomes by type', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy).mockResolvedValue(studyWithResults);
+
+    const result = await getResultsLogic({ nctId: 'nct00000001' }, mockRequestContext);
+
+    expect(service.fetchStudy).toHaveBeenCalledWith('NCT00000001', mockRequestContext, {
+      fields: ['protocolSection.identificationModule', 'resultsSection', 'hasResults'],
+    });
+    expect(result).toMatchObject({ nctId: 'NCT00000001', title: 'Drug vs Placebo', hasResults: true });
+    expect(result.outcomes.map((o) => o.title)).toEqual(['Change in HbA1c']);
+  });
+
+  it('should rank serious adverse events by participants affected', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy).mockResolvedValue(studyWithResults);
+
+    const result = await getResultsLogic({ nctId: 'NCT00000001', maxAdverseEvents: 1 }, mockRequestContext);
+
+    expect(result.seriousAdverseEvents).toEqual({
+      timeFrame: '1 year',
+      groups: [
+        { id: 'EG000', title: 'Drug', participants: '120', affected: '9/120' },
+        { id: 'EG001', title: 'Placebo', participants: '118', affected: '5/118' },
+      ],
+      totalTerms: 2,
+      events: [{ term: 'Hypoglycaemia', organSystem: 'Metabolism', values: ['4/120', '1/118'] }],
+    });
+  });
+
+  it('should report studies without posted results', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy).mockResolvedValue({
+      protocolSection: { identificationModule: { nctId: 'NCT00000002' } },
+      hasResults: false,
+    });
+
+    const result = await getResultsLogic({ nctId: 'NCT00000002' }, mockRequestContext);
+
+    expect(result).toEqual({ nctId: 'NCT00000002', hasResults: false, outcomes: [] });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Tests for the getSearchChanges tool.
+ * @module tests/mcp-server/tools/getSearchChanges.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSearchChangesLogic } from '../../../src/mcp-server/tools/getSearchChanges/logic';
+import { SavedSearch, SavedSearchService, StudyChangeEvent } from '../../../src/services/savedSearches';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the SavedSearchService
+vi.mock('../../../src/services/savedSearches');
+
+describe('getSearchChangesLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const searches: SavedSearch[] = [
+    { id: 'search-1', name: 'Glioma', params: {}, schedule: '0 * * * *', createdAt: '2026-01-01T00:00:00.000Z' },
+    { id: 'search-2', name: 'Asthma', params: {}, schedule: '0 * * * *', createdAt: '2026-01-01T00:00:00.000Z' },
+  ];
+  const change: StudyChangeEvent = {
+    id: 'change-1',
+    searchId: 'search-1',
+    searchName: 'Glioma',
+    detectedAt: '2026-01-02T00:00:00.000Z',
+    type: 'new',
+    nctId: 'NCT00000001',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(SavedSearchService, 'getInstance').mockReturnValue({
+      list: vi.fn().mockReturnValue(searches),
+      get: vi.fn((idOrName: string) => searches.find((s) => s.id === idOrName || s.name === idOrName)),
+      run: vi.fn().mockResolvedValue([]),
+      getChanges: vi.fn().mockReturnValue([change]),
+    } as unknown as SavedSearchService);
+  });
+
+  it('should read the changes of all saved searches', async () => {
+    const result = await getSearchChangesLogic({}, mockRequestContext);
+
+    expect(result).toEqual({ searches, changes: [change] });
+    expect(SavedSearchService.getInstance().getChanges).toHaveBeenCalledWith({ limit: 50 });
+    expect(SavedSearchService.getInstance().run).not.toHaveBeenCalled();
+  });
+
+  it('should filter by search name and timestamp', async () => {
+    const result = await getSearchChangesLogic(
+      { search: 'Glioma', since: '2026-01-01T12:00:00Z', limit: 10 },
+      mockRequestContext,
+    );
+
+    expect(result.searches).toEqual([searches[0]]);
+    expect(SavedSearchService.getInstance().getChanges).toHaveBeenCalledWith({
+      searchId: 'search-1',
+      since: '2026-01-01T12:00:00Z',
+      limit: 10,
+    });
+  });
+
+  it('should re-run the searches on refresh, tolerating failures', async () => {
+    const service = SavedSearchService.getInstance();
+    vi.mocked(service.run).mockRejectedValueOnce(new Error('Service unavailable'));
+
+    const result = await getSearchChangesLogic({ refresh: true }, mockRequestContext);
+
+    expect(service.run).toHaveBeenCalledTimes(2);
+    expect(result.changes).toEqual([change]);
+  });
+
+  it('should throw NOT_FOUND for an unknown saved search', async () => {
+    await expect(getSearchChangesLogic({ search: 'Unknown' }, mockRequestContext)).rejects.toMatchObject({
+      code: BaseErrorCode.NOT_FOUND,
+    });
+  });
+});
@@ -129,6 +129,47 @@ describe('getStudyLogic', () => {
     expect(result.errors).toBeUndefined();
   });
 
+  it('should add structured eligibility when requested', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy).mockResolvedValue({
+      ...mockStudy,
+      protocolSection: {
+        ...mockStudy.protocolSection,
+        eligibilityModule: {
+          eligibilityCriteria: 'Inclusion Criteria:\n\n* Age ≥ 18 years\n\nExclusion Criteria:\n\n* Pregnancy',
+        },
+      },
+    });
+
+    const result = await getStudyLogic(
+      { nctIds: 'NCT12345678', summaryOnly: true, includeStructuredEligibility: true },
+      mockRequestContext,
+    );
+
+    expect(result.studies[0].structuredEligibility).toEqual({
+      inclusion: [
+        {
+          text: 'Age ≥ 18 years',
+          level: 0,
+          constraints: [{ type: 'age', operator: '>=', value: 18, unit: 'years', source: 'Age ≥ 18 years' }],
+        },
+      ],
+      exclusion: [{ text: 'Pregnancy', level: 0 }],
+    });
+  });
+
+  it('should omit structured eligibility by default', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.fetchStudy).mockResolvedValue({
+      ...mockStudy,
+      protocolSection: { ...mockStudy.protocolSection, eligibilityModule: { eligibilityCriteria: '* Pregnancy' } },
+    });
+
+    const result = await getStudyLogic({ nctIds: 'NCT12345678' }, mockRequestContext);
+
+    expect(result.studies[0]).not.toHaveProperty('structuredEligibility');
+  });
+
   it('should handle errors for studies that are not found', async () => {
     const service = ClinicalTrialsGovService.getInstance();
     vi.mocked(service.fetchStudy).mockImplementation(async (nctId: string) => {
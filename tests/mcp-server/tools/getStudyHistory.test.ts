@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Tests for the getStudyHistory tool.
+ * @module tests/mcp-server/tools/getStudyHistory.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getStudyHistoryLogic } from '../../../src/mcp-server/tools/getStudyHistory/logic';
+import { ClinicalTrialsGovService } from '../../../src/services/clinical-trials-gov';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+describe('getStudyHistoryLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      fetchStudyHistory: vi.fn().mockResolvedValue({
+        changes: [
+          { version: 1, date: '2021-01-01', moduleLabels: ['Study Status'] },
+          { version: 0, date: '2020-01-01' },
+        ],
+      }),
+      fetchStudyVersion: vi.fn().mockResolvedValue({ protocolSection: { identificationModule: { nctId: 'NCT00000001' } } }),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should list versions oldest first without fetching a record', async () => {
+    const result = await getStudyHistoryLogic({ nctId: 'nct00000001' }, mockRequestContext);
+
+    expect(result.nctId).toBe('NCT00000001');
+    expect(result.versions.map((v) => v.version)).toEqual([0, 1]);
+    expect(result.study).toBeUndefined();
+    expect(ClinicalTrialsGovService.getInstance().fetchStudyVersion).not.toHaveBeenCalled();
+  });
+
+  it('should fetch the requested version', async () => {
+    const result = await getStudyHistoryLogic({ nctId: 'NCT00000001', version: 1 }, mockRequestContext);
+
+    expect(ClinicalTrialsGovService.getInstance().fetchStudyVersion).toHaveBeenCalledWith('NCT00000001', 1, mockRequestContext);
+    expect(result.study?.protocolSection?.identificationModule?.nctId).toBe('NCT00000001');
+  });
+
+  it('should throw NOT_FOUND for a version that does not exist', async () => {
+    await expect(getStudyHistoryLogic({ nctId: 'NCT00000001', version: 5 }, mockRequestContext)).rejects.toMatchObject({
+      code: BaseErrorCode.NOT_FOUND,
+    });
+  });
+});
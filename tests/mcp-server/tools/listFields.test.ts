@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Tests for the listFields tool.
+ * @module tests/mcp-server/tools/listFields.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { listFieldsLogic } from '../../../src/mcp-server/tools/listFields/logic';
+import { ClinicalTrialsGovService, FieldNode } from '../../../src/services/clinical-trials-gov';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+describe('listFieldsLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const mockMetadata: FieldNode[] = [
+    {
+      name: 'protocolSection',
+      type: 'ProtocolSection',
+      description: 'Protocol section',
+      children: [
+        {
+          name: 'designModule',
+          type: 'DesignModule',
+          description: 'Design module',
+          children: [
+            { name: 'phases', piece: 'Phase', type: 'Phase[]', description: 'Study phases', isEnum: true },
+            { name: 'studyType', piece: 'StudyType', type: 'StudyType', description: 'Study type', isEnum: true },
+          ],
+        },
+        {
+          name: 'statusModule',
+          type: 'StatusModule',
+          description: 'Status module',
+          children: [{ name: 'overallStatus', piece: 'OverallStatus', type: 'Status', description: 'Overall status' }],
+        },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      getStudyMetadata: vi.fn().mockResolvedValue(mockMetadata),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should list fields two levels deep from the root by default', async () => {
+    const result = await listFieldsLogic({}, mockRequestContext);
+
+    expect(result.fields.map((f) => f.path)).toEqual([
+      'protocolSection',
+      'protocolSection.designModule',
+      'protocolSection.statusModule',
+    ]);
+    expect(result.fields[1].hasChildren).toBe(true);
+  });
+
+  it('should list the children of a given path', async () => {
+    const result = await listFieldsLogic({ path: 'protocolSection.designModule', depth: 1 }, mockRequestContext);
+
+    expect(result.path).toBe('protocolSection.designModule');
+    expect(result.fields).toHaveLength(2);
+    expect(result.fields[0]).toMatchObject({
+      path: 'protocolSection.designModule.phases',
+      piece: 'Phase',
+      isEnum: true,
+      hasChildren: false,
+    });
+  });
+
+  it('should search all levels when a search term is given', async () => {
+    const result = await listFieldsLogic({ search: 'status' }, mockRequestContext);
+
+    expect(result.fields.map((f) => f.path)).toEqual([
+      'protocolSection.statusModule',
+      'protocolSection.statusModule.overallStatus',
+    ]);
+  });
+
+  it('should throw a NOT_FOUND error for an unknown path', async () => {
+    await expect(listFieldsLogic({ path: 'protocolSection.unknownModule' }, mockRequestContext)).rejects.toHaveProperty(
+      'code',
+      BaseErrorCode.NOT_FOUND,
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Tests for the matchPatient tool.
+ * @module tests/mcp-server/tools/matchPatient.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { evaluateStudy, matchPatientLogic, MatchPatientInput } from '../../../src/mcp-server/tools/matchPatient/logic';
+import { ClinicalTrialsGovService, Study } from '../../../src/services/clinical-trials-gov';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the ClinicalTrialsGovService
+vi.mock('../../../src/services/clinical-trials-gov');
+
+const makeStudy = (nctId: string, overrides: { eligibility?: object; countries?: string[] } = {}): Study => ({
+  protocolSection: {
+    identificationModule: { nctId, briefTitle: `Study ${nctId}` },
+    statusModule: { overallStatus: 'RECRUITING' },
+    conditionsModule: { conditions: ['Breast Cancer'] },
+    eligibilityModule: {
+      sex: 'ALL',
+      minimumAge: '18 Years',
+      maximumAge: '75 Years',
+      ...overrides.eligibility,
+    },
+    contactsLocationsModule: {
+      locations: (overrides.countries ?? ['United States']).map((country) => ({ city: 'Boston', country })),
+    },
+  },
+});
+
+const patient: MatchPatientInput = {
+  conditions: ['breast cancer', 'diabetes'],
+  age: 54,
+  sex: 'female',
+  location: { country: 'United States' },
+  priorTreatments: ['tamoxifen'],
+};
+
+describe('evaluateStudy', () => {
+  it('should check age, sex, and location against structured fields', () => {
+    const match = evaluateStudy(makeStudy('NCT00000001', { eligibility: { sex: 'MALE', maximumAge: '50 Years' } }), patient);
+
+    const byCategory = Object.fromEntries(match.criteria.map((c) => [c.category, c.result]));
+    expect(byCategory).toMatchObject({ age: 'fail', sex: 'fail', location: 'pass', condition: 'pass' });
+    expect(match.eligible).toBe(false);
+  });
+
+  it('should convert ages in months to years', () => {
+    const match = evaluateStudy(makeStudy('NCT00000001', { eligibility: { minimumAge: '6 Months', maximumAge: undefined } }), {
+      ...patient,
+      age: 1,
+    });
+
+    expect(match.criteria.find((c) => c.category === 'age')?.result).toBe('pass');
+  });
+
+  it('should fail a study with no sites in the patient country', () => {
+    const match = evaluateStudy(makeStudy('NCT00000001', { countries: ['Canada'] }), patient);
+
+    expect(match.criteria.find((c) => c.category === 'location')).toMatchObject({ result: 'fail' });
+    expect(match.eligible).toBe(false);
+  });
+
+  it('should evaluate free-text criteria lines against conditions and prior treatments', () => {
+    const eligibilityCriteria = [
+      'Inclusion Criteria:',
+      '',
+      '* Histologically confirmed breast cancer',
+      '* No prior treatment with tamoxifen',
+      '* Adequate organ function',
+      '',
+      'Exclusion Criteria:',
+      '',
+      '1. Uncontrolled diabetes',
+      '2. Untreated brain metastases from breast cancer',
+    ].join('\n');
+
+    const match = evaluateStudy(makeStudy('NCT00000001', { eligibility: { eligibilityCriteria } }), patient);
+
+    const freeText = match.criteria.filter((c) => c.category === 'inclusion' || c.category === 'exclusion');
+    expect(freeText.map((c) => [c.category, c.criterion, c.result])).toEqual([
+      ['inclusion', 'Histologically confirmed breast cancer', 'pass'],
+      ['inclusion', 'No prior treatment with tamoxifen', 'fail'],
+      ['inclusion', 'Adequate organ function', 'unknown'],
+      ['exclusion', 'Uncontrolled diabetes', 'fail'],
+      ['exclusion', 'Untreated brain metastases from breast cancer', 'unknown'],
+    ]);
+    expect(match.eligible).toBe(true);
+  });
+});
+
+describe('matchPatientLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ClinicalTrialsGovService, 'getInstance').mockReturnValue({
+      listStudies: vi.fn(),
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it('should search recruiting studies for the primary condition and rank eligible studies', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.listStudies).mockResolvedValue({
+      studies: [
+        makeStudy('NCT00000001', { eligibility: { eligibilityCriteria: 'Exclusion Criteria:\n* Prior tamoxifen' } }),
+        makeStudy('NCT00000002', { eligibility: { eligibilityCriteria: 'Inclusion Criteria:\n* Breast cancer' } }),
+        makeStudy('NCT00000003', { countries: ['France'] }),
+      ],
+      totalCount: 42,
+    });
+
+    const result = await matchPatientLogic(patient, mockRequestContext);
+
+    expect(service.listStudies).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: { cond: 'breast cancer', locn: 'United States' },
+        filter: { overallStatus: ['RECRUITING'] },
+      }),
+      mockRequestContext,
+    );
+    expect(result).toMatchObject({ totalCandidates: 42, evaluated: 3, excluded: 1 });
+    expect(result.matches.map((m) => m.nctId)).toEqual(['NCT00000002', 'NCT00000001']);
+  });
+
+  it('should rank ineligible studies last when requested', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    vi.mocked(service.listStudies).mockResolvedValue({
+      studies: [makeStudy('NCT00000003', { countries: ['France'] }), makeStudy('NCT00000002')],
+      totalCount: 2,
+    });
+
+    const result = await matchPatientLogic({ ...patient, includeIneligible: true }, mockRequestContext);
+
+    expect(result.matches.map((m) => [m.nctId, m.eligible])).toEqual([
+      ['NCT00000002', true],
+      ['NCT00000003', false],
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Tests for the saveSearch and deleteSavedSearch tools.
+ * @module tests/mcp-server/tools/saveSearch.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteSavedSearchLogic } from '../../../src/mcp-server/tools/deleteSavedSearch/logic';
+import { saveSearchLogic } from '../../../src/mcp-server/tools/saveSearch/logic';
+import { authContext } from '../../../src/mcp-server/transports/auth/lib/authContext';
+import { SavedSearch, SavedSearchService } from '../../../src/services/savedSearches';
+import { BaseErrorCode } from '../../../src/types-global/errors';
+import { requestContextService } from '../../../src/utils';
+
+// Mock the SavedSearchService
+vi.mock('../../../src/services/savedSearches');
+
+describe('saveSearchLogic', () => {
+  const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
+  const mockSearch: SavedSearch = {
+    id: 'search-1',
+    name: 'Glioma',
+    params: {},
+    schedule: '0 * * * *',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    studyCount: 3,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(SavedSearchService, 'getInstance').mockReturnValue({
+      save: vi.fn().mockResolvedValue(mockSearch),
+      get: vi.fn((idOrName: string) => (idOrName === 'Glioma' ? mockSearch : undefined)),
+      delete: vi.fn().mockResolvedValue(true),
+    } as unknown as SavedSearchService);
+  });
+
+  it('should save the query and filter with the default hourly schedule', async () => {
+    const result = await saveSearchLogic(
+      {
+        name: 'Glioma',
+        query: { cond: 'glioma' },
+        filter: { overallStatus: ['RECRUITING'], geo: { latitude: 42.36, longitude: -71.06, radius: 50, unit: 'mi' } },
+      },
+      mockRequestContext,
+    );
+
+    expect(SavedSearchService.getInstance().save).toHaveBeenCalledWith(
+      'Glioma',
+      {
+        query: { cond: 'glioma' },
+        filter: { overallStatus: ['RECRUITING'], geo: 'distance(42.36,-71.06,50mi)' },
+      },
+      '0 * * * *',
+      mockRequestContext,
+      undefined,
+    );
+    expect(result).toEqual({
+      search: mockSearch,
+      resourceUri: 'clinicaltrials://saved-search/search-1/changes',
+    });
+  });
+
+  it('should delete a saved search by name', async () => {
+    const result = await deleteSavedSearchLogic({ search: 'Glioma' }, mockRequestContext);
+
+    expect(result.deleted).toEqual(mockSearch);
+    expect(SavedSearchService.getInstance().delete).toHaveBeenCalledWith('search-1', mockRequestContext, undefined);
+  });
+
+  it('should save and delete searches as the authenticated caller', async () => {
+    const authInfo = { clientId: 'client-a', subject: 'alice', scopes: [], token: 'token' };
+    await authContext.run({ authInfo }, async () => {
+      await saveSearchLogic({ name: 'Glioma', query: { cond: 'glioma' } }, mockRequestContext);
+      await deleteSavedSearchLogic({ search: 'Glioma' }, mockRequestContext);
+    });
+
+    const service = SavedSearchService.getInstance();
+    expect(service.save).toHaveBeenCalledWith('Glioma', expect.any(Object), '0 * * * *', mockRequestContext, 'alice');
+    expect(service.get).toHaveBeenCalledWith('Glioma', 'alice');
+    expect(service.delete).toHaveBeenCalledWith('search-1', mockRequestContext, 'alice');
+  });
+
+  it('should throw NOT_FOUND when deleting an unknown search', async () => {
+    await expect(deleteSavedSearchLogic({ search: 'Unknown' }, mockRequestContext)).rejects.toMatchObject({
+      code: BaseErrorCode.NOT_FOUND,
+    });
+    expect(SavedSearchService.getInstance().delete).not.toHaveBeenCalled();
+  });
+});
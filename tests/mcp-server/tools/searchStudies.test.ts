@@ -8,9 +8,11 @@ import { searchStudiesLogic, SearchStudiesInput } from '../../../src/mcp-server/
 import { ClinicalTrialsGovService } from '../../../src/services/clinical-trials-gov';
 import { requestContextService } from '../../../src/utils';
 import { PagedStudies } from '../../../src/services/clinical-trials-gov/types';
+import { getStudyWarehouse, StudyWarehouse } from '../../../src/services/warehouse';
 
 // Mock the ClinicalTrialsGovService
 vi.mock('../../../src/services/clinical-trials-gov');
+vi.mock('../../../src/services/warehouse');
 
 describe('searchStudiesLogic', () => {
   const mockRequestContext = requestContextService.createRequestContext({ operation: 'test' });
@@ -88,4 +90,20 @@ describe('searchStudiesLogic', () => {
 
     expect(result).toEqual(mockPagedStudies);
   });
+
+  it('should search the local warehouse when the source is local', async () => {
+    const service = ClinicalTrialsGovService.getInstance();
+    const warehouse = { listStudies: vi.fn().mockResolvedValue(mockPagedStudies) };
+    vi.mocked(getStudyWarehouse).mockResolvedValue(warehouse as unknown as StudyWarehouse);
+
+    const input: SearchStudiesInput = { query: { cond: 'asthma' }, source: 'local' };
+    const result = await searchStudiesLogic(input, mockRequestContext);
+
+    expect(result).toEqual(mockPagedStudies);
+    expect(warehouse.listStudies).toHaveBeenCalledWith(
+      expect.objectContaining({ query: { cond: 'asthma' }, countTotal: true }),
+      mockRequestContext,
+    );
+    expect(service.listStudies).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Tests for the tool call instrumentation.
+ * @module tests/mcp-server/tools/toolMetrics.test
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { instrumentToolCalls } from '../../../src/mcp-server/tools/toolMetrics';
+import { authContext } from '../../../src/mcp-server/transports/auth/lib/authContext';
+import { applyScopePolicy } from '../../../src/mcp-server/transports/auth/lib/scopePolicy';
+import { BaseErrorCode, McpError } from '../../../src/types-global/errors';
+import { metricsRegistry, toolCallDurationSeconds, toolCallsTotal, toolResponseTokens } from '../../../src/utils';
+
+type Callback = (...args: unknown[]) => Promise<unknown>;
+
+describe('instrumentToolCalls', () => {
+  const callbacks = new Map<string, Callback>();
+  let server: McpServer;
+
+  beforeEach(() => {
+    metricsRegistry.reset();
+    callbacks.clear();
+    server = {
+      registerTool: vi.fn((name: string, _config: unknown, callback: Callback) => {
+        callbacks.set(name, callback);
+        return { remove: vi.fn() };
+      }),
+      registerResource: vi.fn(),
+    } as unknown as McpServer;
+    instrumentToolCalls(server);
+  });
+
+  const register = (name: string, callback: Callback) =>
+    server.registerTool(name, {}, callback as never);
+
+  it('should count successful calls and their response tokens', async () => {
+    register('tool_ok', async () => ({ content: [{ type: 'text', text: 'hello world' }] }));
+
+    await expect(callbacks.get('tool_ok')!({})).resolves.toEqual({
+      content: [{ type: 'text', text: 'hello world' }],
+    });
+    await vi.waitFor(() => expect(toolResponseTokens.get({ tool: 'tool_ok' }).count).toBe(1));
+
+    expect(toolCallsTotal.get({ tool: 'tool_ok', outcome: 'success', code: 'none' })).toBe(1);
+    expect(toolCallDurationSeconds.get({ tool: 'tool_ok', outcome: 'success' }).count).toBe(1);
+    expect(toolResponseTokens.get({ tool: 'tool_ok' }).sum).toBe(2);
+  });
+
+  it('should count error results by their error code', async () => {
+    register('tool_err', async () => ({
+      isError: true,
+      content: [{ type: 'text', text: 'Study not found.' }],
+      structuredContent: { code: BaseErrorCode.NOT_FOUND, message: 'Study not found.' },
+    }));
+
+    await callbacks.get('tool_err')!({});
+
+    expect(toolCallsTotal.get({ tool: 'tool_err', outcome: 'error', code: 'NOT_FOUND' })).toBe(1);
+  });
+
+  it('should count thrown errors and rethrow them', async () => {
+    register('tool_forbidden', async () => {
+      throw new McpError(BaseErrorCode.FORBIDDEN, 'Insufficient permissions.');
+    });
+    register('tool_crash', async () => {
+      throw new Error('boom');
+    });
+
+    await expect(callbacks.get('tool_forbidden')!({})).rejects.toThrow('Insufficient permissions.');
+    await expect(callbacks.get('tool_crash')!({})).rejects.toThrow('boom');
+
+    expect(toolCallsTotal.get({ tool: 'tool_forbidden', outcome: 'error', code: 'FORBIDDEN' })).toBe(1);
+    expect(toolCallsTotal.get({ tool: 'tool_crash', outcome: 'error', code: 'UNKNOWN_ERROR' })).toBe(1);
+    expect(metricsRegistry.render()).toContain(
+      'mcp_tool_calls_total{tool="tool_forbidden",outcome="error",code="FORBIDDEN"} 1',
+    );
+  });
+
+  it('should count calls rejected by a scope policy applied afterwards', async () => {
+    applyScopePolicy(server, { requestId: 'test', timestamp: new Date().toISOString() }, {
+      defaultScopes: [],
+      tools: { tool_guarded: ['trials:analyze'] },
+      resources: {},
+    });
+    const callback = vi.fn(async () => ({ content: [] }));
+    register('tool_guarded', callback);
+
+    await expect(
+      authContext.run({ authInfo: { clientId: 'client-1', scopes: ['trials:read'], token: 'token' } }, () =>
+        callbacks.get('tool_guarded')!({}),
+      ),
+    ).rejects.toMatchObject({ code: BaseErrorCode.FORBIDDEN });
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(toolCallsTotal.get({ tool: 'tool_guarded', outcome: 'error', code: 'FORBIDDEN' })).toBe(1);
+  });
+});
@@ -9,6 +9,7 @@ import { createAuthStrategy } from "../../../../src/mcp-server/transports/auth/a
 import { createAuthMiddleware } from "../../../../src/mcp-server/transports/auth/authMiddleware.js";
 import { JwtStrategy } from "../../../../src/mcp-server/transports/auth/strategies/jwtStrategy.js";
 import { OauthStrategy } from "../../../../src/mcp-server/transports/auth/strategies/oauthStrategy.js";
+import { ApiKeyStrategy } from "../../../../src/mcp-server/transports/auth/strategies/apiKeyStrategy.js";
 import { authContext } from "../../../../src/mcp-server/transports/auth/lib/authContext.js";
 import {
   BaseErrorCode,
@@ -22,11 +23,15 @@ vi.mock("../../../../src/mcp-server/transports/auth/strategies/jwtStrategy.js");
 vi.mock(
   "../../../../src/mcp-server/transports/auth/strategies/oauthStrategy.js",
 );
+vi.mock(
+  "../../../../src/mcp-server/transports/auth/strategies/apiKeyStrategy.js",
+);
 
-// Mock config
-const mockState = {
+// Mock config. Hoisted because modules imported by the mocked strategies read
+// the config when they load.
+const mockState = vi.hoisted(() => ({
   config: { mcpAuthMode: "none" },
-};
+}));
 vi.mock("../../../../src/config/index.js", () => ({
   get config() {
     return mockState.config;
@@ -51,6 +56,12 @@ describe("Auth Integration: Factory and Middleware", () => {
       expect(strategy).toBeInstanceOf(OauthStrategy);
     });
 
+    it("should return an ApiKeyStrategy instance when auth mode is 'apikey'", () => {
+      mockState.config.mcpAuthMode = "apikey";
+      const strategy = createAuthStrategy();
+      expect(strategy).toBeInstanceOf(ApiKeyStrategy);
+    });
+
     it("should return null when auth mode is 'none'", () => {
       mockState.config.mcpAuthMode = "none";
       const strategy = createAuthStrategy();
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Tests for the declarative tool and resource scope policy.
+ * @module tests/mcp-server/transports/auth/lib/scopePolicy.test
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { authContext } from "../../../../../src/mcp-server/transports/auth/lib/authContext.js";
+import type { AuthInfo } from "../../../../../src/mcp-server/transports/auth/lib/authTypes.js";
+import {
+  applyScopePolicy,
+  parseScopePolicy,
+  requiredScopesFor,
+  type ScopePolicy,
+} from "../../../../../src/mcp-server/transports/auth/lib/scopePolicy.js";
+import { BaseErrorCode } from "../../../../../src/types-global/errors.js";
+import { requestContextService } from "../../../../../src/utils/index.js";
+
+vi.mock("../../../../../src/utils/internal/logger.js", () => ({
+  logger: {
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    crit: vi.fn(),
+  },
+}));
+
+const context = requestContextService.createRequestContext({
+  operation: "test",
+});
+
+const policy: ScopePolicy = parseScopePolicy(
+  JSON.stringify({
+    defaultScopes: ["trials:read"],
+    tools: {
+      clinicaltrials_analyze_trends: ["trials:read", "trials:analyze"],
+      "clinicaltrials_*_webhook": ["watches:write"],
+      clinicaltrials_list_fields: [],
+    },
+    resources: { "clinicaltrials-saved-search-*": ["watches:read"] },
+  }),
+  "test",
+);
+
+const authInfo = (scopes: string[]): AuthInfo => ({
+  clientId: "test-client",
+  scopes,
+  token: "dummy-token",
+});
+
+/**
+ * Creates a stand-in for `McpServer` that records registrations.
+ */
+const createServer = () => {
+  const remove = vi.fn();
+  const registerTool = vi.fn(() => ({ remove }));
+  const registerResource = vi.fn(() => ({ remove }));
+  const server = { registerTool, registerResource } as unknown as McpServer;
+  return { server, registerTool, registerResource, remove };
+};
+
+describe("parseScopePolicy", () => {
+  it("should fill in defaults for omitted sections", () => {
+    expect(parseScopePolicy("{}", "test")).toEqual({
+      defaultScopes: [],
+      tools: {},
+      resources: {},
+    });
+  });
+
+  it("should reject invalid JSON and unknown keys", () => {
+    expect(() => parseScopePolicy("{", "test")).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.CONFIGURATION_ERROR }),
+    );
+    expect(() =>
+      parseScopePolicy(JSON.stringify({ prompts: {} }), "test"),
+    ).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.CONFIGURATION_ERROR }),
+    );
+    expect(() =>
+      parseScopePolicy(JSON.stringify({ tools: { a: "trials:read" } }), "test"),
+    ).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.CONFIGURATION_ERROR }),
+    );
+  });
+});
+
+describe("requiredScopesFor", () => {
+  it("should prefer exact names, then wildcards, then the default", () => {
+    expect(
+      requiredScopesFor(policy, "tools", "clinicaltrials_analyze_trends"),
+    ).toEqual(["trials:read", "trials:analyze"]);
+    expect(
+      requiredScopesFor(policy, "tools", "clinicaltrials_create_webhook"),
+    ).toEqual(["watches:write"]);
+    expect(
+      requiredScopesFor(policy, "tools", "clinicaltrials_list_fields"),
+    ).toEqual([]);
+    expect(
+      requiredScopesFor(policy, "tools", "clinicaltrials_get_study"),
+    ).toEqual(["trials:read"]);
+    expect(
+      requiredScopesFor(
+        policy,
+        "resources",
+        "clinicaltrials-saved-search-changes",
+      ),
+    ).toEqual(["watches:read"]);
+  });
+});
+
+describe("applyScopePolicy", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should remove tools the session's token lacks scopes for", () => {
+    const { server, registerTool, remove } = createServer();
+    authContext.run({ authInfo: authInfo(["trials:read"]) }, () => {
+      applyScopePolicy(server, context, policy);
+      server.registerTool("clinicaltrials_get_study", {}, vi.fn());
+      expect(remove).not.toHaveBeenCalled();
+      server.registerTool("clinicaltrials_analyze_trends", {}, vi.fn());
+      expect(remove).toHaveBeenCalledTimes(1);
+    });
+    expect(registerTool).toHaveBeenCalledTimes(2);
+  });
+
+  it("should remove resources the session's token lacks scopes for", () => {
+    const { server, remove } = createServer();
+    authContext.run({ authInfo: authInfo(["trials:read"]) }, () => {
+      applyScopePolicy(server, context, policy);
+      server.registerResource(
+        "clinicaltrials-saved-search-changes",
+        "saved-search://changes",
+        {},
+        vi.fn(),
+      );
+    });
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+
+  it("should check the calling token's scopes on every call", async () => {
+    const { server, registerTool } = createServer();
+    const callback = vi.fn().mockResolvedValue({ content: [] });
+    applyScopePolicy(server, context, policy);
+    server.registerTool("clinicaltrials_create_webhook", {}, callback);
+    const guarded = (registerTool.mock.calls[0] as unknown[])[2] as (
+      ...args: unknown[]
+    ) => unknown;
+
+    expect(() =>
+      authContext.run({ authInfo: authInfo(["trials:read"]) }, () =>
+        guarded({}),
+      ),
+    ).toThrow(expect.objectContaining({ code: BaseErrorCode.FORBIDDEN }));
+    expect(callback).not.toHaveBeenCalled();
+
+    await authContext.run({ authInfo: authInfo(["watches:write"]) }, () =>
+      guarded({}),
+    );
+    expect(callback).toHaveBeenCalledWith({});
+  });
+
+  it("should neither hide nor guard without an auth context", async () => {
+    const { server, registerTool, remove } = createServer();
+    const callback = vi.fn();
+    applyScopePolicy(server, context, policy);
+    server.registerTool("clinicaltrials_analyze_trends", {}, callback);
+    const guarded = (registerTool.mock.calls[0] as unknown[])[2] as (
+      ...args: unknown[]
+    ) => unknown;
+
+    await guarded({});
+    expect(remove).not.toHaveBeenCalled();
+    expect(callback).toHaveBeenCalled();
+  });
+
+  it("should leave the server untouched without a policy", () => {
+    const { server, registerTool } = createServer();
+    applyScopePolicy(server, context, null);
+    expect(server.registerTool).toBe(registerTool);
+  });
+});
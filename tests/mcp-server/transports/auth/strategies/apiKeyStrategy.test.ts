@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Tests for the ApiKeyStrategy class and the file key store.
+ * @module tests/mcp-server/transports/auth/strategies/apiKeyStrategy.test
+ */
+
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  FileApiKeyStore,
+  generateApiKey,
+  hashApiKey,
+  parseApiKeyFile,
+} from "../../../../../src/mcp-server/transports/auth/lib/apiKeyStore.js";
+import { ApiKeyStrategy } from "../../../../../src/mcp-server/transports/auth/strategies/apiKeyStrategy.js";
+import { BaseErrorCode } from "../../../../../src/types-global/errors.js";
+import { requestContextService } from "../../../../../src/utils/index.js";
+import { logger } from "../../../../../src/utils/internal/logger.js";
+
+vi.mock("../../../../../src/utils/internal/logger.js", () => ({
+  logger: {
+    fatal: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    crit: vi.fn(),
+  },
+}));
+
+const context = requestContextService.createRequestContext({
+  operation: "test",
+});
+
+const currentKey = generateApiKey();
+const previousKey = generateApiKey();
+const revokedKey = generateApiKey();
+const expiredKey = generateApiKey();
+
+const keyFile = (extra: object[] = []) =>
+  JSON.stringify({
+    keys: [
+      {
+        id: "ingest-2026-10",
+        clientId: "ingest-service",
+        hash: hashApiKey(currentKey),
+        scopes: ["trials:read"],
+      },
+      {
+        id: "ingest-2026-04",
+        clientId: "ingest-service",
+        hash: hashApiKey(previousKey),
+        scopes: ["trials:read"],
+        expiresAt: "2099-01-01T00:00:00Z",
+      },
+      {
+        id: "old",
+        clientId: "ingest-service",
+        hash: hashApiKey(revokedKey),
+        scopes: ["trials:read"],
+        revoked: true,
+      },
+      {
+        id: "expired",
+        clientId: "ingest-service",
+        hash: hashApiKey(expiredKey),
+        scopes: ["trials:read"],
+        expiresAt: "2020-01-01T00:00:00Z",
+      },
+      ...extra,
+    ],
+  });
+
+describe("parseApiKeyFile", () => {
+  it("should reject invalid files and duplicate keys", () => {
+    expect(() => parseApiKeyFile("{", "keys.json")).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.CONFIGURATION_ERROR }),
+    );
+    expect(() =>
+      parseApiKeyFile(
+        JSON.stringify({
+          keys: [{ id: "a", clientId: "c", hash: "abc", scopes: ["s"] }],
+        }),
+        "keys.json",
+      ),
+    ).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.CONFIGURATION_ERROR }),
+    );
+    expect(() =>
+      parseApiKeyFile(
+        keyFile([
+          {
+            id: "ingest-2026-10",
+            clientId: "other",
+            hash: hashApiKey(generateApiKey()),
+            scopes: ["s"],
+          },
+        ]),
+        "keys.json",
+      ),
+    ).toThrow(/more than once/);
+  });
+});
+
+describe("ApiKeyStrategy", () => {
+  let dir: string;
+  let filePath: string;
+  let strategy: ApiKeyStrategy;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(path.join(tmpdir(), "api-keys-"));
+    filePath = path.join(dir, "keys.json");
+    writeFileSync(filePath, keyFile());
+    strategy = new ApiKeyStrategy(new FileApiKeyStore(filePath, context));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should accept every active key of a client, for rotation", async () => {
+    await expect(strategy.verify(currentKey)).resolves.toEqual({
+      token: currentKey,
+      clientId: "ingest-service",
+      scopes: ["trials:read"],
+      extra: { apiKeyId: "ingest-2026-10" },
+    });
+    await expect(strategy.verify(previousKey)).resolves.toMatchObject({
+      clientId: "ingest-service",
+      expiresAt: Date.parse("2099-01-01T00:00:00Z") / 1000,
+      extra: { apiKeyId: "ingest-2026-04" },
+    });
+  });
+
+  it("should reject unknown, revoked, and expired keys", async () => {
+    for (const key of [generateApiKey(), revokedKey]) {
+      await expect(strategy.verify(key)).rejects.toMatchObject({
+        code: BaseErrorCode.UNAUTHORIZED,
+        message: "Invalid API key.",
+      });
+    }
+    await expect(strategy.verify(expiredKey)).rejects.toMatchObject({
+      code: BaseErrorCode.UNAUTHORIZED,
+      message: "API key has expired.",
+    });
+  });
+
+  it("should log each use with the key's previous use", async () => {
+    await strategy.verify(currentKey);
+    await strategy.verify(currentKey);
+
+    const uses = vi
+      .mocked(logger.info)
+      .mock.calls.filter(
+        ([message]) => message === "API key verification successful.",
+      )
+      .map(([, logContext]) => logContext);
+    expect(uses[0]).toMatchObject({
+      keyId: "ingest-2026-10",
+      previousUseAt: "never",
+    });
+    expect(uses[1]?.previousUseAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it("should report expired keys when the file is loaded", () => {
+    expect(logger.warning).toHaveBeenCalledWith(
+      "API key 'expired' has expired.",
+      expect.objectContaining({ keyId: "expired" }),
+    );
+  });
+
+  it("should reload the file when it changes, rejecting every key if it is invalid", async () => {
+    const addedKey = generateApiKey();
+    writeFileSync(
+      filePath,
+      keyFile([
+        {
+          id: "added",
+          clientId: "reporting",
+          hash: hashApiKey(addedKey),
+          scopes: ["trials:analyze"],
+        },
+      ]),
+    );
+    utimesSync(filePath, new Date(), new Date(Date.now() + 10_000));
+    await expect(strategy.verify(addedKey)).resolves.toMatchObject({
+      clientId: "reporting",
+    });
+
+    writeFileSync(filePath, "{ not json");
+    utimesSync(filePath, new Date(), new Date(Date.now() + 20_000));
+    for (const key of [addedKey, currentKey]) {
+      await expect(strategy.verify(key)).rejects.toMatchObject({
+        code: BaseErrorCode.UNAUTHORIZED,
+      });
+    }
+    expect(logger.error).toHaveBeenCalledWith(
+      "Failed to reload the API key file; rejecting every API key until it is fixed.",
+      expect.any(Object),
+    );
+  });
+
+  it("should reject every key while the file is missing, until it reappears", async () => {
+    rmSync(filePath);
+    await expect(strategy.verify(currentKey)).rejects.toMatchObject({
+      code: BaseErrorCode.UNAUTHORIZED,
+    });
+    await expect(strategy.verify(previousKey)).rejects.toMatchObject({
+      code: BaseErrorCode.UNAUTHORIZED,
+    });
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      "Failed to reload the API key file; rejecting every API key until it is fixed.",
+      expect.objectContaining({ filePath }),
+    );
+
+    writeFileSync(filePath, keyFile());
+    await expect(strategy.verify(currentKey)).resolves.toMatchObject({
+      clientId: "ingest-service",
+    });
+  });
+
+  it("should fail fast when the key file is missing", () => {
+    expect(
+      () => new FileApiKeyStore(path.join(dir, "missing.json"), context),
+    ).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.CONFIGURATION_ERROR }),
+    );
+  });
+});
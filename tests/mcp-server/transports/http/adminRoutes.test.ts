@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Tests for the `/admin` route group of the HTTP transport.
+ * @module tests/mcp-server/transports/http/adminRoutes.test
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthStrategy } from "../../../../src/mcp-server/transports/auth/index.js";
+import { StatefulTransportManager } from "../../../../src/mcp-server/transports/core/statefulTransportManager.js";
+import { createAdminRoutes } from "../../../../src/mcp-server/transports/http/adminRoutes.js";
+import { httpErrorHandler } from "../../../../src/mcp-server/transports/http/httpErrorHandler.js";
+import type { HonoNodeBindings } from "../../../../src/mcp-server/transports/http/httpTypes.js";
+import { responseCache } from "../../../../src/services/clinical-trials-gov/index.js";
+import {
+  BaseErrorCode,
+  McpError,
+} from "../../../../src/types-global/errors.js";
+import { logger } from "../../../../src/utils/index.js";
+import { schedulerService } from "../../../../src/utils/scheduling/index.js";
+
+vi.mock("../../../../src/services/clinical-trials-gov/index.js", () => ({
+  responseCache: {
+    getStats: vi.fn(() => ({ mode: "readthrough", memoryEntries: 3 })),
+    clear: vi.fn(),
+  },
+}));
+
+/**
+ * Grants the `admin` scope to the token "admin-token" and a read scope to
+ * "reader-token".
+ */
+const strategy: AuthStrategy = {
+  verify: async (token) => {
+    if (token === "admin-token") {
+      return { token, clientId: "ops", scopes: ["admin"] };
+    }
+    if (token === "reader-token") {
+      return { token, clientId: "reader", scopes: ["trials:read"] };
+    }
+    throw new McpError(BaseErrorCode.UNAUTHORIZED, "Invalid token.");
+  },
+};
+
+const asAdmin = { headers: { Authorization: "Bearer admin-token" } };
+
+describe("createAdminRoutes", () => {
+  let manager: StatefulTransportManager;
+  let app: Hono<{ Bindings: HonoNodeBindings }>;
+  const jobTask = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    manager = new StatefulTransportManager(async () => ({}) as McpServer);
+    app = new Hono<{ Bindings: HonoNodeBindings }>();
+    app.route("/admin", createAdminRoutes(manager, strategy));
+    app.onError(httpErrorHandler);
+    schedulerService.schedule("admin-test-job", "0 0 * * *", jobTask, "Test");
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    schedulerService.remove("admin-test-job");
+    await manager.shutdown();
+  });
+
+  it("should require a token with the admin scope", async () => {
+    expect((await app.request("/admin/sessions")).status).toBe(401);
+    const res = await app.request("/admin/sessions", {
+      headers: { Authorization: "Bearer reader-token" },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it("should list sessions with their age and force-close them", async () => {
+    const internals = manager as unknown as {
+      sessions: Map<string, unknown>;
+      transports: Map<string, unknown>;
+    };
+    const transport = { close: vi.fn() };
+    internals.transports.set("s1", transport);
+    internals.sessions.set("s1", {
+      id: "s1",
+      clientId: "ingest-service",
+      createdAt: new Date(Date.now() - 120_000),
+      lastAccessedAt: new Date(Date.now() - 30_000),
+    });
+
+    const list = await (await app.request("/admin/sessions", asAdmin)).json();
+    expect(list.sessions).toEqual([
+      expect.objectContaining({
+        id: "s1",
+        clientId: "ingest-service",
+        ageSeconds: 120,
+        idleSeconds: 30,
+      }),
+    ]);
+
+    const res = await app.request("/admin/sessions/s1", {
+      ...asAdmin,
+      method: "DELETE",
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      status: "session_closed",
+      sessionId: "s1",
+    });
+    expect(transport.close).toHaveBeenCalled();
+    expect(manager.listSessions()).toEqual([]);
+
+    const missing = await app.request("/admin/sessions/s1", {
+      ...asAdmin,
+      method: "DELETE",
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it("should inspect and purge caches", async () => {
+    const stats = await (await app.request("/admin/caches", asAdmin)).json();
+    expect(stats).toEqual({
+      caches: { responses: { mode: "readthrough", memoryEntries: 3 } },
+    });
+
+    const res = await app.request("/admin/caches/responses", {
+      ...asAdmin,
+      method: "DELETE",
+    });
+    expect(res.status).toBe(200);
+    expect(responseCache.clear).toHaveBeenCalledWith(expect.anything(), {
+      includeDisk: false,
+    });
+
+    const withDisk = await app.request(
+      "/admin/caches/responses?includeDisk=true",
+      { ...asAdmin, method: "DELETE" },
+    );
+    expect(await withDisk.json()).toMatchObject({ includeDisk: true });
+    expect(responseCache.clear).toHaveBeenLastCalledWith(expect.anything(), {
+      includeDisk: true,
+    });
+
+    vi.mocked(responseCache.clear).mockImplementationOnce(() => {
+      throw new McpError(BaseErrorCode.CONFLICT, "Offline mode.");
+    });
+    const refused = await app.request(
+      "/admin/caches/responses?includeDisk=true",
+      { ...asAdmin, method: "DELETE" },
+    );
+    expect(refused.status).toBe(409);
+
+    const unknown = await app.request("/admin/caches/other", {
+      ...asAdmin,
+      method: "DELETE",
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("should list, run, stop, and start jobs", async () => {
+    const list = await (await app.request("/admin/jobs", asAdmin)).json();
+    expect(list.jobs).toContainEqual(
+      expect.objectContaining({
+        id: "admin-test-job",
+        schedule: "0 0 * * *",
+        isRunning: false,
+      }),
+    );
+
+    let release = () => {};
+    jobTask.mockImplementationOnce(
+      () => new Promise<void>((resolve) => (release = resolve)),
+    );
+    const run = await app.request("/admin/jobs/admin-test-job/run", {
+      ...asAdmin,
+      method: "POST",
+    });
+    expect(run.status).toBe(202);
+    expect(jobTask).toHaveBeenCalledTimes(1);
+
+    const busy = await app.request("/admin/jobs/admin-test-job/run", {
+      ...asAdmin,
+      method: "POST",
+    });
+    expect(busy.status).toBe(409);
+    release();
+
+    const started = await app.request("/admin/jobs/admin-test-job/start", {
+      ...asAdmin,
+      method: "POST",
+    });
+    expect((await started.json()).nextRunAt).not.toBeNull();
+
+    const stopped = await app.request("/admin/jobs/admin-test-job/stop", {
+      ...asAdmin,
+      method: "POST",
+    });
+    expect(await stopped.json()).toMatchObject({
+      status: "stopped",
+      nextRunAt: null,
+    });
+
+    const missing = await app.request("/admin/jobs/none/run", {
+      ...asAdmin,
+      method: "POST",
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it("should read and change the log level", async () => {
+    vi.spyOn(logger, "getLevel").mockReturnValue("info");
+    const setLevel = vi.spyOn(logger, "setLevel").mockImplementation(() => {});
+
+    const current = await app.request("/admin/log-level", asAdmin);
+    expect(await current.json()).toEqual({ level: "info" });
+
+    const res = await app.request("/admin/log-level", {
+      method: "PUT",
+      headers: { ...asAdmin.headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ level: "debug" }),
+    });
+    expect(res.status).toBe(200);
+    expect(setLevel).toHaveBeenCalledWith("debug");
+
+    const invalid = await app.request("/admin/log-level", {
+      method: "PUT",
+      headers: { ...asAdmin.headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ level: "verbose" }),
+    });
+    expect(invalid.status).toBe(400);
+    expect(setLevel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Tests for the `/metrics` route of the HTTP transport.
+ * @module tests/mcp-server/transports/http/metricsRoutes.test
+ */
+
+import { Hono } from "hono";
+import { describe, expect, it } from "vitest";
+import type { AuthStrategy } from "../../../../src/mcp-server/transports/auth/index.js";
+import { httpErrorHandler } from "../../../../src/mcp-server/transports/http/httpErrorHandler.js";
+import type { HonoNodeBindings } from "../../../../src/mcp-server/transports/http/httpTypes.js";
+import { createMetricsRoutes } from "../../../../src/mcp-server/transports/http/metricsRoutes.js";
+import {
+  BaseErrorCode,
+  McpError,
+} from "../../../../src/types-global/errors.js";
+import { PROMETHEUS_CONTENT_TYPE } from "../../../../src/utils/index.js";
+
+/**
+ * Grants the `admin` scope to the token "admin-token" and a read scope to
+ * "reader-token".
+ */
+const strategy: AuthStrategy = {
+  verify: async (token) => {
+    if (token === "admin-token") {
+      return { token, clientId: "prometheus", scopes: ["admin"] };
+    }
+    if (token === "reader-token") {
+      return { token, clientId: "reader", scopes: ["trials:read"] };
+    }
+    throw new McpError(BaseErrorCode.UNAUTHORIZED, "Invalid token.");
+  },
+};
+
+const createApp = (authStrategy: AuthStrategy | null) => {
+  const app = new Hono<{ Bindings: HonoNodeBindings }>();
+  app.route("/metrics", createMetricsRoutes(authStrategy));
+  app.onError(httpErrorHandler);
+  return app;
+};
+
+describe("createMetricsRoutes", () => {
+  it("should require a token with the admin scope when authentication is enabled", async () => {
+    const app = createApp(strategy);
+
+    expect((await app.request("/metrics")).status).toBe(401);
+    const reader = await app.request("/metrics", {
+      headers: { Authorization: "Bearer reader-token" },
+    });
+    expect(reader.status).toBe(403);
+
+    const res = await app.request("/metrics", {
+      headers: { Authorization: "Bearer admin-token" },
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe(PROMETHEUS_CONTENT_TYPE);
+  });
+
+  it("should serve metrics without a token when authentication is disabled", async () => {
+    const res = await createApp(null).request("/metrics");
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe(PROMETHEUS_CONTENT_TYPE);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Tests for the per-identity rate limit middleware of the HTTP
+ * transport.
+ * @module tests/mcp-server/transports/http/rateLimitMiddleware.test
+ */
+
+import { Hono, type MiddlewareHandler } from "hono";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { authContext } from "../../../../src/mcp-server/transports/auth/lib/authContext.js";
+import { httpErrorHandler } from "../../../../src/mcp-server/transports/http/httpErrorHandler.js";
+import type { HonoNodeBindings } from "../../../../src/mcp-server/transports/http/httpTypes.js";
+import {
+  createPreAuthRateLimitMiddleware,
+  createRateLimitMiddleware,
+  getClientIp,
+  getRequestCost,
+  parseTrustedProxies,
+} from "../../../../src/mcp-server/transports/http/rateLimitMiddleware.js";
+import {
+  BaseErrorCode,
+  McpError,
+} from "../../../../src/types-global/errors.js";
+import {
+  MemoryRateLimitStore,
+  rateLimitRejectionsTotal,
+  UsageLimiter,
+} from "../../../../src/utils/index.js";
+
+const toolCosts = { clinicaltrials_analyze_trends: 5 };
+
+const toolCall = (name: string) =>
+  JSON.stringify({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "tools/call",
+    params: { name, arguments: {} },
+  });
+
+/**
+ * The Node bindings of a request from a socket address.
+ */
+const fromAddress = (remoteAddress: string) =>
+  ({ incoming: { socket: { remoteAddress } } }) as unknown as HonoNodeBindings;
+
+/**
+ * Stands in for the auth middleware, authenticating the `X-Test-Client` header.
+ */
+const fakeAuth: MiddlewareHandler = async (c, next) => {
+  const clientId = c.req.header("x-test-client");
+  if (!clientId) return next();
+  return authContext.run(
+    { authInfo: { clientId, scopes: [], token: "dummy-token" } },
+    next,
+  );
+};
+
+describe("getRequestCost", () => {
+  it("should weight tool calls and sum batches", () => {
+    expect(getRequestCost(JSON.parse(toolCall("x")), toolCosts)).toBe(1);
+    expect(
+      getRequestCost(
+        [
+          JSON.parse(toolCall("clinicaltrials_analyze_trends")),
+          { jsonrpc: "2.0", id: 2, method: "tools/list" },
+        ],
+        toolCosts,
+      ),
+    ).toBe(6);
+    expect(getRequestCost(undefined, toolCosts)).toBe(1);
+  });
+});
+
+describe("getClientIp", () => {
+  const app = new Hono<{ Bindings: HonoNodeBindings }>();
+  const trustedProxies = parseTrustedProxies(["10.0.0.0/8", "192.0.2.1"]);
+  app.get("/ip", (c) => c.text(getClientIp(c, trustedProxies)));
+
+  const ipOf = async (
+    remoteAddress: string,
+    headers: Record<string, string> = {},
+  ) =>
+    (await app.request("/ip", { headers }, fromAddress(remoteAddress))).text();
+
+  it("should ignore forwarded headers from untrusted addresses", async () => {
+    expect(
+      await ipOf("203.0.113.7", {
+        "x-forwarded-for": "198.51.100.1",
+        "x-real-ip": "198.51.100.2",
+      }),
+    ).toBe("203.0.113.7");
+  });
+
+  it("should read the right-most untrusted forwarded address from trusted proxies", async () => {
+    expect(
+      await ipOf("10.1.2.3", {
+        "x-forwarded-for": "198.51.100.1, 203.0.113.7, 192.0.2.1",
+      }),
+    ).toBe("203.0.113.7");
+    expect(await ipOf("10.1.2.3", { "x-real-ip": "203.0.113.9" })).toBe(
+      "203.0.113.9",
+    );
+    expect(await ipOf("10.1.2.3")).toBe("10.1.2.3");
+  });
+
+  it("should reject invalid trusted proxies", () => {
+    for (const entry of ["gateway.internal", "10.0.0.0/33", "10.0.0.0/x"]) {
+      expect(() => parseTrustedProxies([entry])).toThrow(
+        expect.objectContaining({ code: BaseErrorCode.CONFIGURATION_ERROR }),
+      );
+    }
+  });
+});
+
+describe("createRateLimitMiddleware", () => {
+  let store: MemoryRateLimitStore;
+  let app: Hono<{ Bindings: HonoNodeBindings }>;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    const limiter = new UsageLimiter(store, {
+      windowMs: 60_000,
+      windowLimit: 6,
+      dailyQuota: 0,
+    });
+    app = new Hono<{ Bindings: HonoNodeBindings }>();
+    app.use("/mcp", fakeAuth);
+    app.use("/mcp", createRateLimitMiddleware(limiter, toolCosts));
+    app.onError(httpErrorHandler);
+    app.post("/mcp", async (c) => c.json(await c.req.json()));
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  const post = (body: string, headers: Record<string, string> = {}) =>
+    app.request("/mcp", {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body,
+    });
+
+  it("should report limits in RateLimit headers and pass the body on", async () => {
+    const response = await post(toolCall("clinicaltrials_analyze_trends"), {
+      "x-test-client": "client-a",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("RateLimit-Policy")).toBe("6;w=60");
+    expect(response.headers.get("RateLimit-Limit")).toBe("6");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("1");
+    expect(response.headers.get("RateLimit-Reset")).toBe("60");
+    expect((await response.json()).params.name).toBe(
+      "clinicaltrials_analyze_trends",
+    );
+  });
+
+  it("should reject requests over the limit with 429 and Retry-After", async () => {
+    const headers = { "x-test-client": "client-a" };
+    const rejectionsBefore = rateLimitRejectionsTotal.get({ limit: "window" });
+    await post(toolCall("clinicaltrials_analyze_trends"), headers);
+    const response = await post(
+      toolCall("clinicaltrials_analyze_trends"),
+      headers,
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("60");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+    expect((await response.json()).error.code).toBe(BaseErrorCode.RATE_LIMITED);
+    expect(rateLimitRejectionsTotal.get({ limit: "window" })).toBe(
+      rejectionsBefore + 1,
+    );
+  });
+
+  it("should limit authenticated clients separately, even from one IP", async () => {
+    const fromGateway = { "x-forwarded-for": "10.0.0.1" };
+    await post(toolCall("clinicaltrials_analyze_trends"), {
+      ...fromGateway,
+      "x-test-client": "client-a",
+    });
+
+    const otherClient = await post(toolCall("clinicaltrials_analyze_trends"), {
+      ...fromGateway,
+      "x-test-client": "client-b",
+    });
+    expect(otherClient.status).toBe(200);
+
+    const anonymous = await post(toolCall("clinicaltrials_analyze_trends"), {
+      ...fromGateway,
+    });
+    expect(anonymous.status).toBe(200);
+    expect(anonymous.headers.get("RateLimit-Remaining")).toBe("1");
+  });
+});
+
+describe("createPreAuthRateLimitMiddleware", () => {
+  let store: MemoryRateLimitStore;
+  let app: Hono<{ Bindings: HonoNodeBindings }>;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    const limiter = new UsageLimiter(store, {
+      windowMs: 60_000,
+      windowLimit: 2,
+      dailyQuota: 0,
+    });
+    app = new Hono<{ Bindings: HonoNodeBindings }>();
+    app.use(
+      "/mcp",
+      createPreAuthRateLimitMiddleware(limiter, parseTrustedProxies([])),
+    );
+    // Stands in for an auth middleware that only accepts one token.
+    app.use("/mcp", async (c, next) => {
+      if (c.req.header("authorization") !== "Bearer valid") {
+        throw new McpError(BaseErrorCode.UNAUTHORIZED, "Invalid token.");
+      }
+      await next();
+    });
+    app.onError(httpErrorHandler);
+    app.post("/mcp", (c) => c.json({}));
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  let spoofed = 0;
+  const post = (ip: string, token = "invalid") =>
+    app.request(
+      "/mcp",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${token}`,
+          // Rotated on every request, but not trusted.
+          "x-forwarded-for": `198.51.100.${++spoofed}`,
+        },
+        body: toolCall("x"),
+      },
+      fromAddress(ip),
+    );
+
+  it("should limit failed authentication attempts per IP", async () => {
+    const rejectionsBefore = rateLimitRejectionsTotal.get({ limit: "ip" });
+    expect((await post("203.0.113.7")).status).toBe(401);
+    expect((await post("203.0.113.7")).status).toBe(401);
+
+    const limited = await post("203.0.113.7");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBe("60");
+    expect((await limited.json()).error.code).toBe(BaseErrorCode.RATE_LIMITED);
+    expect(rateLimitRejectionsTotal.get({ limit: "ip" })).toBe(
+      rejectionsBefore + 1,
+    );
+
+    expect((await post("203.0.113.8")).status).toBe(401);
+  });
+
+  it("should not count requests that pass authentication", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await post("203.0.113.7", "valid")).status).toBe(200);
+    }
+    expect((await post("203.0.113.7")).status).toBe(401);
+    expect((await post("203.0.113.7")).status).toBe(401);
+    expect((await post("203.0.113.7", "valid")).status).toBe(429);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Tests for the ClinicalTrials.gov response cache.
+ * @module tests/services/clinical-trials-gov/responseCache.test
+ */
+
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  normalizeCacheUrl,
+  ResponseCache,
+  ResponseCacheConfig,
+} from "../../../src/services/clinical-trials-gov/responseCache";
+import { BaseErrorCode } from "../../../src/types-global/errors";
+import { requestContextService } from "../../../src/utils";
+
+const STUDY_URL = "https://clinicaltrials.gov/api/v2/studies/NCT12345678";
+const SEARCH_URL =
+  "https://clinicaltrials.gov/api/v2/studies?query.cond=cancer&pageSize=10";
+
+describe("ResponseCache", () => {
+  const context = requestContextService.createRequestContext({
+    operation: "test",
+  });
+  let directory: string;
+
+  const createCache = (overrides: Partial<ResponseCacheConfig> = {}) =>
+    new ResponseCache({
+      mode: "readthrough",
+      maxEntries: 10,
+      ttlMs: { study: 1000, search: 500, metadata: 1000, stats: 1000 },
+      directory,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    directory = mkdtempSync(path.join(tmpdir(), "ctg-cache-"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should normalize query parameter order", () => {
+    expect(
+      normalizeCacheUrl("https://example.com/a?b=2&a=1&a=0"),
+    ).toBe("https://example.com/a?a=0&a=1&b=2");
+  });
+
+  it("should serve a stored response until its TTL expires", () => {
+    const cache = createCache();
+    cache.set(SEARCH_URL, "search", { studies: [] }, context);
+
+    expect(cache.get(SEARCH_URL, "search", context)?.data).toEqual({
+      studies: [],
+    });
+
+    vi.advanceTimersByTime(501);
+    expect(cache.get(SEARCH_URL, "search", context)).toBeUndefined();
+  });
+
+  it("should treat URLs with reordered parameters as the same entry", () => {
+    const cache = createCache();
+    cache.set(SEARCH_URL, "search", { studies: [] }, context);
+
+    const reordered =
+      "https://clinicaltrials.gov/api/v2/studies?pageSize=10&query.cond=cancer";
+    expect(cache.get(reordered, "search", context)).toBeDefined();
+  });
+
+  it("should read entries back from disk in a new instance", () => {
+    createCache().set(STUDY_URL, "study", { hasResults: true }, context);
+    expect(readdirSync(directory)).toHaveLength(1);
+
+    const freshCache = createCache();
+    expect(freshCache.get(STUDY_URL, "study", context)?.data).toEqual({
+      hasResults: true,
+    });
+  });
+
+  it("should evict the least recently used entry from memory", () => {
+    const cache = createCache({ maxEntries: 2, directory: null });
+    cache.set(`${STUDY_URL}?v=1`, "study", 1, context);
+    cache.set(`${STUDY_URL}?v=2`, "study", 2, context);
+    cache.get(`${STUDY_URL}?v=1`, "study", context);
+    cache.set(`${STUDY_URL}?v=3`, "study", 3, context);
+
+    expect(cache.get(`${STUDY_URL}?v=1`, "study", context)).toBeDefined();
+    expect(cache.get(`${STUDY_URL}?v=2`, "study", context)).toBeUndefined();
+    expect(cache.getStats().memoryEntries).toBe(2);
+  });
+
+  it("should replay stale entries in offline mode", () => {
+    createCache().set(STUDY_URL, "study", { hasResults: false }, context);
+    vi.advanceTimersByTime(60_000);
+
+    const offlineCache = createCache({ mode: "offline" });
+    expect(offlineCache.get(STUDY_URL, "study", context)?.data).toEqual({
+      hasResults: false,
+    });
+    expect(offlineCache.getStats().staleServed).toBe(1);
+  });
+
+  it("should neither store nor serve entries when turned off", () => {
+    const cache = createCache({ mode: "off" });
+    cache.set(STUDY_URL, "study", {}, context);
+
+    expect(cache.get(STUDY_URL, "study", context)).toBeUndefined();
+    expect(readdirSync(directory)).toHaveLength(0);
+  });
+
+  it("should clear only the in-memory tier by default", () => {
+    const cache = createCache();
+    cache.set(STUDY_URL, "study", {}, context);
+    cache.clear(context);
+
+    expect(cache.getStats().memoryEntries).toBe(0);
+    expect(readdirSync(directory)).toHaveLength(1);
+    expect(cache.get(STUDY_URL, "study", context)?.data).toEqual({});
+  });
+
+  it("should remove all entries when cleared including the disk store", () => {
+    const cache = createCache();
+    cache.set(STUDY_URL, "study", {}, context);
+    cache.clear(context, { includeDisk: true });
+
+    expect(cache.get(STUDY_URL, "study", context)).toBeUndefined();
+    expect(cache.getStats().memoryEntries).toBe(0);
+  });
+
+  it("should refuse to delete the disk store in offline mode", () => {
+    createCache().set(STUDY_URL, "study", {}, context);
+    const offlineCache = createCache({ mode: "offline" });
+
+    expect(() => offlineCache.clear(context, { includeDisk: true })).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.CONFLICT }),
+    );
+    expect(readdirSync(directory)).toHaveLength(1);
+  });
+});
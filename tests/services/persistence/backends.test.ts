@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Contract tests run against every local storage backend. The
+ * SQLite backend is skipped on Node.js versions without `node:sqlite`.
+ * @module tests/services/persistence/backends.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  MemoryBackend,
+  SqliteBackend,
+  type PersistenceBackend,
+  type StudyAnnotation,
+} from "../../../src/services/persistence/index.js";
+import {
+  applySqliteMigrations,
+  openSqliteDatabase,
+} from "../../../src/services/persistence/sqlite/database.js";
+import { SQLITE_MIGRATIONS } from "../../../src/services/persistence/sqlite/migrations.js";
+import type { SavedSearch } from "../../../src/services/savedSearches/types.js";
+import { requestContextService } from "../../../src/utils/index.js";
+
+const hasNodeSqlite = await import("node:sqlite").then(
+  () => true,
+  () => false,
+);
+
+const context = requestContextService.createRequestContext({
+  operation: "test",
+});
+
+const search: SavedSearch = {
+  id: "search-1",
+  name: "Glioma",
+  params: {
+    query: { cond: "glioma" },
+    filter: { overallStatus: ["RECRUITING"] },
+  },
+  schedule: "0 * * * *",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  lastRunAt: "2026-01-01T00:00:00.000Z",
+  studyCount: 2,
+};
+
+const annotation = (
+  id: string,
+  overrides: Partial<StudyAnnotation> = {},
+): StudyAnnotation => ({
+  id,
+  nctId: "NCT00000001",
+  note: `Note ${id}`,
+  tags: [],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const backends: {
+  name: string;
+  skip: boolean;
+  create: () => Promise<PersistenceBackend>;
+}[] = [
+  { name: "memory", skip: false, create: async () => new MemoryBackend() },
+  {
+    name: "sqlite",
+    skip: !hasNodeSqlite,
+    create: () => SqliteBackend.open(":memory:"),
+  },
+];
+
+describe.each(backends)("$name backend", ({ skip, create }) => {
+  let backend: PersistenceBackend;
+
+  beforeEach(async () => {
+    if (skip) return;
+    backend = await create();
+    await backend.migrate(context);
+  });
+
+  afterEach(async () => {
+    await backend?.close();
+  });
+
+  it.skipIf(skip)("should be safe to migrate twice", async () => {
+    await expect(backend.migrate(context)).resolves.toBeUndefined();
+  });
+
+  it.skipIf(skip)(
+    "should upsert, list, and delete saved searches",
+    async () => {
+      await backend.savedSearches.upsert(search);
+      await backend.savedSearches.upsert({
+        ...search,
+        schedule: "0 8 * * *",
+        lastError: "Upstream unavailable",
+      });
+
+      expect(await backend.savedSearches.list()).toEqual([
+        { ...search, schedule: "0 8 * * *", lastError: "Upstream unavailable" },
+      ]);
+
+      await backend.savedSearches.delete(search.id);
+      expect(await backend.savedSearches.list()).toEqual([]);
+    },
+  );
+
+  it.skipIf(skip)(
+    "should store the owner and allow one name per owner",
+    async () => {
+      const owned = { ...search, id: "search-2", owner: "client-a" };
+      await backend.savedSearches.upsert(search);
+      await backend.savedSearches.upsert(owned);
+
+      expect(await backend.savedSearches.list()).toEqual([search, owned]);
+    },
+  );
+
+  it.skipIf(skip)(
+    "should keep snapshots across search updates and delete them with the search",
+    async () => {
+      const snapshot = {
+        takenAt: "2026-01-02T00:00:00.000Z",
+        studies: new Map([
+          ["NCT00000001", { title: "A", status: "RECRUITING" }],
+          ["NCT00000002", { title: "B", status: "COMPLETED" }],
+        ]),
+      };
+      await backend.savedSearches.upsert(search);
+      await backend.snapshots.save(search.id, snapshot);
+      await backend.savedSearches.upsert({ ...search, studyCount: 3 });
+
+      expect(await backend.snapshots.get(search.id)).toEqual(snapshot);
+
+      await backend.savedSearches.delete(search.id);
+      expect(await backend.snapshots.get(search.id)).toBeUndefined();
+    },
+  );
+
+  it.skipIf(skip)(
+    "should filter annotations and list the most recently updated first",
+    async () => {
+      await backend.annotations.upsert(
+        annotation("a", { tags: ["shortlist"], author: "alice" }),
+      );
+      await backend.annotations.upsert(
+        annotation("b", {
+          nctId: "NCT00000002",
+          tags: ["shortlist", "exclude"],
+          updatedAt: "2026-01-03T00:00:00.000Z",
+        }),
+      );
+      await backend.annotations.upsert(
+        annotation("c", {
+          author: "bob",
+          updatedAt: "2026-01-02T00:00:00.000Z",
+        }),
+      );
+
+      const ids = async (
+        filter?: Parameters<typeof backend.annotations.list>[0],
+      ) => (await backend.annotations.list(filter)).map((a) => a.id);
+
+      expect(await ids()).toEqual(["b", "c", "a"]);
+      expect(await ids({ nctId: "NCT00000001" })).toEqual(["c", "a"]);
+      expect(await ids({ tag: "shortlist" })).toEqual(["b", "a"]);
+      expect(await ids({ tag: "short" })).toEqual([]);
+      expect(await ids({ author: "alice" })).toEqual(["a"]);
+      expect(await backend.annotations.get("b")).toEqual(
+        annotation("b", {
+          nctId: "NCT00000002",
+          tags: ["shortlist", "exclude"],
+          updatedAt: "2026-01-03T00:00:00.000Z",
+        }),
+      );
+
+      expect(await backend.annotations.delete("a")).toBe(true);
+      expect(await backend.annotations.delete("a")).toBe(false);
+      expect(await backend.annotations.get("a")).toBeUndefined();
+    },
+  );
+
+  it.skipIf(skip)("should store and list analysis results", async () => {
+    const record = (id: string, analysisType: string, createdAt: string) => ({
+      id,
+      analysisType,
+      params: { analysisType, query: { cond: "asthma" } },
+      result: { analysis: [{ analysisType, results: { COMPLETED: 2 } }] },
+      createdAt,
+    });
+    await backend.analysisResults.insert(
+      record("r1", "countByStatus", "2026-01-01T00:00:00.000Z"),
+    );
+    await backend.analysisResults.insert(
+      record("r2", "countByPhase", "2026-01-02T00:00:00.000Z"),
+    );
+    await backend.analysisResults.insert(
+      record("r3", "countByStatus", "2026-01-03T00:00:00.000Z"),
+    );
+
+    expect((await backend.analysisResults.list()).map((r) => r.id)).toEqual([
+      "r3",
+      "r2",
+      "r1",
+    ]);
+    expect(
+      (
+        await backend.analysisResults.list({ analysisType: "countByStatus" })
+      ).map((r) => r.id),
+    ).toEqual(["r3", "r1"]);
+    expect(
+      (await backend.analysisResults.list({ limit: 1 })).map((r) => r.id),
+    ).toEqual(["r3"]);
+    expect(await backend.analysisResults.get("r2")).toEqual(
+      record("r2", "countByPhase", "2026-01-02T00:00:00.000Z"),
+    );
+    expect(await backend.analysisResults.delete("r2")).toBe(true);
+    expect(await backend.analysisResults.get("r2")).toBeUndefined();
+  });
+});
+
+describe.skipIf(!hasNodeSqlite)("SqliteBackend", () => {
+  it("should record applied migrations and keep data across reopening", async () => {
+    const { mkdtempSync, rmSync } = await import("fs");
+    const { tmpdir } = await import("os");
+    const path = await import("path");
+    const dir = mkdtempSync(path.join(tmpdir(), "persistence-"));
+    const file = path.join(dir, "test.sqlite");
+    try {
+      const first = await SqliteBackend.open(file);
+      await first.migrate(context);
+      await first.savedSearches.upsert(search);
+      await first.close();
+
+      const second = await SqliteBackend.open(file);
+      await second.migrate(context);
+      expect(await second.savedSearches.list()).toEqual([search]);
+      await second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should keep saved searches and snapshots when adding owners", async () => {
+    const db = await openSqliteDatabase(":memory:");
+    applySqliteMigrations(db, SQLITE_MIGRATIONS.slice(0, 1), context);
+    db.exec(
+      `INSERT INTO saved_searches (id, name, params, schedule, created_at)
+         VALUES ('search-1', 'Glioma', '{}', '0 * * * *', '2026-01-01T00:00:00.000Z');
+       INSERT INTO search_snapshots (search_id, taken_at, studies)
+         VALUES ('search-1', '2026-01-02T00:00:00.000Z', '{}');`,
+    );
+    const backend = new SqliteBackend(db);
+    try {
+      await backend.migrate(context);
+
+      expect(await backend.savedSearches.list()).toEqual([
+        {
+          id: "search-1",
+          name: "Glioma",
+          params: {},
+          schedule: "0 * * * *",
+          createdAt: "2026-01-01T00:00:00.000Z",
+        },
+      ]);
+      expect(await backend.snapshots.get("search-1")).toBeDefined();
+
+      await backend.savedSearches.upsert({
+        ...search,
+        id: "search-2",
+        owner: "client-a",
+      });
+      await expect(
+        backend.savedSearches.upsert({ ...search, id: "search-3" }),
+      ).rejects.toThrow(/UNIQUE/);
+
+      await backend.savedSearches.delete("search-1");
+      expect(await backend.snapshots.get("search-1")).toBeUndefined();
+    } finally {
+      await backend.close();
+    }
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * @fileoverview Tests for the SavedSearchService and snapshot change detection.
+ * @module tests/services/savedSearches/SavedSearchService.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../../../src/config/index.js";
+import {
+  ClinicalTrialsGovService,
+  PagedStudies,
+} from "../../../src/services/clinical-trials-gov/index.js";
+import {
+  closePersistence,
+  getPersistence,
+} from "../../../src/services/persistence/index.js";
+import { diffSnapshots } from "../../../src/services/savedSearches/changeDetection.js";
+import {
+  MAX_SNAPSHOT_STUDIES,
+  SavedSearchService,
+} from "../../../src/services/savedSearches/SavedSearchService.js";
+import { BaseErrorCode } from "../../../src/types-global/errors.js";
+import { requestContextService } from "../../../src/utils/index.js";
+import { schedulerService } from "../../../src/utils/scheduling/index.js";
+
+vi.mock("../../../src/services/clinical-trials-gov/index.js");
+vi.mock("../../../src/utils/scheduling/index.js", () => ({
+  schedulerService: {
+    schedule: vi.fn(),
+    start: vi.fn(),
+    remove: vi.fn(),
+  },
+}));
+
+const context = requestContextService.createRequestContext({
+  operation: "test",
+});
+
+const page = (
+  studies: [string, string][],
+  extra: Partial<PagedStudies> = {},
+): PagedStudies => ({
+  studies: studies.map(([nctId, overallStatus]) => ({
+    protocolSection: {
+      identificationModule: { nctId, briefTitle: `Study ${nctId}` },
+      statusModule: { overallStatus },
+    },
+  })),
+  ...extra,
+});
+
+describe("diffSnapshots", () => {
+  it("should list new, status-changed, and removed studies in that order", () => {
+    const previous = {
+      takenAt: "2026-01-01T00:00:00.000Z",
+      studies: new Map([
+        ["NCT00000002", { title: "B", status: "RECRUITING" }],
+        ["NCT00000003", { title: "C", status: "RECRUITING" }],
+        ["NCT00000004", { title: "D", status: "COMPLETED" }],
+      ]),
+    };
+    const current = {
+      takenAt: "2026-01-02T00:00:00.000Z",
+      studies: new Map([
+        ["NCT00000001", { title: "A", status: "NOT_YET_RECRUITING" }],
+        ["NCT00000002", { title: "B", status: "RECRUITING" }],
+        ["NCT00000003", { title: "C", status: "TERMINATED" }],
+      ]),
+    };
+
+    expect(diffSnapshots(previous, current)).toEqual([
+      {
+        type: "new",
+        nctId: "NCT00000001",
+        title: "A",
+        status: "NOT_YET_RECRUITING",
+      },
+      {
+        type: "statusChanged",
+        nctId: "NCT00000003",
+        title: "C",
+        previousStatus: "RECRUITING",
+        status: "TERMINATED",
+      },
+      {
+        type: "removed",
+        nctId: "NCT00000004",
+        title: "D",
+        previousStatus: "COMPLETED",
+      },
+    ]);
+  });
+});
+
+describe("SavedSearchService", () => {
+  let service: SavedSearchService;
+  let listStudies: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await closePersistence();
+    (
+      SavedSearchService as unknown as { instance?: SavedSearchService }
+    ).instance = undefined;
+    service = SavedSearchService.getInstance();
+
+    listStudies = vi.fn();
+    vi.spyOn(ClinicalTrialsGovService, "getInstance").mockReturnValue({
+      listStudies,
+    } as unknown as ClinicalTrialsGovService);
+  });
+
+  it("should take a baseline snapshot and schedule the re-runs", async () => {
+    listStudies.mockResolvedValueOnce(
+      page([["NCT00000001", "RECRUITING"]], { totalCount: 1 }),
+    );
+
+    const search = await service.save(
+      "Glioma",
+      { query: { cond: "glioma" } },
+      "0 * * * *",
+      context,
+    );
+
+    expect(search).toMatchObject({
+      name: "Glioma",
+      schedule: "0 * * * *",
+      studyCount: 1,
+    });
+    expect(listStudies).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: { cond: "glioma" },
+        countTotal: true,
+        pageSize: 1000,
+      }),
+      context,
+      { noCache: true },
+    );
+    expect(schedulerService.schedule).toHaveBeenCalledWith(
+      `saved-search:${search.id}`,
+      "0 * * * *",
+      expect.any(Function),
+      expect.any(String),
+    );
+    expect(schedulerService.start).toHaveBeenCalledWith(
+      `saved-search:${search.id}`,
+    );
+    expect(service.get("Glioma")?.id).toBe(search.id);
+  });
+
+  it("should follow page tokens when taking a snapshot", async () => {
+    listStudies
+      .mockResolvedValueOnce(
+        page([["NCT00000001", "RECRUITING"]], {
+          totalCount: 2,
+          nextPageToken: "next",
+        }),
+      )
+      .mockResolvedValueOnce(page([["NCT00000002", "RECRUITING"]]));
+
+    const search = await service.save("Two pages", {}, "0 * * * *", context);
+
+    expect(search.studyCount).toBe(2);
+    expect(listStudies).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pageToken: "next", countTotal: false }),
+      context,
+      { noCache: true },
+    );
+  });
+
+  it("should reject invalid schedules and overly broad searches", async () => {
+    for (const schedule of ["not a cron", "* * * * * *", "*/5 * * * *"]) {
+      await expect(
+        service.save("Bad", {}, schedule, context),
+      ).rejects.toMatchObject({ code: BaseErrorCode.INVALID_INPUT });
+    }
+
+    listStudies.mockResolvedValueOnce(
+      page([], { totalCount: MAX_SNAPSHOT_STUDIES + 1 }),
+    );
+    await expect(
+      service.save("Broad", {}, "0 * * * *", context),
+    ).rejects.toMatchObject({ code: BaseErrorCode.INVALID_INPUT });
+
+    expect(schedulerService.schedule).not.toHaveBeenCalled();
+    expect(service.list()).toEqual([]);
+  });
+
+  it("should record changes and notify listeners when re-run", async () => {
+    listStudies.mockResolvedValueOnce(
+      page([
+        ["NCT00000001", "RECRUITING"],
+        ["NCT00000002", "RECRUITING"],
+      ]),
+    );
+    const search = await service.save("Watch", {}, "0 * * * *", context);
+    const listener = vi.fn();
+    service.onChange(listener);
+
+    listStudies.mockResolvedValueOnce(
+      page([
+        ["NCT00000001", "COMPLETED"],
+        ["NCT00000003", "RECRUITING"],
+      ]),
+    );
+    const events = await service.run(search.id, context);
+
+    expect(events.map((e) => [e.type, e.nctId])).toEqual([
+      ["new", "NCT00000003"],
+      ["statusChanged", "NCT00000001"],
+      ["removed", "NCT00000002"],
+    ]);
+    expect(events[0]).toMatchObject({
+      searchId: search.id,
+      searchName: "Watch",
+    });
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ id: search.id }),
+      events,
+    );
+    expect(service.getChanges({ searchId: search.id })).toEqual(events);
+    expect(service.getChanges({ since: events[0].detectedAt })).toEqual([]);
+    expect(service.getChanges({ limit: 1 })).toHaveLength(1);
+
+    listStudies.mockResolvedValueOnce(
+      page([
+        ["NCT00000001", "COMPLETED"],
+        ["NCT00000003", "RECRUITING"],
+      ]),
+    );
+    expect(await service.run(search.id, context)).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep the previous snapshot and record the error when a run fails", async () => {
+    listStudies.mockResolvedValueOnce(page([["NCT00000001", "RECRUITING"]]));
+    const search = await service.save("Flaky", {}, "0 * * * *", context);
+
+    listStudies.mockRejectedValueOnce(new Error("Service unavailable"));
+    await expect(service.run(search.id, context)).rejects.toThrow(
+      "Service unavailable",
+    );
+    expect(service.get(search.id)?.lastError).toBe("Service unavailable");
+
+    listStudies.mockResolvedValueOnce(page([["NCT00000002", "RECRUITING"]]));
+    const events = await service.run(search.id, context);
+    expect(events.map((e) => e.type)).toEqual(["new", "removed"]);
+    expect(service.get(search.id)?.lastError).toBeUndefined();
+  });
+
+  it("should keep the ID when a search is replaced, and clean up on delete", async () => {
+    listStudies.mockResolvedValue(page([]));
+    const first = await service.save("Same", {}, "0 * * * *", context);
+    const second = await service.save("Same", {}, "0 8 * * *", context);
+
+    expect(second.id).toBe(first.id);
+    expect(second.schedule).toBe("0 8 * * *");
+    expect(schedulerService.remove).toHaveBeenCalledWith(
+      `saved-search:${first.id}`,
+    );
+    expect(service.list()).toHaveLength(1);
+
+    expect(await service.delete(first.id, context)).toBe(true);
+    expect(await service.delete(first.id, context)).toBe(false);
+    expect(service.list()).toEqual([]);
+    expect(await getPersistence().savedSearches.list()).toEqual([]);
+    await expect(service.run(first.id, context)).rejects.toMatchObject({
+      code: BaseErrorCode.NOT_FOUND,
+    });
+  });
+
+  it("should limit the number of saved searches per owner", async () => {
+    const { maxPerOwner } = config.savedSearches;
+    config.savedSearches.maxPerOwner = 2;
+    try {
+      listStudies.mockResolvedValue(page([["NCT00000001", "RECRUITING"]]));
+      await service.save("One", {}, "0 * * * *", context, "client-a");
+      await service.save("Two", {}, "0 * * * *", context, "client-a");
+
+      await expect(
+        service.save("Three", {}, "0 * * * *", context, "client-a"),
+      ).rejects.toMatchObject({ code: BaseErrorCode.CONFLICT });
+      // Replacing a search and other owners' searches are not limited.
+      await service.save("Two", {}, "0 8 * * *", context, "client-a");
+      await service.save("Three", {}, "0 * * * *", context, "client-b");
+      expect(service.list("client-a")).toHaveLength(2);
+    } finally {
+      config.savedSearches.maxPerOwner = maxPerOwner;
+    }
+  });
+
+  it("should scope searches, their names, and their changes to their owner", async () => {
+    listStudies.mockResolvedValue(page([["NCT00000001", "RECRUITING"]]));
+    const mine = await service.save(
+      "Glioma",
+      {},
+      "0 * * * *",
+      context,
+      "client-a",
+    );
+    const theirs = await service.save(
+      "Glioma",
+      {},
+      "0 * * * *",
+      context,
+      "client-b",
+    );
+    const anonymous = await service.save("Glioma", {}, "0 * * * *", context);
+
+    expect(new Set([mine.id, theirs.id, anonymous.id]).size).toBe(3);
+    expect(mine.owner).toBe("client-a");
+    expect(service.list("client-a")).toEqual([mine]);
+    expect(service.list()).toEqual([anonymous]);
+    expect(service.get("Glioma", "client-a")?.id).toBe(mine.id);
+    expect(service.get(theirs.id, "client-a")).toBeUndefined();
+    expect(service.get(mine.id)).toBeUndefined();
+
+    listStudies.mockResolvedValue(page([["NCT00000002", "RECRUITING"]]));
+    await service.run(theirs.id, context);
+    expect(service.getChanges({ owner: "client-a" })).toEqual([]);
+    expect(
+      service.getChanges({ owner: "client-a", searchId: theirs.id }),
+    ).toEqual([]);
+    expect(service.getChanges({ owner: "client-b" })).toHaveLength(2);
+
+    expect(await service.delete(theirs.id, context, "client-a")).toBe(false);
+    expect(await service.delete(theirs.id, context)).toBe(false);
+    expect(await service.delete(theirs.id, context, "client-b")).toBe(true);
+    expect(
+      (await getPersistence().savedSearches.list()).map((s) => s.owner),
+    ).toEqual(["client-a", undefined]);
+  });
+
+  it("should persist searches and snapshots and restore them on restart", async () => {
+    listStudies.mockResolvedValueOnce(
+      page([["NCT00000001", "RECRUITING"]], { totalCount: 1 }),
+    );
+    const search = await service.save("Persisted", {}, "0 * * * *", context);
+
+    const persistence = getPersistence();
+    expect(await persistence.savedSearches.list()).toEqual([search]);
+    expect(
+      (await persistence.snapshots.get(search.id))?.studies.has("NCT00000001"),
+    ).toBe(true);
+
+    (
+      SavedSearchService as unknown as { instance?: SavedSearchService }
+    ).instance = undefined;
+    const restarted = SavedSearchService.getInstance();
+    vi.mocked(schedulerService.schedule).mockClear();
+
+    expect(await restarted.restore(context)).toBe(1);
+    expect(restarted.get("Persisted")).toEqual(search);
+    expect(schedulerService.schedule).toHaveBeenCalledWith(
+      `saved-search:${search.id}`,
+      "0 * * * *",
+      expect.any(Function),
+      expect.any(String),
+    );
+
+    listStudies.mockResolvedValueOnce(
+      page([["NCT00000002", "RECRUITING"]], { totalCount: 1 }),
+    );
+    const events = await restarted.run(search.id, context);
+    expect(events.map((e) => [e.type, e.nctId])).toEqual([
+      ["new", "NCT00000002"],
+      ["removed", "NCT00000001"],
+    ]);
+    expect((await persistence.savedSearches.list())[0]?.lastRunAt).toBe(
+      events[0]?.detectedAt,
+    );
+  });
+});
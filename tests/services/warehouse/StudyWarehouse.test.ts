@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Tests for the local study warehouse. The warehouse tests are
+ * skipped on Node.js versions without `node:sqlite`.
+ * @module tests/services/warehouse/StudyWarehouse.test
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Study } from "../../../src/services/clinical-trials-gov/types.js";
+import {
+  normalizeStudy,
+  StudyWarehouse,
+} from "../../../src/services/warehouse/index.js";
+import {
+  projectFields,
+  toFtsQuery,
+} from "../../../src/services/warehouse/query.js";
+import { BaseErrorCode } from "../../../src/types-global/errors.js";
+import { requestContextService } from "../../../src/utils/index.js";
+
+const hasNodeSqlite = await import("node:sqlite").then(
+  () => true,
+  () => false,
+);
+
+const context = requestContextService.createRequestContext({
+  operation: "test",
+});
+
+const makeStudy = (
+  nctId: string,
+  overrides: {
+    title?: string;
+    status?: string;
+    condition?: string;
+    intervention?: string;
+    startDate?: string;
+    city?: string;
+    lat?: number;
+    lon?: number;
+  } = {},
+): Study => ({
+  protocolSection: {
+    identificationModule: {
+      nctId,
+      briefTitle: overrides.title ?? `Study ${nctId}`,
+    },
+    statusModule: {
+      overallStatus: overrides.status ?? "RECRUITING",
+      startDateStruct: { date: overrides.startDate ?? "2020-01" },
+    },
+    sponsorCollaboratorsModule: {
+      leadSponsor: { name: "Acme Pharma", class: "INDUSTRY" },
+      collaborators: [{ name: "City Hospital", class: "OTHER" }],
+    },
+    conditionsModule: { conditions: [overrides.condition ?? "Asthma"] },
+    armsInterventionsModule: {
+      interventions: [
+        { type: "DRUG", name: overrides.intervention ?? "Placebo" },
+      ],
+    },
+    outcomesModule: {
+      primaryOutcomes: [{ measure: "Survival", timeFrame: "1 year" }],
+    },
+    designModule: { phases: ["PHASE2"], enrollmentInfo: { count: 100 } },
+    contactsLocationsModule: {
+      locations: [
+        {
+          facility: "General Hospital",
+          city: overrides.city ?? "Boston",
+          country: "United States",
+          geoPoint: {
+            lat: overrides.lat ?? 42.36,
+            lon: overrides.lon ?? -71.06,
+          },
+        },
+      ],
+    },
+  },
+});
+
+const nctIds = (page: { studies: Study[] }) =>
+  page.studies.map((s) => s.protocolSection?.identificationModule?.nctId);
+
+describe("normalizeStudy", () => {
+  it("should flatten a study into table rows and index text", () => {
+    const normalized = normalizeStudy(makeStudy("nct00000001"));
+    expect(normalized?.study).toMatchObject({
+      nctId: "NCT00000001",
+      overallStatus: "RECRUITING",
+      phases: ["PHASE2"],
+      leadSponsor: "Acme Pharma",
+      enrollment: 100,
+      hasResults: false,
+    });
+    expect(normalized?.sponsors).toEqual([
+      { name: "Acme Pharma", class: "INDUSTRY", role: "lead" },
+      { name: "City Hospital", class: "OTHER", role: "collaborator" },
+    ]);
+    expect(normalized?.locations[0]).toMatchObject({
+      city: "Boston",
+      latitude: 42.36,
+    });
+    expect(normalized?.fts.locations).toBe(
+      "General Hospital, Boston, United States",
+    );
+  });
+
+  it("should return undefined for a record without an NCT ID", () => {
+    expect(normalizeStudy({ protocolSection: {} })).toBeUndefined();
+  });
+});
+
+describe("toFtsQuery", () => {
+  it("should quote terms and keep operators and parentheses", () => {
+    expect(toFtsQuery('(lung OR "small cell") AND cancer NOT covid-19')).toBe(
+      '( "lung" OR "small cell" ) AND "cancer" NOT "covid-19"',
+    );
+  });
+
+  it("should reject Essie operators and a leading NOT", () => {
+    expect(() => toFtsQuery("AREA[Phase]PHASE3")).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.INVALID_INPUT }),
+    );
+    expect(() => toFtsQuery("NOT cancer")).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.INVALID_INPUT }),
+    );
+    expect(() => toFtsQuery("(cancer")).toThrow(
+      expect.objectContaining({ code: BaseErrorCode.INVALID_INPUT }),
+    );
+  });
+});
+
+describe("projectFields", () => {
+  it("should keep the requested paths, mapping over arrays", () => {
+    const study = makeStudy("NCT00000001") as Record<string, unknown>;
+    expect(
+      projectFields(study, [
+        "protocolSection.identificationModule.nctId",
+        "protocolSection.contactsLocationsModule.locations.city",
+        "protocolSection.contactsLocationsModule.locations.country",
+      ]),
+    ).toEqual({
+      protocolSection: {
+        identificationModule: { nctId: "NCT00000001" },
+        contactsLocationsModule: {
+          locations: [{ city: "Boston", country: "United States" }],
+        },
+      },
+    });
+  });
+});
+
+describe.skipIf(!hasNodeSqlite)("StudyWarehouse", () => {
+  let warehouse: StudyWarehouse;
+
+  beforeEach(async () => {
+    warehouse = await StudyWarehouse.open(":memory:");
+    await warehouse.migrate(context);
+  });
+
+  afterEach(async () => {
+    await warehouse.close();
+  });
+
+  const ingestFixtures = () =>
+    warehouse.ingestStudies(
+      [
+        makeStudy("NCT00000001", {
+          title: "Inhaled steroids for asthma",
+          startDate: "2019-05",
+        }),
+        makeStudy("NCT00000002", {
+          condition: "Lung Cancer",
+          intervention: "Pembrolizumab",
+          status: "COMPLETED",
+          startDate: "2021-02-01",
+          city: "Paris",
+          lat: 48.85,
+          lon: 2.35,
+        }),
+        makeStudy("NCT00000003", {
+          condition: "Breast Cancer",
+          startDate: "2022",
+        }),
+      ],
+      "fixtures",
+      context,
+    );
+
+  it("should report that an empty warehouse needs ingesting", async () => {
+    await expect(warehouse.listStudies({}, context)).rejects.toMatchObject({
+      code: BaseErrorCode.SERVICE_NOT_INITIALIZED,
+    });
+  });
+
+  it("should ingest studies into every table and replace re-ingested ones", async () => {
+    const result = await ingestFixtures();
+    expect(result).toMatchObject({ ingested: 3, skipped: 0 });
+    await warehouse.ingestStudies(
+      [makeStudy("NCT00000001"), { protocolSection: {} }],
+      "update",
+      context,
+    );
+
+    expect(await warehouse.getStats()).toMatchObject({
+      studies: 3,
+      conditions: 3,
+      interventions: 3,
+      locations: 3,
+      sponsors: 6,
+      outcomes: 3,
+    });
+    const page = await warehouse.listStudies(
+      { query: { titles: "steroids" } },
+      context,
+    );
+    expect(page.studies).toEqual([]);
+  });
+
+  it("should search query areas with full-text search", async () => {
+    await ingestFixtures();
+    const cancer = await warehouse.listStudies(
+      { query: { cond: "cancer" }, countTotal: true },
+      context,
+    );
+    expect(nctIds(cancer).sort()).toEqual(["NCT00000002", "NCT00000003"]);
+    expect(cancer.totalCount).toBe(2);
+
+    const combined = await warehouse.listStudies(
+      { query: { cond: "cancer", intr: "pembrolizumab" } },
+      context,
+    );
+    expect(nctIds(combined)).toEqual(["NCT00000002"]);
+
+    // Porter stemming matches "steroid" to "steroids".
+    const stemmed = await warehouse.listStudies(
+      { query: { term: "steroid" } },
+      context,
+    );
+    expect(nctIds(stemmed)).toEqual(["NCT00000001"]);
+  });
+
+  it("should apply status, ID, and geo filters", async () => {
+    await ingestFixtures();
+    const completed = await warehouse.listStudies(
+      { filter: { overallStatus: ["COMPLETED"] } },
+      context,
+    );
+    expect(nctIds(completed)).toEqual(["NCT00000002"]);
+
+    const byId = await warehouse.listStudies(
+      { filter: { ids: "nct00000003" } },
+      context,
+    );
+    expect(nctIds(byId)).toEqual(["NCT00000003"]);
+
+    const nearParis = await warehouse.listStudies(
+      { filter: { geo: "distance(48.86,2.34,20km)" } },
+      context,
+    );
+    expect(nctIds(nearParis)).toEqual(["NCT00000002"]);
+  });
+
+  it("should sort, page, and project fields", async () => {
+    await ingestFixtures();
+    const params = {
+      sort: ["StartDate:desc"],
+      pageSize: 2,
+      fields: ["NCTId"],
+    };
+    const first = await warehouse.listStudies(params, context);
+    expect(nctIds(first)).toEqual(["NCT00000003", "NCT00000002"]);
+    expect(first.studies[0]).toEqual({
+      protocolSection: { identificationModule: { nctId: "NCT00000003" } },
+    });
+    expect(first.nextPageToken).toBeDefined();
+
+    const second = await warehouse.listStudies(
+      { ...params, pageToken: first.nextPageToken },
+      context,
+    );
+    expect(nctIds(second)).toEqual(["NCT00000001"]);
+    expect(second.nextPageToken).toBeUndefined();
+  });
+
+  it("should reject parameters only the live API supports", async () => {
+    await ingestFixtures();
+    await expect(
+      warehouse.listStudies(
+        { filter: { advanced: "AREA[Phase]PHASE3" } },
+        context,
+      ),
+    ).rejects.toMatchObject({ code: BaseErrorCode.INVALID_INPUT });
+    await expect(
+      warehouse.listStudies({ query: { cond: "cancer AND" } }, context),
+    ).rejects.toMatchObject({ code: BaseErrorCode.INVALID_INPUT });
+  });
+
+  it("should ingest bulk exports from JSON, JSON Lines, and directories", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "warehouse-"));
+    try {
+      writeFileSync(
+        path.join(dir, "page.json"),
+        JSON.stringify({ studies: [makeStudy("NCT00000001")] }),
+      );
+      writeFileSync(
+        path.join(dir, "NCT00000002.json"),
+        JSON.stringify(makeStudy("NCT00000002")),
+      );
+      const lines = path.join(dir, "studies.jsonl");
+      writeFileSync(
+        lines,
+        [makeStudy("NCT00000003"), makeStudy("NCT00000004")]
+          .map((study) => JSON.stringify(study))
+          .join("\n"),
+      );
+
+      expect(await warehouse.ingestFromFile(dir, context)).toMatchObject({
+        ingested: 2,
+      });
+      expect(
+        await warehouse.ingestFromFile(lines, context, { maxStudies: 1 }),
+      ).toMatchObject({ ingested: 1 });
+      expect((await warehouse.getStats()).studies).toBe(3);
+
+      await expect(
+        warehouse.ingestFromFile(path.join(dir, "missing.json"), context),
+      ).rejects.toMatchObject({ code: BaseErrorCode.NOT_FOUND });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,472 @@
+/**
+ * @fileoverview Tests for webhook signing and the WebhookService, delivering
+ * to a local mock receiver.
+ * @module tests/services/webhooks/WebhookService.test
+ */
+
+import { lookup } from "dns/promises";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { config } from "../../../src/config/index.js";
+import {
+  SavedSearch,
+  SavedSearchService,
+  StudyChangeEvent,
+  StudyChangeListener,
+} from "../../../src/services/savedSearches/index.js";
+import {
+  DEAD_LETTER_LOG_FILE,
+  isPublicAddress,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookPayload,
+  WebhookService,
+} from "../../../src/services/webhooks/index.js";
+import { BaseErrorCode } from "../../../src/types-global/errors.js";
+import { requestContextService } from "../../../src/utils/index.js";
+
+vi.mock("dns/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("dns/promises")>();
+  return { ...actual, lookup: vi.fn(actual.lookup) };
+});
+
+const context = requestContextService.createRequestContext({
+  operation: "test",
+});
+
+const search: SavedSearch = {
+  id: "search-1",
+  name: "Glioma",
+  params: {},
+  schedule: "0 * * * *",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const change = (
+  type: StudyChangeEvent["type"],
+  nctId: string,
+): StudyChangeEvent => ({
+  id: `change-${nctId}`,
+  searchId: search.id,
+  searchName: search.name,
+  detectedAt: "2026-01-02T00:00:00.000Z",
+  type,
+  nctId,
+});
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe("webhook signing", () => {
+  it("should verify its own signatures and reject tampering and replays", () => {
+    const now = Date.UTC(2026, 0, 1);
+    const timestamp = Math.floor(now / 1000);
+    const body = '{"hello":"world"}';
+    const signature = signWebhookPayload("secret", timestamp, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(
+      verifyWebhookSignature("secret", timestamp, body, signature, 300, now),
+    ).toBe(true);
+    expect(
+      verifyWebhookSignature("other", timestamp, body, signature, 300, now),
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature("secret", timestamp, "{}", signature, 300, now),
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature(
+        "secret",
+        timestamp,
+        body,
+        signature,
+        300,
+        now + 301_000,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("WebhookService", () => {
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let statuses: number[];
+  let logsDir: string;
+  let service: WebhookService;
+  const originalPolicy = { ...config.webhooks };
+  const originalLogsPath = config.logsPath;
+
+  beforeAll(async () => {
+    receiver = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 200;
+        if (res.statusCode >= 300 && res.statusCode < 400) {
+          res.setHeader("Location", "/elsewhere");
+        }
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      receiver.listen(0, "127.0.0.1", resolve),
+    );
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+    logsDir = mkdtempSync(path.join(os.tmpdir(), "webhooks-"));
+    Object.assign(config.webhooks, {
+      maxAttempts: 3,
+      baseDelayMs: 1,
+      maxDelayMs: 5,
+      timeoutMs: 2000,
+      allowedHosts: ["127.0.0.1"],
+    });
+    config.logsPath = logsDir;
+    (WebhookService as unknown as { instance?: WebhookService }).instance =
+      undefined;
+    service = WebhookService.getInstance();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    Object.assign(config.webhooks, originalPolicy);
+    config.logsPath = originalLogsPath;
+    rmSync(logsDir, { recursive: true, force: true });
+  });
+
+  it("should POST signed payloads that the receiver can verify", async () => {
+    const { webhook, secret } = await service.create(
+      { url: receiverUrl },
+      context,
+    );
+    expect(secret).toMatch(/^whsec_/);
+    expect(service.list()).toEqual([webhook]);
+    expect(webhook).not.toHaveProperty("secret");
+
+    const results = await service.dispatch(
+      search,
+      [change("new", "NCT00000001")],
+      context,
+    );
+
+    expect(results).toEqual([
+      expect.objectContaining({ delivered: true, attempts: 1, status: 200 }),
+    ]);
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    const payload = JSON.parse(body) as WebhookPayload;
+    expect(payload).toMatchObject({
+      id: results[0].deliveryId,
+      type: "saved_search.changes",
+      search: { id: "search-1", name: "Glioma" },
+      changes: [{ type: "new", nctId: "NCT00000001" }],
+    });
+    expect(headers["content-type"]).toBe("application/json");
+    expect(headers["x-webhook-id"]).toBe(payload.id);
+    expect(
+      verifyWebhookSignature(
+        secret,
+        String(headers["x-webhook-timestamp"]),
+        body,
+        String(headers["x-webhook-signature"]),
+      ),
+    ).toBe(true);
+  });
+
+  it("should only deliver matching change types and saved searches", async () => {
+    await service.create(
+      { url: receiverUrl, secret: "a-long-enough-secret", events: ["removed"] },
+      context,
+    );
+    await service.create(
+      { url: receiverUrl, searchIds: ["search-2"] },
+      context,
+    );
+
+    expect(
+      await service.dispatch(search, [change("new", "NCT00000001")], context),
+    ).toEqual([]);
+
+    await service.dispatch(
+      search,
+      [change("new", "NCT00000001"), change("removed", "NCT00000002")],
+      context,
+    );
+    expect(received).toHaveLength(1);
+    expect(
+      (JSON.parse(received[0].body) as WebhookPayload).changes.map(
+        (c) => c.nctId,
+      ),
+    ).toEqual(["NCT00000002"]);
+  });
+
+  it("should retry transient failures with the same delivery ID", async () => {
+    statuses = [503, 500];
+    await service.create({ url: receiverUrl }, context);
+
+    const [result] = await service.dispatch(
+      search,
+      [change("new", "NCT00000001")],
+      context,
+    );
+
+    expect(result).toMatchObject({ delivered: true, attempts: 3 });
+    expect(new Set(received.map((r) => r.headers["x-webhook-id"])).size).toBe(
+      1,
+    );
+    expect(service.getDeadLetters()).toEqual([]);
+  });
+
+  it("should dead-letter deliveries that exhaust their attempts or are rejected", async () => {
+    statuses = [503, 503, 503, 400];
+    const { webhook } = await service.create({ url: receiverUrl }, context);
+
+    const [exhausted] = await service.dispatch(
+      search,
+      [change("new", "NCT00000001")],
+      context,
+    );
+    expect(exhausted).toMatchObject({
+      delivered: false,
+      attempts: 3,
+      status: 503,
+    });
+
+    const [rejected] = await service.dispatch(
+      search,
+      [change("new", "NCT00000002")],
+      context,
+    );
+    expect(rejected).toMatchObject({
+      delivered: false,
+      attempts: 1,
+      status: 400,
+    });
+
+    const letters = service.getDeadLetters(undefined, webhook.id);
+    expect(letters.map((l) => l.deliveryId)).toEqual([
+      rejected.deliveryId,
+      exhausted.deliveryId,
+    ]);
+    const logged = readFileSync(
+      path.join(logsDir, DEAD_LETTER_LOG_FILE),
+      "utf8",
+    )
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(logged.map((l) => l.deliveryId)).toEqual([
+      exhausted.deliveryId,
+      rejected.deliveryId,
+    ]);
+  });
+
+  it("should dead-letter deliveries to an unreachable receiver", async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve),
+    );
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+    await service.create({ url: `http://127.0.0.1:${port}/hook` }, context);
+
+    const [result] = await service.dispatch(
+      search,
+      [change("new", "NCT00000001")],
+      context,
+    );
+
+    expect(result).toMatchObject({ delivered: false, attempts: 3 });
+    expect(result.status).toBeUndefined();
+    expect(service.getDeadLetters()).toHaveLength(1);
+  });
+
+  it("should reject non-http URLs and delete webhooks", async () => {
+    await expect(
+      service.create({ url: "ftp://example.com" }, context),
+    ).rejects.toMatchObject({ code: BaseErrorCode.INVALID_INPUT });
+    const { webhook } = await service.create({ url: receiverUrl }, context);
+    expect(service.delete(webhook.id, context)).toBe(true);
+    expect(service.delete(webhook.id, context)).toBe(false);
+    expect(service.list()).toEqual([]);
+  });
+
+  it("should reject hosts that are not allowed or resolve to non-public addresses", async () => {
+    config.webhooks.allowedHosts = undefined;
+    for (const url of [
+      "http://127.0.0.1/hook",
+      "http://localhost:8080/hook",
+      "http://[::1]/hook",
+      "http://[::ffff:127.0.0.1]/hook",
+      "http://169.254.169.254/latest/meta-data",
+      "http://10.0.0.1/hook",
+      "http://192.168.1.1/hook",
+      "http://[fd00::1]/hook",
+      "http://[64:ff9b::7f00:1]/hook",
+      "http://[2002:a9fe:a9fe::1]/hook",
+    ]) {
+      await expect(service.create({ url }, context)).rejects.toMatchObject({
+        code: BaseErrorCode.INVALID_INPUT,
+      });
+    }
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:2800:220:1::")).toBe(true);
+    expect(isPublicAddress("172.16.0.1")).toBe(false);
+    // NAT64 and 6to4 addresses embedding 10.0.0.1 and 192.168.1.1.
+    expect(isPublicAddress("64:ff9b::a00:1")).toBe(false);
+    expect(isPublicAddress("64:ff9b:1::a00:1")).toBe(false);
+    expect(isPublicAddress("2002:c0a8:101::1")).toBe(false);
+
+    config.webhooks.allowedHosts = ["hooks.example.com"];
+    await expect(
+      service.create({ url: "https://93.184.216.34/hook" }, context),
+    ).rejects.toMatchObject({ code: BaseErrorCode.INVALID_INPUT });
+    expect(service.list()).toEqual([]);
+  });
+
+  it("should not follow redirects or deliver to hosts no longer allowed", async () => {
+    statuses = [302];
+    await service.create({ url: receiverUrl }, context);
+
+    const [redirected] = await service.dispatch(
+      search,
+      [change("new", "NCT00000001")],
+      context,
+    );
+    expect(redirected).toMatchObject({
+      delivered: false,
+      attempts: 1,
+      status: 302,
+    });
+    expect(received.map((r) => r.headers["x-webhook-id"])).toEqual([
+      redirected.deliveryId,
+    ]);
+
+    config.webhooks.allowedHosts = undefined;
+    const [blocked] = await service.dispatch(
+      search,
+      [change("new", "NCT00000002")],
+      context,
+    );
+    expect(blocked).toMatchObject({ delivered: false, attempts: 1 });
+    expect(blocked.error).toMatch(/non-public address/);
+    expect(received).toHaveLength(1);
+  });
+
+  it("should only connect to the addresses it checked", async () => {
+    const port = (receiver.address() as AddressInfo).port;
+    config.webhooks.allowedHosts = undefined;
+    // A rebinding host resolves to a public address when the webhook is
+    // created, and to a loopback address when a delivery connects.
+    vi.mocked(lookup)
+      .mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }] as never)
+      .mockResolvedValueOnce([{ address: "127.0.0.1", family: 4 }] as never);
+    await service.create(
+      { url: `http://rebind.example:${port}/hook` },
+      context,
+    );
+
+    const [blocked] = await service.dispatch(
+      search,
+      [change("new", "NCT00000001")],
+      context,
+    );
+    expect(blocked).toMatchObject({ delivered: false, attempts: 1 });
+    expect(blocked.error).toMatch(/non-public address 127\.0\.0\.1/);
+    expect(received).toEqual([]);
+
+    // An allowed host connects to the address its lookup returned.
+    config.webhooks.allowedHosts = ["hooks.internal"];
+    vi.mocked(lookup).mockResolvedValueOnce([
+      { address: "127.0.0.1", family: 4 },
+    ] as never);
+    const { webhook } = await service.create(
+      { url: `http://hooks.internal:${port}/hook` },
+      context,
+    );
+    const results = await service.dispatch(
+      search,
+      [change("new", "NCT00000002")],
+      context,
+    );
+    expect(results.find((r) => r.webhookId === webhook.id)).toMatchObject({
+      delivered: true,
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  it("should scope webhooks, their deliveries, and dead letters to their owner", async () => {
+    statuses = [400];
+    const { webhook } = await service.create(
+      { url: receiverUrl },
+      context,
+      "alice",
+    );
+
+    expect(webhook.owner).toBe("alice");
+    expect(service.list()).toEqual([]);
+    expect(service.list("bob")).toEqual([]);
+    expect(service.list("alice")).toEqual([webhook]);
+
+    expect(
+      await service.dispatch(search, [change("new", "NCT00000001")], context),
+    ).toEqual([]);
+    await service.dispatch(
+      { ...search, owner: "alice" },
+      [change("new", "NCT00000001")],
+      context,
+    );
+    expect(received).toHaveLength(1);
+    expect(service.getDeadLetters()).toEqual([]);
+    expect(service.getDeadLetters("alice")).toHaveLength(1);
+
+    expect(service.delete(webhook.id, context)).toBe(false);
+    expect(service.delete(webhook.id, context, "bob")).toBe(false);
+    expect(service.delete(webhook.id, context, "alice")).toBe(true);
+  });
+
+  it("should deliver the changes reported by saved searches", async () => {
+    let listener: StudyChangeListener | undefined;
+    vi.spyOn(SavedSearchService, "getInstance").mockReturnValue({
+      onChange: vi.fn((l: StudyChangeListener) => {
+        listener = l;
+        return () => undefined;
+      }),
+    } as unknown as SavedSearchService);
+    (WebhookService as unknown as { instance?: WebhookService }).instance =
+      undefined;
+    service = WebhookService.getInstance();
+    await service.create({ url: receiverUrl }, context);
+
+    const delivered = vi.spyOn(service, "dispatch");
+    await listener!(search, [change("statusChanged", "NCT00000001")]);
+    await delivered.mock.results[0].value;
+
+    expect(received).toHaveLength(1);
+  });
+});
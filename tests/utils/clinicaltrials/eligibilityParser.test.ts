@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Tests for the eligibility criteria parser.
+ * @module tests/utils/clinicaltrials/eligibilityParser.test
+ */
+import { describe, expect, it } from "vitest";
+import {
+  extractConstraints,
+  parseEligibilityCriteria,
+} from "../../../src/utils/clinicaltrials/eligibilityParser";
+
+describe("parseEligibilityCriteria", () => {
+  it("should split sections and normalize bullets, numbering, and nesting", () => {
+    const text = [
+      "Inclusion Criteria:",
+      "",
+      "* Histologically confirmed adenocarcinoma",
+      "* Measurable disease per RECIST 1.1, defined as:",
+      "  * at least one lesion \\>= 10 mm",
+      "  * or a lymph node \\>= 15 mm",
+      "",
+      "Exclusion Criteria:",
+      "",
+      "1. Prior treatment with a PD-1 inhibitor",
+      "2) Active infection requiring",
+      "   systemic therapy",
+    ].join("\n");
+
+    expect(parseEligibilityCriteria(text)).toEqual({
+      inclusion: [
+        { text: "Histologically confirmed adenocarcinoma", level: 0 },
+        { text: "Measurable disease per RECIST 1.1, defined as:", level: 0 },
+        { text: "at least one lesion >= 10 mm", level: 1 },
+        { text: "or a lymph node >= 15 mm", level: 1 },
+      ],
+      exclusion: [
+        { text: "Prior treatment with a PD-1 inhibitor", level: 0 },
+        { text: "Active infection requiring systemic therapy", level: 0 },
+      ],
+    });
+  });
+
+  it("should recognize key criteria headings and treat leading text as inclusion", () => {
+    const text = [
+      "Adults with asthma.",
+      "",
+      "**Key Exclusion Criteria:**",
+      "- Smoking history",
+    ].join("\n");
+
+    const result = parseEligibilityCriteria(text);
+
+    expect(result.inclusion.map((c) => c.text)).toEqual(["Adults with asthma."]);
+    expect(result.exclusion.map((c) => c.text)).toEqual(["Smoking history"]);
+  });
+
+  it("should attach extracted constraints to criteria", () => {
+    const result = parseEligibilityCriteria(
+      "Inclusion Criteria:\n\n* Age ≥ 18 years\n* ECOG performance status 0-1",
+    );
+
+    expect(result.inclusion[0].constraints).toEqual([
+      { type: "age", operator: ">=", value: 18, unit: "years", source: "Age ≥ 18 years" },
+    ]);
+    expect(result.inclusion[1].constraints).toEqual([
+      expect.objectContaining({ scale: "ECOG", operator: "<=", value: 1 }),
+    ]);
+  });
+});
+
+describe("extractConstraints", () => {
+  it.each([
+    ["Aged 18 to 75 years", [[">=", 18], ["<=", 75]]],
+    ["Participants 6-17 years of age", [[">=", 6], ["<=", 17]]],
+    ["18 years of age or older", [[">=", 18]]],
+    ["Men and women 65 years and younger", [["<=", 65]]],
+  ])("should extract age limits from %j", (text, expected) => {
+    const constraints = extractConstraints(text);
+
+    expect(constraints.map((c) => [c.operator, c.value])).toEqual(expected);
+    expect(constraints.every((c) => c.type === "age")).toBe(true);
+  });
+
+  it("should not mistake durations for age limits", () => {
+    expect(extractConstraints("Life expectancy of 3 months or over")).toEqual([]);
+  });
+
+  it("should extract ECOG lists and Karnofsky thresholds", () => {
+    expect(extractConstraints("ECOG performance status of 0, 1, or 2")).toEqual([
+      expect.objectContaining({ scale: "ECOG", operator: "<=", value: 2 }),
+    ]);
+    expect(extractConstraints("Karnofsky performance status ≥ 70%")).toEqual([
+      expect.objectContaining({ scale: "Karnofsky", operator: ">=", value: 70 }),
+    ]);
+  });
+
+  it("should extract lab thresholds with units", () => {
+    const constraints = extractConstraints(
+      "ANC ≥ 1,500/mm3, platelets ≥ 100 x 10^9/L, and AST and ALT ≤ 2.5 × ULN",
+    );
+
+    expect(
+      constraints.map((c) => c.type === "lab" && [c.analyte, c.operator, c.value, c.unit]),
+    ).toEqual([
+      ["ANC", ">=", 1500, "/mm3"],
+      ["Platelets", ">=", 100, "x 10^9/L"],
+      ["AST", "<=", 2.5, "× ULN"],
+      ["ALT", "<=", 2.5, "× ULN"],
+    ]);
+  });
+
+  it("should read phrased operators", () => {
+    expect(extractConstraints("Hemoglobin of at least 9 g/dL")).toEqual([
+      expect.objectContaining({ analyte: "Hemoglobin", operator: ">=", value: 9, unit: "g/dL" }),
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Tests for the study version diff utility.
+ * @module tests/utils/clinicaltrials/studyDiff.test
+ */
+import { describe, expect, it } from "vitest";
+import type { Study } from "../../../src/services/clinical-trials-gov";
+import {
+  diffStudies,
+  flattenStudy,
+} from "../../../src/utils/clinicaltrials/studyDiff";
+
+const version = (overrides: {
+  status?: string;
+  enrollment?: number;
+  primary?: string[];
+  secondary?: string[];
+}): Study => ({
+  protocolSection: {
+    identificationModule: { nctId: "NCT00000001" },
+    statusModule: {
+      overallStatus: overrides.status ?? "RECRUITING",
+      lastUpdateSubmitDate: String(Math.random()),
+    },
+    designModule: {
+      phases: ["PHASE2", "PHASE3"],
+      enrollmentInfo: { count: overrides.enrollment ?? 100 },
+    },
+    outcomesModule: {
+      primaryOutcomes: (overrides.primary ?? ["Overall survival"]).map(
+        (measure) => ({ measure, timeFrame: "2 years" }),
+      ),
+      secondaryOutcomes: (overrides.secondary ?? []).map((measure) => ({
+        measure,
+      })),
+    },
+  },
+  derivedSection: { miscInfoModule: { versionHolder: String(Math.random()) } },
+});
+
+describe("flattenStudy", () => {
+  it("should flatten nested objects and keep primitive arrays whole", () => {
+    const fields = flattenStudy(version({}));
+
+    expect(fields.get("protocolSection.designModule.phases")).toBe(
+      "PHASE2; PHASE3",
+    );
+    expect(
+      fields.get("protocolSection.outcomesModule.primaryOutcomes[0].measure"),
+    ).toBe("Overall survival");
+    expect([...fields.keys()].some((k) => k.startsWith("derivedSection"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("diffStudies", () => {
+  it("should report changed fields, ignoring administrative dates", () => {
+    const diff = diffStudies(
+      version({}),
+      version({ status: "COMPLETED", enrollment: 87 }),
+    );
+
+    expect(diff.changes).toEqual([
+      {
+        path: "protocolSection.designModule.enrollmentInfo.count",
+        module: "designModule",
+        before: 100,
+        after: 87,
+      },
+      {
+        path: "protocolSection.statusModule.overallStatus",
+        module: "statusModule",
+        before: "RECRUITING",
+        after: "COMPLETED",
+      },
+    ]);
+  });
+
+  it("should match outcome measures by title regardless of order and case", () => {
+    const diff = diffStudies(
+      version({
+        primary: ["Overall survival"],
+        secondary: ["Quality of life", "Toxicity"],
+      }),
+      version({
+        primary: ["Progression-free survival"],
+        secondary: ["toxicity", "Quality of Life"],
+      }),
+    );
+
+    expect(diff.outcomes).toEqual({
+      primary: {
+        added: ["Progression-free survival"],
+        removed: ["Overall survival"],
+      },
+      secondary: { added: [], removed: [] },
+    });
+  });
+});
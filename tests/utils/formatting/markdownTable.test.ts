@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Tests for the markdown table formatting utility.
+ * @module tests/utils/formatting/markdownTable.test
+ */
+import { describe, expect, it } from "vitest";
+import {
+  escapeMarkdownCell,
+  formatMarkdownTable,
+} from "../../../src/utils/formatting/markdownTable";
+
+describe("formatMarkdownTable", () => {
+  it("should render headers, alignment and rows", () => {
+    const table = formatMarkdownTable(
+      ["Value", "Studies"],
+      [
+        ["PHASE2", 120],
+        ["PHASE3", 45],
+      ],
+      { align: ["left", "right"] },
+    );
+
+    expect(table).toBe(
+      [
+        "| Value | Studies |",
+        "| :--- | ---: |",
+        "| PHASE2 | 120 |",
+        "| PHASE3 | 45 |",
+      ].join("\n"),
+    );
+  });
+
+  it("should pad missing cells", () => {
+    expect(formatMarkdownTable(["A", "B"], [["x"]])).toContain("| x |  |");
+  });
+});
+
+describe("escapeMarkdownCell", () => {
+  it("should escape pipes and collapse line breaks", () => {
+    expect(escapeMarkdownCell("a | b\n  c")).toBe("a \\| b c");
+  });
+
+  it("should render empty values as empty strings", () => {
+    expect(escapeMarkdownCell(undefined)).toBe("");
+    expect(escapeMarkdownCell(null)).toBe("");
+    expect(escapeMarkdownCell(0)).toBe("0");
+  });
+});
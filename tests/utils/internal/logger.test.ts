@@ -125,6 +125,7 @@ describe("Logger", () => {
     loggerInstance.warning("logged");
     expect(mockLog).toHaveBeenCalledOnce();
     expect(mockLog).toHaveBeenCalledWith("warn", "logged", {});
+    expect(loggerInstance.getLevel()).toBe("warning");
   });
 
   it("should send an MCP notification if a sender is set", () => {
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Tests for the Prometheus metrics registry.
+ * @module tests/utils/metrics/metricsRegistry.test
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { MetricsRegistry } from "../../../src/utils/metrics/metricsRegistry.js";
+
+describe("MetricsRegistry", () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it("should render counters and gauges with escaped labels", () => {
+    const counter = registry.counter({
+      name: "calls_total",
+      help: "Total calls.",
+      labelNames: ["tool", "code"],
+    });
+    const gauge = registry.gauge({ name: "active", help: "Active things." });
+    counter.inc({ tool: "search", code: "none" });
+    counter.inc({ code: "none", tool: "search" }, 2);
+    counter.inc({ tool: 'say "hi"\n', code: "NOT_FOUND" });
+    gauge.inc();
+    gauge.inc();
+    gauge.dec();
+
+    expect(counter.get({ tool: "search", code: "none" })).toBe(3);
+    expect(counter.get({ tool: "other", code: "none" })).toBe(0);
+    expect(registry.render()).toBe(
+      [
+        "# HELP calls_total Total calls.",
+        "# TYPE calls_total counter",
+        'calls_total{tool="search",code="none"} 3',
+        'calls_total{tool="say \\"hi\\"\\n",code="NOT_FOUND"} 1',
+        "# HELP active Active things.",
+        "# TYPE active gauge",
+        "active 1",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const histogram = registry.histogram({
+      name: "latency_seconds",
+      help: "Latency.",
+      labelNames: ["endpoint"],
+      buckets: [1, 0.1],
+    });
+    histogram.observe({ endpoint: "study" }, 0.05);
+    histogram.observe({ endpoint: "study" }, 0.5);
+    histogram.observe({ endpoint: "study" }, 3);
+
+    expect(histogram.get({ endpoint: "study" })).toEqual({
+      count: 3,
+      sum: 3.55,
+    });
+    expect(registry.render().split("\n")).toEqual([
+      "# HELP latency_seconds Latency.",
+      "# TYPE latency_seconds histogram",
+      'latency_seconds_bucket{endpoint="study",le="0.1"} 1',
+      'latency_seconds_bucket{endpoint="study",le="1"} 2',
+      'latency_seconds_bucket{endpoint="study",le="+Inf"} 3',
+      'latency_seconds_sum{endpoint="study"} 3.55',
+      'latency_seconds_count{endpoint="study"} 3',
+      "",
+    ]);
+  });
+
+  it("should reject mismatched labels, negative increments, and duplicate names", () => {
+    const counter = registry.counter({
+      name: "calls_total",
+      help: "Total calls.",
+      labelNames: ["tool"],
+    });
+    expect(() => counter.inc({ outcome: "success" })).toThrow(
+      /expects labels \[tool\]/,
+    );
+    expect(() => counter.inc({ tool: "search" }, -1)).toThrow(
+      /cannot be decreased/,
+    );
+    expect(() => registry.gauge({ name: "calls_total", help: "" })).toThrow(
+      /already registered/,
+    );
+  });
+
+  it("should clear series on reset", () => {
+    const counter = registry.counter({ name: "calls_total", help: "Calls." });
+    counter.inc();
+    registry.reset();
+
+    expect(counter.get()).toBe(0);
+    expect(registry.render()).toBe(
+      "# HELP calls_total Calls.\n# TYPE calls_total counter\n",
+    );
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Tests for the fetchWithRetry utility and its circuit breaker integration.
+ * @module tests/utils/network/fetchWithRetry.test
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BaseErrorCode, McpError } from "../../../src/types-global/errors";
+import { requestContextService } from "../../../src/utils";
+import { CircuitBreaker } from "../../../src/utils/network/circuitBreaker";
+import {
+  computeRetryDelay,
+  fetchWithRetry,
+  parseRetryAfter,
+  RetryPolicy,
+} from "../../../src/utils/network/fetchWithRetry";
+
+const URL = "https://api.example.com/data";
+
+describe("fetchWithRetry", () => {
+  const context = requestContextService.createRequestContext({
+    toolName: "test-parent",
+  });
+  const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+  let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, "fetch");
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it("should retry transient statuses until a success", async () => {
+    fetchSpy
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 429 }))
+      .mockResolvedValueOnce(new Response("{}", { status: 200 }));
+
+    const response = await fetchWithRetry(URL, 1000, context, policy);
+
+    expect(response.status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should return the last response once attempts are exhausted", async () => {
+    fetchSpy.mockImplementation(
+      async () => new Response(null, { status: 502 }),
+    );
+
+    const response = await fetchWithRetry(URL, 1000, context, policy);
+
+    expect(response.status).toBe(502);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry non-retryable statuses", async () => {
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+    const response = await fetchWithRetry(URL, 1000, context, policy);
+
+    expect(response.status).toBe(404);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry non-idempotent methods", async () => {
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+    const response = await fetchWithRetry(URL, 1000, context, policy, {
+      method: "POST",
+    });
+
+    expect(response.status).toBe(503);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry network errors and rethrow the last one", async () => {
+    fetchSpy.mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(fetchWithRetry(URL, 1000, context, policy)).rejects.toThrow(
+      expect.objectContaining({ code: BaseErrorCode.SERVICE_UNAVAILABLE }),
+    );
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("should open the circuit and short-circuit subsequent requests", async () => {
+    const breaker = new CircuitBreaker("test-upstream", {
+      failureThreshold: 2,
+      resetTimeoutMs: 60_000,
+    });
+    fetchSpy.mockImplementation(
+      async () => new Response(null, { status: 500 }),
+    );
+    const breakerPolicy = { ...policy, maxAttempts: 1, circuitBreaker: breaker };
+
+    await fetchWithRetry(URL, 1000, context, breakerPolicy);
+    await fetchWithRetry(URL, 1000, context, breakerPolicy);
+    expect(breaker.getSnapshot().state).toBe("open");
+
+    await expect(
+      fetchWithRetry(URL, 1000, context, breakerPolicy),
+    ).rejects.toThrow(McpError);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("computeRetryDelay", () => {
+  it("should honor Retry-After, capped at the maximum delay", () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 2000 };
+    expect(computeRetryDelay(1, policy, 1500)).toBe(1500);
+    expect(computeRetryDelay(1, policy, 10_000)).toBe(2000);
+  });
+
+  it("should keep jittered backoff within the exponential ceiling", () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 250 };
+    for (let i = 0; i < 20; i++) {
+      expect(computeRetryDelay(1, policy)).toBeLessThan(100);
+      expect(computeRetryDelay(3, policy)).toBeLessThan(250);
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("5", now)).toBe(5000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter("not-a-date", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const context = requestContextService.createRequestContext({
+    operation: "test",
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow a single trial request after the reset timeout", () => {
+    const breaker = new CircuitBreaker("test", {
+      failureThreshold: 1,
+      resetTimeoutMs: 1000,
+    });
+    breaker.recordFailure(context);
+    expect(() => breaker.assertCanRequest(context)).toThrow(McpError);
+
+    vi.advanceTimersByTime(1001);
+    expect(() => breaker.assertCanRequest(context)).not.toThrow();
+    expect(breaker.getSnapshot().state).toBe("half_open");
+    expect(() => breaker.assertCanRequest(context)).toThrow(McpError);
+
+    breaker.recordSuccess(context);
+    expect(breaker.getSnapshot().state).toBe("closed");
+  });
+
+  it("should reopen immediately when the trial request fails", () => {
+    const breaker = new CircuitBreaker("test", {
+      failureThreshold: 3,
+      resetTimeoutMs: 1000,
+    });
+    for (let i = 0; i < 3; i++) breaker.recordFailure(context);
+    vi.advanceTimersByTime(1001);
+    breaker.assertCanRequest(context);
+
+    breaker.recordFailure(context);
+    expect(breaker.getSnapshot().state).toBe("open");
+  });
+});
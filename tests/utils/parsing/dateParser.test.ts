@@ -99,4 +99,50 @@ describe("dateParser", () => {
       }
     });
   });
+
+  describe("parsePartial", () => {
+    it("should parse ISO partial dates without chrono-node", async () => {
+      await expect(dateParser.parsePartial("2023", context)).resolves.toEqual({
+        year: 2023,
+        month: undefined,
+        day: undefined,
+      });
+      await expect(
+        dateParser.parsePartial("2023-05", context),
+      ).resolves.toEqual({ year: 2023, month: 5, day: undefined });
+      await expect(
+        dateParser.parsePartial("2023-05-17", context),
+      ).resolves.toEqual({ year: 2023, month: 5, day: 17 });
+      expect(chrono.parse).not.toHaveBeenCalled();
+    });
+
+    it("should reject out-of-range ISO months", async () => {
+      await expect(
+        dateParser.parsePartial("2023-13", context),
+      ).resolves.toBeNull();
+    });
+
+    it("should keep only the components chrono-node is certain about", async () => {
+      const start = {
+        get: (component: string) =>
+          ({ year: 2023, month: 5, day: 1 })[component],
+        isCertain: (component: string) => component !== "day",
+      };
+      vi.spyOn(chrono, "parse").mockReturnValue([
+        { start } as unknown as chrono.ParsedResult,
+      ]);
+
+      await expect(
+        dateParser.parsePartial("May 2023", context),
+      ).resolves.toEqual({ year: 2023, month: 5, day: undefined });
+    });
+
+    it("should return null when chrono-node finds no date", async () => {
+      vi.spyOn(chrono, "parse").mockReturnValue([]);
+
+      await expect(
+        dateParser.parsePartial("not a date", context),
+      ).resolves.toBeNull();
+    });
+  });
 });
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Tests for the minimum interval of cron patterns.
+ * @module tests/utils/scheduling/cronInterval.test
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  countCronFields,
+  getMinimumCronIntervalMs,
+} from "../../../src/utils/scheduling/cronInterval.js";
+
+const minutes = (expression: string) =>
+  getMinimumCronIntervalMs(expression) / 60_000;
+
+describe("getMinimumCronIntervalMs", () => {
+  it("should find the shortest gap within a day", () => {
+    expect(minutes("* * * * *")).toBe(1);
+    expect(minutes("*/5 * * * *")).toBe(5);
+    expect(minutes("0,50 * * * *")).toBe(10);
+    expect(minutes("0 * * * *")).toBe(60);
+    expect(minutes("0 8-10/2 * * *")).toBe(120);
+  });
+
+  it("should find the shortest gap across days", () => {
+    expect(minutes("0 8 * * *")).toBe(1440);
+    expect(minutes("0 0,23 * * *")).toBe(60);
+    expect(minutes("0 8 * * mon-fri")).toBe(1440);
+    expect(minutes("0 8 * * 1")).toBe(7 * 1440);
+    expect(minutes("0 8 1 jan,jul *")).toBe(181 * 1440);
+  });
+
+  it("should treat weekday 7 as Sunday", () => {
+    expect(minutes("0 8 * * 6,7")).toBe(1440);
+  });
+
+  it("should reject patterns without exactly 5 fields", () => {
+    expect(countCronFields(" */10 * * * * * ")).toBe(6);
+    expect(() => getMinimumCronIntervalMs("* * * * * *")).toThrow(
+      /5-field cron pattern/,
+    );
+  });
+});
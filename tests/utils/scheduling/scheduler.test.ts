@@ -280,6 +280,46 @@ describe("SchedulerService", () => {
     });
   });
 
+  describe("trigger", () => {
+    it("should run a job immediately", async () => {
+      scheduler.schedule(
+        "trigger-job",
+        "0 0 * * *",
+        mockTaskFunction,
+        "Trigger test",
+      );
+
+      await scheduler.trigger("trigger-job");
+
+      expect(mockTaskFunction).toHaveBeenCalledTimes(1);
+      expect(scheduler.listJobs()[0].isRunning).toBe(false);
+      expect(logger.info).toHaveBeenCalledWith(
+        "Job 'trigger-job' triggered manually.",
+        expect.any(Object),
+      );
+    });
+
+    it("should skip the run when the job is already running", async () => {
+      const job = scheduler.schedule(
+        "busy-job",
+        "0 0 * * *",
+        mockTaskFunction,
+        "Busy test",
+      );
+      job.isRunning = true;
+
+      await scheduler.trigger("busy-job");
+
+      expect(mockTaskFunction).not.toHaveBeenCalled();
+    });
+
+    it("should throw error when triggering non-existent job", async () => {
+      await expect(scheduler.trigger("non-existent")).rejects.toThrow(
+        "Job with ID 'non-existent' not found.",
+      );
+    });
+  });
+
   describe("listJobs", () => {
     it("should return empty array when no jobs are scheduled", () => {
       const jobs = scheduler.listJobs();
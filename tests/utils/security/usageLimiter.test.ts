@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Tests for the cost-weighted, per-identity usage limiter.
+ * @module tests/utils/security/usageLimiter.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryRateLimitStore } from "../../../src/utils/security/rateLimitStore.js";
+import { UsageLimiter } from "../../../src/utils/security/usageLimiter.js";
+import { requestContextService } from "../../../src/utils/index.js";
+
+const context = requestContextService.createRequestContext({
+  operation: "test",
+});
+
+describe("UsageLimiter", () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    vi.useRealTimers();
+  });
+
+  it("should charge request costs against the window limit", async () => {
+    const limiter = new UsageLimiter(store, {
+      windowMs: 60_000,
+      windowLimit: 10,
+      dailyQuota: 0,
+    });
+
+    expect(await limiter.consume("client:a", 6, context)).toEqual({
+      allowed: true,
+      limit: 10,
+      remaining: 4,
+      resetSeconds: 60,
+      policy: "10;w=60",
+    });
+    expect(await limiter.consume("client:a", 4, context)).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect(await limiter.consume("client:a", 1, context)).toMatchObject({
+      allowed: false,
+      exceeded: "window",
+      remaining: 0,
+    });
+    // Identities are limited separately.
+    expect(await limiter.consume("client:b", 1, context)).toMatchObject({
+      allowed: true,
+      remaining: 9,
+    });
+  });
+
+  it("should reset the window limit after the window passes", async () => {
+    const limiter = new UsageLimiter(store, {
+      windowMs: 1_000,
+      windowLimit: 1,
+      dailyQuota: 0,
+    });
+
+    await limiter.consume("client:a", 1, context);
+    expect((await limiter.consume("client:a", 1, context)).allowed).toBe(false);
+    vi.advanceTimersByTime(1_000);
+    expect((await limiter.consume("client:a", 1, context)).allowed).toBe(true);
+  });
+
+  it("should enforce a daily quota that resets at UTC midnight", async () => {
+    const limiter = new UsageLimiter(store, {
+      windowMs: 1_000,
+      windowLimit: 100,
+      dailyQuota: 30,
+    });
+
+    expect(await limiter.consume("client:a", 20, context)).toMatchObject({
+      allowed: true,
+      limit: 30,
+      remaining: 10,
+      resetSeconds: 12 * 60 * 60,
+      policy: "100;w=1, 30;w=86400",
+    });
+    vi.advanceTimersByTime(1_000);
+    expect(await limiter.consume("client:a", 20, context)).toMatchObject({
+      allowed: false,
+      exceeded: "daily",
+    });
+
+    vi.setSystemTime(new Date("2026-10-20T00:00:00Z"));
+    expect((await limiter.consume("client:a", 20, context)).allowed).toBe(true);
+  });
+
+  it("should not charge the daily quota for requests over the window limit", async () => {
+    const limiter = new UsageLimiter(store, {
+      windowMs: 1_000,
+      windowLimit: 5,
+      dailyQuota: 10,
+    });
+
+    expect((await limiter.consume("client:a", 8, context)).exceeded).toBe(
+      "window",
+    );
+    vi.advanceTimersByTime(1_000);
+    expect(await limiter.consume("client:a", 5, context)).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    vi.advanceTimersByTime(1_000);
+    expect((await limiter.consume("client:a", 5, context)).allowed).toBe(true);
+    vi.advanceTimersByTime(1_000);
+    expect((await limiter.consume("client:a", 1, context)).exceeded).toBe(
+      "daily",
+    );
+  });
+});